@@ -0,0 +1,54 @@
+// Spectral-flux FFT benchmark + equivalence check.
+// Loads src/lib/fftBenchmark.ts through Vite's SSR loader (no extra tooling needed).
+// Usage: npm run bench:fft   — exits non-zero if syllable counts drift out of tolerance.
+
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createServer } from "vite";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+const server = await createServer({
+  root,
+  configFile: false,
+  logLevel: "error",
+  server: { middlewareMode: true, hmr: false },
+  appType: "custom",
+  resolve: { alias: { "@": path.resolve(root, "src") } },
+  optimizeDeps: { noDiscovery: true, include: [] },
+});
+
+let failed = false;
+try {
+  const bench = await server.ssrLoadModule("/src/lib/fftBenchmark.ts");
+
+  // Keep the analysis debug logs out of the report
+  const log = console.log;
+  console.log = () => {};
+  const fftError = bench.fftMaxError();
+  const rows = bench.runSpectralFluxBenchmark();
+  console.log = log;
+
+  console.log(`FFT vs direct DFT max error: ${fftError.toExponential(2)}`);
+  console.table(rows);
+
+  const totalLegacy = rows.reduce((sum, r) => sum + r.legacyMs, 0);
+  const totalFft = rows.reduce((sum, r) => sum + r.fftMs, 0);
+  console.log(`Total: legacy ${totalLegacy.toFixed(1)} ms, fft ${totalFft.toFixed(1)} ms (${(totalLegacy / totalFft).toFixed(1)}x)`);
+
+  if (fftError > 1e-9) {
+    console.error("✗ FFT output does not match the direct DFT");
+    failed = true;
+  }
+  const drifted = rows.filter((r) => !r.withinTolerance);
+  if (drifted.length) {
+    console.error(`✗ Syllable counts out of tolerance: ${drifted.map((r) => r.name).join(", ")}`);
+    failed = true;
+  } else {
+    console.log("✓ Syllable counts match the legacy DFT within tolerance");
+  }
+} finally {
+  await server.close();
+}
+
+process.exit(failed ? 1 : 0);
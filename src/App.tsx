@@ -14,6 +14,7 @@ import Courses from "./pages/Courses";
 import Progress from "./pages/Progress";
 import Practice from "./pages/Practice";
 import Vocabulary from "./pages/Vocabulary";
+import Shop from "./pages/Shop";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -69,6 +70,14 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/app/shop"
+              element={
+                <ProtectedRoute>
+                  <Shop />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/app/profile"
               element={
@@ -101,6 +110,7 @@ const App = () => (
             <Route path="/practice" element={<Navigate to="/app/practice" replace />} />
             <Route path="/vocabulary" element={<Navigate to="/app/vocabulary" replace />} />
             <Route path="/leaderboard" element={<Navigate to="/app/leaderboard" replace />} />
+            <Route path="/shop" element={<Navigate to="/app/shop" replace />} />
             <Route path="/profile" element={<Navigate to="/app/profile" replace />} />
             <Route path="/progress" element={<Navigate to="/app/progress" replace />} />
             <Route path="/introduction" element={<Navigate to="/app" replace />} />
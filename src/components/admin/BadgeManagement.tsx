@@ -0,0 +1,503 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  useAllBadges,
+  useBackfillBadge,
+  useDeleteBadge,
+  usePreviewBadgeRule,
+  useSaveBadge,
+  BADGE_TIERS,
+  type Badge as BadgeRow,
+} from '@/hooks/useBadges';
+import { useCourses } from '@/hooks/useCourses';
+import { useAllCourseClasses } from '@/hooks/useCourseClasses';
+import { describeBadgeRule, isRuleCondition, type BadgeRule } from '@/lib/badgeRules';
+import BadgeRuleEditor from '@/components/admin/BadgeRuleEditor';
+import { BadgeCard, BADGE_ICON_NAMES } from '@/components/ui/BadgeCard';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Award, Edit, Eye, History, Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+const RARITIES = ['common', 'uncommon', 'rare', 'epic'];
+const NO_TIER = 'none';
+const PREVIEW_NAMES_SHOWN = 20;
+
+interface BadgeFormData {
+  name: string;
+  description: string;
+  icon: string;
+  category: string;
+  rarity: string;
+  coins_reward: string;
+  tier_group: string;
+  tier: string;
+  rule: BadgeRule | null;
+}
+
+const emptyForm: BadgeFormData = {
+  name: '',
+  description: '',
+  icon: 'trophy',
+  category: 'achievement',
+  rarity: 'common',
+  coins_reward: '0',
+  tier_group: '',
+  tier: NO_TIER,
+  rule: null,
+};
+
+// requirement_type/requirement_value stay the badge's headline target: the
+// metric and value of a single condition, or of the first one of a composite
+const headlineRequirement = (rule: BadgeRule): { requirement_type: string; requirement_value: number } => {
+  if (isRuleCondition(rule)) {
+    return { requirement_type: rule.metric, requirement_value: Math.round(rule.value) };
+  }
+  const first = 'all' in rule ? rule.all[0] : rule.any[0];
+  return { requirement_type: 'rule', requirement_value: headlineRequirement(first).requirement_value };
+};
+
+const BadgeManagement: React.FC = () => {
+  const { data: badges, isLoading } = useAllBadges();
+  const { data: courses } = useCourses();
+  const { data: classes } = useAllCourseClasses();
+  const saveBadge = useSaveBadge();
+  const deleteBadge = useDeleteBadge();
+  const previewRule = usePreviewBadgeRule();
+  const backfill = useBackfillBadge();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<BadgeFormData>(emptyForm);
+  // Remounts the rule editor with the rule of the badge being edited
+  const [formKey, setFormKey] = useState(0);
+  const [backfillTarget, setBackfillTarget] = useState<BadgeRow | null>(null);
+  const [grantCoins, setGrantCoins] = useState(false);
+
+  const scopeNames = useMemo(
+    () => ({
+      ...Object.fromEntries((courses || []).map(c => [c.id, c.name])),
+      ...Object.fromEntries((classes || []).map(c => [c.id, c.class_name])),
+    }),
+    [courses, classes]
+  );
+
+  const openForm = (badge: BadgeRow | null) => {
+    setEditingId(badge?.id ?? null);
+    setFormData(
+      badge
+        ? {
+            name: badge.name,
+            description: badge.description || '',
+            icon: badge.icon,
+            category: badge.category,
+            rarity: badge.rarity,
+            coins_reward: String(badge.coins_reward),
+            tier_group: badge.tier_group || '',
+            tier: badge.tier ? String(badge.tier) : NO_TIER,
+            rule: badge.rule,
+          }
+        : emptyForm
+    );
+    setFormKey(key => key + 1);
+    previewRule.reset();
+    setIsFormOpen(true);
+  };
+
+  const coinsReward = parseInt(formData.coins_reward) || 0;
+  const isTiered = formData.tier !== NO_TIER;
+  // Tiers only make sense within a group, and a group needs a tier
+  const tiersValid = isTiered === !!formData.tier_group.trim();
+  const canSave = !!formData.name.trim() && !!formData.rule && coinsReward >= 0 && tiersValid;
+
+  const handleSave = async () => {
+    if (!canSave || !formData.rule) return;
+    await saveBadge.mutateAsync({
+      id: editingId ?? undefined,
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      icon: formData.icon,
+      category: formData.category.trim() || 'achievement',
+      rarity: formData.rarity,
+      coins_reward: coinsReward,
+      tier_group: isTiered ? formData.tier_group.trim() : null,
+      tier: isTiered ? parseInt(formData.tier) : null,
+      rule: formData.rule,
+      ...headlineRequirement(formData.rule),
+    });
+    setIsFormOpen(false);
+  };
+
+  const preview = previewRule.data;
+
+  const openBackfill = (badge: BadgeRow) => {
+    setBackfillTarget(badge);
+    setGrantCoins(false);
+    backfill.reset();
+  };
+
+  const backfillResult = backfill.data;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-display font-semibold">Badges</h2>
+          <p className="text-muted-foreground">Achievements awarded automatically when their rule is met</p>
+        </div>
+        <Button className="gap-2" onClick={() => openForm(null)}>
+          <Plus className="w-4 h-4" />
+          New Badge
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : !badges?.length ? (
+        <Card className="border-dashed">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Award className="w-12 h-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground text-center">No badges yet.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {badges.map((badge, index) => (
+            <motion.div
+              key={badge.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.03 }}
+            >
+              <Card>
+                <CardContent className="py-4 flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-4 min-w-0">
+                    <BadgeCard badge={badge} earned size="sm" showDetails={false} />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <p className="font-medium">{badge.name}</p>
+                        <Badge variant="outline" className="text-xs capitalize">
+                          {badge.rarity}
+                        </Badge>
+                        {badge.tier && (
+                          <Badge variant="outline" className="text-xs">
+                            {BADGE_TIERS[badge.tier]} · {badge.tier_group}
+                          </Badge>
+                        )}
+                        {badge.coins_reward > 0 && (
+                          <Badge variant="secondary" className="text-xs">
+                            +{badge.coins_reward} C
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {badge.rule ? describeBadgeRule(badge.rule, scopeNames) : 'No rule: never awarded automatically'}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Award to learners who already qualify"
+                      disabled={!badge.rule}
+                      onClick={() => openBackfill(badge)}
+                    >
+                      <History className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => openForm(badge)}>
+                      <Edit className="w-4 h-4 text-primary" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon">
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Badge</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Delete "{badge.name}"? Learners who earned it lose it; coins already rewarded are kept.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteBadge.mutate(badge.id)}
+                            className="bg-destructive hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Badge' : 'New Badge'}</DialogTitle>
+            <DialogDescription>
+              Learners get the badge on their next practice once the rule is met.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-[140px_1fr] gap-4">
+              <div className="space-y-2">
+                <Label>Icon</Label>
+                <Select value={formData.icon} onValueChange={(icon) => setFormData({ ...formData, icon })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BADGE_ICON_NAMES.map(icon => (
+                      <SelectItem key={icon} value={icon}>
+                        {icon}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Name *</Label>
+                <Input
+                  placeholder="e.g., Weekend Warrior"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Textarea
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Rarity</Label>
+                <Select value={formData.rarity} onValueChange={(rarity) => setFormData({ ...formData, rarity })}>
+                  <SelectTrigger className="capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RARITIES.map(rarity => (
+                      <SelectItem key={rarity} value={rarity} className="capitalize">
+                        {rarity}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Input
+                  value={formData.category}
+                  onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Coin reward</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={formData.coins_reward}
+                  onChange={(e) => setFormData({ ...formData, coins_reward: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Tier group</Label>
+                <Input
+                  placeholder="e.g., practice-count"
+                  value={formData.tier_group}
+                  onChange={(e) => setFormData({ ...formData, tier_group: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Tier</Label>
+                <Select value={formData.tier} onValueChange={(tier) => setFormData({ ...formData, tier })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TIER}>Not tiered</SelectItem>
+                    {Object.entries(BADGE_TIERS).map(([tier, name]) => (
+                      <SelectItem key={tier} value={tier}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className={`text-xs -mt-2 ${tiersValid ? 'text-muted-foreground' : 'text-destructive'}`}>
+              {tiersValid
+                ? 'Badges sharing a tier group are bronze, silver and gold of one achievement; learners keep one and it upgrades in place.'
+                : 'A tiered badge needs both a tier group and a tier.'}
+            </p>
+
+            <BadgeRuleEditor
+              key={formKey}
+              rule={formData.rule}
+              onChange={(rule) => {
+                setFormData(current => ({ ...current, rule }));
+                previewRule.reset();
+              }}
+            />
+            {formData.rule && (
+              <p className="text-xs text-muted-foreground">{describeBadgeRule(formData.rule, scopeNames)}</p>
+            )}
+
+            <div className="p-3 rounded-lg bg-muted/50 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium">Who qualifies right now</p>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="gap-1"
+                  disabled={!formData.rule || previewRule.isPending}
+                  onClick={() => formData.rule && previewRule.mutate({ rule: formData.rule, badgeId: editingId ?? undefined })}
+                >
+                  {previewRule.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Eye className="w-3 h-3" />}
+                  Preview
+                </Button>
+              </div>
+              {preview && (
+                <div className="space-y-1">
+                  <p className="text-sm">
+                    {preview.length} learner{preview.length === 1 ? '' : 's'} qualify
+                    {editingId && `, ${preview.filter(row => row.already_earned).length} already have the badge`}
+                  </p>
+                  {preview.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {preview
+                        .slice(0, PREVIEW_NAMES_SHOWN)
+                        .map(row => `${row.display_name || row.email}${row.already_earned ? ' ✓' : ''}`)
+                        .join(', ')}
+                      {preview.length > PREVIEW_NAMES_SHOWN && ` and ${preview.length - PREVIEW_NAMES_SHOWN} more`}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter className="pt-4">
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!canSave || saveBadge.isPending}>
+              {saveBadge.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              {editingId ? 'Save Changes' : 'Create Badge'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!backfillTarget} onOpenChange={(open) => !open && setBackfillTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Backfill "{backfillTarget?.name}"</DialogTitle>
+            <DialogDescription>
+              Checks every learner's history against the badge rule and awards it to those who already met it,
+              dated when they first did. Learners who hold it, or a higher tier, are skipped.
+            </DialogDescription>
+          </DialogHeader>
+
+          {backfillResult ? (
+            <div className="p-3 rounded-lg bg-muted/50 text-sm space-y-1">
+              <p className="font-medium">
+                {backfillResult.awarded + backfillResult.upgraded} of {backfillResult.evaluated} learners affected
+              </p>
+              <p className="text-muted-foreground">
+                {backfillResult.awarded} awarded
+                {backfillResult.upgraded > 0 && `, ${backfillResult.upgraded} upgraded from a lower tier`}
+                {backfillResult.coins_granted > 0 && `, ${backfillResult.coins_granted} C granted`}
+              </p>
+            </div>
+          ) : (
+            <div className="flex items-center gap-3">
+              <Switch
+                id="backfill_grant_coins"
+                checked={grantCoins}
+                onCheckedChange={setGrantCoins}
+                disabled={!backfillTarget?.coins_reward}
+              />
+              <Label htmlFor="backfill_grant_coins">
+                {backfillTarget?.coins_reward
+                  ? `Grant the ${backfillTarget.coins_reward} C reward to each learner awarded`
+                  : 'This badge has no coin reward'}
+              </Label>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBackfillTarget(null)}>
+              {backfillResult ? 'Close' : 'Cancel'}
+            </Button>
+            {!backfillResult && (
+              <Button
+                disabled={backfill.isPending}
+                onClick={() =>
+                  backfillTarget &&
+                  backfill.mutate({
+                    badgeId: backfillTarget.id,
+                    grantCoins: grantCoins && backfillTarget.coins_reward > 0
+                  })
+                }
+              >
+                {backfill.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+                Run Backfill
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default BadgeManagement;
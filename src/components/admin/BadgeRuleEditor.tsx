@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { useCourses } from '@/hooks/useCourses';
+import { useAllCourseClasses } from '@/hooks/useCourseClasses';
+import {
+  BADGE_METRICS,
+  BADGE_RULE_OPERATORS,
+  isRuleCondition,
+  isValidBadgeRule,
+  normalizeCondition,
+  type BadgeMetric,
+  type BadgeRule,
+  type BadgeRuleCondition,
+  type BadgeRuleOperator,
+} from '@/lib/badgeRules';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Braces, ListChecks, Plus, X } from 'lucide-react';
+
+type Combinator = 'all' | 'any';
+type ScopeKind = 'none' | 'course_id' | 'class_id' | 'category';
+
+const NEW_CONDITION: BadgeRuleCondition = { metric: 'practice_count', op: '>=', value: 10 };
+
+// The builder edits one condition or one all/any list of conditions; deeper
+// nesting is edited as JSON
+const toBuilder = (rule: BadgeRule | null): { combinator: Combinator; conditions: BadgeRuleCondition[] } | null => {
+  if (!rule) return { combinator: 'all', conditions: [] };
+  if (isRuleCondition(rule)) return { combinator: 'all', conditions: [rule] };
+  const combinator: Combinator = 'all' in rule ? 'all' : 'any';
+  const parts = 'all' in rule ? rule.all : rule.any;
+  return parts.every(isRuleCondition) ? { combinator, conditions: parts as BadgeRuleCondition[] } : null;
+};
+
+const fromBuilder = (combinator: Combinator, conditions: BadgeRuleCondition[]): BadgeRule | null => {
+  // A scope was chosen but not filled in yet
+  if (conditions.some(c => BADGE_METRICS[c.metric].supportsScope && c.scope && Object.values(c.scope).some(v => !v?.trim()))) {
+    return null;
+  }
+  const normalized = conditions.map(normalizeCondition);
+  if (normalized.length === 0) return null;
+  if (normalized.length === 1) return normalized[0];
+  return combinator === 'all' ? { all: normalized } : { any: normalized };
+};
+
+const scopeKind = (condition: BadgeRuleCondition): ScopeKind =>
+  (Object.keys(condition.scope || {})[0] as ScopeKind) || 'none';
+
+// Edits badges.rule; reports null while the rule is empty or invalid
+const BadgeRuleEditor: React.FC<{
+  rule: BadgeRule | null;
+  onChange: (rule: BadgeRule | null) => void;
+}> = ({ rule, onChange }) => {
+  const { data: courses } = useCourses();
+  const { data: classes } = useAllCourseClasses();
+
+  const initial = toBuilder(rule);
+  const [mode, setMode] = useState<'builder' | 'json'>(initial ? 'builder' : 'json');
+  const [combinator, setCombinator] = useState<Combinator>(initial?.combinator ?? 'all');
+  const [conditions, setConditions] = useState<BadgeRuleCondition[]>(initial?.conditions ?? []);
+  const [jsonText, setJsonText] = useState(rule ? JSON.stringify(rule, null, 2) : '');
+  const [jsonError, setJsonError] = useState<string | null>(null);
+
+  const updateBuilder = (nextCombinator: Combinator, nextConditions: BadgeRuleCondition[]) => {
+    setCombinator(nextCombinator);
+    setConditions(nextConditions);
+    onChange(fromBuilder(nextCombinator, nextConditions));
+  };
+
+  const updateCondition = (index: number, changes: Partial<BadgeRuleCondition>) => {
+    updateBuilder(
+      combinator,
+      conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition))
+    );
+  };
+
+  const updateJson = (text: string) => {
+    setJsonText(text);
+    try {
+      const parsed = JSON.parse(text);
+      if (!isValidBadgeRule(parsed)) {
+        setJsonError('Not a valid rule: check metrics, operators, window_days and scope.');
+        onChange(null);
+        return;
+      }
+      setJsonError(null);
+      onChange(parsed);
+    } catch {
+      setJsonError('Not valid JSON.');
+      onChange(null);
+    }
+  };
+
+  const switchToJson = () => {
+    setJsonText(JSON.stringify(fromBuilder(combinator, conditions), null, 2));
+    setJsonError(null);
+    setMode('json');
+  };
+
+  const builderFromJson = jsonError ? null : toBuilder(rule);
+  const switchToBuilder = () => {
+    if (!builderFromJson) return;
+    setCombinator(builderFromJson.combinator);
+    setConditions(builderFromJson.conditions);
+    setMode('builder');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label>Award when *</Label>
+        {mode === 'builder' ? (
+          <Button type="button" variant="ghost" size="sm" className="gap-1 h-7" onClick={switchToJson}>
+            <Braces className="w-3 h-3" />
+            Edit as JSON
+          </Button>
+        ) : (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="gap-1 h-7"
+            onClick={switchToBuilder}
+            disabled={!builderFromJson}
+            title={builderFromJson ? undefined : 'Nested rules can only be edited as JSON'}
+          >
+            <ListChecks className="w-3 h-3" />
+            Use builder
+          </Button>
+        )}
+      </div>
+
+      {mode === 'json' ? (
+        <div className="space-y-1">
+          <Textarea
+            value={jsonText}
+            onChange={(e) => updateJson(e.target.value)}
+            rows={8}
+            className="font-mono text-xs"
+            placeholder='{"all": [{"metric": "practice_count", "op": ">=", "value": 20, "window_days": 7}]}'
+          />
+          {jsonError && <p className="text-xs text-destructive">{jsonError}</p>}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {conditions.length > 1 && (
+            <Select value={combinator} onValueChange={(value) => updateBuilder(value as Combinator, conditions)}>
+              <SelectTrigger className="h-8 w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All conditions are met</SelectItem>
+                <SelectItem value="any">Any condition is met</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
+          {conditions.map((condition, index) => {
+            const info = BADGE_METRICS[condition.metric];
+            const kind = scopeKind(condition);
+
+            return (
+              <div key={index} className="p-3 rounded-lg border border-border/50 space-y-2">
+                <div className="flex gap-2">
+                  <Select
+                    value={condition.metric}
+                    onValueChange={(metric) => updateCondition(index, { metric: metric as BadgeMetric })}
+                  >
+                    <SelectTrigger className="h-8 flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(BADGE_METRICS).map(([metric, metricInfo]) => (
+                        <SelectItem key={metric} value={metric}>
+                          {metricInfo.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={condition.op}
+                    onValueChange={(op) => updateCondition(index, { op: op as BadgeRuleOperator })}
+                  >
+                    <SelectTrigger className="h-8 w-[70px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {BADGE_RULE_OPERATORS.map(op => (
+                        <SelectItem key={op} value={op}>
+                          {op}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    className="h-8 w-[90px]"
+                    value={condition.value}
+                    onChange={(e) => updateCondition(index, { value: parseFloat(e.target.value) || 0 })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => updateBuilder(combinator, conditions.filter((_, i) => i !== index))}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                {(info.supportsWindow || info.supportsScope) && (
+                  <div className="flex gap-2 flex-wrap">
+                    {info.supportsWindow && (
+                      <Input
+                        type="number"
+                        min={1}
+                        className="h-8 w-[140px]"
+                        placeholder="All time"
+                        value={condition.window_days ?? ''}
+                        onChange={(e) =>
+                          updateCondition(index, { window_days: parseInt(e.target.value) || undefined })
+                        }
+                        title="Last N days, 1 = today only"
+                      />
+                    )}
+                    {info.supportsScope && (
+                      <>
+                        <Select
+                          value={kind}
+                          onValueChange={(value) =>
+                            updateCondition(index, {
+                              scope: value === 'none' ? undefined : { [value]: '' }
+                            })
+                          }
+                        >
+                          <SelectTrigger className="h-8 w-[140px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Everywhere</SelectItem>
+                            <SelectItem value="course_id">In a course</SelectItem>
+                            <SelectItem value="class_id">In a class</SelectItem>
+                            <SelectItem value="category">In a category</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {kind === 'category' && (
+                          <Input
+                            className="h-8 flex-1 min-w-[120px]"
+                            placeholder="e.g., Vocabulary"
+                            value={condition.scope?.category ?? ''}
+                            onChange={(e) => updateCondition(index, { scope: { category: e.target.value } })}
+                          />
+                        )}
+                        {(kind === 'course_id' || kind === 'class_id') && (
+                          <Select
+                            value={condition.scope?.[kind] || undefined}
+                            onValueChange={(id) => updateCondition(index, { scope: { [kind]: id } })}
+                          >
+                            <SelectTrigger className="h-8 flex-1 min-w-[160px]">
+                              <SelectValue placeholder={kind === 'course_id' ? 'Choose a course' : 'Choose a class'} />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {kind === 'course_id'
+                                ? courses?.map(c => (
+                                    <SelectItem key={c.id} value={c.id}>
+                                      {c.code} · {c.name}
+                                    </SelectItem>
+                                  ))
+                                : classes?.map(c => (
+                                    <SelectItem key={c.id} value={c.id}>
+                                      {c.class_code} · {c.class_name}
+                                    </SelectItem>
+                                  ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            onClick={() => updateBuilder(combinator, [...conditions, NEW_CONDITION])}
+          >
+            <Plus className="w-3 h-3" />
+            Add condition
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BadgeRuleEditor;
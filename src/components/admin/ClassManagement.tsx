@@ -19,6 +19,7 @@ import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import ClassPoolManager from '@/components/admin/ClassPoolManager';
 import { calculateLessonDeadlines, formatScheduleDays } from '@/lib/scheduleUtils';
 import { format } from 'date-fns';
 import { 
@@ -34,7 +35,8 @@ import {
   ChevronUp,
   UserPlus,
   UserMinus,
-  Search
+  Search,
+  PiggyBank
 } from 'lucide-react';
 import {
   Dialog,
@@ -78,6 +80,7 @@ interface ClassFormData {
   class_name: string;
   class_code: string;
   start_date: string;
+  end_date: string;
   schedule_days: string[];
   is_active: boolean;
 }
@@ -87,6 +90,7 @@ const emptyForm: ClassFormData = {
   class_name: '',
   class_code: '',
   start_date: '',
+  end_date: '',
   schedule_days: ['monday', 'wednesday', 'friday'],
   is_active: true
 };
@@ -97,6 +101,7 @@ type CourseClassRow = {
   class_name: string;
   class_code: string;
   start_date: string;
+  end_date?: string | null;
   schedule_days?: string[] | null;
   is_active: boolean;
   learner_count?: number | null;
@@ -130,6 +135,7 @@ const ClassManagement: React.FC = () => {
       class_name: formData.class_name,
       class_code: formData.class_code,
       start_date: formData.start_date,
+      end_date: formData.end_date || null,
       schedule_days: formData.schedule_days,
       is_active: formData.is_active
     });
@@ -145,6 +151,7 @@ const ClassManagement: React.FC = () => {
       class_name: formData.class_name,
       class_code: formData.class_code,
       start_date: formData.start_date,
+      end_date: formData.end_date || null,
       schedule_days: formData.schedule_days,
       is_active: formData.is_active
     });
@@ -158,6 +165,7 @@ const ClassManagement: React.FC = () => {
       class_name: cls.class_name,
       class_code: cls.class_code,
       start_date: cls.start_date,
+      end_date: cls.end_date || '',
       schedule_days: cls.schedule_days || ['monday', 'wednesday', 'friday'],
       is_active: cls.is_active
     });
@@ -256,6 +264,19 @@ const ClassManagement: React.FC = () => {
           onChange={(e) => setFormData({ ...formData, class_name: e.target.value })}
         />
       </div>
+
+      <div className="space-y-2">
+        <Label>Season End Date</Label>
+        <Input
+          type="date"
+          min={formData.start_date || undefined}
+          value={formData.end_date}
+          onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+        />
+        <p className="text-xs text-muted-foreground">
+          Optional. When seasonal resets are on, learners' coins reset after their last class season ends.
+        </p>
+      </div>
       
       <div className="space-y-3">
         <Label className="flex items-center gap-2">
@@ -303,7 +324,7 @@ const ClassManagement: React.FC = () => {
         </Button>
         <Button 
           onClick={onSubmit}
-          disabled={!formData.course_id || !formData.class_code || !formData.class_name || !formData.start_date || formLoading}
+          disabled={!formData.course_id || !formData.class_code || !formData.class_name || !formData.start_date || (!!formData.end_date && formData.end_date < formData.start_date) || formLoading}
         >
           {formLoading && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
           {submitLabel}
@@ -433,6 +454,11 @@ const ClassCard: React.FC<{
   // Filter users not already enrolled
   const enrolledUserIds = new Set(enrollments?.map(e => (e.profiles as { id?: string } | null)?.id).filter(Boolean) as string[] || []);
   const availableUsers = allUsers?.filter(u => !enrolledUserIds.has(u.id)) || [];
+  const learnerNames = Object.fromEntries(
+    ((enrollments as unknown as EnrollmentRow[]) || [])
+      .filter(e => e.profiles)
+      .map(e => [e.profiles.id, e.profiles.display_name || e.profiles.email])
+  );
   const filteredUsers = availableUsers.filter(u => 
     u.email.toLowerCase().includes(userSearch.toLowerCase()) ||
     u.display_name?.toLowerCase().includes(userSearch.toLowerCase())
@@ -525,6 +551,12 @@ const ClassCard: React.FC<{
               <Calendar className="w-3 h-3" />
               Starts: {format(new Date(cls.start_date), 'MMM d, yyyy')}
             </Badge>
+            {cls.end_date && (
+              <Badge variant="outline" className="gap-1 text-xs">
+                <Calendar className="w-3 h-3" />
+                Season ends: {format(new Date(cls.end_date), 'MMM d, yyyy')}
+              </Badge>
+            )}
             <Badge variant="outline" className="gap-1 text-xs">
               <Clock className="w-3 h-3" />
               {formatScheduleDays(cls.schedule_days)}
@@ -556,6 +588,10 @@ const ClassCard: React.FC<{
                     <BookOpen className="w-4 h-4" />
                     Schedule
                   </TabsTrigger>
+                  <TabsTrigger value="coins" className="flex-1 gap-2">
+                    <PiggyBank className="w-4 h-4" />
+                    Coins
+                  </TabsTrigger>
                 </TabsList>
                 
                 <TabsContent value="learners" className="mt-3 space-y-3">
@@ -715,6 +751,10 @@ const ClassCard: React.FC<{
                     ))}
                   </div>
                 </TabsContent>
+
+                <TabsContent value="coins" className="mt-3">
+                  <ClassPoolManager classId={cls.id} className={cls.class_name} names={learnerNames} />
+                </TabsContent>
               </Tabs>
             </CollapsibleContent>
           </Collapsible>
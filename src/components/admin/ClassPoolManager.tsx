@@ -0,0 +1,286 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  useCancelClassPool,
+  useClassGifts,
+  useClassPools,
+  useFulfillClassPool,
+  useSaveClassPool,
+  type ClassPool,
+  type ClassPoolStatus,
+} from '@/hooks/useClassCoins';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { CheckCircle2, Edit, Gift, Loader2, PiggyBank, Plus, XCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+interface ClassPoolFormData {
+  title: string;
+  description: string;
+  reward: string;
+  target: string;
+}
+
+const emptyForm: ClassPoolFormData = { title: '', description: '', reward: '', target: '' };
+
+const statusVariants: Record<ClassPoolStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  open: 'outline',
+  reached: 'default',
+  fulfilled: 'secondary',
+  cancelled: 'destructive',
+};
+
+// Class pools (group rewards) and the gift feed of one class
+const ClassPoolManager: React.FC<{
+  classId: string;
+  className: string;
+  names: Record<string, string>;
+}> = ({ classId, className, names }) => {
+  const { data: pools, isLoading } = useClassPools(classId);
+  const { data: gifts } = useClassGifts(classId, 10);
+  const savePool = useSaveClassPool();
+  const fulfillPool = useFulfillClassPool();
+  const cancelPool = useCancelClassPool();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<ClassPoolFormData>(emptyForm);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (pool: ClassPool) => {
+    setEditingId(pool.id);
+    setFormData({
+      title: pool.title,
+      description: pool.description || '',
+      reward: pool.reward,
+      target: String(pool.target),
+    });
+    setIsFormOpen(true);
+  };
+
+  const target = parseInt(formData.target) || 0;
+  const editingPool = pools?.find(p => p.id === editingId);
+  // An open pool cannot be lowered below what was already collected
+  const targetTooLow = !!editingPool && target <= editingPool.total;
+  const canSave = !!formData.title.trim() && !!formData.reward.trim() && target > 0 && !targetTooLow;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    await savePool.mutateAsync({
+      id: editingId ?? undefined,
+      classId,
+      title: formData.title.trim(),
+      description: formData.description.trim() || null,
+      reward: formData.reward.trim(),
+      target,
+    });
+    setIsFormOpen(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Button variant="outline" size="sm" className="w-full gap-2" onClick={openCreate}>
+        <Plus className="w-4 h-4" />
+        New Class Pool
+      </Button>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : !pools || pools.length === 0 ? (
+        <p className="text-center text-sm text-muted-foreground py-4">
+          No pools yet. Learners pool coins towards a group reward.
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {pools.map((pool) => {
+            const contributors = new Set(pool.contributions.map(c => c.user_id)).size;
+            return (
+              <div key={pool.id} className="p-3 rounded-lg bg-secondary/30 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{pool.title}</p>
+                    <p className="text-xs text-muted-foreground truncate">Reward: {pool.reward}</p>
+                  </div>
+                  <Badge variant={statusVariants[pool.status]} className="text-xs capitalize shrink-0">
+                    {pool.status}
+                  </Badge>
+                </div>
+                <Progress value={Math.min(100, (pool.total / pool.target) * 100)} className="h-1.5" />
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    {pool.total} / {pool.target} C · {contributors} contributor{contributors === 1 ? '' : 's'}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    {pool.status === 'open' && (
+                      <>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openEdit(pool)}>
+                          <Edit className="w-3.5 h-3.5 text-primary" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-7 w-7">
+                              <XCircle className="w-3.5 h-3.5 text-destructive" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Cancel Pool</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Cancel "{pool.title}"? The {pool.total} coins collected so far go back to the
+                                learners who contributed them.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Keep</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => cancelPool.mutate(pool.id)}
+                                className="bg-destructive hover:bg-destructive/90"
+                              >
+                                Cancel & Refund
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </>
+                    )}
+                    {pool.status === 'reached' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 gap-1 text-xs"
+                        onClick={() => fulfillPool.mutate(pool.id)}
+                        disabled={fulfillPool.isPending}
+                      >
+                        <CheckCircle2 className="w-3.5 h-3.5" />
+                        Reward Given
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {gifts && gifts.length > 0 && (
+        <div className="space-y-1 pt-2 border-t border-border/50">
+          <p className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+            <Gift className="w-3.5 h-3.5" />
+            Recent gifts
+          </p>
+          {gifts.map((gift) => (
+            <div key={gift.id} className="flex items-center justify-between gap-2 text-xs">
+              <span className="truncate">
+                {names[gift.sender_id] || 'Unknown'} → {names[gift.recipient_id] || 'Unknown'}
+                {gift.message && <span className="text-muted-foreground"> · {gift.message}</span>}
+              </span>
+              <span className="shrink-0 text-muted-foreground">
+                <span className="font-medium text-foreground">{gift.amount} C</span>{' '}
+                {formatDistanceToNow(new Date(gift.created_at), { addSuffix: true })}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <PiggyBank className="w-5 h-5" />
+              {editingId ? 'Edit Class Pool' : 'New Class Pool'}
+            </DialogTitle>
+            <DialogDescription>
+              Learners of {className} put coins in until the target is reached, which unlocks the reward.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Title *</Label>
+              <Input
+                placeholder="e.g., Movie afternoon"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Textarea
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="grid grid-cols-[1fr_8rem] gap-4">
+              <div className="space-y-2">
+                <Label>Group reward *</Label>
+                <Input
+                  placeholder="e.g., Watch an English film in class"
+                  value={formData.reward}
+                  onChange={(e) => setFormData({ ...formData, reward: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Target (C) *</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={formData.target}
+                  onChange={(e) => setFormData({ ...formData, target: e.target.value })}
+                />
+              </div>
+            </div>
+            {targetTooLow && (
+              <p className="text-sm text-destructive">
+                The target must be above the {editingPool?.total} coins already collected.
+              </p>
+            )}
+          </div>
+
+          <DialogFooter className="pt-4">
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!canSave || savePool.isPending}>
+              {savePool.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              {editingId ? 'Save Changes' : 'Create Pool'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ClassPoolManager;
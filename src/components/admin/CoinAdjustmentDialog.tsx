@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { useAdjustClassCoins, useAdjustCoins, MIN_ADJUSTMENT_REASON_LENGTH } from '@/hooks/useCoinAdjustments';
+import { useAllCourseClasses } from '@/hooks/useCourseClasses';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+export interface AdjustmentTarget {
+  id: string;
+  email: string;
+  display_name?: string | null;
+  wallet?: { balance: number } | null;
+}
+
+// Adjusts one learner (`user`), or every learner of a chosen class when no user is given
+const CoinAdjustmentDialog: React.FC<{
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user?: AdjustmentTarget | null;
+}> = ({ open, onOpenChange, user }) => {
+  const adjustCoins = useAdjustCoins();
+  const adjustClassCoins = useAdjustClassCoins();
+  const { data: classes } = useAllCourseClasses();
+
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [classId, setClassId] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setAmount('');
+      setReason('');
+      setClassId('');
+    }
+  }, [open]);
+
+  const isClass = !user;
+  const parsedAmount = parseInt(amount) || 0;
+  const balance = user?.wallet?.balance || 0;
+  const selectedClass = classes?.find(c => c.id === classId);
+  const reasonValid = reason.trim().length >= MIN_ADJUSTMENT_REASON_LENGTH;
+  const canApply = parsedAmount !== 0 && reasonValid && (!isClass || !!classId);
+  const isPending = adjustCoins.isPending || adjustClassCoins.isPending;
+
+  const handleApply = async () => {
+    if (!canApply) return;
+    if (user) {
+      await adjustCoins.mutateAsync({ userId: user.id, amount: parsedAmount, reason: reason.trim() });
+    } else {
+      await adjustClassCoins.mutateAsync({ classId, amount: parsedAmount, reason: reason.trim() });
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isClass ? 'Adjust Class Coins' : 'Adjust Coins'}</DialogTitle>
+          <DialogDescription>
+            {isClass
+              ? 'Add or remove the same amount for every learner of a class'
+              : `Add or remove coins for ${user.display_name || user.email}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {isClass ? (
+            <div className="space-y-2">
+              <Label>Class *</Label>
+              <Select value={classId} onValueChange={setClassId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a class" />
+                </SelectTrigger>
+                <SelectContent>
+                  {classes?.map(c => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.class_code} · {c.class_name} ({c.learner_count ?? 0} learners)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="p-3 bg-muted/50 rounded-lg text-center">
+              <p className="text-sm text-muted-foreground">Current Balance</p>
+              <p className="text-2xl font-bold text-accent">{balance} coins</p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Amount (use negative to deduct) *</Label>
+            <Input
+              type="number"
+              placeholder="e.g., 100 or -50"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+            {parsedAmount !== 0 && !isClass && (
+              <p className="text-xs text-muted-foreground">
+                New balance: {Math.max(balance + parsedAmount, 0)} coins
+                {balance + parsedAmount < 0 && ' (deductions stop at 0)'}
+              </p>
+            )}
+            {parsedAmount !== 0 && isClass && selectedClass && (
+              <p className="text-xs text-muted-foreground">
+                {parsedAmount > 0 ? '+' : ''}{parsedAmount} C for each of {selectedClass.learner_count ?? 0} learners;
+                deductions stop at each learner's balance
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reason *</Label>
+            <Textarea
+              placeholder="Why is this balance being corrected? Learners see this in their history."
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+            />
+            {reason.length > 0 && !reasonValid && (
+              <p className="text-xs text-destructive">
+                Give a reason of at least {MIN_ADJUSTMENT_REASON_LENGTH} characters.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!canApply || isPending}>
+            {isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CoinAdjustmentDialog;
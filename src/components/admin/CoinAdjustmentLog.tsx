@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { useCoinAdjustments } from '@/hooks/useCoinAdjustments';
+import { useAllCourseClasses } from '@/hooks/useCourseClasses';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardList, Loader2, Search } from 'lucide-react';
+
+const ALL_CLASSES = 'all';
+
+// Searchable history of manual coin adjustments (who, whom, how much, why)
+const CoinAdjustmentLog: React.FC<{
+  users: Array<{ id: string; email: string; display_name?: string | null }>;
+}> = ({ users }) => {
+  const { data: classes } = useAllCourseClasses();
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [classFilter, setClassFilter] = useState(ALL_CLASSES);
+
+  const names = useMemo(
+    () => Object.fromEntries(users.map(u => [u.id, u.display_name || u.email])),
+    [users]
+  );
+
+  // Learners and admins whose name or email matches the search
+  const matchingUserIds = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return [];
+    return users
+      .filter(u => u.email.toLowerCase().includes(term) || u.display_name?.toLowerCase().includes(term))
+      .map(u => u.id);
+  }, [users, search]);
+
+  const { data: adjustments, isLoading } = useCoinAdjustments({
+    search,
+    userIds: matchingUserIds,
+    classId: classFilter === ALL_CLASSES ? null : classFilter
+  });
+
+  const classNames = Object.fromEntries((classes || []).map(c => [c.id, c.class_name]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ClipboardList className="w-5 h-5" />
+          Adjustment Log
+        </CardTitle>
+        <CardDescription>Every manual coin adjustment with the admin who made it and the reason</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex flex-wrap gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSearch(searchInput);
+          }}
+        >
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Learner, admin or reason..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select value={classFilter} onValueChange={setClassFilter}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CLASSES}>All adjustments</SelectItem>
+              {classes?.map(c => (
+                <SelectItem key={c.id} value={c.id}>
+                  {c.class_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" variant="outline">
+            Search
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : !adjustments || adjustments.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-6">No adjustments found.</p>
+        ) : (
+          <div className="space-y-2 max-h-[480px] overflow-y-auto">
+            {adjustments.map((adjustment) => (
+              <div
+                key={adjustment.id}
+                className="flex items-start justify-between gap-4 p-3 rounded-lg border border-border/50"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium text-sm">{names[adjustment.user_id] || 'Unknown learner'}</span>
+                    {adjustment.batch_id && (
+                      <Badge variant="secondary" className="text-xs">
+                        Class: {(adjustment.class_id && classNames[adjustment.class_id]) || 'removed class'}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm">{adjustment.reason}</p>
+                  <p className="text-xs text-muted-foreground">
+                    by {(adjustment.admin_id && names[adjustment.admin_id]) || 'unknown admin'} ·{' '}
+                    {format(new Date(adjustment.created_at), "MMM d, yyyy 'at' h:mm a")}
+                  </p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className={`text-lg font-bold ${adjustment.applied < 0 ? 'text-red-500' : 'text-green-500'}`}>
+                    {adjustment.applied > 0 ? '+' : ''}{adjustment.applied} C
+                  </p>
+                  {adjustment.applied !== adjustment.requested && (
+                    <p className="text-xs text-muted-foreground">of {adjustment.requested} requested</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {adjustment.balance_before} → {adjustment.balance_after}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CoinAdjustmentLog;
@@ -1,21 +1,30 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { useCoinConfig, useUpdateCoinConfig, CoinConfig } from '@/hooks/useCoinWallet';
+import { useCoinConfig, useUpdateCoinConfig, useRunCoinExpiry, CoinConfig } from '@/hooks/useCoinWallet';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import CoinLedgerReconciliation from '@/components/admin/CoinLedgerReconciliation';
+import EconomySimulator from '@/components/admin/EconomySimulator';
+import ScoreRecalculation from '@/components/admin/ScoreRecalculation';
 import { 
   Loader2, 
   Coins,
   TrendingUp,
   TrendingDown,
   Clock,
-  Save
+  Save,
+  ShieldAlert,
+  Hourglass,
+  Gift,
+  Snowflake
 } from 'lucide-react';
 
 const CoinConfigPanel: React.FC = () => {
   const { data: config, isLoading } = useCoinConfig();
   const updateConfig = useUpdateCoinConfig();
+  const runExpiry = useRunCoinExpiry();
   
   const [localConfig, setLocalConfig] = useState<Partial<CoinConfig>>({});
   const [hasChanges, setHasChanges] = useState(false);
@@ -417,7 +426,321 @@ const CoinConfigPanel: React.FC = () => {
             </CardContent>
           </Card>
         </motion.div>
+
+        {/* Anti-Farming */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.55 }}
+          className="lg:col-span-2"
+        >
+          <Card className="border-warning/20">
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-8 rounded-lg bg-warning/10 flex items-center justify-center">
+                  <ShieldAlert className="w-4 h-4 text-warning" />
+                </div>
+                <CardTitle className="text-lg">Anti-Farming</CardTitle>
+              </div>
+              <CardDescription>
+                Limits on repeat rewards and streak bonuses. Penalties and one-off bonuses are not affected.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Full Rewards per Item/Day</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={localConfig.repeat_full_rewards_per_day ?? 3}
+                    onChange={(e) => handleChange('repeat_full_rewards_per_day', parseInt(e.target.value) || 0)}
+                  />
+                  <p className="text-xs text-muted-foreground">0 = no diminishing returns</p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Repeat Reward %</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={localConfig.repeat_reward_percent ?? 50}
+                    onChange={(e) => handleChange('repeat_reward_percent', parseInt(e.target.value) || 0)}
+                  />
+                  <p className="text-xs text-muted-foreground">Kept by each further take</p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Daily Coin Cap</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={localConfig.daily_practice_coin_cap ?? 0}
+                    onChange={(e) => handleChange('daily_practice_coin_cap', parseInt(e.target.value) || 0)}
+                  />
+                  <p className="text-xs text-muted-foreground">Rewards + streaks per day, 0 = none</p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Cooldown After</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={localConfig.repeat_cooldown_after ?? 10}
+                    onChange={(e) => handleChange('repeat_cooldown_after', parseInt(e.target.value) || 0)}
+                  />
+                  <p className="text-xs text-muted-foreground">Rewarded takes of one item, 0 = off</p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Cooldown Minutes</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={localConfig.repeat_cooldown_minutes ?? 30}
+                    onChange={(e) => handleChange('repeat_cooldown_minutes', parseInt(e.target.value) || 0)}
+                  />
+                  <p className="text-xs text-muted-foreground">Window the takes are counted in</p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Block Replayed Audio</label>
+                  <div className="h-10 flex items-center">
+                    <Switch
+                      checked={(localConfig.block_duplicate_audio ?? 1) !== 0}
+                      onCheckedChange={(checked) => handleChange('block_duplicate_audio', checked ? 1 : 0)}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">No coins for a replay of a recent take</p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Replay Similarity %</label>
+                  <Input
+                    type="number"
+                    min={50}
+                    max={100}
+                    value={localConfig.duplicate_audio_similarity ?? 97}
+                    onChange={(e) => handleChange('duplicate_audio_similarity', parseInt(e.target.value) || 0)}
+                  />
+                  <p className="text-xs text-muted-foreground">Loudness match that counts as a replay</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Expiry & Seasons */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.6 }}
+        >
+          <Card className="border-muted">
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-8 rounded-lg bg-muted flex items-center justify-center">
+                  <Hourglass className="w-4 h-4 text-muted-foreground" />
+                </div>
+                <CardTitle className="text-lg">Expiry & Seasons</CardTitle>
+              </div>
+              <CardDescription>Keeps balances from growing across cohorts. Runs nightly.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Expire After (days)</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={localConfig.coin_expiry_days ?? 0}
+                    onChange={(e) => handleChange('coin_expiry_days', parseInt(e.target.value) || 0)}
+                  />
+                  <p className="text-xs text-muted-foreground">0 = never</p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Warn (days before)</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={localConfig.coin_expiry_warning_days ?? 7}
+                    onChange={(e) => handleChange('coin_expiry_warning_days', parseInt(e.target.value) || 0)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <label className="text-sm font-medium">Reset at Season End</label>
+                  <Switch
+                    checked={(localConfig.season_reset_enabled ?? 0) !== 0}
+                    onCheckedChange={(checked) => handleChange('season_reset_enabled', checked ? 1 : 0)}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Balance resets after a learner's last class season ends (set in Classes)
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full gap-2"
+                onClick={() => runExpiry.mutate()}
+                disabled={runExpiry.isPending || hasChanges}
+                title={hasChanges ? 'Save your changes first' : undefined}
+              >
+                {runExpiry.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Hourglass className="w-4 h-4" />}
+                Run Expiry Now
+              </Button>
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Gifts & Class Pools */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.7 }}
+        >
+          <Card className="border-pink-500/30">
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-8 rounded-lg bg-pink-500/10 flex items-center justify-center">
+                  <Gift className="w-4 h-4 text-pink-500" />
+                </div>
+                <CardTitle className="text-lg">Gifts & Class Pools</CardTitle>
+              </div>
+              <CardDescription>Coins learners pass to classmates or pool for a group reward</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between gap-2">
+                <label className="text-sm font-medium">Allow Gifts</label>
+                <Switch
+                  checked={(localConfig.gifts_enabled ?? 1) !== 0}
+                  onCheckedChange={(checked) => handleChange('gifts_enabled', checked ? 1 : 0)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Max per Gift</label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={localConfig.gift_max_amount ?? 50}
+                    onChange={(e) => handleChange('gift_max_amount', parseInt(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Gifts Sent / Day</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={localConfig.gift_daily_limit ?? 100}
+                    onChange={(e) => handleChange('gift_daily_limit', parseInt(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Gifts Received / Day</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={localConfig.gift_daily_receive_limit ?? 200}
+                    onChange={(e) => handleChange('gift_daily_receive_limit', parseInt(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Pool Coins / Day</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={localConfig.pool_daily_limit ?? 100}
+                    onChange={(e) => handleChange('pool_daily_limit', parseInt(e.target.value) || 0)}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">Pools and their rewards are set up per class in Classes</p>
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Streak Freezes & Repair */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.8 }}
+        >
+          <Card className="border-sky-500/30">
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-8 rounded-lg bg-sky-500/10 flex items-center justify-center">
+                  <Snowflake className="w-4 h-4 text-sky-500" />
+                </div>
+                <CardTitle className="text-lg">Streak Freezes & Repair</CardTitle>
+              </div>
+              <CardDescription>Protect daily streaks from missed days</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between gap-2">
+                <label className="text-sm font-medium">Use Streak Freezes</label>
+                <Switch
+                  checked={(localConfig.streak_freezes_enabled ?? 1) !== 0}
+                  onCheckedChange={(checked) => handleChange('streak_freezes_enabled', checked ? 1 : 0)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Freeze Price</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={localConfig.streak_freeze_cost ?? 50}
+                    onChange={(e) => handleChange('streak_freeze_cost', parseInt(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Max Freezes Held</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={localConfig.streak_freeze_max_held ?? 2}
+                    onChange={(e) => handleChange('streak_freeze_max_held', parseInt(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Free Freeze Every</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={localConfig.streak_freeze_earn_days ?? 7}
+                    onChange={(e) => handleChange('streak_freeze_earn_days', parseInt(e.target.value) || 0)}
+                  />
+                  <p className="text-xs text-muted-foreground">Streak days, 0 = never</p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Repair Price</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={localConfig.streak_repair_cost ?? 100}
+                    onChange={(e) => handleChange('streak_repair_cost', parseInt(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Repair Window (hours)</label>
+                  <Input
+                    type="number"
+                    min={24}
+                    max={48}
+                    value={localConfig.streak_repair_window_hours ?? 48}
+                    onChange={(e) => handleChange('streak_repair_window_hours', parseInt(e.target.value) || 48)}
+                  />
+                  <p className="text-xs text-muted-foreground">24–48 hours after the break</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
       </div>
+
+      <EconomySimulator draftConfig={localConfig} savedConfig={config} />
+
+      <ScoreRecalculation config={config} />
+
+      <CoinLedgerReconciliation />
     </div>
   );
 };
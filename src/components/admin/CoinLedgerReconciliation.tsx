@@ -0,0 +1,161 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  useCoinReconciliation,
+  useResolveCoinDrift,
+  useRunCoinReconciliation,
+} from '@/hooks/useCoinWallet';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, CheckCircle2, Loader2, RefreshCw, Scale } from 'lucide-react';
+
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+const CoinLedgerReconciliation: React.FC = () => {
+  const { data, isLoading } = useCoinReconciliation();
+  const runReconciliation = useRunCoinReconciliation();
+  const resolveDrift = useResolveCoinDrift();
+
+  const run = data?.run;
+  const drift = data?.drift ?? [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.6 }}
+    >
+      <Card className={drift.length > 0 ? 'border-destructive/30' : 'border-success/20'}>
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                <Scale className="w-4 h-4 text-primary" />
+              </div>
+              <CardTitle className="text-lg">Ledger Reconciliation</CardTitle>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => runReconciliation.mutate()}
+              disabled={runReconciliation.isPending}
+            >
+              {runReconciliation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <RefreshCw className="w-4 h-4" />
+              )}
+              Run Now
+            </Button>
+          </div>
+          <CardDescription>
+            Wallet balances compared with the coin ledger. Runs nightly; drift means a balance was changed outside the ledger.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : !run ? (
+            <p className="text-sm text-muted-foreground">No reconciliation has run yet.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+                {[
+                  { label: 'Last run', value: formatDistanceToNow(new Date(run.started_at), { addSuffix: true }) },
+                  { label: 'Wallets checked', value: run.users_checked },
+                  { label: 'With drift', value: run.drifted_users },
+                  { label: 'Total drift', value: run.total_drift },
+                ].map(({ label, value }) => (
+                  <div key={label} className="rounded-lg bg-secondary/60 py-2">
+                    <p className="text-lg font-semibold">{value}</p>
+                    <p className="text-[10px] text-muted-foreground uppercase tracking-wide">{label}</p>
+                  </div>
+                ))}
+              </div>
+
+              {run.ledger_imbalance !== 0 && (
+                <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  Debits and credits differ by {run.ledger_imbalance} across the ledger.
+                </div>
+              )}
+
+              {drift.length === 0 ? (
+                <div className="flex items-center gap-2 text-sm text-success">
+                  <CheckCircle2 className="w-4 h-4" />
+                  All wallets match the ledger.
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-muted-foreground uppercase tracking-wide">
+                        <th className="py-2 pr-4 font-medium">Learner</th>
+                        <th className="py-2 pr-4 font-medium text-right">Wallet</th>
+                        <th className="py-2 pr-4 font-medium text-right">Ledger</th>
+                        <th className="py-2 pr-4 font-medium text-right">Drift</th>
+                        <th className="py-2 font-medium text-right">Resolve</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {drift.map((row) => {
+                        const isResolving = resolveDrift.isPending && resolveDrift.variables?.driftId === row.id;
+                        return (
+                          <tr key={row.id} className="border-t border-border/50">
+                            <td className="py-2 pr-4">
+                              <p className="font-medium">{row.profile?.display_name || row.profile?.email || row.user_id}</p>
+                              {(row.wallet_earned !== row.ledger_earned || row.wallet_spent !== row.ledger_spent) && (
+                                <p className="text-xs text-muted-foreground">
+                                  earned {row.wallet_earned}/{row.ledger_earned} · spent {row.wallet_spent}/{row.ledger_spent}
+                                </p>
+                              )}
+                            </td>
+                            <td className="py-2 pr-4 text-right tabular-nums">{row.wallet_balance}</td>
+                            <td className="py-2 pr-4 text-right tabular-nums">{row.ledger_balance}</td>
+                            <td className={`py-2 pr-4 text-right tabular-nums font-semibold ${
+                              row.balance_drift > 0 ? 'text-success' : row.balance_drift < 0 ? 'text-destructive' : ''
+                            }`}>
+                              {formatSigned(row.balance_drift)}
+                            </td>
+                            <td className="py-2">
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  disabled={isResolving}
+                                  title="The ledger is right: reset the wallet to the ledger balance"
+                                  onClick={() => resolveDrift.mutate({ driftId: row.id, resolution: 'ledger' })}
+                                >
+                                  Use ledger
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  disabled={isResolving}
+                                  title="The wallet is right: post an adjustment so the ledger matches it"
+                                  onClick={() => resolveDrift.mutate({ driftId: row.id, resolution: 'wallet' })}
+                                >
+                                  Keep wallet
+                                </Button>
+                              </div>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default CoinLedgerReconciliation;
@@ -0,0 +1,305 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { format, parseISO, subWeeks } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { useEconomySimulationData } from '@/hooks/useEconomySimulator';
+import type { CoinConfig } from '@/hooks/useCoinWallet';
+import {
+  generateSyntheticTakes,
+  simulateEconomy,
+  SYNTHETIC_PROFILES,
+  type EconomySimulation,
+} from '@/lib/economySimulator';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, FlaskConical, Loader2 } from 'lucide-react';
+
+interface EconomySimulatorProps {
+  draftConfig: Partial<CoinConfig>;
+  savedConfig?: Partial<CoinConfig>;
+}
+
+type SimulationSource = 'history' | 'synthetic';
+
+const HISTORY_PERIODS = [
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: 'all', label: 'All history' },
+];
+
+const SYNTHETIC_WEEKS = 8;
+
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+const averageInflation = (simulation: EconomySimulation) => {
+  const rates = simulation.weeks.map((w) => w.inflation).filter((rate): rate is number => rate !== null);
+  return rates.length ? Math.round((rates.reduce((sum, rate) => sum + rate, 0) / rates.length) * 10) / 10 : null;
+};
+
+const EconomySimulator: React.FC<EconomySimulatorProps> = ({ draftConfig, savedConfig }) => {
+  const [source, setSource] = useState<SimulationSource>('history');
+  const [period, setPeriod] = useState('90');
+  const [courseId, setCourseId] = useState<string | null>(null);
+
+  const { data, isLoading } = useEconomySimulationData(period === 'all' ? null : parseInt(period));
+
+  const coursesWithLessons = useMemo(
+    () => (data?.courses || []).filter((course) => data?.lessons.some((lesson) => lesson.course_id === course.id)),
+    [data]
+  );
+  const syntheticCourseId = courseId ?? coursesWithLessons[0]?.id ?? null;
+
+  const input = useMemo(() => {
+    if (!data) return null;
+    if (source === 'history') {
+      return { takes: data.takes, lessons: data.lessons, learners: data.learners };
+    }
+
+    const lessons = data.lessons.filter((lesson) => lesson.course_id === syntheticCourseId);
+    const { takes, learners } = generateSyntheticTakes({
+      profiles: SYNTHETIC_PROFILES,
+      lessons,
+      startDate: subWeeks(new Date(), SYNTHETIC_WEEKS),
+      weeks: SYNTHETIC_WEEKS,
+    });
+    return { takes, lessons, learners };
+  }, [data, source, syntheticCourseId]);
+
+  const draft = useMemo(() => (input ? simulateEconomy({ ...input, config: draftConfig }) : null), [input, draftConfig]);
+  const saved = useMemo(
+    () => (input && savedConfig ? simulateEconomy({ ...input, config: savedConfig }) : null),
+    [input, savedConfig]
+  );
+
+  const weeklyData = useMemo(() => {
+    if (!draft) return [];
+    return draft.weeks.map((week) => ({
+      week: format(parseISO(week.weekStart), 'MMM d'),
+      Draft: week.net,
+      Saved: saved?.weeks.find((w) => w.weekStart === week.weekStart)?.net ?? 0,
+    }));
+  }, [draft, saved]);
+
+  const newlyZeroed = useMemo(() => {
+    if (!draft) return [];
+    const zeroedBefore = new Set(saved?.learners.filter((l) => l.zeroedAt).map((l) => l.userId));
+    return draft.learners
+      .filter((learner) => learner.zeroedAt)
+      .map((learner) => ({ ...learner, isNew: !zeroedBefore.has(learner.userId) }))
+      .sort((a, b) => Number(b.isNew) - Number(a.isNew) || b.cappedPenalties - a.cappedPenalties);
+  }, [draft, saved]);
+
+  const learnerCount = draft?.learners.length || 0;
+  const maxBucket = Math.max(1, ...(draft?.distribution.map((b) => b.count) || []), ...(saved?.distribution.map((b) => b.count) || []));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.55 }}
+    >
+      <Card className="border-primary/20">
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex items-center gap-2">
+              <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                <FlaskConical className="w-4 h-4 text-primary" />
+              </div>
+              <CardTitle className="text-lg">Economy Simulator</CardTitle>
+            </div>
+            <div className="flex items-center gap-2 flex-wrap">
+              <Button
+                size="sm"
+                variant={source === 'history' ? 'default' : 'outline'}
+                onClick={() => setSource('history')}
+              >
+                Real history
+              </Button>
+              <Button
+                size="sm"
+                variant={source === 'synthetic' ? 'default' : 'outline'}
+                onClick={() => setSource('synthetic')}
+              >
+                Synthetic learners
+              </Button>
+              {source === 'history' ? (
+                <Select value={period} onValueChange={setPeriod}>
+                  <SelectTrigger className="w-[150px] h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HISTORY_PERIODS.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Select value={syntheticCourseId ?? undefined} onValueChange={setCourseId}>
+                  <SelectTrigger className="w-[200px] h-9">
+                    <SelectValue placeholder="Course" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {coursesWithLessons.map((course) => (
+                      <SelectItem key={course.id} value={course.id}>{course.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+          <CardDescription>
+            {source === 'history'
+              ? 'Replays recorded practice with the unsaved settings above. Every learner starts at 0 coins; badges and duplicate-audio checks are not included.'
+              : `${SYNTHETIC_PROFILES.length} learner profiles (${SYNTHETIC_PROFILES.map((p) => p.label.toLowerCase()).join(', ')}) practicing for ${SYNTHETIC_WEEKS} weeks.`}
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {isLoading || !draft ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : draft.totals.takes === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing to replay for this selection.</p>
+          ) : (
+            <>
+              {source === 'history' && data?.truncated && (
+                <div className="flex items-center gap-2 p-3 rounded-lg bg-warning/10 text-warning text-sm">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  Only the oldest {draft.totals.takes} takes of this period were replayed. Pick a shorter period for complete results.
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3 text-center">
+                {[
+                  { label: 'Learners', draft: learnerCount, saved: null },
+                  { label: 'Coins minted', draft: draft.totals.minted, saved: saved?.totals.minted },
+                  { label: 'Coins burned', draft: draft.totals.burned, saved: saved?.totals.burned },
+                  { label: 'Withheld (anti-farming)', draft: draft.totals.withheld, saved: saved?.totals.withheld },
+                  { label: 'Avg weekly inflation %', draft: averageInflation(draft), saved: saved ? averageInflation(saved) : null },
+                  { label: 'Learners hitting 0', draft: draft.totals.zeroed, saved: saved?.totals.zeroed },
+                ].map(({ label, draft: value, saved: before }) => (
+                  <div key={label} className="rounded-lg bg-secondary/60 py-2">
+                    <p className="text-lg font-semibold">{value ?? '–'}</p>
+                    {before !== null && before !== undefined && value !== null && value !== before && (
+                      <p className="text-xs text-muted-foreground">
+                        {formatSigned(Math.round((value - before) * 10) / 10)} vs saved
+                      </p>
+                    )}
+                    <p className="text-[10px] text-muted-foreground uppercase tracking-wide">{label}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid gap-6 lg:grid-cols-2">
+                <div>
+                  <h4 className="text-sm font-semibold mb-3">Net coins per week</h4>
+                  <div className="h-56">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={weeklyData}>
+                        <CartesianGrid strokeDasharray="3 3" className="stroke-border/50" />
+                        <XAxis dataKey="week" tick={{ fontSize: 11 }} />
+                        <YAxis tick={{ fontSize: 11 }} width={40} />
+                        <Tooltip
+                          contentStyle={{
+                            background: 'hsl(var(--card))',
+                            border: '1px solid hsl(var(--border))',
+                            borderRadius: 8,
+                          }}
+                        />
+                        <Legend wrapperStyle={{ fontSize: 12 }} />
+                        {saved && <Bar dataKey="Saved" fill="hsl(var(--muted-foreground))" fillOpacity={0.4} />}
+                        <Bar dataKey="Draft" fill="hsl(var(--primary))" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+
+                <div>
+                  <h4 className="text-sm font-semibold mb-3">Final balance distribution</h4>
+                  <div className="space-y-2">
+                    {draft.distribution.map((bucket, index) => {
+                      const before = saved?.distribution[index]?.count;
+                      return (
+                        <div key={bucket.label} className="flex items-center gap-3 text-sm">
+                          <span className="w-20 shrink-0 text-muted-foreground tabular-nums">{bucket.label} C</span>
+                          <div className="flex-1 space-y-1">
+                            <div
+                              className="h-2.5 rounded bg-primary"
+                              style={{ width: `${(bucket.count / maxBucket) * 100}%` }}
+                            />
+                            {before !== undefined && (
+                              <div
+                                className="h-1.5 rounded bg-muted-foreground/40"
+                                style={{ width: `${(before / maxBucket) * 100}%` }}
+                              />
+                            )}
+                          </div>
+                          <span className="w-16 shrink-0 text-right tabular-nums">
+                            {bucket.count}
+                            {before !== undefined && before !== bucket.count && (
+                              <span className="text-xs text-muted-foreground"> ({before})</span>
+                            )}
+                          </span>
+                        </div>
+                      );
+                    })}
+                    <p className="text-xs text-muted-foreground">Thin bars and numbers in brackets: saved settings.</p>
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold mb-3">Learners whose balance would hit 0</h4>
+                {newlyZeroed.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No learner runs out of coins with these settings.</p>
+                ) : (
+                  <div className="overflow-x-auto max-h-64">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-muted-foreground uppercase tracking-wide">
+                          <th className="py-2 pr-4 font-medium">Learner</th>
+                          <th className="py-2 pr-4 font-medium">First at 0</th>
+                          <th className="py-2 pr-4 font-medium text-right">Takes</th>
+                          <th className="py-2 pr-4 font-medium text-right">Earned / lost</th>
+                          <th className="py-2 pr-4 font-medium text-right">Uncollected penalties</th>
+                          <th className="py-2 font-medium text-right">Final</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {newlyZeroed.map((learner) => (
+                          <tr key={learner.userId} className="border-t border-border/50">
+                            <td className="py-2 pr-4">
+                              <span className="font-medium">{learner.name}</span>
+                              {learner.isNew && saved && (
+                                <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-medium bg-destructive/10 text-destructive">
+                                  NEW
+                                </span>
+                              )}
+                            </td>
+                            <td className="py-2 pr-4 text-muted-foreground">
+                              {format(parseISO(learner.zeroedAt!), 'MMM d, yyyy')}
+                            </td>
+                            <td className="py-2 pr-4 text-right tabular-nums">{learner.takes}</td>
+                            <td className="py-2 pr-4 text-right tabular-nums">
+                              {learner.earned} / {learner.lost}
+                            </td>
+                            <td className="py-2 pr-4 text-right tabular-nums">{learner.cappedPenalties}</td>
+                            <td className="py-2 text-right tabular-nums font-semibold">{learner.finalBalance}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default EconomySimulator;
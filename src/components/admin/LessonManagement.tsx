@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { useCourses, useAllLessons, useCreateLesson, useDeleteLesson, useUpdateLessonDeadline } from '@/hooks/useCourses';
+import { useCourses, useAllLessons, useCreateLesson, useDeleteLesson, useUpdateLessonDeadline, type Lesson } from '@/hooks/useCourses';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -42,6 +42,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { toast } from 'sonner';
+import ReferenceAudioDialog from '@/components/admin/ReferenceAudioDialog';
 
 const LessonManagement: React.FC = () => {
   const { data: courses } = useCourses();
@@ -306,6 +307,8 @@ const LessonManagement: React.FC = () => {
                         className="w-[140px] h-8 text-sm"
                       />
                     </div>
+
+                    <ReferenceAudioDialog lesson={lesson as unknown as Lesson} />
                     
                     <AlertDialog>
                       <AlertDialogTrigger asChild>
@@ -13,6 +13,9 @@ interface MetricSettingsCardProps {
   onWeightChange: (id: MetricSetting["metric_id"], weight: number) => void;
   onThresholdChange: (id: MetricSetting["metric_id"], field: "min_threshold" | "ideal_threshold" | "max_threshold", value: number) => void;
   onMethodChange: (id: MetricSetting["metric_id"], method: string) => void;
+  /** Set when editing an override: whether this metric differs from what it inherits */
+  overridden?: boolean;
+  onResetOverride?: (id: MetricSetting["metric_id"]) => void;
 }
 
 export function MetricSettingsCard({
@@ -22,6 +25,8 @@ export function MetricSettingsCard({
   onWeightChange,
   onThresholdChange,
   onMethodChange,
+  overridden,
+  onResetOverride,
 }: MetricSettingsCardProps) {
   return (
     <Card className={`transition-all ${!metric.enabled ? "opacity-70" : ""}`}>
@@ -38,7 +43,22 @@ export function MetricSettingsCard({
               <CardDescription className="text-xs">{label.description}</CardDescription>
             </div>
           </div>
-          <div className={`w-3 h-3 rounded-full ${label.color}`} />
+          <div className="flex items-center gap-2">
+            {onResetOverride && (
+              overridden ? (
+                <button
+                  type="button"
+                  className="text-[10px] uppercase tracking-wider text-primary hover:underline"
+                  onClick={() => onResetOverride(metric.metric_id)}
+                >
+                  Overridden · reset
+                </button>
+              ) : (
+                <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Inherited</span>
+              )
+            )}
+            <div className={`w-3 h-3 rounded-full ${label.color}`} />
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
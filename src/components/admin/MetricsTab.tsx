@@ -3,7 +3,9 @@ import { Loader2, RotateCcw, Save } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { MetricSettingsCard } from "@/components/admin/MetricSettingsCard";
 import { MetricWeightDistribution } from "@/components/admin/MetricWeightDistribution";
+import { ScoringOverridesPanel } from "@/components/admin/ScoringOverridesPanel";
 import { useMetricSettings, useUpdateMetricSettings, type MetricSetting } from "@/hooks/useMetricSettings";
+import { useScoringProfileVersions } from "@/hooks/useScoringProfile";
 
 const METRIC_LABELS: Record<string, { name: string; description: string; unit: string; color: string }> = {
   volume: { name: "Energy (Volume)", description: "Average loudness in dB", unit: "dB", color: "bg-blue-500" },
@@ -11,11 +13,17 @@ const METRIC_LABELS: Record<string, { name: string; description: string; unit: s
   acceleration: { name: "Dynamics (Acceleration)", description: "Energy increase over time", unit: "%", color: "bg-purple-500" },
   responseTime: { name: "Readiness (Response Time)", description: "Time before speaking", unit: "ms", color: "bg-orange-500" },
   pauseManagement: { name: "Fluidity (Pauses)", description: "Pause quality", unit: "ratio", color: "bg-pink-500" },
+  pronunciation: { name: "Accuracy (Pronunciation)", description: "Expected words actually said", unit: "%", color: "bg-teal-500" },
+  intonation: { name: "Melody (Intonation)", description: "Pitch range of the voiced contour", unit: "st", color: "bg-fuchsia-500" },
+  prosody: { name: "Shadowing (Prosody)", description: "Similarity to the item reference recording", unit: "%", color: "bg-sky-500" },
+  hesitation: { name: "Hesitation (Fillers)", description: "Fillers, repeats and false starts per minute", unit: "/min", color: "bg-orange-500" },
 };
 
 export default function MetricsTab() {
   const { data, isLoading } = useMetricSettings();
   const saveMutation = useUpdateMetricSettings();
+  const { data: versions } = useScoringProfileVersions();
+  const activeVersion = versions?.find((v) => v.is_active);
 
   const [metrics, setMetrics] = useState<MetricSetting[]>([]);
   const [initialMetrics, setInitialMetrics] = useState<MetricSetting[]>([]);
@@ -81,7 +89,10 @@ export default function MetricsTab() {
     <div className="space-y-6">
       <div className="flex flex-wrap gap-2 justify-between items-center">
         <div className="text-sm text-muted-foreground">
-          Reused metrics admin module with project-compatible scoring backend.
+          {activeVersion
+            ? `Active scoring profile v${activeVersion.version} · published ${new Date(activeVersion.created_at).toLocaleString()}`
+            : "No scoring profile published yet — built-in defaults are in use."}
+          <span className="block text-xs">Saving publishes a new version; past practice keeps the version it was scored with.</span>
         </div>
         <div className="flex gap-2">
           <Button variant="outline" size="sm" onClick={handleRebalance} disabled={totalWeight === 100}>
@@ -113,6 +124,8 @@ export default function MetricsTab() {
           />
         ))}
       </div>
+
+      <ScoringOverridesPanel metricLabels={METRIC_LABELS} />
     </div>
   );
 }
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import {
+  useRedemptionQueue,
+  useReviewRedemption,
+  type CoinRedemption,
+  type RedemptionStatus,
+} from '@/hooks/useCoinRedemptions';
+import { useCoinConfig } from '@/hooks/useCoinWallet';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Check, HandCoins, Loader2, X } from 'lucide-react';
+
+const STATUS_FILTERS: Array<RedemptionStatus | 'all'> = ['pending', 'approved', 'rejected', 'cancelled', 'all'];
+
+const RedemptionQueue: React.FC = () => {
+  const [statusFilter, setStatusFilter] = useState<RedemptionStatus | 'all'>('pending');
+  const { data: redemptions, isLoading } = useRedemptionQueue(statusFilter);
+  const { data: coinConfig } = useCoinConfig();
+  const reviewRedemption = useReviewRedemption();
+
+  const [reviewing, setReviewing] = useState<{ redemption: CoinRedemption; approve: boolean } | null>(null);
+  const [adminNotes, setAdminNotes] = useState('');
+
+  const openReview = (redemption: CoinRedemption, approve: boolean) => {
+    setReviewing({ redemption, approve });
+    setAdminNotes('');
+  };
+
+  const handleReview = async () => {
+    if (!reviewing) return;
+    await reviewRedemption.mutateAsync({
+      redemptionId: reviewing.redemption.id,
+      approve: reviewing.approve,
+      adminNotes
+    });
+    setReviewing(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h2 className="text-2xl font-display font-semibold">Redemptions</h2>
+          <p className="text-muted-foreground">
+            Requires {coinConfig?.lessons_required_for_withdraw ?? 0} completed lessons and an average score of{' '}
+            {coinConfig?.min_avg_score_for_withdraw ?? 0}% (see Coins)
+          </p>
+        </div>
+
+        <div className="flex gap-2 flex-wrap">
+          {STATUS_FILTERS.map((status) => (
+            <Button
+              key={status}
+              variant={statusFilter === status ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setStatusFilter(status)}
+              className="capitalize"
+            >
+              {status}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : !redemptions?.length ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <HandCoins className="w-10 h-10 mx-auto mb-3 opacity-50" />
+            No {statusFilter === 'all' ? '' : statusFilter} redemption requests.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {redemptions.map((redemption, index) => (
+            <motion.div
+              key={redemption.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.03 }}
+            >
+              <Card>
+                <CardContent className="py-4 flex items-start justify-between gap-4 flex-wrap">
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      {redemption.profile?.display_name || redemption.profile?.email || redemption.user_id}
+                    </p>
+                    <p className="text-xs text-muted-foreground mb-1">
+                      Requested {format(new Date(redemption.created_at), "MMM d, yyyy 'at' h:mm a")}
+                      {redemption.reviewed_at && (
+                        <> · {redemption.status} {format(new Date(redemption.reviewed_at), 'MMM d, yyyy')}</>
+                      )}
+                    </p>
+                    {redemption.note && <p className="text-sm">“{redemption.note}”</p>}
+                    {redemption.admin_notes && (
+                      <p className="text-sm text-muted-foreground">Notes: {redemption.admin_notes}</p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-3">
+                    <span className="text-xl font-bold">{redemption.amount} C</span>
+                    {redemption.status === 'pending' ? (
+                      <>
+                        <Button size="sm" className="gap-1" onClick={() => openReview(redemption, true)}>
+                          <Check className="w-4 h-4" />
+                          Approve
+                        </Button>
+                        <Button size="sm" variant="outline" className="gap-1" onClick={() => openReview(redemption, false)}>
+                          <X className="w-4 h-4" />
+                          Reject
+                        </Button>
+                      </>
+                    ) : (
+                      <span className="px-2 py-0.5 rounded-md text-xs font-medium bg-secondary uppercase">
+                        {redemption.status}
+                      </span>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{reviewing?.approve ? 'Approve' : 'Reject'} redemption</DialogTitle>
+            <DialogDescription>
+              {reviewing?.approve
+                ? `${reviewing.redemption.amount} coins will be debited from the learner's wallet.`
+                : 'The learner keeps their coins and sees your notes.'}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder={reviewing?.approve ? 'Notes (optional), e.g. voucher code sent by email' : 'Reason for rejecting'}
+            value={adminNotes}
+            onChange={(e) => setAdminNotes(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewing?.approve ? 'default' : 'destructive'}
+              onClick={handleReview}
+              disabled={reviewRedemption.isPending}
+            >
+              {reviewRedemption.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              {reviewing?.approve ? 'Approve' : 'Reject'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default RedemptionQueue;
@@ -0,0 +1,187 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { AudioLines, Loader2, Play, Square, Trash2, Upload } from 'lucide-react';
+import type { Lesson } from '@/hooks/useCourses';
+import {
+  getReferenceAudioUrl,
+  useDeleteReferenceAudio,
+  useLessonReferenceAudio,
+  useUploadReferenceAudio,
+  type ReferenceAudio,
+} from '@/hooks/useReferenceAudio';
+import { toast } from 'sonner';
+
+interface ReferenceAudioDialogProps {
+  lesson: Pick<Lesson, 'id' | 'lesson_name' | 'categories'>;
+}
+
+const itemKey = (category: string, itemIndex: number) => `${category}:${itemIndex}`;
+
+const ReferenceAudioDialog: React.FC<ReferenceAudioDialogProps> = ({ lesson }) => {
+  const [open, setOpen] = useState(false);
+  const { data: references, isLoading } = useLessonReferenceAudio(open ? lesson.id : null);
+  const uploadReference = useUploadReferenceAudio();
+  const deleteReference = useDeleteReferenceAudio();
+
+  const [playingKey, setPlayingKey] = useState<string | null>(null);
+  const [uploadingKey, setUploadingKey] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const byItem = new Map<string, ReferenceAudio>(
+    (references ?? []).map((r) => [itemKey(r.category, r.item_index), r])
+  );
+  const referenceCount = references?.length ?? 0;
+  const itemCount = Object.values(lesson.categories || {}).reduce(
+    (sum, items) => sum + (Array.isArray(items) ? items.length : 0),
+    0
+  );
+
+  const stopPlayback = () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    setPlayingKey(null);
+  };
+
+  // Closing the dialog stops the preview
+  useEffect(() => {
+    if (open) return;
+    audioRef.current?.pause();
+    audioRef.current = null;
+    setPlayingKey(null);
+  }, [open]);
+
+  const handlePlay = async (key: string, reference: ReferenceAudio) => {
+    if (playingKey === key) {
+      stopPlayback();
+      return;
+    }
+    stopPlayback();
+    try {
+      const audio = new Audio(await getReferenceAudioUrl(reference.audio_path));
+      audio.onended = () => setPlayingKey(null);
+      audioRef.current = audio;
+      setPlayingKey(key);
+      await audio.play();
+    } catch (error) {
+      console.error('❌ Reference playback failed:', error);
+      toast.error('Could not play the reference recording');
+      setPlayingKey(null);
+    }
+  };
+
+  const handleUpload = async (category: string, itemIndex: number, file: File | undefined) => {
+    if (!file) return;
+    const key = itemKey(category, itemIndex);
+    setUploadingKey(key);
+    try {
+      await uploadReference.mutateAsync({
+        lessonId: lesson.id,
+        category,
+        itemIndex,
+        file,
+        previousPath: byItem.get(key)?.audio_path,
+      });
+    } catch {
+      // toast shown by the mutation
+    } finally {
+      setUploadingKey(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Reference recordings">
+          <AudioLines className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Reference Recordings</DialogTitle>
+          <DialogDescription>
+            {lesson.lesson_name} · learners' takes are compared against these for shadowing feedback
+            {open && !isLoading && ` (${referenceCount}/${itemCount} items)`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-5 max-h-[60vh] overflow-y-auto pr-1">
+            {Object.entries(lesson.categories || {}).map(([category, items]) => (
+              <div key={category} className="space-y-2">
+                <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{category}</p>
+                {(Array.isArray(items) ? items : []).map((item, itemIndex) => {
+                  const key = itemKey(category, itemIndex);
+                  const reference = byItem.get(key);
+                  const isUploading = uploadingKey === key;
+
+                  return (
+                    <div key={key} className="flex items-center justify-between gap-3 p-2 rounded-lg border border-border/50">
+                      <div className="min-w-0">
+                        <p className="text-sm truncate">{item.English}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {reference
+                            ? `Reference · ${reference.duration_seconds ?? '?'}s`
+                            : 'No reference (TTS only)'}
+                        </p>
+                      </div>
+
+                      <div className="flex items-center gap-1 shrink-0">
+                        {reference && (
+                          <Button variant="ghost" size="icon" onClick={() => handlePlay(key, reference)}>
+                            {playingKey === key ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="icon" asChild disabled={isUploading}>
+                          <label className="cursor-pointer" title={reference ? 'Replace recording' : 'Upload recording'}>
+                            {isUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                            <input
+                              type="file"
+                              accept="audio/*"
+                              className="hidden"
+                              disabled={isUploading}
+                              onChange={(e) => {
+                                handleUpload(category, itemIndex, e.target.files?.[0]);
+                                e.target.value = '';
+                              }}
+                            />
+                          </label>
+                        </Button>
+                        {reference && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={deleteReference.isPending}
+                            onClick={() => {
+                              if (playingKey === key) stopPlayback();
+                              deleteReference.mutate(reference);
+                            }}
+                          >
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReferenceAudioDialog;
@@ -0,0 +1,395 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import type { CoinConfig } from '@/hooks/useCoinWallet';
+import { useCourses } from '@/hooks/useCourses';
+import { useActiveScoringProfile } from '@/hooks/useScoringProfile';
+import {
+  useApplyScoreRecalculation,
+  useScoreRecalculationAudit,
+  useScoreRecalculationData,
+  useScoreRecalculationRuns,
+} from '@/hooks/useScoreRecalculation';
+import { planScoreRecalculation } from '@/lib/scoreRecalculation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, ChevronDown, ChevronRight, History, Loader2, Play } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+interface ScoreRecalculationProps {
+  config?: Partial<CoinConfig>;
+}
+
+const ALL_COURSES = 'all';
+const PREVIEW_ROWS = 25;
+const DETAIL_ROWS = 10;
+
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+const signedClass = (value: number) => (value > 0 ? 'text-success' : value < 0 ? 'text-destructive' : '');
+
+const RunAudit: React.FC<{ runId: string }> = ({ runId }) => {
+  const { data: audit, isLoading } = useScoreRecalculationAudit(runId);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-3">
+        <Loader2 className="w-4 h-4 animate-spin text-primary" />
+      </div>
+    );
+  }
+  if (!audit?.length) {
+    return <p className="text-xs text-muted-foreground py-2">Nothing changed in this run.</p>;
+  }
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-muted-foreground uppercase tracking-wide">
+          <th className="py-1 pr-4 font-medium">Learner</th>
+          <th className="py-1 pr-4 font-medium text-right">Takes</th>
+          <th className="py-1 pr-4 font-medium text-right">Mastery</th>
+          <th className="py-1 font-medium text-right">Coins</th>
+        </tr>
+      </thead>
+      <tbody>
+        {audit.map((row) => {
+          const up = row.progress.filter((p) => p.new_mastery > p.old_mastery).length;
+          const down = row.progress.filter((p) => p.new_mastery < p.old_mastery).length;
+          return (
+            <tr key={row.id} className="border-t border-border/50">
+              <td className="py-1 pr-4">{row.profile?.display_name || row.profile?.email || row.user_id}</td>
+              <td className="py-1 pr-4 text-right tabular-nums">{row.takes.length}</td>
+              <td className="py-1 pr-4 text-right tabular-nums">
+                {up > 0 && <span className="text-success">↑{up} </span>}
+                {down > 0 && <span className="text-destructive">↓{down}</span>}
+                {up === 0 && down === 0 && '–'}
+              </td>
+              <td className={`py-1 text-right tabular-nums ${signedClass(row.coins_posted)}`}>
+                {formatSigned(row.coins_posted)}
+                {row.coins_posted !== row.coins_delta && (
+                  <span className="text-muted-foreground"> of {formatSigned(row.coins_delta)}</span>
+                )}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
+
+const ScoreRecalculation: React.FC<ScoreRecalculationProps> = ({ config }) => {
+  const [courseId, setCourseId] = useState(ALL_COURSES);
+  const [previewRequested, setPreviewRequested] = useState(false);
+  const [expandedUser, setExpandedUser] = useState<string | null>(null);
+  const [expandedRun, setExpandedRun] = useState<string | null>(null);
+  const [postCoins, setPostCoins] = useState(true);
+  const [note, setNote] = useState('');
+
+  const { data: courses } = useCourses();
+  const { data: profile } = useActiveScoringProfile();
+  const { data, isFetching, refetch } = useScoreRecalculationData(
+    courseId === ALL_COURSES ? null : courseId,
+    previewRequested
+  );
+  const { data: runs } = useScoreRecalculationRuns();
+  const applyRecalculation = useApplyScoreRecalculation();
+
+  const plan = useMemo(
+    () =>
+      data && profile && config
+        ? planScoreRecalculation({
+            takes: data.takes,
+            progress: data.progress,
+            profile,
+            lessonCourses: data.lessonCourses,
+            config,
+          })
+        : null,
+    [data, profile, config]
+  );
+
+  const applicableChanges = plan
+    ? plan.changes.filter((c) => c.newScore !== c.oldScore || (postCoins && c.newBase !== c.oldBase)).length
+    : 0;
+  const canApply = !!plan && !data?.truncated && applicableChanges > 0 && !applyRecalculation.isPending;
+
+  const handleApply = async () => {
+    if (!plan || !profile) return;
+    await applyRecalculation.mutateAsync({
+      changes: plan.changes,
+      postCoins,
+      scoringProfileId: profile.id,
+      scoringProfileVersion: profile.version,
+      note: note.trim(),
+    });
+    setNote('');
+    setExpandedUser(null);
+  };
+
+  const itemLabel = (category: string, itemIndex: number) => `${category} #${itemIndex + 1}`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.58 }}
+    >
+      <Card>
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex items-center gap-2">
+              <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                <History className="w-4 h-4 text-primary" />
+              </div>
+              <CardTitle className="text-lg">Retroactive Recalculation</CardTitle>
+            </div>
+            <div className="flex items-center gap-2 flex-wrap">
+              <Select value={courseId} onValueChange={setCourseId}>
+                <SelectTrigger className="w-[200px] h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_COURSES}>All courses</SelectItem>
+                  {courses?.map((course) => (
+                    <SelectItem key={course.id} value={course.id}>{course.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => (previewRequested ? refetch() : setPreviewRequested(true))}
+                disabled={isFetching}
+              >
+                {isFetching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                Preview
+              </Button>
+            </div>
+          </div>
+          <CardDescription>
+            Re-scores past takes from their stored metrics with scoring profile v{profile?.version ?? '-'} and the saved
+            coin settings, then re-derives best scores and mastery. Nothing changes until you apply.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!previewRequested ? (
+            <p className="text-sm text-muted-foreground">
+              Preview to see which scores, mastery levels and rewards would change.
+            </p>
+          ) : !plan ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+                {[
+                  { label: 'Takes checked', value: plan.totals.takes },
+                  { label: 'Score changes', value: plan.totals.scoreChanges },
+                  { label: 'Mastery up / down', value: `${plan.totals.masteryUp} / ${plan.totals.masteryDown}` },
+                  { label: 'Coin difference', value: formatSigned(plan.totals.coinDelta) },
+                ].map(({ label, value }) => (
+                  <div key={label} className="rounded-lg bg-secondary/60 py-2">
+                    <p className="text-lg font-semibold">{value}</p>
+                    <p className="text-[10px] text-muted-foreground uppercase tracking-wide">{label}</p>
+                  </div>
+                ))}
+              </div>
+
+              {plan.totals.skipped > 0 && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-500/10 text-amber-600 text-sm">
+                  <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                  <div>
+                    {plan.totals.skipped} of {plan.totals.takes} takes cannot be re-scored; their score is kept and only
+                    their reward is re-derived.
+                    <span className="block text-xs">
+                      Missing metrics:{' '}
+                      {Object.entries(plan.totals.missing)
+                        .map(([key, count]) => `${key} (${count})`)
+                        .join(', ')}
+                    </span>
+                  </div>
+                </div>
+              )}
+              {data?.truncated && (
+                <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  Too many takes to load at once. Pick a single course to apply a recalculation.
+                </div>
+              )}
+
+              {plan.users.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Every take already matches the current settings.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-muted-foreground uppercase tracking-wide">
+                        <th className="py-2 pr-4 font-medium">Learner</th>
+                        <th className="py-2 pr-4 font-medium text-right">Scores</th>
+                        <th className="py-2 pr-4 font-medium text-right">Mastery</th>
+                        <th className="py-2 font-medium text-right">Coins</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {plan.users.slice(0, PREVIEW_ROWS).map((user) => {
+                        const isExpanded = expandedUser === user.userId;
+                        const up = user.progress.filter((p) => p.newMastery > p.oldMastery).length;
+                        const down = user.progress.filter((p) => p.newMastery < p.oldMastery).length;
+                        return (
+                          <React.Fragment key={user.userId}>
+                            <tr
+                              className="border-t border-border/50 cursor-pointer hover:bg-secondary/40"
+                              onClick={() => setExpandedUser(isExpanded ? null : user.userId)}
+                            >
+                              <td className="py-2 pr-4">
+                                <span className="inline-flex items-center gap-1 font-medium">
+                                  {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                                  {data?.names[user.userId] ?? user.userId}
+                                </span>
+                              </td>
+                              <td className="py-2 pr-4 text-right tabular-nums">{user.scoreChanges}</td>
+                              <td className="py-2 pr-4 text-right tabular-nums">
+                                {up > 0 && <span className="text-success">↑{up} </span>}
+                                {down > 0 && <span className="text-destructive">↓{down}</span>}
+                                {up === 0 && down === 0 && '–'}
+                              </td>
+                              <td className={`py-2 text-right tabular-nums font-semibold ${signedClass(user.coinDelta)}`}>
+                                {formatSigned(user.coinDelta)}
+                              </td>
+                            </tr>
+                            {isExpanded && (
+                              <tr>
+                                <td colSpan={4} className="pb-3 pl-5 text-xs text-muted-foreground space-y-1">
+                                  {user.takes.slice(0, DETAIL_ROWS).map((take) => (
+                                    <p key={take.takeId}>
+                                      {itemLabel(take.category, take.itemIndex)}: score {take.oldScore} → {take.newScore}
+                                      {take.newBase !== take.oldBase && ` · reward ${take.oldBase} → ${take.newBase} C`}
+                                    </p>
+                                  ))}
+                                  {user.takes.length > DETAIL_ROWS && <p>…and {user.takes.length - DETAIL_ROWS} more takes</p>}
+                                  {user.progress.map((item) => (
+                                    <p key={`${item.lessonId}:${item.category}:${item.itemIndex}`} className="text-foreground">
+                                      {itemLabel(item.category, item.itemIndex)}: best {item.oldBest} → {item.newBest},
+                                      mastery {item.oldMastery} → {item.newMastery}
+                                    </p>
+                                  ))}
+                                </td>
+                              </tr>
+                            )}
+                          </React.Fragment>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  {plan.users.length > PREVIEW_ROWS && (
+                    <p className="text-xs text-muted-foreground pt-2">
+                      …and {plan.users.length - PREVIEW_ROWS} more learners
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="flex items-end gap-4 flex-wrap pt-2 border-t border-border/50">
+                <div className="flex items-center gap-3 pt-4">
+                  <Switch id="recalculation_post_coins" checked={postCoins} onCheckedChange={setPostCoins} />
+                  <Label htmlFor="recalculation_post_coins">Post compensating coin entries</Label>
+                </div>
+                <div className="flex-1 min-w-[200px] space-y-1">
+                  <Label className="text-xs">Note</Label>
+                  <Input
+                    placeholder="e.g., Pronunciation weight lowered"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                  />
+                </div>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button disabled={!canApply}>
+                      {applyRecalculation.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+                      Apply to {applicableChanges} takes
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Apply Recalculation</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {applicableChanges} takes of {plan.users.length} learners get their new score, and best scores
+                        and mastery are updated.
+                        {postCoins
+                          ? ` ${formatSigned(plan.totals.coinDelta)} coins are posted to the ledger; debits stop at each learner's balance.`
+                          : ' Wallets are not touched.'}
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleApply}>Apply</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </>
+          )}
+
+          {!!runs?.length && (
+            <div className="space-y-2 pt-2 border-t border-border/50">
+              <p className="text-xs text-muted-foreground uppercase tracking-wide pt-2">Past runs</p>
+              {runs.map((run) => {
+                const isExpanded = expandedRun === run.id;
+                return (
+                  <div key={run.id} className="rounded-lg bg-secondary/40">
+                    <button
+                      type="button"
+                      className="w-full flex items-center justify-between gap-4 px-3 py-2 text-sm text-left"
+                      onClick={() => setExpandedRun(isExpanded ? null : run.id)}
+                    >
+                      <span className="flex items-center gap-2 min-w-0">
+                        {isExpanded ? <ChevronDown className="w-3 h-3 shrink-0" /> : <ChevronRight className="w-3 h-3 shrink-0" />}
+                        <span className="font-medium">{format(new Date(run.created_at), 'MMM d, HH:mm')}</span>
+                        <span className="text-muted-foreground truncate">
+                          v{run.scoring_profile_version ?? '-'}
+                          {run.note ? ` · ${run.note}` : ''}
+                        </span>
+                      </span>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {run.takes_changed} takes · {run.users_affected} learners ·{' '}
+                        {run.post_coins ? (
+                          <span className={signedClass(run.coins_posted)}>{formatSigned(run.coins_posted)} C</span>
+                        ) : (
+                          'no coins'
+                        )}
+                      </span>
+                    </button>
+                    {isExpanded && (
+                      <div className="px-3 pb-3">
+                        <RunAudit runId={run.id} />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default ScoreRecalculation;
@@ -12,7 +12,11 @@ import {
   TrendingUp,
   Clock,
   Pause,
-  Info
+  Info,
+  SpellCheck,
+  Music,
+  AudioLines,
+  MessageCircleWarning
 } from 'lucide-react';
 
 interface MetricDisplay {
@@ -96,6 +100,62 @@ const metricDisplayInfo: Record<string, MetricDisplay> = {
       'Rewards maintaining energy',
       'Higher end energy = higher score'
     ]
+  },
+  pronunciation: {
+    id: 'pronunciation',
+    name: 'Pronunciation Accuracy',
+    nameVi: 'Độ chính xác phát âm',
+    icon: <SpellCheck className="w-5 h-5" />,
+    color: 'primary',
+    description: 'Checks the transcript against the expected English phrase',
+    formula: 'score = matched / (expected + 0.5 × extra)',
+    details: [
+      'Aligns Deepgram words to the target text',
+      'Reports hits, misses, substitutions, insertions',
+      'Near-matches earn partial credit'
+    ]
+  },
+  intonation: {
+    id: 'intonation',
+    name: 'Intonation',
+    nameVi: 'Ngữ điệu',
+    icon: <Music className="w-5 h-5" />,
+    color: 'success',
+    description: 'Tracks the pitch contour (F0) and how much it moves',
+    formula: 'range = 12 × log₂(F0 p90 / F0 p10)',
+    details: [
+      'YIN pitch tracker, 70-400 Hz, 20ms hop',
+      '2 st → 40%, 8-16 st → 100%',
+      'Monotony = 100 × e^(−σ/2) over semitones'
+    ]
+  },
+  prosody: {
+    id: 'prosody',
+    name: 'Prosody Similarity',
+    nameVi: 'Độ khớp ngữ điệu mẫu',
+    icon: <AudioLines className="w-5 h-5" />,
+    color: 'accent',
+    description: 'Compares loudness + pitch envelope with the item reference recording',
+    formula: 'similarity = 100 × e^(−1.5 × mean DTW cost)',
+    details: [
+      'Only scored when an admin attached a reference',
+      'DTW alignment ignores tempo differences',
+      '20% similar → 0, 90% similar → 100'
+    ]
+  },
+  hesitation: {
+    id: 'hesitation',
+    name: 'Hesitation',
+    nameVi: 'Ngập ngừng',
+    icon: <MessageCircleWarning className="w-5 h-5" />,
+    color: 'warning',
+    description: 'Counts filler words, repeated words and false starts in the transcript',
+    formula: 'rate = (fillers + repeats + false starts) / minutes',
+    details: [
+      'Deepgram transcribes "uh"/"um" when this metric is on',
+      '≤ 2/min → 100%, 12/min → 0%',
+      'Fillers are ignored by word accuracy and WPM'
+    ]
   }
 };
 
@@ -129,6 +189,7 @@ const ScoringConfigPanel: React.FC = () => {
     
     const updates = scoringConfig.map(m => ({
       id: m.id,
+      metric_name: m.metric_name,
       weight: localWeights[m.metric_name] / 100
     }));
     
@@ -0,0 +1,300 @@
+import { useEffect, useMemo, useState } from "react";
+import { Layers, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MetricSettingsCard } from "@/components/admin/MetricSettingsCard";
+import { MetricWeightDistribution } from "@/components/admin/MetricWeightDistribution";
+import { metricConfigsToSettings, type MetricSetting } from "@/hooks/useMetricSettings";
+import { useActiveScoringProfile, usePublishScoringOverrides } from "@/hooks/useScoringProfile";
+import { useAllLessons, useCourses } from "@/hooks/useCourses";
+import {
+  applyMetricOverrides,
+  resolveScoringProfile,
+  type MetricOverride,
+  type ScoringOverride,
+  type ScoringScope,
+  type ScoringTarget,
+} from "@/lib/scoringProfile";
+
+interface ScoringOverridesPanelProps {
+  metricLabels: Record<string, { name: string; description: string; unit: string; color: string }>;
+}
+
+type LessonOption = { id: string; course_id: string; lesson_name: string; categories: unknown };
+
+const ANY = "__any__";
+
+const SCOPE_LABEL: Record<ScoringScope, string> = {
+  course: "Course",
+  lesson: "Lesson",
+  category: "Category",
+};
+
+export function ScoringOverridesPanel({ metricLabels }: ScoringOverridesPanelProps) {
+  const { data: profile, isLoading } = useActiveScoringProfile();
+  const { data: courses } = useCourses();
+  const { data: lessonsData } = useAllLessons();
+  const publishMutation = usePublishScoringOverrides();
+
+  const lessons = useMemo(() => (lessonsData ?? []) as LessonOption[], [lessonsData]);
+
+  const [drafts, setDrafts] = useState<ScoringOverride[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // New override form
+  const [scope, setScope] = useState<ScoringScope>("category");
+  const [courseId, setCourseId] = useState<string>(ANY);
+  const [lessonId, setLessonId] = useState<string>(ANY);
+  const [category, setCategory] = useState("");
+
+  useEffect(() => {
+    if (!profile) return;
+    setDrafts(JSON.parse(JSON.stringify(profile.overrides)));
+  }, [profile]);
+
+  const hasChanges = useMemo(
+    () => !!profile && JSON.stringify(drafts) !== JSON.stringify(profile.overrides),
+    [drafts, profile],
+  );
+
+  const categoryKeys = useMemo(() => {
+    const keys = new Set<string>();
+    for (const lesson of lessons) {
+      Object.keys((lesson.categories ?? {}) as Record<string, unknown>).forEach((k) => keys.add(k));
+    }
+    return Array.from(keys).sort();
+  }, [lessons]);
+
+  const courseName = (id?: string | null) => courses?.find((c) => c.id === id)?.name ?? "Unknown course";
+  const lessonName = (id?: string | null) => lessons.find((l) => l.id === id)?.lesson_name ?? "Unknown lesson";
+
+  const describe = (o: ScoringOverride) => {
+    if (o.scope === "course") return courseName(o.course_id);
+    if (o.scope === "lesson") return lessonName(o.lesson_id);
+    const narrowed = o.lesson_id ? ` in ${lessonName(o.lesson_id)}` : o.course_id ? ` in ${courseName(o.course_id)}` : "";
+    return `"${o.category}"${narrowed}`;
+  };
+
+  const selected = drafts.find((o) => o.id === selectedId) ?? null;
+
+  // What the selected override inherits from the base profile and less specific overrides
+  const inherited = useMemo(() => {
+    if (!profile || !selected) return null;
+    const lessonCourse = lessons.find((l) => l.id === selected.lesson_id)?.course_id ?? null;
+    const target: ScoringTarget = {
+      courseId: selected.course_id ?? lessonCourse,
+      lessonId: selected.lesson_id ?? null,
+      category: selected.scope === "category" ? selected.category : null,
+    };
+    return resolveScoringProfile({ ...profile, overrides: drafts }, target, selected.id).metrics;
+  }, [profile, drafts, selected, lessons]);
+
+  const effectiveSettings: MetricSetting[] = useMemo(() => {
+    if (!inherited || !selected) return [];
+    return metricConfigsToSettings(applyMetricOverrides(inherited, selected.metrics), selected.id);
+  }, [inherited, selected]);
+
+  const canAdd =
+    (scope === "course" && courseId !== ANY) ||
+    (scope === "lesson" && lessonId !== ANY) ||
+    (scope === "category" && category.trim().length > 0);
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    const override: ScoringOverride = {
+      id: crypto.randomUUID(),
+      scope,
+      course_id: scope !== "lesson" && courseId !== ANY ? courseId : null,
+      lesson_id: scope !== "course" && lessonId !== ANY ? lessonId : null,
+      category: scope === "category" ? category.trim() : null,
+      metrics: [],
+    };
+    if (scope === "category" && override.lesson_id) override.course_id = null;
+    setDrafts((prev) => [...prev, override]);
+    setSelectedId(override.id);
+    setCategory("");
+  };
+
+  const handleRemove = (id: string) => {
+    setDrafts((prev) => prev.filter((o) => o.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const updatePatch = (metricId: string, update: (patch: MetricOverride) => MetricOverride | null) => {
+    if (!selected) return;
+    setDrafts((prev) =>
+      prev.map((o) => {
+        if (o.id !== selected.id) return o;
+        const current = o.metrics.find((m) => m.id === metricId) ?? { id: metricId };
+        const next = update({ ...current, thresholds: current.thresholds ? { ...current.thresholds } : undefined });
+        const others = o.metrics.filter((m) => m.id !== metricId);
+        return { ...o, metrics: next ? [...others, next] : others };
+      }),
+    );
+  };
+
+  const effectiveOf = (id: MetricSetting["metric_id"]) => effectiveSettings.find((m) => m.metric_id === id);
+
+  const onToggle = (id: MetricSetting["metric_id"], checked: boolean) =>
+    updatePatch(id, (p) => ({ ...p, enabled: checked, ...(checked ? { weight: Math.max(effectiveOf(id)?.weight ?? 0, 5) } : {}) }));
+  const onWeightChange = (id: MetricSetting["metric_id"], weight: number) => updatePatch(id, (p) => ({ ...p, weight }));
+  const onThresholdChange = (id: MetricSetting["metric_id"], field: "min_threshold" | "ideal_threshold" | "max_threshold", value: number) => {
+    const key = field === "min_threshold" ? "min" : field === "ideal_threshold" ? "ideal" : "max";
+    updatePatch(id, (p) => ({ ...p, thresholds: { ...(p.thresholds ?? {}), [key]: value } }));
+  };
+  const onMethodChange = (id: MetricSetting["metric_id"], method: string) =>
+    updatePatch(id, (p) => ({ ...p, method: method as MetricOverride["method"] }));
+  const onResetOverride = (id: MetricSetting["metric_id"]) => updatePatch(id, () => null);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Layers className="w-4 h-4" />
+              Overrides
+            </CardTitle>
+            <CardDescription>
+              Adjust thresholds for a course, a lesson or a category (e.g. Vocab vs Sentence).
+              More specific overrides win: course → lesson → category.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => publishMutation.mutate(drafts)} disabled={publishMutation.isPending || !hasChanges}>
+            {publishMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Save className="w-4 h-4 mr-2" />}
+            Publish overrides
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Add override */}
+        <div className="grid gap-2 md:grid-cols-5 items-end">
+          <div className="space-y-1">
+            <Label className="text-xs">Scope</Label>
+            <Select value={scope} onValueChange={(v) => setScope(v as ScoringScope)}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="course">Course</SelectItem>
+                <SelectItem value="lesson">Lesson</SelectItem>
+                <SelectItem value="category">Category</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Course{scope === "category" ? " (optional)" : ""}</Label>
+            <Select value={courseId} onValueChange={(v) => { setCourseId(v); setLessonId(ANY); }}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>{scope === "course" ? "Select course" : "Any course"}</SelectItem>
+                {courses?.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Lesson{scope === "category" ? " (optional)" : ""}</Label>
+            <Select value={lessonId} onValueChange={setLessonId} disabled={scope === "course"}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>{scope === "lesson" ? "Select lesson" : "Any lesson"}</SelectItem>
+                {lessons
+                  .filter((l) => courseId === ANY || l.course_id === courseId)
+                  .map((l) => (
+                    <SelectItem key={l.id} value={l.id}>{l.lesson_name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Category</Label>
+            <Input
+              list="scoring-category-keys"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="e.g. Vocab"
+              disabled={scope !== "category"}
+              className="h-9"
+            />
+            <datalist id="scoring-category-keys">
+              {categoryKeys.map((k) => (
+                <option key={k} value={k} />
+              ))}
+            </datalist>
+          </div>
+          <Button variant="outline" size="sm" className="h-9" onClick={handleAdd} disabled={!canAdd}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add
+          </Button>
+        </div>
+
+        {/* Override list */}
+        {drafts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No overrides — every item uses the base profile.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {drafts.map((o) => (
+              <div
+                key={o.id}
+                className={`flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm cursor-pointer transition-colors ${
+                  o.id === selectedId ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+                }`}
+                onClick={() => setSelectedId(o.id)}
+              >
+                <Badge variant="secondary" className="text-[10px]">{SCOPE_LABEL[o.scope]}</Badge>
+                <span>{describe(o)}</span>
+                <span className="text-xs text-muted-foreground">{o.metrics.length} changed</span>
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-destructive"
+                  onClick={(e) => { e.stopPropagation(); handleRemove(o.id); }}
+                  aria-label="Remove override"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Selected override editor */}
+        {selected && (
+          <div className="space-y-4 pt-2 border-t">
+            <p className="text-sm text-muted-foreground">
+              Editing <span className="font-medium text-foreground">{SCOPE_LABEL[selected.scope]} · {describe(selected)}</span>.
+              Untouched metrics keep their inherited values.
+            </p>
+            <MetricWeightDistribution metrics={effectiveSettings} metricLabels={metricLabels} />
+            <div className="grid gap-4 md:grid-cols-2">
+              {effectiveSettings.map((metric) => (
+                <MetricSettingsCard
+                  key={metric.metric_id}
+                  metric={metric}
+                  label={metricLabels[metric.metric_id]}
+                  onToggle={onToggle}
+                  onWeightChange={onWeightChange}
+                  onThresholdChange={onThresholdChange}
+                  onMethodChange={onMethodChange}
+                  overridden={selected.metrics.some((m) => m.id === metric.metric_id)}
+                  onResetOverride={onResetOverride}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,342 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import {
+  useAdminShopItems,
+  useDeleteShopItem,
+  useSaveShopItem,
+  type ShopItem,
+} from '@/hooks/useShop';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Edit, Loader2, Package, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+interface ShopItemFormData {
+  name: string;
+  description: string;
+  icon: string;
+  price: string;
+  stock: string;
+  per_user_limit: string;
+  available_from: string;
+  available_until: string;
+  is_active: boolean;
+}
+
+const emptyForm: ShopItemFormData = {
+  name: '',
+  description: '',
+  icon: '🎁',
+  price: '',
+  stock: '',
+  per_user_limit: '',
+  available_from: '',
+  available_until: '',
+  is_active: true,
+};
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (value: string | null) => (value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '');
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+const toOptionalInt = (value: string) => (value.trim() === '' ? null : parseInt(value));
+
+const ShopManagement: React.FC = () => {
+  const { data: items, isLoading } = useAdminShopItems();
+  const saveItem = useSaveShopItem();
+  const deleteItem = useDeleteShopItem();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<ShopItemFormData>(emptyForm);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (item: ShopItem) => {
+    setEditingId(item.id);
+    setFormData({
+      name: item.name,
+      description: item.description || '',
+      icon: item.icon,
+      price: String(item.price),
+      stock: item.stock === null ? '' : String(item.stock),
+      per_user_limit: item.per_user_limit === null ? '' : String(item.per_user_limit),
+      available_from: toLocalInput(item.available_from),
+      available_until: toLocalInput(item.available_until),
+      is_active: item.is_active,
+    });
+    setIsFormOpen(true);
+  };
+
+  const price = parseInt(formData.price) || 0;
+  const windowInvalid =
+    !!formData.available_from &&
+    !!formData.available_until &&
+    new Date(formData.available_until) <= new Date(formData.available_from);
+  const canSave = !!formData.name.trim() && price > 0 && !windowInvalid;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    await saveItem.mutateAsync({
+      id: editingId ?? undefined,
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      icon: formData.icon.trim() || '🎁',
+      price,
+      stock: toOptionalInt(formData.stock),
+      per_user_limit: toOptionalInt(formData.per_user_limit),
+      available_from: fromLocalInput(formData.available_from),
+      available_until: fromLocalInput(formData.available_until),
+      is_active: formData.is_active,
+    });
+    setIsFormOpen(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-display font-semibold">Reward Shop</h2>
+          <p className="text-muted-foreground">Rewards learners can buy with their coins</p>
+        </div>
+        <Button className="gap-2" onClick={openCreate}>
+          <Plus className="w-4 h-4" />
+          New Reward
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : !items?.length ? (
+        <Card className="border-dashed">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Package className="w-12 h-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground text-center">
+              No rewards yet. Add one to open the shop.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {items.map((item, index) => (
+            <motion.div
+              key={item.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.03 }}
+            >
+              <Card>
+                <CardContent className="py-4 flex items-center justify-between gap-4 flex-wrap">
+                  <div className="flex items-center gap-4 min-w-0">
+                    <span className="text-3xl">{item.icon}</span>
+                    <div className="min-w-0">
+                      <p className="font-medium">{item.name}</p>
+                      {item.description && (
+                        <p className="text-sm text-muted-foreground truncate">{item.description}</p>
+                      )}
+                      <div className="flex items-center gap-2 flex-wrap mt-1">
+                        <Badge variant={item.is_active ? 'default' : 'secondary'} className="text-xs">
+                          {item.is_active ? 'Active' : 'Inactive'}
+                        </Badge>
+                        <Badge variant="outline" className="text-xs">
+                          {item.stock === null ? 'Unlimited stock' : `${item.stock} in stock`}
+                        </Badge>
+                        {item.per_user_limit !== null && (
+                          <Badge variant="outline" className="text-xs">
+                            Max {item.per_user_limit} per learner
+                          </Badge>
+                        )}
+                        {(item.available_from || item.available_until) && (
+                          <Badge variant="outline" className="text-xs">
+                            {item.available_from ? format(new Date(item.available_from), 'MMM d') : '…'}
+                            {' – '}
+                            {item.available_until ? format(new Date(item.available_until), 'MMM d') : '…'}
+                          </Badge>
+                        )}
+                        <span className="text-xs text-muted-foreground">{item.sold} sold</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <span className="text-xl font-bold mr-2">{item.price} C</span>
+                    <Button variant="ghost" size="icon" onClick={() => openEdit(item)}>
+                      <Edit className="w-4 h-4 text-primary" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon" disabled={item.sold > 0} title={item.sold > 0 ? 'Already bought; deactivate it instead' : undefined}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Reward</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete "{item.name}"?
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteItem.mutate(item.id)}
+                            className="bg-destructive hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Reward' : 'New Reward'}</DialogTitle>
+            <DialogDescription>Leave stock, limit or dates empty for no restriction.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-[80px_1fr] gap-4">
+              <div className="space-y-2">
+                <Label>Icon</Label>
+                <Input
+                  value={formData.icon}
+                  onChange={(e) => setFormData({ ...formData, icon: e.target.value })}
+                  className="text-center text-xl"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Name *</Label>
+                <Input
+                  placeholder="e.g., Book voucher"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Textarea
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Price *</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={formData.price}
+                  onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Stock</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="∞"
+                  value={formData.stock}
+                  onChange={(e) => setFormData({ ...formData, stock: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Per learner</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="∞"
+                  value={formData.per_user_limit}
+                  onChange={(e) => setFormData({ ...formData, per_user_limit: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Available from</Label>
+                <Input
+                  type="datetime-local"
+                  value={formData.available_from}
+                  onChange={(e) => setFormData({ ...formData, available_from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Available until</Label>
+                <Input
+                  type="datetime-local"
+                  value={formData.available_until}
+                  onChange={(e) => setFormData({ ...formData, available_until: e.target.value })}
+                />
+              </div>
+            </div>
+            {windowInvalid && (
+              <p className="text-sm text-destructive">The end of the window must be after its start.</p>
+            )}
+
+            <div className="flex items-center gap-3">
+              <Switch
+                id="shop_item_active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              />
+              <Label htmlFor="shop_item_active">Visible in the shop</Label>
+            </div>
+          </div>
+
+          <DialogFooter className="pt-4">
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!canSave || saveItem.isPending}>
+              {saveItem.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              {editingId ? 'Save Changes' : 'Add Reward'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ShopManagement;
@@ -1,8 +1,9 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { useAllUsers } from '@/hooks/useUserData';
-import { useAddCoins } from '@/hooks/useCoinWallet';
 import { supabase } from '@/integrations/supabase/client';
+import CoinAdjustmentDialog, { type AdjustmentTarget } from '@/components/admin/CoinAdjustmentDialog';
+import CoinAdjustmentLog from '@/components/admin/CoinAdjustmentLog';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -17,7 +18,8 @@ import {
   GraduationCap,
   UserPlus,
   Mail,
-  Lock
+  Lock,
+  UsersRound
 } from 'lucide-react';
 import {
   Dialog,
@@ -40,13 +42,11 @@ import { useQueryClient } from '@tanstack/react-query';
 
 const UserManagement: React.FC = () => {
   const { data: users, isLoading, refetch } = useAllUsers();
-  const addCoins = useAddCoins();
   const queryClient = useQueryClient();
   
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedUser, setSelectedUser] = useState<{ id: string; email: string; display_name?: string | null } | null>(null);
-  const [coinAmount, setCoinAmount] = useState('');
-  const [coinDescription, setCoinDescription] = useState('');
+  // null with the dialog open adjusts a whole class
+  const [selectedUser, setSelectedUser] = useState<AdjustmentTarget | null>(null);
   const [isCoinsDialogOpen, setIsCoinsDialogOpen] = useState(false);
   
   // Create user state
@@ -126,21 +126,6 @@ const UserManagement: React.FC = () => {
     }
   };
 
-  const handleAddCoins = async () => {
-    if (!selectedUser || !coinAmount) return;
-    
-    await addCoins.mutateAsync({
-      userId: selectedUser.id,
-      amount: parseInt(coinAmount),
-      description: coinDescription || 'Admin adjustment'
-    });
-    
-    setIsCoinsDialogOpen(false);
-    setCoinAmount('');
-    setCoinDescription('');
-    setSelectedUser(null);
-  };
-
   const handleRoleChange = async (userId: string, newRole: string) => {
     try {
       // Delete existing role
@@ -215,6 +200,18 @@ const UserManagement: React.FC = () => {
             />
           </div>
           
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => {
+              setSelectedUser(null);
+              setIsCoinsDialogOpen(true);
+            }}
+          >
+            <UsersRound className="w-4 h-4" />
+            Adjust Class
+          </Button>
+
           {/* Create User Dialog */}
           <Dialog open={isCreateUserOpen} onOpenChange={setIsCreateUserOpen}>
             <DialogTrigger asChild>
@@ -410,58 +407,9 @@ const UserManagement: React.FC = () => {
         </div>
       )}
 
-      {/* Add Coins Dialog */}
-      <Dialog open={isCoinsDialogOpen} onOpenChange={setIsCoinsDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Adjust Coins</DialogTitle>
-            <DialogDescription>
-              Add or remove coins for {selectedUser?.display_name || selectedUser?.email}
-            </DialogDescription>
-          </DialogHeader>
-          
-          <div className="space-y-4 py-4">
-            <div className="p-3 bg-muted/50 rounded-lg text-center">
-              <p className="text-sm text-muted-foreground">Current Balance</p>
-              <p className="text-2xl font-bold text-accent">
-                {selectedUser?.wallet?.balance || 0} coins
-              </p>
-            </div>
-            
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Amount (use negative to deduct)</label>
-              <Input
-                type="number"
-                placeholder="e.g., 100 or -50"
-                value={coinAmount}
-                onChange={(e) => setCoinAmount(e.target.value)}
-              />
-            </div>
-            
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Description</label>
-              <Input
-                placeholder="Reason for adjustment..."
-                value={coinDescription}
-                onChange={(e) => setCoinDescription(e.target.value)}
-              />
-            </div>
-          </div>
-          
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setIsCoinsDialogOpen(false)}>
-              Cancel
-            </Button>
-            <Button 
-              onClick={handleAddCoins}
-              disabled={!coinAmount || addCoins.isPending}
-            >
-              {addCoins.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
-              Apply
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <CoinAdjustmentLog users={users || []} />
+
+      <CoinAdjustmentDialog open={isCoinsDialogOpen} onOpenChange={setIsCoinsDialogOpen} user={selectedUser} />
     </div>
   );
 };
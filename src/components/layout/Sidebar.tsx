@@ -15,12 +15,13 @@ import {
   Mic,
   Menu,
   X,
-  Flame
+  Flame,
+  ShoppingBag
 } from "lucide-react";
 import { CoinBadge } from "@/components/ui/CoinBadge";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/context/AuthContext";
-import { useWallet } from "@/hooks/useUserData";
+import { useSyncProfileTimeZone, useWallet } from "@/hooks/useUserData";
 import { useStreak } from "@/hooks/useStreak";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/ui/ThemeToggle";
@@ -33,6 +34,7 @@ const menuItems = [
   { id: "practice", path: "/practice", label: "Practice", icon: Mic },
   { id: "progress", path: "/progress", label: "Progress", icon: TrendingUp },
   { id: "leaderboard", path: "/leaderboard", label: "Leaderboard", icon: Trophy },
+  { id: "shop", path: "/shop", label: "Shop", icon: ShoppingBag },
 ];
 
 const bottomItems = [
@@ -43,6 +45,7 @@ export const Sidebar = () => {
   const { isAdmin, signOut } = useAuth();
   const { data: wallet } = useWallet();
   const { data: streak } = useStreak();
+  useSyncProfileTimeZone();
   const navigate = useNavigate();
   const location = useLocation();
   const desktopSidebarRef = useRef<HTMLElement | null>(null);
@@ -104,7 +107,7 @@ export const Sidebar = () => {
   };
 
   const currentStreak = streak?.current_streak || 0;
-  const isStreakActive = streak?.last_practice_date === new Date().toISOString().split('T')[0];
+  const isStreakActive = !!streak?.is_active_today;
 
   const BrandLockup = ({ compact = false }: { compact?: boolean }) => (
     <div className={cn("flex items-center", compact ? "justify-center" : "gap-3")}>
@@ -1,16 +1,27 @@
 import { motion, AnimatePresence } from "framer-motion";
 import { Zap } from "lucide-react";
+import { LIVE_CUE_LABELS, type LiveCue } from "@/lib/audioAnalysis";
 
 interface FloatingEnergyIndicatorProps {
   audioLevel: number;
   isActive: boolean;
+  cue?: LiveCue | null; // coaching cue from the live estimate; "great" falls back to the level
 }
 
-export function FloatingEnergyIndicator({ audioLevel, isActive }: FloatingEnergyIndicatorProps) {
+const cueStates: Record<Exclude<LiveCue, "great">, { emoji: string; color: string }> = {
+  start: { emoji: "🎙️", color: "text-cyan-300" },
+  louder: { emoji: "📢", color: "text-amber-300" },
+  softer: { emoji: "🔉", color: "text-amber-300" },
+  "keep-going": { emoji: "💬", color: "text-cyan-300" },
+  "too-slow": { emoji: "🐢", color: "text-rose-300" },
+};
+
+export function FloatingEnergyIndicator({ audioLevel, isActive, cue }: FloatingEnergyIndicatorProps) {
   const level = Math.min(Math.max(audioLevel, 0), 1);
 
-  const state =
-    level < 0.2
+  const state = cue && cue !== "great"
+    ? { ...cueStates[cue], label: LIVE_CUE_LABELS[cue] }
+    : level < 0.2
       ? { emoji: "😴", label: "Quiet", color: "text-cyan-300" }
       : level < 0.45
         ? { emoji: "🙂", label: "Warm", color: "text-emerald-300" }
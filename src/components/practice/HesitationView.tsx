@@ -0,0 +1,68 @@
+import { motion } from "framer-motion";
+import { cn } from "@/lib/utils";
+import type { HesitationEvent, HesitationResult } from "@/lib/audioAnalysis";
+
+interface HesitationViewProps {
+  hesitation: HesitationResult;
+}
+
+const typeInfo: Record<HesitationEvent["type"], { label: string; className: string }> = {
+  filler: { label: "filler", className: "border-orange-400/30 bg-orange-500/10 text-orange-300" },
+  repetition: { label: "repeat", className: "border-amber-400/30 bg-amber-500/10 text-amber-300" },
+  "false-start": { label: "false start", className: "border-rose-400/30 bg-rose-500/10 text-rose-300" },
+};
+
+export function HesitationView({ hesitation }: HesitationViewProps) {
+  const { events, fillerCount, repetitionCount, falseStartCount, perMinute } = hesitation;
+
+  const tip =
+    fillerCount >= repetitionCount + falseStartCount
+      ? "Try a short silent pause instead of “uh” or “um” while you think."
+      : "Plan the phrase before you start so you don't need to restart it.";
+
+  return (
+    <motion.div
+      className="p-4 rounded-2xl border border-border/50 bg-card/60 backdrop-blur-sm"
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-xs text-muted-foreground uppercase tracking-wide">Hesitations</p>
+        <p className="text-xs text-muted-foreground">{perMinute}/min</p>
+      </div>
+
+      {events.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No fillers or restarts — nice and fluent.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-2 mb-3 text-center">
+            {[
+              { label: "Fillers", count: fillerCount },
+              { label: "Repeats", count: repetitionCount },
+              { label: "False starts", count: falseStartCount },
+            ].map(({ label, count }) => (
+              <div key={label} className="rounded-lg bg-secondary/60 py-2">
+                <p className="text-lg font-semibold">{count}</p>
+                <p className="text-[10px] text-muted-foreground uppercase tracking-wide">{label}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-1.5 mb-3">
+            {events.map((event, i) => (
+              <span
+                key={i}
+                className={cn("px-2 py-0.5 rounded-full border text-xs", typeInfo[event.type].className)}
+                title={`${typeInfo[event.type].label} at ${event.start.toFixed(1)}s`}
+              >
+                “{event.text}” <span className="opacity-70">· {typeInfo[event.type].label}</span>
+              </span>
+            ))}
+          </div>
+
+          <p className="text-xs text-muted-foreground">{tip}</p>
+        </>
+      )}
+    </motion.div>
+  );
+}
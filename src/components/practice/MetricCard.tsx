@@ -1,5 +1,5 @@
 import { motion } from "framer-motion";
-import { Volume2, Mic2, Flame, Timer, Waves } from "lucide-react";
+import { Volume2, Mic2, Flame, Timer, Waves, SpellCheck, Music, AudioLines, MessageCircleWarning } from "lucide-react";
 import type { ReactNode } from "react";
 
 interface MetricCardProps {
@@ -17,6 +17,10 @@ const tagColors: Record<string, string> = {
   BOOST: "bg-violet-500/15 text-violet-300 border-violet-400/30",
   SPARK: "bg-amber-500/15 text-amber-300 border-amber-400/30",
   FLOW: "bg-emerald-500/15 text-emerald-300 border-emerald-400/30",
+  ACCURACY: "bg-teal-500/15 text-teal-300 border-teal-400/30",
+  MELODY: "bg-fuchsia-500/15 text-fuchsia-300 border-fuchsia-400/30",
+  SHADOW: "bg-sky-500/15 text-sky-300 border-sky-400/30",
+  SMOOTH: "bg-orange-500/15 text-orange-300 border-orange-400/30",
 };
 
 const tagIcons: Record<string, ReactNode> = {
@@ -25,6 +29,10 @@ const tagIcons: Record<string, ReactNode> = {
   BOOST: <Flame className="w-4 h-4" />,
   SPARK: <Timer className="w-4 h-4" />,
   FLOW: <Waves className="w-4 h-4" />,
+  ACCURACY: <SpellCheck className="w-4 h-4" />,
+  MELODY: <Music className="w-4 h-4" />,
+  SHADOW: <AudioLines className="w-4 h-4" />,
+  SMOOTH: <MessageCircleWarning className="w-4 h-4" />,
 };
 
 const getScoreColor = (score: number) => {
@@ -0,0 +1,154 @@
+import { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { Play } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { PauseMap, PauseMapEntry } from "@/lib/audioAnalysis";
+
+interface PauseTimelineViewProps {
+  map: PauseMap;
+  audioUrl?: string | null; // learner's recording; pauses are only playable when present
+}
+
+// Context played around a pause so the learner hears the words on either side
+const LEAD_MS = 900;
+const TAIL_MS = 700;
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+type PauseKind = "natural" | "hesitation" | "pause";
+
+const kindClass: Record<PauseKind, { bar: string; row: string }> = {
+  natural: { bar: "bg-emerald-500/40 border-emerald-400/50", row: "border-emerald-400/30 bg-emerald-500/10" },
+  hesitation: { bar: "bg-amber-500/50 border-amber-400/60", row: "border-amber-400/30 bg-amber-500/10" },
+  pause: { bar: "bg-blue-500/40 border-blue-400/50", row: "border-blue-400/30 bg-blue-500/10" },
+};
+
+export function PauseTimelineView({ map, audioUrl }: PauseTimelineViewProps) {
+  const { pauses, durationMs, naturalCount, pauseCount, source } = map;
+  // Phrase boundaries are only known when there is a transcript
+  const kindOf = (pause: PauseMapEntry): PauseKind =>
+    source !== "words" ? "pause" : pause.natural ? "natural" : "hesitation";
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const stopAtRef = useRef(0);
+
+  useEffect(() => {
+    if (!audioUrl) return;
+    const audio = new Audio(audioUrl);
+    audio.preload = "auto";
+    const onTimeUpdate = () => {
+      if (audio.currentTime * 1000 >= stopAtRef.current) {
+        audio.pause();
+        setActiveIndex(null);
+      }
+    };
+    const onEnded = () => setActiveIndex(null);
+    audio.addEventListener("timeupdate", onTimeUpdate);
+    audio.addEventListener("ended", onEnded);
+    audioRef.current = audio;
+
+    return () => {
+      audio.pause();
+      audio.removeEventListener("timeupdate", onTimeUpdate);
+      audio.removeEventListener("ended", onEnded);
+      audioRef.current = null;
+    };
+  }, [audioUrl]);
+
+  const playPause = async (pause: PauseMapEntry, index: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (activeIndex === index) {
+      audio.pause();
+      setActiveIndex(null);
+      return;
+    }
+    stopAtRef.current = pause.endMs + TAIL_MS;
+    audio.currentTime = Math.max(0, pause.startMs - LEAD_MS) / 1000;
+    setActiveIndex(index);
+    try {
+      await audio.play();
+    } catch (error) {
+      console.error("❌ Pause playback failed:", error);
+      setActiveIndex(null);
+    }
+  };
+
+  const total = Math.max(1, durationMs);
+  const playable = !!audioUrl;
+
+  return (
+    <motion.div
+      className="p-4 rounded-2xl border border-border/50 bg-card/60 backdrop-blur-sm"
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-xs text-muted-foreground uppercase tracking-wide">Pause Map</p>
+        <p className="text-xs text-muted-foreground">
+          {pauseCount} pause{pauseCount === 1 ? "" : "s"}
+          {source === "words" && ` · ${naturalCount} natural`}
+        </p>
+      </div>
+
+      {pauses.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No noticeable pauses — smooth delivery.</p>
+      ) : (
+        <>
+          <div className="relative h-6 rounded-full bg-secondary/60 mb-3">
+            {pauses.map((pause, i) => (
+              <button
+                key={i}
+                type="button"
+                disabled={!playable}
+                onClick={() => playPause(pause, i)}
+                title={`${formatSeconds(pause.durationMs)} pause`}
+                className={cn(
+                  "absolute top-0 h-full rounded-full border transition-transform",
+                  kindClass[kindOf(pause)].bar,
+                  activeIndex === i && "ring-2 ring-primary scale-y-110",
+                  playable && "hover:scale-y-110 cursor-pointer"
+                )}
+                style={{
+                  left: `${(pause.startMs / total) * 100}%`,
+                  width: `max(6px, ${((pause.endMs - pause.startMs) / total) * 100}%)`,
+                }}
+              />
+            ))}
+          </div>
+
+          <div className="space-y-1.5">
+            {pauses.map((pause, i) => (
+              <button
+                key={i}
+                type="button"
+                disabled={!playable}
+                onClick={() => playPause(pause, i)}
+                className={cn(
+                  "w-full flex items-center gap-2 px-2 py-1.5 rounded-lg border text-left text-sm",
+                  kindClass[kindOf(pause)].row,
+                  activeIndex === i && "ring-1 ring-primary",
+                  playable && "hover:bg-secondary/60"
+                )}
+              >
+                {playable && <Play className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />}
+                <span className="truncate">
+                  {pause.beforeWord && pause.afterWord ? (
+                    <>
+                      {pause.beforeWord} <span className="text-muted-foreground">…</span> {pause.afterWord}
+                    </>
+                  ) : (
+                    `At ${formatSeconds(pause.startMs)}`
+                  )}
+                </span>
+                <span className="ml-auto shrink-0 text-xs text-muted-foreground">
+                  {formatSeconds(pause.durationMs)} · {kindOf(pause)}
+                </span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+}
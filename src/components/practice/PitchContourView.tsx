@@ -0,0 +1,75 @@
+import { useMemo } from "react";
+import { motion } from "framer-motion";
+import type { IntonationResult } from "@/lib/audioAnalysis";
+import { hzToSemitones } from "@/lib/pitchTracking";
+
+interface PitchContourViewProps {
+  intonation: IntonationResult;
+}
+
+const WIDTH = 300;
+const HEIGHT = 80;
+const SEMITONE_SPAN = 12; // ±12 st around the speaker's median fills the chart
+
+export function PitchContourView({ intonation }: PitchContourViewProps) {
+  const { contour, medianHz, rangeSemitones, monotony } = intonation;
+
+  // One path segment per voiced run, so unvoiced gaps stay gaps
+  const segments = useMemo(() => {
+    if (!contour.length || !medianHz) return [];
+    const duration = Math.max(1, contour[contour.length - 1].timeMs);
+    const runs: string[] = [];
+    let current: string[] = [];
+
+    for (const frame of contour) {
+      if (frame.hz === null) {
+        if (current.length > 1) runs.push(current.join(" "));
+        current = [];
+        continue;
+      }
+      const st = Math.max(-SEMITONE_SPAN, Math.min(SEMITONE_SPAN, hzToSemitones(frame.hz, medianHz)));
+      const x = (frame.timeMs / duration) * WIDTH;
+      const y = HEIGHT / 2 - (st / SEMITONE_SPAN) * (HEIGHT / 2);
+      current.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+    }
+    if (current.length > 1) runs.push(current.join(" "));
+    return runs;
+  }, [contour, medianHz]);
+
+  return (
+    <motion.div
+      className="p-4 rounded-2xl border border-border/50 bg-card/60 backdrop-blur-sm"
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-xs text-muted-foreground uppercase tracking-wide">Pitch Contour</p>
+        <p className="text-xs text-muted-foreground">
+          {rangeSemitones.toFixed(1)} st range · {monotony}% flat
+        </p>
+      </div>
+
+      {segments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Not enough voiced speech to draw a melody.</p>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-20" preserveAspectRatio="none">
+          <line x1={0} y1={HEIGHT / 2} x2={WIDTH} y2={HEIGHT / 2} className="stroke-border" strokeDasharray="4 4" />
+          {segments.map((points, i) => (
+            <polyline
+              key={i}
+              points={points}
+              fill="none"
+              className="stroke-fuchsia-400"
+              strokeWidth={2}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </svg>
+      )}
+
+      <p className="mt-2 text-xs text-muted-foreground">Around your usual pitch ({medianHz} Hz). Flat lines sound monotone.</p>
+    </motion.div>
+  );
+}
@@ -3,10 +3,12 @@ import { motion } from "framer-motion";
 import { Camera, VideoOff } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { FloatingEnergyIndicator } from "@/components/practice/FloatingEnergyIndicator";
+import type { LiveCue } from "@/lib/audioAnalysis";
 
 interface PracticeCameraFeedProps {
   isRecording?: boolean;
   audioLevel?: number;
+  liveCue?: LiveCue | null;
   className?: string;
   onTap?: () => void;
   hintText?: string;
@@ -15,6 +17,7 @@ interface PracticeCameraFeedProps {
 export function PracticeCameraFeed({
   isRecording = false,
   audioLevel = 0,
+  liveCue,
   className,
   onTap,
   hintText,
@@ -120,7 +123,7 @@ export function PracticeCameraFeed({
         />
       )}
 
-      <FloatingEnergyIndicator audioLevel={audioLevel} isActive={isRecording && isActive} />
+      <FloatingEnergyIndicator audioLevel={audioLevel} isActive={isRecording && isActive} cue={liveCue} />
 
       {hintText && !isLoading && !error && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
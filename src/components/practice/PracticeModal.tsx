@@ -1,4 +1,4 @@
-﻿import { useState, useEffect, useMemo } from "react";
+﻿import { useState, useEffect, useMemo, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { 
   X, 
@@ -19,12 +19,16 @@ import { CoinBadge } from "@/components/ui/CoinBadge";
 import { ResultsView } from "@/components/practice/ResultsView";
 import { PracticeCameraFeed } from "@/components/practice/PracticeCameraFeed";
 import { RecordingWaveform } from "@/components/practice/RecordingWaveform";
-import { useAudioRecorder } from "@/hooks/useAudioRecorder";
+import { RECORDING_AUDIO_CONSTRAINTS, useAudioRecorder } from "@/hooks/useAudioRecorder";
+import { useRealtimeAudio } from "@/hooks/useRealtimeAudio";
 import { useTextToSpeech } from "@/hooks/useTextToSpeech";
-import { useCoinConfig } from "@/hooks/useCoinWallet";
 import { useWallet } from "@/hooks/useUserData";
-import { usePracticeIngest, useSavePractice } from "@/hooks/usePractice";
-import { analyzeAudioAsync, AnalysisResult } from "@/lib/audioAnalysis";
+import { formatSettlementLimits, getSettlementCoinChange, usePracticeIngest, useSavePractice, type PracticeSettlement, type PracticeTake } from "@/hooks/usePractice";
+import { useActiveScoringProfile } from "@/hooks/useScoringProfile";
+import { useReferenceAudio } from "@/hooks/useReferenceAudio";
+import type { AnalysisResult } from "@/lib/audioAnalysis";
+import { analyzeAudioAsync, isAnalysisCancelled, type AnalysisProgress } from "@/lib/audioAnalysisWorker";
+import { fingerprintAudio } from "@/lib/audioFingerprint";
 import { toast } from "sonner";
 
 interface PracticeItem {
@@ -48,6 +52,7 @@ type PersistedPracticeAnalysis = {
   updatedAt: number;
   result?: AnalysisResult;
   coinChange?: number | null;
+  rewardLimits?: string[];
 };
 
 export const PracticeModal = ({
@@ -63,7 +68,10 @@ export const PracticeModal = ({
   const [showEnglish, setShowEnglish] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [coinChange, setCoinChange] = useState<number | null>(null);
+  const [rewardLimits, setRewardLimits] = useState<string[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
   const [hideNavigation, setHideNavigation] = useState(false);
   const [sessionStats, setSessionStats] = useState({ 
     completed: 0, 
@@ -72,13 +80,20 @@ export const PracticeModal = ({
   });
 
   const recorder = useAudioRecorder();
+  const live = useRealtimeAudio(recorder.isRecording, {
+    constraints: RECORDING_AUDIO_CONSTRAINTS,
+    liveAnalysis: { scoringTarget: { lessonId, category } },
+  });
   const tts = useTextToSpeech();
-  const { data: coinConfig } = useCoinConfig();
   const { data: wallet, refetch: refetchWallet } = useWallet();
   const practiceIngest = usePracticeIngest();
   const savePractice = useSavePractice();
+  // Settlement key of the take on screen; a late retry of an older take must not update it
+  const currentTakeKey = useRef<string | null>(null);
+  useActiveScoringProfile(); // warm the scoring profile cache before the first take
 
   const currentItem = items[currentIndex];
+  const { data: referenceAudio } = useReferenceAudio(lessonId, category, currentIndex);
   const progress = ((currentIndex + 1) / items.length) * 100;
   const analysisStorageKey = useMemo(
     () => `practice-analysis:${lessonId}:${category}:${currentIndex}`,
@@ -105,10 +120,12 @@ export const PracticeModal = ({
   // Reset state when modal closes
   useEffect(() => {
     if (!isOpen) {
+      analysisAbortRef.current?.abort();
       setCurrentIndex(startIndex);
       setShowEnglish(false);
       setAnalysisResult(null);
       setCoinChange(null);
+      setRewardLimits([]);
       setIsAnalyzing(false);
       setHideNavigation(false);
       setSessionStats({ completed: 0, totalScore: 0, coinsEarned: 0 });
@@ -122,6 +139,9 @@ export const PracticeModal = ({
     }
   }, [isOpen, startIndex]);
 
+  // Stop a running analysis if the modal unmounts mid-take
+  useEffect(() => () => analysisAbortRef.current?.abort(), []);
+
   useEffect(() => {
     if (!isOpen) return;
     try {
@@ -131,6 +151,7 @@ export const PracticeModal = ({
       if (cached.status === "done" && cached.result) {
         setAnalysisResult(cached.result);
         setCoinChange(cached.coinChange ?? null);
+        setRewardLimits(cached.rewardLimits ?? []);
         setIsAnalyzing(false);
       } else if (cached.status === "analyzing") {
         setIsAnalyzing(true);
@@ -150,6 +171,7 @@ export const PracticeModal = ({
         if (cached.status === "done" && cached.result) {
           setAnalysisResult(cached.result);
           setCoinChange(cached.coinChange ?? null);
+          setRewardLimits(cached.rewardLimits ?? []);
           setIsAnalyzing(false);
           window.clearInterval(timer);
         } else if (cached.status === "error") {
@@ -175,6 +197,7 @@ export const PracticeModal = ({
     try {
       setAnalysisResult(null);
       setCoinChange(null);
+      setRewardLimits([]);
       clearPersistedAnalysis(analysisStorageKey);
       await recorder.startRecording();
     } catch (error) {
@@ -182,9 +205,41 @@ export const PracticeModal = ({
     }
   };
 
+  // Settles a scored take. When that fails the toast offers a retry of the
+  // same take, with the same settlement key, so it is never paid twice.
+  const settleTake = async (take: PracticeTake): Promise<PracticeSettlement | null> => {
+    try {
+      return await savePractice.mutateAsync(take);
+    } catch (saveError) {
+      console.warn("practice save failed:", saveError);
+      toast.warning("Result analyzed, but saving failed.", {
+        action: {
+          label: "Retry",
+          onClick: () => {
+            void settleTake(take).then((settlement) => {
+              if (!settlement) return;
+              const coins = getSettlementCoinChange(settlement);
+              setSessionStats(prev => ({ ...prev, coinsEarned: prev.coinsEarned + coins }));
+              if (currentTakeKey.current === take.settlementKey) {
+                setCoinChange(coins);
+                setRewardLimits(formatSettlementLimits(settlement));
+              }
+              refetchWallet();
+            });
+          },
+        },
+      });
+      return null;
+    }
+  };
+
   const handleStopRecording = async () => {
     setIsAnalyzing(true);
+    setAnalysisProgress(null);
     persistAnalysis({ status: "analyzing", updatedAt: Date.now() });
+    analysisAbortRef.current?.abort();
+    const abortController = new AbortController();
+    analysisAbortRef.current = abortController;
     
     try {
       console.log("Stopping recording...");
@@ -196,6 +251,12 @@ export const PracticeModal = ({
         sampleRate: audioData.sampleRate,
         hasBase64: !!audioData.audioBase64
       });
+
+      // One settlement key per take, kept for any retry of it
+      const settlementKey = crypto.randomUUID();
+      currentTakeKey.current = settlementKey;
+      // Fingerprint before analysis: the worker takes over (detaches) the sample buffer
+      const audioFingerprint = fingerprintAudio(audioData.audioBuffer, audioData.sampleRate);
       
       // Use local audio analysis with Supabase scoring config
       console.log("Starting audio analysis...");
@@ -206,17 +267,22 @@ export const PracticeModal = ({
         undefined,
         undefined,
         undefined,
-        audioData.audioBlob ?? undefined
+        audioData.audioBlob ?? undefined,
+        currentItem.english,
+        { lessonId, category },
+        { signal: abortController.signal, onProgress: setAnalysisProgress, referenceEnvelope: referenceAudio?.envelope }
       );
       
       console.log("Analysis complete:", result);
 
       setAnalysisResult(result);
+      live.converge(result);
 
       const legacyPause = (result as unknown as { pauseManagement?: { pauseCount?: number; maxPauseDuration?: number; pauseRatio?: number } }).pauseManagement;
       const pauseRatio = result.pauses?.pauseRatio ?? legacyPause?.pauseRatio ?? 0;
-      const pauseCount = legacyPause?.pauseCount ?? Math.max(0, Math.round(pauseRatio * 10));
-      const longestPause = legacyPause?.maxPauseDuration ? Math.round(legacyPause.maxPauseDuration * 1000) : 0;
+      const pauseMap = result.pauses?.map;
+      const pauseCount = pauseMap?.pauseCount ?? legacyPause?.pauseCount ?? Math.max(0, Math.round(pauseRatio * 10));
+      const longestPause = pauseMap?.longestPauseMs ?? (legacyPause?.maxPauseDuration ? Math.round(legacyPause.maxPauseDuration * 1000) : 0);
 
       // Persist normalized backend records (take/transcript/score)
       if (audioData.audioBlob) {
@@ -235,72 +301,59 @@ export const PracticeModal = ({
               endIntensity: result.acceleration.score,
             },
             scoreOnServer: true,
+            fillerWords: !!result.hesitation,
           });
         } catch (e) {
           console.warn('practice-ingest failed:', e);
         }
       }
 
-      // Calculate coin reward/penalty
-      const score = result.overallScore;
+      let score = result.overallScore;
       let coins = 0;
-      
-      if (coinConfig) {
-        const rewardThreshold = coinConfig.reward_score_threshold ?? 70;
-        const penaltyThreshold = coinConfig.penalty_score_threshold ?? 50;
-        const rewardMin = coinConfig.reward_min ?? 0;
-        const rewardMax = coinConfig.reward_max ?? rewardMin;
-        const penaltyMin = coinConfig.penalty_min ?? 0;
-        const penaltyMax = coinConfig.penalty_max ?? penaltyMin;
-
-        if (score >= rewardThreshold) {
-          coins = Math.round(
-            rewardMin + 
-            ((score - rewardThreshold) / Math.max(1, 100 - rewardThreshold)) * (rewardMax - rewardMin)
-          );
-        } else if (score < penaltyThreshold) {
-          coins = -Math.round(
-            penaltyMin + 
-            ((penaltyThreshold - score) / Math.max(1, penaltyThreshold)) * (penaltyMax - penaltyMin)
-          );
+      let limits: string[] = [];
+
+      // Settle practice history/progress/coins for dashboard + progress pages
+      if (lessonId && category) {
+        const settlement = await settleTake({
+          settlementKey,
+          lessonId,
+          category,
+          itemIndex: currentIndex,
+          metrics: {
+            volume: result.volume.averageDb,
+            speechRate: result.speechRate.wordsPerMinute,
+            pauses: pauseRatio,
+            pauseCount,
+            longestPause,
+            latency: result.responseTime.responseTimeMs,
+            endIntensity: result.acceleration.score,
+            ...(result.pronunciation ? { pronunciation: result.pronunciation.score } : {}),
+            ...(result.intonation ? { intonation: result.intonation.score, pitchRange: result.intonation.rangeSemitones } : {}),
+            ...(result.prosody ? { prosody: result.prosody.score, prosodySimilarity: result.prosody.similarity } : {}),
+            ...(result.hesitation ? { hesitation: result.hesitation.score, fillersPerMinute: result.hesitation.perMinute } : {}),
+          },
+          audioFingerprint,
+        });
+        if (settlement) {
+          coins = getSettlementCoinChange(settlement);
+          limits = formatSettlementLimits(settlement);
+          // The server scores the metrics itself; its score is the one recorded
+          score = settlement.score;
         }
-      } else {
-        coins = score >= 70 ? Math.floor(score / 10) : (score < 50 ? -5 : 0);
       }
-      coins = Number.isFinite(coins) ? coins : 0;
 
+      const settledResult = score === result.overallScore ? result : { ...result, overallScore: score };
+      setAnalysisResult(settledResult);
       setCoinChange(coins);
+      setRewardLimits(limits);
       persistAnalysis({
         status: "done",
         updatedAt: Date.now(),
-        result,
+        result: settledResult,
         coinChange: coins,
+        rewardLimits: limits,
       });
 
-      // Save practice history/progress for dashboard + progress pages
-      if (lessonId && category) {
-        try {
-          await savePractice.mutateAsync({
-            lessonId,
-            category,
-            itemIndex: currentIndex,
-            score: Number.isFinite(score) ? score : 0,
-            coinsEarned: Number.isFinite(coins) ? coins : 0,
-            metrics: {
-              volume: result.volume.averageDb,
-              speechRate: result.speechRate.wordsPerMinute,
-              pauseCount,
-              longestPause,
-              latency: result.responseTime.responseTimeMs,
-              endIntensity: result.acceleration.score,
-            },
-          });
-        } catch (saveError) {
-          console.warn("practice save failed:", saveError);
-          toast.warning("Result analyzed, but saving failed. Please retry once.");
-        }
-      }
-
       // Update session stats
       setSessionStats(prev => ({
         completed: prev.completed + 1,
@@ -312,6 +365,11 @@ export const PracticeModal = ({
       refetchWallet();
 
     } catch (error: unknown) {
+      if (isAnalysisCancelled(error)) {
+        console.log("Analysis cancelled");
+        clearPersistedAnalysis(analysisStorageKey);
+        return;
+      }
       console.error("Error analyzing speech:", error);
       const errorMessage = error instanceof Error
         ? error.message
@@ -324,6 +382,7 @@ export const PracticeModal = ({
       recorder.resetRecording();
       persistAnalysis({ status: "error", updatedAt: Date.now() });
     } finally {
+      if (analysisAbortRef.current === abortController) analysisAbortRef.current = null;
       setIsAnalyzing(false);
     }
   };
@@ -333,6 +392,7 @@ export const PracticeModal = ({
       setCurrentIndex(currentIndex + 1);
       setAnalysisResult(null);
       setCoinChange(null);
+      setRewardLimits([]);
       setShowEnglish(false);
       recorder.resetRecording();
       clearPersistedAnalysis(analysisStorageKey);
@@ -369,6 +429,7 @@ export const PracticeModal = ({
       setCurrentIndex(currentIndex - 1);
       setAnalysisResult(null);
       setCoinChange(null);
+      setRewardLimits([]);
       setShowEnglish(false);
       recorder.resetRecording();
       clearPersistedAnalysis(analysisStorageKey);
@@ -378,6 +439,7 @@ export const PracticeModal = ({
   const handleRetry = () => {
     setAnalysisResult(null);
     setCoinChange(null);
+    setRewardLimits([]);
     recorder.resetRecording();
     clearPersistedAnalysis(analysisStorageKey);
   };
@@ -518,6 +580,7 @@ export const PracticeModal = ({
               <PracticeCameraFeed
                 isRecording={recorder.isRecording}
                 audioLevel={recorder.getAudioLevel()}
+                liveCue={live.liveEstimate?.cue}
                 onTap={() => void handleCameraTap()}
                 hintText={recorder.isRecording ? "Tap or press Space to stop" : "Tap or press Space to record"}
               />
@@ -536,7 +599,7 @@ export const PracticeModal = ({
                     Recording... {Math.round(recorder.recordingTime)}s
                   </span>
                 </div>
-                <RecordingWaveform getAudioLevel={recorder.getAudioLevel} isActive={recorder.isRecording} />
+                <RecordingWaveform getAudioLevel={recorder.getAudioLevel} isActive={recorder.isRecording} estimate={live.liveEstimate} />
               </motion.div>
             )}
 
@@ -549,6 +612,9 @@ export const PracticeModal = ({
               >
                 <Loader2 className="w-12 h-12 animate-spin text-primary mx-auto mb-4" />
                 <p className="text-muted-foreground">Analyzing your pronunciation...</p>
+                {analysisProgress && (
+                  <Progress value={Math.round(analysisProgress.progress * 100)} className="h-1.5 max-w-xs mx-auto mt-4" />
+                )}
               </motion.div>
             )}
 
@@ -559,7 +625,7 @@ export const PracticeModal = ({
                 animate={{ scale: 1, opacity: 1 }}
                 className="mb-8"
               >
-                <ResultsView result={analysisResult} coinChange={coinChange} onRetry={handleRetry} />
+                <ResultsView result={analysisResult} coinChange={coinChange} rewardLimits={rewardLimits} audioUrl={recorder.audioUrl} onRetry={handleRetry} />
               </motion.div>
             )}
 
@@ -0,0 +1,119 @@
+import { useMemo } from "react";
+import { motion } from "framer-motion";
+import type { ProsodyResult } from "@/lib/audioAnalysis";
+import type { ProsodyOverlayPoint } from "@/lib/prosodyComparison";
+
+interface ProsodyOverlayViewProps {
+  prosody: ProsodyResult;
+}
+
+const WIDTH = 300;
+const HEIGHT = 64;
+const SEMITONE_SPAN = 12;
+const ENERGY_FLOOR_DB = -40;
+
+type Series = (point: ProsodyOverlayPoint) => number | null;
+
+/** Polyline segments for one series; null values break the line */
+function toSegments(overlay: ProsodyOverlayPoint[], value: Series, toY: (v: number) => number): string[] {
+  const duration = Math.max(1, overlay[overlay.length - 1]?.timeMs ?? 1);
+  const segments: string[] = [];
+  let current: string[] = [];
+  for (const point of overlay) {
+    const v = value(point);
+    if (v === null) {
+      if (current.length > 1) segments.push(current.join(" "));
+      current = [];
+      continue;
+    }
+    current.push(`${((point.timeMs / duration) * WIDTH).toFixed(1)},${toY(v).toFixed(1)}`);
+  }
+  if (current.length > 1) segments.push(current.join(" "));
+  return segments;
+}
+
+const pitchY = (st: number) => {
+  const clamped = Math.max(-SEMITONE_SPAN, Math.min(SEMITONE_SPAN, st));
+  return HEIGHT / 2 - (clamped / SEMITONE_SPAN) * (HEIGHT / 2);
+};
+const energyY = (db: number) => (Math.max(ENERGY_FLOOR_DB, Math.min(0, db)) / ENERGY_FLOOR_DB) * HEIGHT;
+
+function Chart({ label, reference, learner }: { label: string; reference: string[]; learner: string[] }) {
+  return (
+    <div>
+      <p className="text-[10px] text-muted-foreground uppercase tracking-wide mb-1">{label}</p>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-16" preserveAspectRatio="none">
+        {reference.map((points, i) => (
+          <polyline
+            key={`r${i}`}
+            points={points}
+            fill="none"
+            className="stroke-muted-foreground"
+            strokeWidth={2}
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {learner.map((points, i) => (
+          <polyline
+            key={`l${i}`}
+            points={points}
+            fill="none"
+            className="stroke-cyan-400"
+            strokeWidth={2}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+export function ProsodyOverlayView({ prosody }: ProsodyOverlayViewProps) {
+  const { overlay, similarity, durationRatio } = prosody;
+
+  const charts = useMemo(
+    () => ({
+      pitch: {
+        reference: toSegments(overlay, (p) => p.referencePitch, pitchY),
+        learner: toSegments(overlay, (p) => p.learnerPitch, pitchY),
+      },
+      energy: {
+        reference: toSegments(overlay, (p) => p.referenceEnergy, energyY),
+        learner: toSegments(overlay, (p) => p.learnerEnergy, energyY),
+      },
+    }),
+    [overlay]
+  );
+
+  const tempo =
+    durationRatio > 1.15 ? "slower than" : durationRatio < 0.87 ? "faster than" : "about the same pace as";
+
+  return (
+    <motion.div
+      className="p-4 rounded-2xl border border-border/50 bg-card/60 backdrop-blur-sm space-y-3"
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground uppercase tracking-wide">Shadowing Match</p>
+        <p className="text-xs text-muted-foreground">{similarity}% similar</p>
+      </div>
+
+      <Chart label="Pitch" reference={charts.pitch.reference} learner={charts.pitch.learner} />
+      <Chart label="Energy" reference={charts.energy.reference} learner={charts.energy.learner} />
+
+      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          <span className="w-4 border-t-2 border-dashed border-muted-foreground" /> Reference
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="w-4 border-t-2 border-cyan-400" /> You
+        </span>
+        <span className="ml-auto">You spoke {tempo} the reference</span>
+      </div>
+    </motion.div>
+  );
+}
@@ -1,12 +1,18 @@
 import { useEffect, useRef } from "react";
 import { motion } from "framer-motion";
+import { cn } from "@/lib/utils";
+import { LIVE_CUE_LABELS, type LiveEstimate } from "@/lib/audioAnalysis";
 
 interface RecordingWaveformProps {
   getAudioLevel: () => number;
   isActive: boolean;
+  estimate?: LiveEstimate | null; // rolling volume/pace/pause estimate for the take so far
 }
 
-export function RecordingWaveform({ getAudioLevel, isActive }: RecordingWaveformProps) {
+// Pace is only shown once there is enough speech to count syllables over
+const PACE_MIN_MS = 3000;
+
+export function RecordingWaveform({ getAudioLevel, isActive, estimate }: RecordingWaveformProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationFrameRef = useRef<number>();
   const historyRef = useRef<number[]>([]);
@@ -98,6 +104,25 @@ export function RecordingWaveform({ getAudioLevel, isActive }: RecordingWaveform
     >
       <div className="bg-background/30 backdrop-blur-md rounded-2xl p-3 border border-white/10">
         <canvas ref={canvasRef} className="w-full h-20 rounded-xl" style={{ display: "block" }} />
+        {estimate && (
+          <div className="mt-2 flex items-center gap-2 text-xs">
+            <span
+              className={cn(
+                "px-2 py-0.5 rounded-full font-semibold",
+                estimate.cue === "great" ? "bg-emerald-500/20 text-emerald-300" : "bg-amber-500/20 text-amber-300"
+              )}
+            >
+              {LIVE_CUE_LABELS[estimate.cue]}
+            </span>
+            <span className="ml-auto text-muted-foreground">
+              {isFinite(estimate.volume.averageDb) ? `${estimate.volume.averageDb.toFixed(0)} dB` : "— dB"}
+              {" · "}
+              {estimate.elapsedMs >= PACE_MIN_MS ? `${estimate.speechRate.wordsPerMinute} WPM` : "— WPM"}
+              {" · "}
+              {`${Math.round(estimate.pauses.pauseRatio * 100)}% pauses`}
+            </span>
+          </div>
+        )}
       </div>
     </motion.div>
   );
@@ -1,18 +1,26 @@
 ﻿import { useMemo, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { RotateCcw, ChevronDown, ChevronUp, Volume2, Zap, TrendingUp, Clock, Waves, ArrowRight } from "lucide-react";
+import { RotateCcw, ChevronDown, ChevronUp, Volume2, Zap, TrendingUp, Clock, Waves, ArrowRight, SpellCheck, Music, AudioLines, MessageCircleWarning, ShieldAlert } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScoreDisplay } from "@/components/practice/ScoreDisplay";
 import { MetricCard } from "@/components/practice/MetricCard";
+import { WordAlignmentView } from "@/components/practice/WordAlignmentView";
+import { PitchContourView } from "@/components/practice/PitchContourView";
+import { ProsodyOverlayView } from "@/components/practice/ProsodyOverlayView";
+import { PauseTimelineView } from "@/components/practice/PauseTimelineView";
+import { HesitationView } from "@/components/practice/HesitationView";
 import type { AnalysisResult } from "@/lib/audioAnalysis";
+import { getActiveScoringProfile, metricsForStamp } from "@/lib/scoringProfile";
 
 interface ResultsViewProps {
   result: AnalysisResult;
   coinChange?: number | null;
+  rewardLimits?: string[]; // anti-farming rules that reduced coinChange
+  audioUrl?: string | null; // learner's take, lets the pause map play back each pause
   onRetry: () => void;
 }
 
-export function ResultsView({ result, coinChange, onRetry }: ResultsViewProps) {
+export function ResultsView({ result, coinChange, rewardLimits, audioUrl, onRetry }: ResultsViewProps) {
   const [showDetails, setShowDetails] = useState(false);
 
   const legacyPause = (result as unknown as { pauseManagement?: { score?: number; pauseRatio?: number } }).pauseManagement;
@@ -62,22 +70,74 @@ export function ResultsView({ result, coinChange, onRetry }: ResultsViewProps) {
         title: "Flow Control",
         titleVi: "Kiểm soát nhịp",
         score: pauseScore,
-        value: `Pause ratio: ${(pauseRatio * 100).toFixed(0)}%`,
+        value: result.pauses?.map
+          ? `${result.pauses.map.pauseCount} pauses · pause ratio ${(pauseRatio * 100).toFixed(0)}%`
+          : `Pause ratio: ${(pauseRatio * 100).toFixed(0)}%`,
         tag: "FLOW",
         icon: Waves,
       },
+      ...(result.intonation
+        ? [
+            {
+              id: "intonation",
+              title: "Voice Melody",
+              titleVi: "Ngữ điệu",
+              score: result.intonation.score,
+              value: `Pitch range: ${result.intonation.rangeSemitones.toFixed(1)} semitones`,
+              tag: "MELODY",
+              icon: Music,
+            },
+          ]
+        : []),
+      ...(result.prosody
+        ? [
+            {
+              id: "prosody",
+              title: "Shadowing Match",
+              titleVi: "Độ khớp với mẫu",
+              score: result.prosody.score,
+              value: `${result.prosody.similarity}% similar to the reference`,
+              tag: "SHADOW",
+              icon: AudioLines,
+            },
+          ]
+        : []),
+      ...(result.hesitation
+        ? [
+            {
+              id: "hesitation",
+              title: "Smooth Delivery",
+              titleVi: "Nói trôi chảy",
+              score: result.hesitation.score,
+              value: `${result.hesitation.perMinute}/min · ${result.hesitation.fillerCount} filler${result.hesitation.fillerCount === 1 ? "" : "s"}`,
+              tag: "SMOOTH",
+              icon: MessageCircleWarning,
+            },
+          ]
+        : []),
+      ...(result.pronunciation
+        ? [
+            {
+              id: "pronunciation",
+              title: "Word Accuracy",
+              titleVi: "Độ chính xác từ",
+              score: result.pronunciation.score,
+              value: `${result.pronunciation.hits}/${result.pronunciation.hits + result.pronunciation.misses + result.pronunciation.substitutions} words matched`,
+              tag: "ACCURACY",
+              icon: SpellCheck,
+            },
+          ]
+        : []),
     ];
 
-    try {
-      const raw = localStorage.getItem("metricConfig");
-      if (!raw) return allMetrics;
-      const parsed = JSON.parse(raw) as Array<{ id?: string; enabled?: boolean; weight?: number }>;
-      const enabled = new Set(parsed.filter((m) => m.id && m.enabled && Number(m.weight) > 0).map((m) => m.id as string));
-      if (!enabled.size) return allMetrics;
-      return allMetrics.filter((m) => enabled.has(m.id));
-    } catch {
-      return allMetrics;
-    }
+    // Only show metrics that counted towards the score for this item
+    const enabled = new Set(
+      metricsForStamp(getActiveScoringProfile(), result.scoringProfile)
+        .filter((m) => m.enabled !== false && Number(m.weight) > 0)
+        .map((m) => m.id),
+    );
+    if (!enabled.size) return allMetrics;
+    return allMetrics.filter((m) => enabled.has(m.id));
   }, [result, pauseScore, pauseRatio]);
 
   const strongest = metrics.length ? metrics.reduce((a, b) => (a.score > b.score ? a : b)) : null;
@@ -87,6 +147,32 @@ export function ResultsView({ result, coinChange, onRetry }: ResultsViewProps) {
     <div className="w-full max-w-md mx-auto px-2 pb-2">
       <ScoreDisplay score={result.overallScore} emotionalFeedback={result.emotionalFeedback} coinChange={coinChange} />
 
+      {rewardLimits && rewardLimits.length > 0 && (
+        <motion.div
+          className="mb-5 p-3 rounded-xl bg-secondary/60 border border-border/50 text-sm"
+          initial={{ opacity: 0, y: 6 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <p className="font-medium flex items-center gap-2 mb-1">
+            <ShieldAlert className="w-4 h-4 text-warning" />
+            Fewer coins for this take
+          </p>
+          {rewardLimits.map((message, i) => (
+            <p key={i} className="text-muted-foreground">
+              {message}
+            </p>
+          ))}
+        </motion.div>
+      )}
+
+      {result.pronunciation && <WordAlignmentView pronunciation={result.pronunciation} />}
+
+      {result.prosody && metrics.some((m) => m.id === "prosody") && (
+        <div className="mb-5">
+          <ProsodyOverlayView prosody={result.prosody} />
+        </div>
+      )}
+
       {strongest && focus && strongest.id !== focus.id && (
         <motion.div
           className="mb-5 p-4 rounded-2xl bg-gradient-to-br from-card/80 to-card/40 backdrop-blur-sm border border-border/50"
@@ -127,6 +213,13 @@ export function ResultsView({ result, coinChange, onRetry }: ResultsViewProps) {
             {metrics.map((m, index) => (
               <MetricCard key={m.id} title={m.title} titleVi={m.titleVi} score={m.score} tag={m.tag} value={m.value} index={index} />
             ))}
+            {result.pauses?.map && <PauseTimelineView map={result.pauses.map} audioUrl={audioUrl} />}
+            {result.hesitation && metrics.some((m) => m.id === "hesitation") && (
+              <HesitationView hesitation={result.hesitation} />
+            )}
+            {result.intonation && metrics.some((m) => m.id === "intonation") && (
+              <PitchContourView intonation={result.intonation} />
+            )}
           </motion.div>
         )}
       </AnimatePresence>
@@ -0,0 +1,69 @@
+import { motion } from "framer-motion";
+import { cn } from "@/lib/utils";
+import type { PronunciationResult, WordAlignment } from "@/lib/audioAnalysis";
+
+interface WordAlignmentViewProps {
+  pronunciation: PronunciationResult;
+}
+
+const statusClass: Record<WordAlignment["status"], string> = {
+  hit: "bg-emerald-500/15 text-emerald-300 border-emerald-400/30",
+  substitution: "bg-amber-500/15 text-amber-300 border-amber-400/30",
+  miss: "bg-rose-500/15 text-rose-300 border-rose-400/30 line-through",
+  insertion: "bg-secondary/60 text-muted-foreground border-border/50 italic",
+};
+
+const statusLabel: Record<WordAlignment["status"], string> = {
+  hit: "Said correctly",
+  substitution: "Said differently",
+  miss: "Missed",
+  insertion: "Extra word",
+};
+
+export function WordAlignmentView({ pronunciation }: WordAlignmentViewProps) {
+  const { words, hits, misses, substitutions, insertions } = pronunciation;
+
+  return (
+    <motion.div
+      className="mb-5 p-4 rounded-2xl border border-border/50 bg-card/60 backdrop-blur-sm"
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-xs text-muted-foreground uppercase tracking-wide">Word Check</p>
+        <p className="text-xs text-muted-foreground">
+          {hits} ✓ · {substitutions} ≈ · {misses} ✗{insertions > 0 ? ` · +${insertions}` : ""}
+        </p>
+      </div>
+
+      {words.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No words recognized.</p>
+      ) : (
+        <div className="flex flex-wrap gap-1.5">
+          {words.map((w, i) => (
+            <span
+              key={i}
+              title={
+                w.status === "substitution"
+                  ? `${statusLabel[w.status]}: heard "${w.spoken}"`
+                  : statusLabel[w.status]
+              }
+              className={cn("px-2 py-0.5 rounded-md border text-sm", statusClass[w.status])}
+            >
+              {w.expected ?? w.spoken}
+              {w.status === "substitution" && (
+                <span className="ml-1 text-[10px] opacity-80">({w.spoken})</span>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {pronunciation.transcript && (
+        <p className="mt-3 text-xs text-muted-foreground">
+          Heard: <span className="text-foreground/80">"{pronunciation.transcript}"</span>
+        </p>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { CheckCircle2, Gift, Loader2, PiggyBank, Send, Users } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { useAuth } from "@/context/AuthContext";
+import { useCoinConfig } from "@/hooks/useCoinWallet";
+import { useWallet } from "@/hooks/useUserData";
+import type { CourseLeaderboardEntry } from "@/hooks/useCourseLeaderboard";
+import {
+  useClassGifts,
+  useClassPools,
+  useContributeToPool,
+  useGiftedToday,
+  useSendCoinGift,
+  type ClassPool,
+  type ClassPoolContribution,
+  type ClassPoolStatus,
+} from "@/hooks/useClassCoins";
+
+const poolStatusStyles: Record<ClassPoolStatus, string> = {
+  open: "bg-primary/10 text-primary border-primary/30",
+  reached: "bg-green-500/10 text-green-600 border-green-500/30",
+  fulfilled: "bg-secondary text-muted-foreground border-border",
+  cancelled: "bg-secondary text-muted-foreground border-border",
+};
+
+const poolStatusLabels: Record<ClassPoolStatus, string> = {
+  open: "Collecting",
+  reached: "Unlocked",
+  fulfilled: "Reward given",
+  cancelled: "Cancelled",
+};
+
+interface ClassCoinsPanelProps {
+  classId: string;
+  members: CourseLeaderboardEntry[];
+}
+
+function PoolCard({
+  pool,
+  names,
+  balance,
+}: {
+  pool: ClassPool & { contributions: ClassPoolContribution[] };
+  names: Record<string, string>;
+  balance: number;
+}) {
+  const { user } = useAuth();
+  const contribute = useContributeToPool();
+  const [amount, setAmount] = useState("");
+
+  const parsedAmount = parseInt(amount) || 0;
+  const remaining = Math.max(pool.target - pool.total, 0);
+  const mine = pool.contributions.filter((c) => c.user_id === user?.id).reduce((sum, c) => sum + c.amount, 0);
+
+  // Top contributors of the pool, summed per learner
+  const byLearner = new Map<string, number>();
+  pool.contributions.forEach((c) => byLearner.set(c.user_id, (byLearner.get(c.user_id) || 0) + c.amount));
+  const top = [...byLearner.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3);
+
+  const handleContribute = async () => {
+    if (parsedAmount <= 0) return;
+    await contribute.mutateAsync({ pool, amount: Math.min(parsedAmount, remaining) });
+    setAmount("");
+  };
+
+  return (
+    <div className="p-4 rounded-lg border border-border/50 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="font-semibold">{pool.title}</p>
+          {pool.description && <p className="text-sm text-muted-foreground">{pool.description}</p>}
+        </div>
+        <span className={cn("px-2 py-0.5 rounded-md text-xs font-medium border shrink-0", poolStatusStyles[pool.status])}>
+          {poolStatusLabels[pool.status]}
+        </span>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-sm">
+          <span className="flex items-center gap-1">
+            {pool.status === "open" ? "Unlocks" : <CheckCircle2 className="w-4 h-4 text-green-500" />} {pool.reward}
+          </span>
+          <span className="font-medium">
+            {pool.total} / {pool.target} C
+          </span>
+        </div>
+        <Progress value={Math.min(100, (pool.total / pool.target) * 100)} className="h-2" />
+      </div>
+
+      {top.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Top contributors: {top.map(([userId, sum]) => `${names[userId] || "Classmate"} (${sum} C)`).join(", ")}
+          {mine > 0 && ` · You gave ${mine} C`}
+        </p>
+      )}
+
+      {pool.status === "open" && (
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            min={1}
+            max={Math.min(remaining, balance)}
+            placeholder={`Up to ${Math.min(remaining, balance)} C`}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+          <Button
+            onClick={handleContribute}
+            disabled={parsedAmount <= 0 || parsedAmount > balance || contribute.isPending}
+            className="gap-2 shrink-0"
+          >
+            {contribute.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <PiggyBank className="w-4 h-4" />}
+            Contribute
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Class pools, tipping classmates and the gift feed of the learner's class
+export function ClassCoinsPanel({ classId, members }: ClassCoinsPanelProps) {
+  const { user } = useAuth();
+  const { data: config } = useCoinConfig();
+  const { data: wallet } = useWallet();
+  const { data: pools, isLoading: poolsLoading } = useClassPools(classId);
+  const { data: gifts } = useClassGifts(classId);
+  const { data: giftedToday = 0 } = useGiftedToday();
+  const sendGift = useSendCoinGift();
+
+  const [recipientId, setRecipientId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [message, setMessage] = useState("");
+
+  const names = Object.fromEntries(members.map((m) => [m.userId, m.displayName]));
+  const classmates = members.filter((m) => m.userId !== user?.id);
+  const balance = wallet?.balance ?? 0;
+  const giftsEnabled = (config?.gifts_enabled ?? 1) !== 0;
+  const maxGift = config?.gift_max_amount ?? 50;
+  const dailyLimit = config?.gift_daily_limit ?? 100;
+  const leftToday = Math.max(dailyLimit - giftedToday, 0);
+  const parsedAmount = parseInt(amount) || 0;
+  const canSend =
+    giftsEnabled && !!recipientId && parsedAmount > 0 &&
+    parsedAmount <= Math.min(maxGift, leftToday, balance);
+
+  const visiblePools = (pools || []).filter((p) => p.status !== "cancelled");
+
+  const handleSend = async () => {
+    if (!canSend) return;
+    await sendGift.mutateAsync({
+      recipientId,
+      recipientName: names[recipientId] || "your classmate",
+      classId,
+      amount: parsedAmount,
+      message: message.trim(),
+    });
+    setAmount("");
+    setMessage("");
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <PiggyBank className="w-5 h-5 text-primary" />
+            Class Pools
+          </CardTitle>
+          <CardDescription>Pool coins with your class to unlock a reward for everyone.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {poolsLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : visiblePools.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-4">No class pools yet.</p>
+          ) : (
+            visiblePools.map((pool) => <PoolCard key={pool.id} pool={pool} names={names} balance={balance} />)
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Gift className="w-5 h-5 text-pink-500" />
+            Tip a Classmate
+          </CardTitle>
+          <CardDescription>
+            Thank someone for helping you, e.g. in a role-play. Up to {maxGift} C per gift, {leftToday} of{" "}
+            {dailyLimit} C left today.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!giftsEnabled ? (
+            <p className="text-sm text-muted-foreground">Gifts are turned off for now.</p>
+          ) : (
+            <div className="grid sm:grid-cols-[1fr_8rem] gap-3">
+              <div className="space-y-2">
+                <Label>Classmate</Label>
+                <Select value={recipientId} onValueChange={setRecipientId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a classmate" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {classmates.map((m) => (
+                      <SelectItem key={m.userId} value={m.userId}>
+                        {m.displayName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Coins</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={Math.min(maxGift, leftToday, balance)}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label>Message (optional)</Label>
+                <Input
+                  maxLength={140}
+                  placeholder="Thanks for being my partner!"
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleSend} disabled={!canSend || sendGift.isPending} className="gap-2 sm:col-span-2">
+                {sendGift.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                Send Gift
+              </Button>
+            </div>
+          )}
+
+          {gifts && gifts.length > 0 && (
+            <div className="space-y-2 pt-2 border-t border-border/50">
+              <p className="text-sm font-medium flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                Recent gifts in your class
+              </p>
+              {gifts.map((gift) => (
+                <div key={gift.id} className="flex items-start justify-between gap-3 text-sm p-2 rounded-lg bg-secondary/30">
+                  <div>
+                    <p>
+                      <span className="font-medium">{gift.sender_id === user?.id ? "You" : names[gift.sender_id] || "Classmate"}</span>
+                      {" → "}
+                      <span className="font-medium">{gift.recipient_id === user?.id ? "you" : names[gift.recipient_id] || "classmate"}</span>
+                    </p>
+                    {gift.message && <p className="text-muted-foreground">"{gift.message}"</p>}
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className="font-semibold text-pink-500">{gift.amount} C</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(gift.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
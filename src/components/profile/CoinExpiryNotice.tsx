@@ -0,0 +1,49 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { Hourglass } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useCoinExpiryForecast } from "@/hooks/useCoinWallet";
+
+interface CoinExpiryNoticeProps {
+  className?: string;
+}
+
+// Warns before coins expire or the balance resets at the end of the season
+export function CoinExpiryNotice({ className }: CoinExpiryNoticeProps) {
+  const { data: forecast } = useCoinExpiryForecast();
+  if (!forecast || forecast.balance <= 0) return null;
+
+  const seasonEnd = forecast.season_ends_on ? parseISO(forecast.season_ends_on) : null;
+  const seasonSoon =
+    !!seasonEnd && forecast.season_amount > 0 &&
+    differenceInCalendarDays(seasonEnd, new Date()) <= forecast.warning_days;
+  const expiringSoon = forecast.expiring_amount > 0 && !!forecast.expires_on;
+
+  if (!seasonSoon && !expiringSoon) return null;
+
+  return (
+    <div
+      className={cn(
+        "flex items-start gap-3 p-4 rounded-lg border border-orange-500/30 bg-orange-500/10 text-sm",
+        className
+      )}
+    >
+      <Hourglass className="w-5 h-5 text-orange-600 shrink-0 mt-0.5" />
+      <div className="space-y-1">
+        {expiringSoon && (
+          <p>
+            <span className="font-semibold">{forecast.expiring_amount} C</span> expire from{" "}
+            {format(parseISO(forecast.expires_on), "MMM d")}. Coins expire {forecast.expiry_days} days after you
+            earn them; the oldest go first.
+          </p>
+        )}
+        {seasonSoon && (
+          <p>
+            Your class season ends on {format(seasonEnd, "MMM d")}: your balance of{" "}
+            <span className="font-semibold">{forecast.season_amount} C</span> resets the day after.
+          </p>
+        )}
+        <p className="text-muted-foreground">Spend them in the shop or redeem them before then.</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { BookOpen, CheckCircle2, HandCoins, Loader2, Lock, Target, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import {
+  useCancelRedemption,
+  useMyRedemptions,
+  useRedemptionEligibility,
+  useRequestRedemption,
+  type RedemptionStatus,
+} from "@/hooks/useCoinRedemptions";
+
+const statusStyles: Record<RedemptionStatus, string> = {
+  pending: "bg-yellow-500/10 text-yellow-600 border-yellow-500/30",
+  approved: "bg-green-500/10 text-green-600 border-green-500/30",
+  rejected: "bg-red-500/10 text-red-600 border-red-500/30",
+  cancelled: "bg-secondary text-muted-foreground border-border",
+};
+
+export function RedemptionCard() {
+  const { data: eligibility, isLoading } = useRedemptionEligibility();
+  const { data: redemptions } = useMyRedemptions();
+  const requestRedemption = useRequestRedemption();
+  const cancelRedemption = useCancelRedemption();
+
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+
+  const parsedAmount = parseInt(amount) || 0;
+  const available = eligibility?.available ?? 0;
+  const canSubmit = !!eligibility?.eligible && parsedAmount > 0 && parsedAmount <= available;
+
+  const handleRequest = async () => {
+    if (!canSubmit) return;
+    await requestRedemption.mutateAsync({ amount: parsedAmount, note });
+    setAmount("");
+    setNote("");
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <HandCoins className="w-5 h-5" />
+          Redeem Coins
+        </CardTitle>
+        <CardDescription>
+          Turn coins into rewards once you meet the withdrawal requirements. An admin reviews each request.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !eligibility ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="grid sm:grid-cols-2 gap-4">
+              {[
+                {
+                  icon: BookOpen,
+                  label: "Lessons completed",
+                  value: eligibility.lessons_completed,
+                  target: eligibility.lessons_required,
+                  suffix: "",
+                },
+                {
+                  icon: Target,
+                  label: "Average score",
+                  value: eligibility.average_score,
+                  target: eligibility.min_average_score,
+                  suffix: "%",
+                },
+              ].map(({ icon: Icon, label, value, target, suffix }) => {
+                const met = value >= target;
+                return (
+                  <div key={label} className="p-3 rounded-lg border border-border/50">
+                    <div className="flex items-center justify-between mb-2 text-sm">
+                      <span className="flex items-center gap-2 text-muted-foreground">
+                        <Icon className="w-4 h-4" />
+                        {label}
+                      </span>
+                      <span className={cn("font-medium", met ? "text-green-500" : "text-foreground")}>
+                        {value}{suffix} / {target}{suffix}
+                      </span>
+                    </div>
+                    <Progress value={target > 0 ? Math.min(100, (value / target) * 100) : 100} className="h-2" />
+                  </div>
+                );
+              })}
+            </div>
+
+            {eligibility.eligible ? (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2 text-sm text-green-500">
+                  <CheckCircle2 className="w-4 h-4" />
+                  You can redeem up to {available} C
+                  {eligibility.pending_amount > 0 && (
+                    <span className="text-muted-foreground">({eligibility.pending_amount} C awaiting review)</span>
+                  )}
+                </div>
+                <div className="grid sm:grid-cols-[140px_1fr_auto] gap-3 items-end">
+                  <div className="space-y-1">
+                    <Label htmlFor="redeem-amount">Coins</Label>
+                    <Input
+                      id="redeem-amount"
+                      type="number"
+                      min={1}
+                      max={available}
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="redeem-note">What for? (optional)</Label>
+                    <Input
+                      id="redeem-note"
+                      placeholder="e.g. Book voucher"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                    />
+                  </div>
+                  <Button
+                    onClick={handleRequest}
+                    disabled={!canSubmit || requestRedemption.isPending}
+                    className="gap-2"
+                  >
+                    {requestRedemption.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Request
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Lock className="w-4 h-4" />
+                Keep practicing to unlock redemptions.
+              </div>
+            )}
+          </>
+        )}
+
+        {redemptions && redemptions.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Your requests</p>
+            {redemptions.map((redemption) => (
+              <div
+                key={redemption.id}
+                className="flex items-start justify-between gap-4 p-3 rounded-lg border border-border/50"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={cn("px-2 py-0.5 rounded-md text-xs font-medium border", statusStyles[redemption.status])}>
+                      {redemption.status.toUpperCase()}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(redemption.created_at), "MMM d, yyyy")}
+                    </span>
+                  </div>
+                  {redemption.note && <p className="text-sm truncate">{redemption.note}</p>}
+                  {redemption.admin_notes && (
+                    <p className="text-xs text-muted-foreground">Admin: {redemption.admin_notes}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="font-bold">{redemption.amount} C</span>
+                  {redemption.status === "pending" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="w-8 h-8"
+                      title="Cancel request"
+                      disabled={cancelRedemption.isPending}
+                      onClick={() => cancelRedemption.mutate(redemption.id)}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,7 +5,9 @@ import {
   Footprints, Lock
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { Badge } from '@/hooks/useBadges';
+import { Badge, BadgeProgress, BADGE_TIERS } from '@/hooks/useBadges';
+import { formatBadgeProgress } from '@/lib/badgeRules';
+import { Progress } from '@/components/ui/progress';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
 const iconComponents: Record<string, React.ElementType> = {
@@ -26,6 +28,9 @@ const iconComponents: Record<string, React.ElementType> = {
   footprints: Footprints,
 };
 
+// Icon names offered in the badge editor ('fire' is an alias of 'flame')
+export const BADGE_ICON_NAMES = Object.keys(iconComponents).filter(name => name !== 'fire');
+
 const rarityStyles: Record<string, { bg: string; border: string; glow: string }> = {
   common: {
     bg: 'bg-zinc-500/10',
@@ -56,12 +61,21 @@ const rarityTextColors: Record<string, string> = {
   epic: 'text-purple-400'
 };
 
+const tierStyles: Record<number, string> = {
+  1: 'bg-amber-700 text-amber-50',
+  2: 'bg-zinc-300 text-zinc-900',
+  3: 'bg-yellow-400 text-yellow-950'
+};
+
 interface BadgeCardProps {
   badge: Badge;
   earned?: boolean;
   earnedAt?: string;
   size?: 'sm' | 'md' | 'lg';
   showDetails?: boolean;
+  // Towards this badge while not earned, or towards the next tier of an
+  // earned tiered badge
+  progress?: BadgeProgress;
 }
 
 export const BadgeCard = ({ 
@@ -69,11 +83,17 @@ export const BadgeCard = ({
   earned = false, 
   earnedAt,
   size = 'md',
-  showDetails = true 
+  showDetails = true,
+  progress
 }: BadgeCardProps) => {
   const IconComponent = iconComponents[badge.icon] || Trophy;
   const styles = rarityStyles[badge.rarity] || rarityStyles.common;
   const textColor = rarityTextColors[badge.rarity] || rarityTextColors.common;
+  const tierName = badge.tier ? BADGE_TIERS[badge.tier] : null;
+  const shownProgress = progress && progress.target > 0 ? progress : null;
+  const progressLabel = shownProgress
+    ? `${earned ? `${BADGE_TIERS[(badge.tier ?? 0) + 1] ?? 'Next tier'}: ` : ''}${formatBadgeProgress(shownProgress)}`
+    : null;
 
   const sizeClasses = {
     sm: 'w-12 h-12',
@@ -124,6 +144,17 @@ export const BadgeCard = ({
           }}
         />
       )}
+
+      {earned && tierName && (
+        <span
+          className={cn(
+            "absolute -bottom-1.5 -right-1.5 w-5 h-5 rounded-full text-[10px] font-bold flex items-center justify-center",
+            tierStyles[badge.tier!]
+          )}
+        >
+          {tierName[0]}
+        </span>
+      )}
     </motion.div>
   );
 
@@ -136,16 +167,22 @@ export const BadgeCard = ({
           </TooltipTrigger>
           <TooltipContent side="top" className="max-w-xs">
             <div className="space-y-1">
-              <div className={cn("font-semibold", textColor)}>{badge.name}</div>
+              <div className={cn("font-semibold", textColor)}>
+                {badge.name}
+                {tierName && <span className="ml-1 font-normal text-muted-foreground">({tierName})</span>}
+              </div>
               <div className="text-xs text-muted-foreground">{badge.description}</div>
               {earned && earnedAt && (
                 <div className="text-xs text-muted-foreground">
                   Earned: {new Date(earnedAt).toLocaleDateString()}
                 </div>
               )}
+              {earned && progressLabel && (
+                <div className="text-xs text-muted-foreground">{progressLabel}</div>
+              )}
               {!earned && (
                 <div className="text-xs text-muted-foreground italic">
-                  Not yet earned
+                  {progressLabel ?? 'Not yet earned'}
                 </div>
               )}
             </div>
@@ -193,6 +230,11 @@ export const BadgeCard = ({
           )}>
             {badge.rarity}
           </span>
+          {tierName && (
+            <span className={cn("text-xs px-2 py-0.5 rounded-full", tierStyles[badge.tier!])}>
+              {tierName}
+            </span>
+          )}
         </div>
         <p className="text-sm text-muted-foreground truncate">
           {badge.description}
@@ -202,6 +244,12 @@ export const BadgeCard = ({
             +{badge.coins_reward} coins reward
           </div>
         )}
+        {shownProgress && (
+          <div className="mt-2 space-y-1">
+            <Progress value={Math.min(100, (shownProgress.current / shownProgress.target) * 100)} className="h-1.5" />
+            <div className="text-xs text-muted-foreground">{progressLabel}</div>
+          </div>
+        )}
       </div>
 
       {earned && earnedAt && (
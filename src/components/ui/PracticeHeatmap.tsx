@@ -7,8 +7,10 @@ import {
   format, 
   subDays, 
   isSameDay,
-  getDay
+  getDay,
+  parseISO
 } from 'date-fns';
+import { getBrowserTimeZone, toDateKey, todayKey } from '@/lib/timezone';
 
 interface PracticeHeatmapProps {
   practiceHistory?: Array<{
@@ -16,6 +18,8 @@ interface PracticeHeatmapProps {
     score: number;
   }>;
   className?: string;
+  // Days are bucketed in this timezone (defaults to the browser's)
+  timeZone?: string;
 }
 
 interface DayData {
@@ -25,10 +29,13 @@ interface DayData {
   dayOfWeek: number;
 }
 
-export const PracticeHeatmap = ({ practiceHistory, className }: PracticeHeatmapProps) => {
+export const PracticeHeatmap = ({ practiceHistory, className, timeZone }: PracticeHeatmapProps) => {
+  const zone = timeZone || getBrowserTimeZone();
+  const todayStr = todayKey(zone);
+  const today = useMemo(() => parseISO(todayStr), [todayStr]);
+
   // Calculate practice data for each day (last 12 weeks = ~84 days)
   const heatmapData = useMemo(() => {
-    const today = new Date();
     const startDate = subDays(today, 83); // 12 weeks ago
     const days = eachDayOfInterval({ start: startDate, end: today });
     
@@ -36,7 +43,7 @@ export const PracticeHeatmap = ({ practiceHistory, className }: PracticeHeatmapP
     const practiceByDate = new Map<string, number>();
     
     practiceHistory?.forEach(practice => {
-      const date = format(new Date(practice.practiced_at), 'yyyy-MM-dd');
+      const date = toDateKey(practice.practiced_at, zone);
       practiceByDate.set(date, (practiceByDate.get(date) || 0) + 1);
     });
     
@@ -51,7 +58,7 @@ export const PracticeHeatmap = ({ practiceHistory, className }: PracticeHeatmapP
         dayOfWeek: getDay(day), // 0 = Sunday, 1 = Monday, etc.
       };
     });
-  }, [practiceHistory]);
+  }, [practiceHistory, zone, today]);
 
   // Group days by week for display
   const weeks = useMemo(() => {
@@ -121,14 +128,14 @@ export const PracticeHeatmap = ({ practiceHistory, className }: PracticeHeatmapP
     for (const day of sortedDays) {
       if (day.count > 0) {
         streak++;
-      } else if (!isSameDay(day.date, new Date())) {
+      } else if (!isSameDay(day.date, today)) {
         // Only break streak if it's not today (user might practice later today)
         break;
       }
     }
     
     return streak;
-  }, [heatmapData]);
+  }, [heatmapData, today]);
 
   const monthLabels = useMemo(() => {
     const labels: Array<{ month: string; weekIndex: number }> = [];
@@ -222,7 +229,7 @@ export const PracticeHeatmap = ({ practiceHistory, className }: PracticeHeatmapP
                     return <div key={dayIndex} className="w-3.5 h-3.5" />;
                   }
                   
-                  const isToday = isSameDay(day.date, new Date());
+                  const isToday = isSameDay(day.date, today);
                   
                   return (
                     <motion.div
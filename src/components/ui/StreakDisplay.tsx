@@ -1,8 +1,34 @@
 import { motion } from 'framer-motion';
-import { Flame, Calendar, TrendingUp } from 'lucide-react';
+import { Flame, Calendar, TrendingUp, Snowflake, Wrench, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { DailyStreak } from '@/hooks/useStreak';
-import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  DailyStreak,
+  StreakFreezeHistoryEntry,
+  useBuyStreakFreeze,
+  useRepairStreak,
+  useStreakFreezeHistory
+} from '@/hooks/useStreak';
+import { formatDistanceToNow, format, parseISO } from 'date-fns';
+
+const formatDay = (date: string) => format(parseISO(date), 'MMM d');
+
+const describeFreezeEvent = (entry: StreakFreezeHistoryEntry) => {
+  const range = entry.covered_from && entry.covered_to && entry.covered_from !== entry.covered_to
+    ? `${formatDay(entry.covered_from)} – ${formatDay(entry.covered_to)}`
+    : entry.covered_from ? formatDay(entry.covered_from) : '';
+
+  switch (entry.event) {
+    case 'earned':
+      return `Earned a freeze at a ${entry.streak_length}-day streak`;
+    case 'purchased':
+      return `Bought a freeze for ${entry.coins} C`;
+    case 'used':
+      return `${entry.days === 1 ? 'Freeze' : `${entry.days} freezes`} used for ${range}`;
+    case 'repaired':
+      return `Repaired ${range} for ${entry.coins} C`;
+  }
+};
 
 interface StreakDisplayProps {
   streak: DailyStreak | null;
@@ -15,7 +41,14 @@ export const StreakDisplay = ({ streak, compact = false, className }: StreakDisp
   const longestStreak = streak?.longest_streak || 0;
   const lastPractice = streak?.last_practice_date;
 
-  const isActiveToday = lastPractice === new Date().toISOString().split('T')[0];
+  const isActiveToday = !!streak?.is_active_today;
+  const freezes = streak?.freezes_available || 0;
+  const freezeMax = streak?.freeze_max_held ?? 2;
+  const repair = streak?.repair;
+
+  const { data: freezeHistory } = useStreakFreezeHistory(5);
+  const buyFreeze = useBuyStreakFreeze();
+  const repairStreak = useRepairStreak();
 
   if (compact) {
     return (
@@ -127,6 +160,63 @@ export const StreakDisplay = ({ streak, compact = false, className }: StreakDisp
         </div>
       </div>
 
+      {/* Streak protection: repair offer, freezes held and their history */}
+      {repair && (
+        <div className="mt-4 p-3 rounded-xl border border-amber-500/30 bg-amber-500/10 flex items-center justify-between gap-3">
+          <div className="text-sm">
+            <div className="font-medium">Your streak broke</div>
+            <div className="text-xs text-muted-foreground">
+              Repair it to a {repair.streak}-day streak before {format(new Date(repair.deadline), "EEE 'at' h:mm a")}
+            </div>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1 shrink-0"
+            disabled={repairStreak.isPending}
+            onClick={() => repairStreak.mutate()}
+          >
+            {repairStreak.isPending ? <Loader2 size={14} className="animate-spin" /> : <Wrench size={14} />}
+            Repair · {repair.cost} C
+          </Button>
+        </div>
+      )}
+
+      {streak && streak.freezes_enabled !== false && (
+        <div className="mt-4 pt-4 border-t border-border/50">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <Snowflake size={16} className={freezes > 0 ? "text-sky-400" : "text-muted-foreground"} />
+              <div>
+                <div className="text-sm font-medium">{freezes}/{freezeMax} streak freezes</div>
+                <div className="text-xs text-muted-foreground">Used automatically on a missed day</div>
+              </div>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-1"
+              disabled={freezes >= freezeMax || buyFreeze.isPending}
+              onClick={() => buyFreeze.mutate()}
+            >
+              {buyFreeze.isPending && <Loader2 size={14} className="animate-spin" />}
+              Buy · {streak.freeze_cost ?? 50} C
+            </Button>
+          </div>
+
+          {freezeHistory && freezeHistory.length > 0 && (
+            <ul className="mt-3 space-y-1">
+              {freezeHistory.map((entry) => (
+                <li key={entry.id} className="flex justify-between gap-2 text-xs text-muted-foreground">
+                  <span>{describeFreezeEvent(entry)}</span>
+                  <span className="shrink-0">{format(new Date(entry.created_at), 'MMM d')}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Streak milestones */}
       {currentStreak > 0 && (
         <div className="mt-4 pt-4 border-t border-border/50">
@@ -1,5 +1,12 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 
+// Shared with live analysis so both captures go through the same browser processing
+export const RECORDING_AUDIO_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
 interface AudioRecorderState {
   isRecording: boolean;
   isPaused: boolean;
@@ -60,13 +67,7 @@ export function useAudioRecorder(): UseAudioRecorderReturn {
 
   const startRecording = useCallback(async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        } 
-      });
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: RECORDING_AUDIO_CONSTRAINTS });
       
       streamRef.current = stream;
       
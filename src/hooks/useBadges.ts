@@ -2,6 +2,8 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/context/AuthContext';
 import { toast } from 'sonner';
+import type { Json } from '@/integrations/supabase/types';
+import type { BadgeRule } from '@/lib/badgeRules';
 
 export interface Badge {
   id: string;
@@ -13,17 +15,60 @@ export interface Badge {
   requirement_value: number;
   coins_reward: number;
   rarity: string;
+  // Badges sharing a tier_group are tiers of one achievement (see BADGE_TIERS)
+  tier_group: string | null;
+  tier: number | null;
+  // Award criteria; null = never awarded automatically
+  rule: BadgeRule | null;
   created_at: string;
 }
 
+export type BadgeInput = Omit<Badge, 'id' | 'created_at'>;
+
+export interface BadgeRulePreviewRow {
+  user_id: string;
+  display_name: string | null;
+  email: string;
+  already_earned: boolean;
+}
+
 export interface UserBadge {
   id: string;
   user_id: string;
   badge_id: string;
   earned_at: string;
+  // When the held tier last went up; earned_at stays the first tier's date
+  upgraded_at: string | null;
   badge?: Badge;
 }
 
+// How far the learner is from a badge they do not hold yet. metric is null
+// when the target counts conditions rather than a metric.
+export interface BadgeProgress {
+  badge_id: string;
+  current: number;
+  target: number;
+  metric: string | null;
+}
+
+// Learners checked, newly awarded and upgraded from a lower tier by a backfill
+export interface BadgeBackfillResult {
+  evaluated: number;
+  awarded: number;
+  upgraded: number;
+  coins_granted: number;
+}
+
+interface BadgeBackfillBatch extends BadgeBackfillResult {
+  next_after: string | null;
+}
+
+export const BADGE_TIERS: Record<number, string> = {
+  1: 'Bronze',
+  2: 'Silver',
+  3: 'Gold'
+};
+
 export const useAllBadges = () => {
   return useQuery({
     queryKey: ['all-badges'],
@@ -34,7 +79,7 @@ export const useAllBadges = () => {
         .order('rarity', { ascending: true });
 
       if (error) throw error;
-      return data as Badge[];
+      return data as unknown as Badge[];
     }
   });
 };
@@ -57,150 +102,142 @@ export const useUserBadges = () => {
         .order('earned_at', { ascending: false });
 
       if (error) throw error;
-      return data as (UserBadge & { badge: Badge })[];
+      return data as unknown as (UserBadge & { badge: Badge })[];
     },
     enabled: !!user?.id
   });
 };
 
-export const useCheckAndAwardBadges = () => {
+// Progress towards every badge the learner does not hold yet, by badge id
+export const useBadgeProgress = () => {
   const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['badge-progress', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return {};
+
+      const { data, error } = await supabase.rpc('get_my_badge_progress');
+
+      if (error) throw error;
+      return Object.fromEntries(
+        ((data || []) as BadgeProgress[]).map(row => [row.badge_id, row])
+      ) as Record<string, BadgeProgress>;
+    },
+    enabled: !!user?.id
+  });
+};
+
+const invalidateBadges = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['all-badges'] });
+  queryClient.invalidateQueries({ queryKey: ['user-badges'] });
+  queryClient.invalidateQueries({ queryKey: ['badge-progress'] });
+};
+
+export const useSaveBadge = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (stats: {
-      practiceCount: number;
-      totalCoins: number;
-      currentStreak: number;
-      perfectScores: number;
-      highScores: number;
-      vocabMastered: number;
-      leaderboardRank?: number;
-      practiceHour?: number;
-      dailyPractices?: number;
-    }) => {
-      if (!user?.id) throw new Error('Not authenticated');
-
-      // Get all badges
-      const { data: allBadges, error: badgesError } = await supabase
-        .from('badges')
-        .select('*');
+    mutationFn: async ({ id, rule, ...badge }: BadgeInput & { id?: string }) => {
+      const row = { ...badge, rule: rule as unknown as Json };
+      const { error } = id
+        ? await supabase.from('badges').update(row).eq('id', id)
+        : await supabase.from('badges').insert(row);
+
+      if (error) throw error;
+      return !id;
+    },
+    onSuccess: (created) => {
+      invalidateBadges(queryClient);
+      toast.success(created ? 'Badge created' : 'Badge updated');
+    },
+    onError: (error) => {
+      toast.error(`Failed to save badge: ${error.message}`);
+    }
+  });
+};
 
-      if (badgesError) throw badgesError;
+// Earned copies are removed with the badge
+export const useDeleteBadge = () => {
+  const queryClient = useQueryClient();
 
-      // Get user's existing badges
-      const { data: existingBadges, error: existingError } = await supabase
-        .from('user_badges')
-        .select('badge_id')
-        .eq('user_id', user.id);
-
-      if (existingError) throw existingError;
-
-      const existingBadgeIds = new Set(existingBadges?.map(b => b.badge_id));
-      const newBadges: Badge[] = [];
-
-      for (const badge of allBadges || []) {
-        if (existingBadgeIds.has(badge.id)) continue;
-
-        let earned = false;
-
-        switch (badge.requirement_type) {
-          case 'practice_count':
-            earned = stats.practiceCount >= badge.requirement_value;
-            break;
-          case 'total_coins':
-            earned = stats.totalCoins >= badge.requirement_value;
-            break;
-          case 'streak_days':
-            earned = stats.currentStreak >= badge.requirement_value;
-            break;
-          case 'perfect_score':
-            earned = stats.perfectScores >= badge.requirement_value;
-            break;
-          case 'high_scores':
-            earned = stats.highScores >= badge.requirement_value;
-            break;
-          case 'vocab_mastered':
-            earned = stats.vocabMastered >= badge.requirement_value;
-            break;
-          case 'leaderboard_rank':
-            earned = (stats.leaderboardRank || 999) <= badge.requirement_value;
-            break;
-          case 'early_practice':
-            earned = stats.practiceHour !== undefined && stats.practiceHour < 8;
-            break;
-          case 'late_practice':
-            earned = stats.practiceHour !== undefined && stats.practiceHour >= 22;
-            break;
-          case 'daily_practices':
-            earned = (stats.dailyPractices || 0) >= badge.requirement_value;
-            break;
-        }
-
-        if (earned) {
-          const { error: insertError } = await supabase
-            .from('user_badges')
-            .insert({
-              user_id: user.id,
-              badge_id: badge.id
-            });
-
-          if (!insertError) {
-            newBadges.push(badge);
-
-            // Award coins if badge has coin reward
-            if (badge.coins_reward > 0) {
-              // Update wallet
-              const { data: wallet } = await supabase
-                .from('user_wallets')
-                .select('balance, total_earned')
-                .eq('user_id', user.id)
-                .single();
-
-              if (wallet) {
-                await supabase
-                  .from('user_wallets')
-                  .update({
-                    balance: wallet.balance + badge.coins_reward,
-                    total_earned: wallet.total_earned + badge.coins_reward
-                  })
-                  .eq('user_id', user.id);
-
-                await supabase
-                  .from('coin_transactions')
-                  .insert({
-                    user_id: user.id,
-                    amount: badge.coins_reward,
-                    transaction_type: 'badge_reward',
-                    description: `Earned badge: ${badge.name}`
-                  });
-              }
-            }
-          }
-        }
-      }
-
-      return newBadges;
+  return useMutation({
+    mutationFn: async (badgeId: string) => {
+      const { error } = await supabase.from('badges').delete().eq('id', badgeId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateBadges(queryClient);
+      toast.success('Badge deleted');
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete badge: ${error.message}`);
+    }
+  });
+};
+
+// Learners who would qualify for a rule right now
+export const usePreviewBadgeRule = () => {
+  return useMutation({
+    mutationFn: async ({ rule, badgeId }: { rule: BadgeRule; badgeId?: string }) => {
+      const { data, error } = await supabase.rpc('preview_badge_rule', {
+        p_rule: rule as unknown as Json,
+        p_badge_id: badgeId
+      });
+
+      if (error) throw error;
+      return (data || []) as BadgeRulePreviewRow[];
     },
-    onSuccess: (newBadges) => {
-      queryClient.invalidateQueries({ queryKey: ['user-badges'] });
-      queryClient.invalidateQueries({ queryKey: ['wallet'] });
-      queryClient.invalidateQueries({ queryKey: ['coin-transactions'] });
-
-      newBadges.forEach(badge => {
-        const rarityEmoji = {
-          common: '🥉',
-          uncommon: '🥈',
-          rare: '🥇',
-          epic: '💎'
-        }[badge.rarity] || '🏆';
-
-        toast.success(`${rarityEmoji} Badge Unlocked: ${badge.name}!`, {
-          description: badge.coins_reward > 0 
-            ? `+${badge.coins_reward} coins reward!` 
-            : badge.description || undefined
+    onError: (error) => {
+      toast.error(`Preview failed: ${error.message}`);
+    }
+  });
+};
+
+// Awards a badge to every learner whose history already meets its rule,
+// dated when they first met it
+export const useBackfillBadge = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ badgeId, grantCoins }: { badgeId: string; grantCoins: boolean }) => {
+      const total: BadgeBackfillResult = { evaluated: 0, awarded: 0, upgraded: 0, coins_granted: 0 };
+      let after: string | null = null;
+
+      // One batch of learners per call, so a large school stays within the request timeout
+      do {
+        const { data, error } = await supabase.rpc('backfill_badge', {
+          p_badge_id: badgeId,
+          p_grant_coins: grantCoins,
+          ...(after ? { p_after: after } : {})
         });
+
+        if (error) throw error;
+        const batch = data as unknown as BadgeBackfillBatch;
+        total.evaluated += batch.evaluated;
+        total.awarded += batch.awarded;
+        total.upgraded += batch.upgraded;
+        total.coins_granted += batch.coins_granted;
+        after = batch.next_after;
+      } while (after);
+
+      return total;
+    },
+    onSuccess: (result) => {
+      invalidateBadges(queryClient);
+      queryClient.invalidateQueries({ queryKey: ['all-users'] });
+      const affected = result.awarded + result.upgraded;
+      toast.success(`Badge backfilled for ${affected} learner${affected === 1 ? '' : 's'}`, {
+        description: [
+          `${result.evaluated} checked`,
+          `${result.awarded} awarded`,
+          result.upgraded > 0 && `${result.upgraded} upgraded`,
+          result.coins_granted > 0 && `+${result.coins_granted} C granted`
+        ].filter(Boolean).join(' · ')
       });
+    },
+    onError: (error) => {
+      toast.error(`Backfill failed: ${error.message}`);
     }
   });
 };
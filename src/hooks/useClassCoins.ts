@@ -0,0 +1,286 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/context/AuthContext';
+import { toast } from 'sonner';
+
+export type ClassPoolStatus = 'open' | 'reached' | 'fulfilled' | 'cancelled';
+
+export interface ClassPool {
+  id: string;
+  class_id: string;
+  title: string;
+  description: string | null;
+  reward: string;
+  target: number;
+  total: number;
+  status: ClassPoolStatus;
+  reached_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ClassPoolContribution {
+  id: string;
+  pool_id: string;
+  user_id: string;
+  amount: number;
+  refund_transaction_id: string | null;
+  created_at: string;
+}
+
+export interface CoinGift {
+  id: string;
+  sender_id: string;
+  recipient_id: string;
+  class_id: string;
+  amount: number;
+  message: string | null;
+  created_at: string;
+}
+
+export interface CoinGiftResult {
+  gift_id: string;
+  balance: number;
+  sent_today: number;
+  daily_limit: number;
+}
+
+export interface PoolContributionResult {
+  contributed: number;
+  balance: number;
+  total: number;
+  status: ClassPoolStatus;
+}
+
+export type ClassPoolInput = Pick<ClassPool, 'title' | 'description' | 'reward' | 'target'>;
+
+// Pools of a class with their contributions, newest pool first
+export const useClassPools = (classId?: string | null) => {
+  return useQuery({
+    queryKey: ['class-pools', classId],
+    queryFn: async () => {
+      if (!classId) return [];
+
+      const { data: pools, error } = await supabase
+        .from('class_pools')
+        .select('*')
+        .eq('class_id', classId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const poolIds = (pools || []).map(p => p.id);
+      const { data: contributions, error: contributionsError } = poolIds.length
+        ? await supabase
+            .from('class_pool_contributions')
+            .select('id, pool_id, user_id, amount, refund_transaction_id, created_at')
+            .in('pool_id', poolIds)
+        : { data: [], error: null };
+
+      if (contributionsError) throw contributionsError;
+
+      return (pools || []).map(pool => ({
+        ...pool,
+        contributions: (contributions || []).filter(c => c.pool_id === pool.id)
+      })) as Array<ClassPool & { contributions: ClassPoolContribution[] }>;
+    },
+    enabled: !!classId
+  });
+};
+
+// Latest gifts between members of a class
+export const useClassGifts = (classId?: string | null, limit: number = 20) => {
+  return useQuery({
+    queryKey: ['class-gifts', classId, limit],
+    queryFn: async () => {
+      if (!classId) return [];
+
+      const { data, error } = await supabase
+        .from('coin_gifts')
+        .select('id, sender_id, recipient_id, class_id, amount, message, created_at')
+        .eq('class_id', classId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data as CoinGift[];
+    },
+    enabled: !!classId
+  });
+};
+
+// Coins the current user gifted today, against gift_daily_limit
+export const useGiftedToday = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['gifted-today', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return 0;
+
+      // Gift limits reset at UTC midnight (date_trunc('day', now()) on the server)
+      const startOfDay = new Date();
+      startOfDay.setUTCHours(0, 0, 0, 0);
+
+      const { data, error } = await supabase
+        .from('coin_gifts')
+        .select('amount')
+        .eq('sender_id', user.id)
+        .gte('created_at', startOfDay.toISOString());
+
+      if (error) throw error;
+      return (data || []).reduce((sum, gift) => sum + gift.amount, 0);
+    },
+    enabled: !!user?.id
+  });
+};
+
+export const useSendCoinGift = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      recipientId,
+      recipientName,
+      classId,
+      amount,
+      message
+    }: {
+      recipientId: string;
+      recipientName: string;
+      classId: string;
+      amount: number;
+      message?: string;
+    }) => {
+      const { data, error } = await supabase.rpc('send_coin_gift', {
+        p_recipient_id: recipientId,
+        p_class_id: classId,
+        p_amount: amount,
+        p_message: message || undefined
+      });
+
+      if (error) throw error;
+      return { recipientName, amount, result: data as unknown as CoinGiftResult };
+    },
+    onSuccess: ({ recipientName, amount, result }) => {
+      queryClient.invalidateQueries({ queryKey: ['wallet'] });
+      queryClient.invalidateQueries({ queryKey: ['coin-transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['class-gifts'] });
+      queryClient.invalidateQueries({ queryKey: ['gifted-today'] });
+      queryClient.invalidateQueries({ queryKey: ['coin-expiry'] });
+      toast.success(`${amount} coins sent to ${recipientName}`, {
+        description: `New balance: ${result.balance} C`
+      });
+    },
+    onError: (error) => {
+      toast.error(`Failed to send gift: ${error.message}`);
+    }
+  });
+};
+
+export const useContributeToPool = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ pool, amount }: { pool: ClassPool; amount: number }) => {
+      const { data, error } = await supabase.rpc('contribute_to_class_pool', {
+        p_pool_id: pool.id,
+        p_amount: amount
+      });
+
+      if (error) throw error;
+      return { pool, result: data as unknown as PoolContributionResult };
+    },
+    onSuccess: ({ pool, result }) => {
+      queryClient.invalidateQueries({ queryKey: ['wallet'] });
+      queryClient.invalidateQueries({ queryKey: ['coin-transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['class-pools'] });
+      queryClient.invalidateQueries({ queryKey: ['coin-expiry'] });
+      if (result.status === 'reached') {
+        toast.success(`${pool.title} reached its target!`, {
+          description: `Your class unlocked: ${pool.reward}`
+        });
+      } else {
+        toast.success(`${result.contributed} coins added to ${pool.title}`, {
+          description: `${result.total} / ${pool.target} C collected`
+        });
+      }
+    },
+    onError: (error) => {
+      toast.error(`Failed to contribute: ${error.message}`);
+    }
+  });
+};
+
+// Admin: create or edit a pool (total and status are kept by the pool functions)
+export const useSaveClassPool = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ id, classId, ...pool }: ClassPoolInput & { id?: string; classId: string }) => {
+      const { error } = id
+        ? await supabase.from('class_pools').update(pool).eq('id', id)
+        : await supabase.from('class_pools').insert({ ...pool, class_id: classId, created_by: user?.id });
+
+      if (error) throw error;
+      return !id;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['class-pools'] });
+      toast.success(created ? 'Class pool created' : 'Class pool updated');
+    },
+    onError: (error) => {
+      toast.error(`Failed to save pool: ${error.message}`);
+    }
+  });
+};
+
+// Admin: the group reward of a reached pool was handed out
+export const useFulfillClassPool = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (poolId: string) => {
+      const { error } = await supabase
+        .from('class_pools')
+        .update({ status: 'fulfilled' })
+        .eq('id', poolId)
+        .eq('status', 'reached');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['class-pools'] });
+      toast.success('Reward marked as given');
+    },
+    onError: (error) => {
+      toast.error(`Failed to update pool: ${error.message}`);
+    }
+  });
+};
+
+// Admin: cancel an open pool and refund every contribution
+export const useCancelClassPool = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (poolId: string) => {
+      const { data, error } = await supabase.rpc('cancel_class_pool', { p_pool_id: poolId });
+
+      if (error) throw error;
+      return data as number;
+    },
+    onSuccess: (refunded) => {
+      queryClient.invalidateQueries({ queryKey: ['class-pools'] });
+      queryClient.invalidateQueries({ queryKey: ['all-users'] });
+      toast.success('Class pool cancelled', {
+        description: refunded > 0 ? `${refunded} coins refunded to contributors` : undefined
+      });
+    },
+    onError: (error) => {
+      toast.error(`Failed to cancel pool: ${error.message}`);
+    }
+  });
+};
@@ -0,0 +1,134 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/context/AuthContext';
+import { toast } from 'sonner';
+
+export interface CoinAdjustment {
+  id: string;
+  batch_id: string | null;
+  admin_id: string | null;
+  user_id: string;
+  class_id: string | null;
+  requested: number;
+  applied: number;
+  reason: string;
+  balance_before: number;
+  balance_after: number;
+  transaction_id: string | null;
+  created_at: string;
+}
+
+export interface ClassAdjustmentResult {
+  batch_id: string;
+  users: number;
+  applied: number;
+}
+
+// Same minimum as the check on coin_adjustments.reason
+export const MIN_ADJUSTMENT_REASON_LENGTH = 3;
+
+const AUDIT_LOG_LIMIT = 200;
+
+const invalidateBalances = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['wallet'] });
+  queryClient.invalidateQueries({ queryKey: ['coin-transactions'] });
+  queryClient.invalidateQueries({ queryKey: ['all-users'] });
+  queryClient.invalidateQueries({ queryKey: ['coin-adjustments'] });
+};
+
+// Manual credit/debit of one learner, posted through the ledger with the acting admin
+export const useAdjustCoins = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ userId, amount, reason }: { userId: string; amount: number; reason: string }) => {
+      const { data, error } = await supabase.rpc('admin_adjust_coins', {
+        p_user_id: userId,
+        p_amount: amount,
+        p_reason: reason
+      });
+
+      if (error) throw error;
+      return data as number;
+    },
+    onSuccess: (balance) => {
+      invalidateBalances(queryClient);
+      toast.success('Coins updated', { description: `New balance: ${balance} C` });
+    },
+    onError: (error) => {
+      toast.error(`Failed to update coins: ${error.message}`);
+    }
+  });
+};
+
+// The same adjustment for every learner of a class
+export const useAdjustClassCoins = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ classId, amount, reason }: { classId: string; amount: number; reason: string }) => {
+      const { data, error } = await supabase.rpc('admin_adjust_class_coins', {
+        p_class_id: classId,
+        p_amount: amount,
+        p_reason: reason
+      });
+
+      if (error) throw error;
+      return data as unknown as ClassAdjustmentResult;
+    },
+    onSuccess: (result) => {
+      invalidateBalances(queryClient);
+      toast.success(`Adjusted ${result.users} learner${result.users === 1 ? '' : 's'}`, {
+        description: `${result.applied > 0 ? '+' : ''}${result.applied} C in total`
+      });
+    },
+    onError: (error) => {
+      toast.error(`Failed to adjust class: ${error.message}`);
+    }
+  });
+};
+
+// Audit log, newest first. `search` matches the reason, or the learner or
+// admin when their ids are passed in `userIds` (names are resolved by the caller).
+export const useCoinAdjustments = ({
+  search,
+  userIds,
+  classId
+}: {
+  search?: string;
+  userIds?: string[];
+  classId?: string | null;
+}) => {
+  const { isAdmin } = useAuth();
+
+  return useQuery({
+    queryKey: ['coin-adjustments', search, userIds, classId],
+    queryFn: async () => {
+      let query = supabase
+        .from('coin_adjustments')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(AUDIT_LOG_LIMIT);
+
+      if (classId) {
+        query = query.eq('class_id', classId);
+      }
+
+      const term = search?.trim().replace(/[%,()]/g, ' ');
+      if (term) {
+        const filters = [`reason.ilike.%${term}%`];
+        if (userIds?.length) {
+          const ids = userIds.join(',');
+          filters.push(`user_id.in.(${ids})`, `admin_id.in.(${ids})`);
+        }
+        query = query.or(filters.join(','));
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return data as CoinAdjustment[];
+    },
+    enabled: isAdmin
+  });
+};
@@ -0,0 +1,181 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/context/AuthContext';
+import { toast } from 'sonner';
+
+export type RedemptionStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface CoinRedemption {
+  id: string;
+  user_id: string;
+  amount: number;
+  note: string | null;
+  status: RedemptionStatus;
+  admin_notes: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  transaction_id: string | null;
+  created_at: string;
+  profile?: { display_name: string | null; email: string } | null;
+}
+
+// Withdrawal rules from coin_config evaluated server-side
+export interface RedemptionEligibility {
+  lessons_completed: number;
+  lessons_required: number;
+  average_score: number;
+  min_average_score: number;
+  balance: number;
+  pending_amount: number;
+  available: number;
+  eligible: boolean;
+}
+
+export const useRedemptionEligibility = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['redemption-eligibility', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('coin_redemption_eligibility', {
+        p_user_id: user?.id
+      });
+
+      if (error) throw error;
+      return data as unknown as RedemptionEligibility;
+    },
+    enabled: !!user?.id
+  });
+};
+
+export const useMyRedemptions = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['coin-redemptions', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('coin_redemptions')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      return data as CoinRedemption[];
+    },
+    enabled: !!user?.id
+  });
+};
+
+export const useRequestRedemption = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ amount, note }: { amount: number; note?: string }) => {
+      const { data, error } = await supabase.rpc('request_coin_redemption', {
+        p_amount: amount,
+        p_note: note
+      });
+
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['coin-redemptions'] });
+      queryClient.invalidateQueries({ queryKey: ['redemption-eligibility'] });
+      toast.success('Redemption requested', {
+        description: 'An admin will review it soon.'
+      });
+    },
+    onError: (error) => {
+      toast.error(`Failed to request redemption: ${error.message}`);
+    }
+  });
+};
+
+export const useCancelRedemption = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (redemptionId: string) => {
+      const { error } = await supabase.rpc('cancel_coin_redemption', {
+        p_redemption_id: redemptionId
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['coin-redemptions'] });
+      queryClient.invalidateQueries({ queryKey: ['redemption-eligibility'] });
+      toast.success('Redemption request cancelled');
+    },
+    onError: (error) => {
+      toast.error(`Failed to cancel request: ${error.message}`);
+    }
+  });
+};
+
+// Admin queue; pending requests first, oldest first
+export const useRedemptionQueue = (status: RedemptionStatus | 'all' = 'pending') => {
+  const { isAdmin } = useAuth();
+
+  return useQuery({
+    queryKey: ['redemption-queue', status],
+    queryFn: async () => {
+      let query = supabase
+        .from('coin_redemptions')
+        .select('*')
+        .order('created_at', { ascending: status === 'pending' })
+        .limit(100);
+
+      if (status !== 'all') {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const userIds = [...new Set((data || []).map(r => r.user_id))];
+      const { data: profiles, error: profilesError } = userIds.length
+        ? await supabase.from('profiles').select('id, display_name, email').in('id', userIds)
+        : { data: [], error: null };
+
+      if (profilesError) throw profilesError;
+
+      return (data || []).map(r => ({
+        ...r,
+        profile: profiles?.find(p => p.id === r.user_id) ?? null
+      })) as CoinRedemption[];
+    },
+    enabled: isAdmin
+  });
+};
+
+export const useReviewRedemption = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ redemptionId, approve, adminNotes }: { redemptionId: string; approve: boolean; adminNotes?: string }) => {
+      const { error } = await supabase.rpc('review_coin_redemption', {
+        p_redemption_id: redemptionId,
+        p_approve: approve,
+        p_admin_notes: adminNotes
+      });
+
+      if (error) throw error;
+      return approve;
+    },
+    onSuccess: (approved) => {
+      queryClient.invalidateQueries({ queryKey: ['redemption-queue'] });
+      queryClient.invalidateQueries({ queryKey: ['coin-redemptions'] });
+      queryClient.invalidateQueries({ queryKey: ['all-users'] });
+      toast.success(approved ? 'Redemption approved' : 'Redemption rejected');
+    },
+    onError: (error) => {
+      toast.error(`Failed to review redemption: ${error.message}`);
+    }
+  });
+};
@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/context/AuthContext';
 import { toast } from 'sonner';
+import type { Database } from '@/integrations/supabase/types';
 
 export interface CoinConfig {
   reward_min: number;
@@ -34,18 +35,127 @@ export interface CoinConfig {
   deadline_penalty_scale_days: number;
   min_completion_for_bonus: number;
   penalty_completion_threshold: number;
+  // Anti-farming (base reward and streak bonus only)
+  repeat_full_rewards_per_day: number;
+  repeat_reward_percent: number;
+  repeat_cooldown_after: number;
+  repeat_cooldown_minutes: number;
+  daily_practice_coin_cap: number;
+  block_duplicate_audio: number;
+  duplicate_audio_similarity: number;
+  // Expiry and seasonal resets
+  coin_expiry_days: number;
+  coin_expiry_warning_days: number;
+  season_reset_enabled: number;
+  // Peer gifts and class pools
+  gifts_enabled: number;
+  gift_max_amount: number;
+  gift_daily_limit: number;
+  gift_daily_receive_limit: number;
+  pool_daily_limit: number;
+  // Streak freezes and repair
+  streak_freezes_enabled: number;
+  streak_freeze_cost: number;
+  streak_freeze_max_held: number;
+  streak_freeze_earn_days: number;
+  streak_repair_cost: number;
+  streak_repair_window_hours: number;
 }
 
+export type CoinEntryKind = Database['public']['Enums']['coin_entry_kind'];
+
+export const COIN_ENTRY_KIND_LABELS: Record<CoinEntryKind, string> = {
+  practice_reward: 'Practice',
+  practice_penalty: 'Practice Penalty',
+  first_practice: 'First Practice',
+  milestone: 'Milestone',
+  streak: 'Streak',
+  deadline: 'Deadline',
+  badge: 'Badge',
+  admin_adjustment: 'Adjustment',
+  legacy: 'Bonus/Penalty',
+  redemption: 'Redemption',
+  purchase: 'Shop Purchase',
+  recalculation: 'Recalculation',
+  expiry: 'Expired',
+  gift_sent: 'Gift Sent',
+  gift_received: 'Gift Received',
+  pool_contribution: 'Class Pool',
+  pool_refund: 'Pool Refund',
+  streak_freeze: 'Streak Freeze',
+  streak_repair: 'Streak Repair'
+};
+
+// Bonus kinds on top of the per-take practice reward
+export const BONUS_ENTRY_KINDS: CoinEntryKind[] = ['first_practice', 'milestone', 'streak', 'deadline', 'badge'];
+
+// Coins the learner chose to spend (as opposed to penalties)
+export const SPEND_ENTRY_KINDS: CoinEntryKind[] = [
+  'redemption',
+  'purchase',
+  'gift_sent',
+  'pool_contribution',
+  'streak_freeze',
+  'streak_repair'
+];
+
 export interface CoinTransaction {
   id: string;
   user_id: string;
   amount: number;
   transaction_type: string;
+  entry_kind: CoinEntryKind;
+  // Set when a penalty was larger than the balance; amount is what was debited
+  requested_amount: number | null;
   description: string | null;
   reference_id: string | null;
   created_at: string;
 }
 
+// What coin_expiry_forecast reports for the warning window
+export interface CoinExpiryForecast {
+  balance: number;
+  warning_days: number;
+  expiry_days: number;
+  expiring_amount: number;
+  expires_on: string | null;
+  season_ends_on: string | null;
+  season_amount: number;
+}
+
+export interface CoinExpiryResult {
+  reset_users: number;
+  reset_amount: number;
+  expired_users: number;
+  expired_amount: number;
+}
+
+export interface CoinReconciliationRun {
+  id: string;
+  started_at: string;
+  triggered_by: string | null;
+  users_checked: number;
+  drifted_users: number;
+  total_drift: number;
+  ledger_imbalance: number;
+}
+
+export interface CoinBalanceDrift {
+  id: string;
+  run_id: string;
+  user_id: string;
+  wallet_balance: number;
+  ledger_balance: number;
+  wallet_earned: number;
+  ledger_earned: number;
+  wallet_spent: number;
+  ledger_spent: number;
+  balance_drift: number;
+  resolution: 'ledger' | 'wallet' | null;
+  resolved_at: string | null;
+  profile?: { display_name: string | null; email: string } | null;
+}
+
 export const useCoinConfig = () => {
   return useQuery({
     queryKey: ['coin-config'],
@@ -112,53 +222,136 @@ export const useUpdateCoinConfig = () => {
   });
 };
 
-export const useAddCoins = () => {
+// Latest reconciliation run with its unresolved wallet/ledger discrepancies
+export const useCoinReconciliation = () => {
+  const { isAdmin } = useAuth();
+
+  return useQuery({
+    queryKey: ['coin-reconciliation'],
+    queryFn: async () => {
+      const { data: run, error: runError } = await supabase
+        .from('coin_reconciliation_runs')
+        .select('*')
+        .order('started_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (runError) throw runError;
+      if (!run) return { run: null, drift: [] as CoinBalanceDrift[] };
+
+      const { data: drift, error: driftError } = await supabase
+        .from('coin_balance_drift')
+        .select('*')
+        .eq('run_id', run.id)
+        .is('resolved_at', null)
+        .order('balance_drift', { ascending: true });
+
+      if (driftError) throw driftError;
+
+      const userIds = (drift || []).map(d => d.user_id);
+      const { data: profiles, error: profilesError } = userIds.length
+        ? await supabase.from('profiles').select('id, display_name, email').in('id', userIds)
+        : { data: [], error: null };
+
+      if (profilesError) throw profilesError;
+
+      return {
+        run: run as CoinReconciliationRun,
+        drift: (drift || []).map(d => ({
+          ...d,
+          profile: profiles?.find(p => p.id === d.user_id) ?? null
+        })) as CoinBalanceDrift[]
+      };
+    },
+    enabled: isAdmin
+  });
+};
+
+export const useRunCoinReconciliation = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ userId, amount, description }: { userId: string; amount: number; description: string }) => {
-      // Get current wallet
-      const { data: wallet, error: walletError } = await supabase
-        .from('user_wallets')
-        .select('*')
-        .eq('user_id', userId)
-        .single();
-
-      if (walletError) throw walletError;
-
-      // Update wallet balance
-      const nextBalance = Math.max(0, wallet.balance + amount);
-      const { error: updateError } = await supabase
-        .from('user_wallets')
-        .update({
-          balance: nextBalance,
-          total_earned: amount > 0 ? wallet.total_earned + amount : wallet.total_earned,
-          total_spent: amount < 0 ? wallet.total_spent + Math.abs(amount) : wallet.total_spent
-        })
-        .eq('user_id', userId);
-
-      if (updateError) throw updateError;
-
-      // Create transaction record
-      const { error: transactionError } = await supabase
-        .from('coin_transactions')
-        .insert({
-          user_id: userId,
-          amount,
-          transaction_type: amount > 0 ? 'credit' : 'debit',
-          description
-        });
-
-      if (transactionError) throw transactionError;
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('reconcile_coin_ledger');
+
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['coin-reconciliation'] });
+      toast.success('Ledger reconciliation complete');
+    },
+    onError: (error) => {
+      toast.error(`Reconciliation failed: ${error.message}`);
+    }
+  });
+};
+
+export const useResolveCoinDrift = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ driftId, resolution }: { driftId: string; resolution: 'ledger' | 'wallet' }) => {
+      const { error } = await supabase.rpc('resolve_coin_drift', {
+        p_drift_id: driftId,
+        p_resolution: resolution
+      });
+
+      if (error) throw error;
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['coin-reconciliation'] });
+      queryClient.invalidateQueries({ queryKey: ['coin-adjustments'] });
+      queryClient.invalidateQueries({ queryKey: ['all-users'] });
       queryClient.invalidateQueries({ queryKey: ['wallet'] });
-      queryClient.invalidateQueries({ queryKey: ['coin-transactions'] });
+      toast.success('Drift resolved');
+    },
+    onError: (error) => {
+      toast.error(`Failed to resolve drift: ${error.message}`);
+    }
+  });
+};
+
+// Coins of the current user that expire soon, or a season reset ahead
+export const useCoinExpiryForecast = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['coin-expiry', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('coin_expiry_forecast');
+
+      if (error) throw error;
+      return data as unknown as CoinExpiryForecast;
+    },
+    enabled: !!user
+  });
+};
+
+export const useRunCoinExpiry = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('expire_coins');
+
+      if (error) throw error;
+      return data as unknown as CoinExpiryResult;
+    },
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['all-users'] });
-      toast.success('Coins updated successfully');
+      queryClient.invalidateQueries({ queryKey: ['wallet'] });
+      queryClient.invalidateQueries({ queryKey: ['coin-transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['coin-expiry'] });
+      const expired = result.expired_amount + result.reset_amount;
+      toast.success(
+        expired > 0
+          ? `${expired} coins expired for ${result.expired_users + result.reset_users} learners`
+          : 'No coins to expire'
+      );
     },
     onError: (error) => {
-      toast.error(`Failed to update coins: ${error.message}`);
+      toast.error(`Coin expiry failed: ${error.message}`);
     }
   });
 };
@@ -9,6 +9,7 @@ export interface CourseClass {
   class_name: string;
   class_code: string;
   start_date: string;
+  end_date: string | null; // end of the season; coins may reset afterwards
   schedule_days: string[];
   is_active: boolean;
   created_at: string;
@@ -98,6 +99,7 @@ export const useCreateCourseClass = () => {
           class_name: courseClass.class_name,
           class_code: courseClass.class_code,
           start_date: courseClass.start_date,
+          end_date: courseClass.end_date,
           schedule_days: courseClass.schedule_days,
           is_active: courseClass.is_active
         })
@@ -0,0 +1,117 @@
+import { useQuery } from '@tanstack/react-query';
+import { subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/context/AuthContext';
+import type { SimulationLearner, SimulationLesson, SimulationTake } from '@/lib/economySimulator';
+
+const PAGE_SIZE = 1000;
+// Keeps the replay responsive in the browser
+export const MAX_SIMULATION_TAKES = 20000;
+
+export interface EconomySimulationData {
+  takes: SimulationTake[];
+  lessons: SimulationLesson[];
+  learners: SimulationLearner[];
+  courses: Array<{ id: string; name: string }>;
+  truncated: boolean;
+}
+
+// Practice history of the last `days` days (null = all), with what the replay needs
+export const useEconomySimulationData = (days: number | null) => {
+  const { isAdmin } = useAuth();
+
+  return useQuery({
+    queryKey: ['economy-simulation-data', days],
+    queryFn: async (): Promise<EconomySimulationData> => {
+      const since = days ? subDays(new Date(), days).toISOString() : null;
+
+      const takes: SimulationTake[] = [];
+      let truncated = false;
+      for (let from = 0; ; from += PAGE_SIZE) {
+        let query = supabase
+          .from('practice_history')
+          .select('user_id, lesson_id, category, item_index, score, practiced_at')
+          .order('practiced_at', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+        if (since) {
+          query = query.gte('practiced_at', since);
+        }
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        data.forEach(row => takes.push({
+          userId: row.user_id,
+          lessonId: row.lesson_id,
+          category: row.category,
+          itemIndex: row.item_index,
+          score: row.score,
+          practicedAt: row.practiced_at
+        }));
+
+        if (data.length < PAGE_SIZE) break;
+        if (takes.length >= MAX_SIMULATION_TAKES) {
+          truncated = true;
+          break;
+        }
+      }
+
+      const userIds = [...new Set(takes.map(t => t.userId))];
+
+      const [lessonsResult, coursesResult, enrollmentsResult, profilesResult] = await Promise.all([
+        supabase.from('lessons').select('id, course_id, lesson_name, order_index, categories'),
+        supabase.from('courses').select('id, name').order('name'),
+        userIds.length
+          ? supabase
+              .from('enrollments')
+              .select('user_id, course_id, start_date, enrolled_at, course_classes:class_id(start_date, schedule_days)')
+              .in('user_id', userIds)
+              .order('enrolled_at', { ascending: true })
+          : Promise.resolve({ data: [], error: null }),
+        userIds.length
+          ? supabase.from('profiles').select('id, display_name, email').in('id', userIds)
+          : Promise.resolve({ data: [], error: null })
+      ]);
+
+      if (lessonsResult.error) throw lessonsResult.error;
+      if (coursesResult.error) throw coursesResult.error;
+      if (enrollmentsResult.error) throw enrollmentsResult.error;
+      if (profilesResult.error) throw profilesResult.error;
+
+      // Same schedule resolution as public.lesson_deadline: first enrollment per course
+      const learners: SimulationLearner[] = userIds.map(userId => {
+        const profile = profilesResult.data?.find(p => p.id === userId);
+        const schedules: SimulationLearner['schedules'] = [];
+        (enrollmentsResult.data || [])
+          .filter(e => e.user_id === userId)
+          .forEach(e => {
+            if (schedules.some(s => s.courseId === e.course_id)) return;
+            const courseClass = e.course_classes as { start_date: string | null; schedule_days: unknown } | null;
+            schedules.push({
+              courseId: e.course_id,
+              startDate: courseClass?.start_date || e.start_date || e.enrolled_at.slice(0, 10),
+              scheduleDays: Array.isArray(courseClass?.schedule_days)
+                ? (courseClass.schedule_days as string[])
+                : ['monday', 'wednesday', 'friday']
+            });
+          });
+
+        return {
+          userId,
+          name: profile?.display_name || profile?.email || userId.slice(0, 8),
+          schedules
+        };
+      });
+
+      return {
+        takes,
+        lessons: (lessonsResult.data || []) as SimulationLesson[],
+        learners,
+        courses: coursesResult.data || [],
+        truncated
+      };
+    },
+    enabled: isAdmin,
+    staleTime: 5 * 60 * 1000
+  });
+};
@@ -1,13 +1,20 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { toast } from "sonner";
+import { fetchActiveScoringProfile, invalidateScoringProfile, setActiveScoringProfile } from "@/lib/scoringProfile";
+import type { MetricConfig } from "@/lib/audioAnalysis";
 
 export type MetricId =
   | "volume"
   | "speechRate"
   | "acceleration"
   | "responseTime"
-  | "pauseManagement";
+  | "pauseManagement"
+  | "pronunciation"
+  | "intonation"
+  | "prosody"
+  | "hesitation";
 
 export interface MetricSetting {
   id: string;
@@ -20,20 +27,17 @@ export interface MetricSetting {
   enabled: boolean;
 }
 
-const DB_TO_UI: Record<string, MetricId> = {
-  volume: "volume",
-  speech_rate: "speechRate",
-  end_intensity: "acceleration",
-  latency: "responseTime",
-  pauses: "pauseManagement",
-};
-
-const UI_TO_DB: Record<MetricId, string> = {
+// scoring_config is kept in sync for the server-side analyze-speech panel
+export const UI_TO_DB: Record<MetricId, string> = {
   volume: "volume",
   speechRate: "speech_rate",
   acceleration: "end_intensity",
   responseTime: "latency",
   pauseManagement: "pauses",
+  pronunciation: "pronunciation",
+  intonation: "intonation",
+  prosody: "prosody",
+  hesitation: "hesitation",
 };
 
 const DEFAULTS: Record<MetricId, Omit<MetricSetting, "id" | "metric_id">> = {
@@ -42,49 +46,46 @@ const DEFAULTS: Record<MetricId, Omit<MetricSetting, "id" | "metric_id">> = {
   acceleration: { weight: 15, min_threshold: 0, ideal_threshold: 50, max_threshold: 100, method: null, enabled: true },
   responseTime: { weight: 10, min_threshold: 2000, ideal_threshold: 200, max_threshold: 0, method: null, enabled: true },
   pauseManagement: { weight: 15, min_threshold: 3, ideal_threshold: 0, max_threshold: 2.71, method: null, enabled: true },
+  pronunciation: { weight: 30, min_threshold: 0, ideal_threshold: 100, max_threshold: 100, method: null, enabled: true },
+  intonation: { weight: 10, min_threshold: 2, ideal_threshold: 8, max_threshold: 16, method: null, enabled: true },
+  prosody: { weight: 15, min_threshold: 20, ideal_threshold: 90, max_threshold: 100, method: null, enabled: true },
+  hesitation: { weight: 10, min_threshold: 0, ideal_threshold: 2, max_threshold: 12, method: null, enabled: true },
 };
 
-const allMetricIds: MetricId[] = ["volume", "speechRate", "acceleration", "responseTime", "pauseManagement"];
+const allMetricIds: MetricId[] = ["volume", "speechRate", "acceleration", "responseTime", "pauseManagement", "pronunciation", "intonation", "prosody", "hesitation"];
+
+/** Map profile metric entries to the rows edited by MetricSettingsCard */
+export const metricConfigsToSettings = (metrics: MetricConfig[], idPrefix: string): MetricSetting[] =>
+  allMetricIds.map((metricId) => {
+    const entry = metrics.find((m) => m.id === metricId);
+    const fallback = DEFAULTS[metricId];
+    if (!entry) {
+      return {
+        id: `virtual-${metricId}`,
+        metric_id: metricId,
+        ...fallback,
+      };
+    }
+    return {
+      id: `${idPrefix}:${metricId}`,
+      metric_id: metricId,
+      weight: Number(entry.weight) || 0,
+      min_threshold: Number(entry.thresholds?.min ?? fallback.min_threshold),
+      ideal_threshold: Number(entry.thresholds?.ideal ?? fallback.ideal_threshold),
+      max_threshold: Number(entry.thresholds?.max ?? fallback.max_threshold),
+      method: metricId === "speechRate" ? (entry.method ?? fallback.method) : null,
+      enabled: entry.enabled !== false && Number(entry.weight) > 0,
+    };
+  });
 
+// Reads the active server scoring profile (what every client scores with)
 export const useMetricSettings = () =>
   useQuery({
     queryKey: ["metric-settings"],
     queryFn: async (): Promise<MetricSetting[]> => {
-      const { data, error } = await supabase.from("scoring_config").select("*");
-      if (error) throw error;
-
-      const byId = new Map<MetricId, MetricSetting>();
-
-      for (const row of data ?? []) {
-        const metricId = DB_TO_UI[row.metric_name];
-        if (!metricId) continue;
-        const fallback = DEFAULTS[metricId];
-        const weight = Math.round(Number(row.weight) * 100);
-        byId.set(metricId, {
-          id: row.id,
-          metric_id: metricId,
-          weight,
-          min_threshold: Number(row.min_value ?? fallback.min_threshold),
-          ideal_threshold: Number(row.max_value ?? fallback.ideal_threshold),
-          max_threshold: metricId === "pauseManagement"
-            ? Number(row.max_value ?? fallback.max_threshold)
-            : fallback.max_threshold,
-          method: metricId === "speechRate" ? (localStorage.getItem("speechRateMethod") ?? fallback.method) : null,
-          enabled: weight > 0,
-        });
-      }
-
-      const settings = allMetricIds.map((metricId) => {
-        const existing = byId.get(metricId);
-        if (existing) return existing;
-        return {
-          id: `virtual-${metricId}`,
-          metric_id: metricId,
-          ...DEFAULTS[metricId],
-        };
-      });
-
-      return settings;
+      const profile = await fetchActiveScoringProfile();
+      setActiveScoringProfile(profile);
+      return metricConfigsToSettings(profile.metrics, profile.id ?? "default");
     },
   });
 
@@ -93,6 +94,24 @@ export const useUpdateMetricSettings = () => {
 
   return useMutation({
     mutationFn: async (settings: MetricSetting[]) => {
+      const metrics: MetricConfig[] = settings.map((m) => ({
+        id: m.metric_id,
+        weight: m.enabled ? m.weight : 0,
+        enabled: m.enabled,
+        thresholds: {
+          min: m.min_threshold,
+          ideal: m.ideal_threshold,
+          max: m.max_threshold,
+        },
+        ...(m.metric_id === "speechRate" && m.method ? { method: m.method as MetricConfig["method"] } : {}),
+      }));
+
+      // Publishing creates a new immutable profile version and activates it
+      const { data: published, error: publishError } = await supabase.rpc("publish_scoring_profile", {
+        p_metrics: metrics as unknown as Json,
+      });
+      if (publishError) throw publishError;
+
       for (const metric of settings) {
         const dbMetric = UI_TO_DB[metric.metric_id];
         const payload = {
@@ -104,29 +123,16 @@ export const useUpdateMetricSettings = () => {
 
         const { error } = await supabase.from("scoring_config").update(payload).eq("metric_name", dbMetric);
         if (error) throw error;
-
-        if (metric.metric_id === "speechRate" && metric.method) {
-          localStorage.setItem("speechRateMethod", metric.method);
-        }
       }
 
-      const localMetricConfig = settings.map((m) => ({
-        id: m.metric_id,
-        weight: m.enabled ? m.weight : 0,
-        enabled: m.enabled,
-        thresholds: {
-          min: m.min_threshold,
-          ideal: m.ideal_threshold,
-          max: m.max_threshold,
-        },
-        method: m.method,
-      }));
-      localStorage.setItem("metricConfig", JSON.stringify(localMetricConfig));
+      return published;
     },
-    onSuccess: () => {
+    onSuccess: (published) => {
+      invalidateScoringProfile();
       queryClient.invalidateQueries({ queryKey: ["metric-settings"] });
       queryClient.invalidateQueries({ queryKey: ["scoring-config"] });
-      toast.success("Metric settings updated");
+      queryClient.invalidateQueries({ queryKey: ["scoring-profile"] });
+      toast.success(`Scoring profile v${published?.version ?? "?"} published`);
     },
     onError: (error: Error) => {
       toast.error(`Failed to save settings: ${error.message}`);
@@ -3,6 +3,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/context/AuthContext';
 import { toast } from 'sonner';
 import type { Json } from '@/integrations/supabase/types';
+import type { AudioFingerprint } from '@/lib/audioFingerprint';
+import { BADGE_TIERS } from '@/hooks/useBadges';
 
 export interface PracticeHistory {
   id: string;
@@ -274,6 +276,7 @@ export const usePracticeIngest = () => {
       itemIndex?: number;
       metrics?: PracticeIngestMetrics;
       scoreOnServer?: boolean;
+      fillerWords?: boolean;
     }) => {
       const formData = new FormData();
       formData.append('audio', params.audioBlob, 'recording.webm');
@@ -282,6 +285,7 @@ export const usePracticeIngest = () => {
       if (typeof params.itemIndex === 'number') formData.append('itemIndex', String(params.itemIndex));
       if (params.metrics) formData.append('metrics', JSON.stringify(params.metrics));
       if (typeof params.scoreOnServer === 'boolean') formData.append('scoreOnServer', String(params.scoreOnServer));
+      if (params.fillerWords) formData.append('fillerWords', 'true');
 
       const { data, error } = await supabase.functions.invoke('practice-ingest', {
         body: formData,
@@ -293,326 +297,112 @@ export const usePracticeIngest = () => {
   });
 };
 
-// Save practice result with automatic streak and badge updates
+export interface PracticeSettlementBonus {
+  kind: 'first_practice' | 'milestone' | 'deadline' | 'streak';
+  label: string;
+  icon: string;
+  amount: number;
+}
+
+// Anti-farming rule that withheld coins from a take, with a learner-facing explanation
+export interface PracticeRewardLimit {
+  rule: 'duplicate_audio' | 'cooldown' | 'diminishing_returns' | 'daily_cap';
+  withheld: number;
+  message: string;
+}
+
+// Outcome of settle_practice(); replayed when the same settlement key is sent twice
+export interface PracticeSettlement {
+  practice_id: string;
+  replayed: boolean;
+  score: number;
+  coins: {
+    base: number;
+    bonuses: PracticeSettlementBonus[];
+    badges: number;
+    total: number;
+    // Missing on takes settled before the anti-farming rules
+    limits?: PracticeRewardLimit[];
+  };
+  balance: number;
+  progress: {
+    attempts: number;
+    best_score: number;
+    mastery_level: number;
+  };
+  lesson: {
+    completion_percent: number;
+    milestone: number | null;
+  };
+  streak: {
+    current_streak: number;
+    is_new_day: boolean;
+    streak_extended: boolean;
+    // A streak freeze was earned for this streak length
+    freeze_earned?: boolean;
+  };
+  new_badges: Array<{
+    id: string;
+    name: string;
+    icon: string;
+    rarity: string;
+    coins_reward: number;
+    tier?: number | null;
+    // A lower tier of the same badge was upgraded in place
+    upgraded?: boolean;
+  }>;
+}
+
+// A take waiting to be settled. Keep it (and its key) until settle_practice
+// succeeds, so a retry of the same take settles only once.
+export interface PracticeTake {
+  settlementKey: string;
+  lessonId: string;
+  category: string;
+  itemIndex: number;
+  // Raw metrics of the take; the server scores them with the active profile
+  metrics: Record<string, number>;
+  audioUrl?: string;
+  // fingerprintAudio() of the take; a replay of a recent take earns no coins
+  audioFingerprint?: AudioFingerprint;
+}
+
+// Settle a practice take (history, progress, coins, streak, badges) in one
+// server transaction. The score and every coin amount are computed
+// server-side, from the metrics and coin_config.
 export const useSavePractice = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (params: {
-      lessonId: string;
-      category: string;
-      itemIndex: number;
-      score: number;
-      coinsEarned: number;
-      metrics?: Record<string, number>;
-      audioUrl?: string;
-    }) => {
+    mutationFn: async (params: PracticeTake) => {
       if (!user?.id) throw new Error('Not authenticated');
 
-      const safeScore = Number.isFinite(params.score) ? params.score : 0;
-      const safeCoinsEarned = Number.isFinite(params.coinsEarned) ? params.coinsEarned : 0;
       const safeItemIndex = Number.isFinite(params.itemIndex) ? params.itemIndex : 0;
-      const safeMetrics = params.metrics
-        ? Object.fromEntries(
-            Object.entries(params.metrics).map(([k, v]) => [k, Number.isFinite(v) ? v : 0])
-          )
-        : undefined;
-
-      const today = new Date().toISOString().split('T')[0];
-      const currentHour = new Date().getHours();
-
-      // 1. Save practice history
-      const { error: historyError } = await supabase
-        .from('practice_history')
-        .insert({
-          user_id: user.id,
-          lesson_id: params.lessonId,
-          category: params.category,
-          item_index: safeItemIndex,
-          score: safeScore,
-          coins_earned: safeCoinsEarned,
-          metrics: safeMetrics as unknown as Json,
-          audio_url: params.audioUrl
-        });
-
-      if (historyError) throw historyError;
-
-      // 2. Update or create user progress
-      const { data: existingProgress } = await supabase
-        .from('user_progress')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('lesson_id', params.lessonId)
-        .eq('category', params.category)
-        .eq('item_index', safeItemIndex)
-        .maybeSingle();
-
-      if (existingProgress) {
-        const newBestScore = Math.max(existingProgress.best_score, safeScore);
-        const newMastery = calculateMastery(existingProgress.attempts + 1, newBestScore);
-
-        await supabase
-          .from('user_progress')
-          .update({
-            attempts: existingProgress.attempts + 1,
-            best_score: newBestScore,
-            mastery_level: newMastery,
-            last_practiced_at: new Date().toISOString()
-          })
-          .eq('id', existingProgress.id);
-      } else {
-        await supabase
-          .from('user_progress')
-          .insert({
-            user_id: user.id,
-            lesson_id: params.lessonId,
-            category: params.category,
-            item_index: safeItemIndex,
-            attempts: 1,
-            best_score: safeScore,
-            mastery_level: calculateMastery(1, safeScore),
-            last_practiced_at: new Date().toISOString()
-          });
-      }
-
-      // 3. Update wallet if coins earned
-      if (safeCoinsEarned !== 0) {
-        const { data: wallet } = await supabase
-          .from('user_wallets')
-          .select('*')
-          .eq('user_id', user.id)
-          .single();
-
-        if (wallet) {
-          const newBalance = wallet.balance + safeCoinsEarned;
-          const newTotalEarned = safeCoinsEarned > 0 
-            ? wallet.total_earned + safeCoinsEarned 
-            : wallet.total_earned;
-          const newTotalSpent = safeCoinsEarned < 0 
-            ? wallet.total_spent + Math.abs(safeCoinsEarned) 
-            : wallet.total_spent;
-
-          await supabase
-            .from('user_wallets')
-            .update({
-              balance: Math.max(0, newBalance),
-              total_earned: newTotalEarned,
-              total_spent: newTotalSpent
-            })
-            .eq('user_id', user.id);
-
-          // Create transaction record
-          await supabase
-              .from('coin_transactions')
-              .insert({
-                user_id: user.id,
-                amount: safeCoinsEarned,
-                transaction_type: safeCoinsEarned > 0 ? 'practice_reward' : 'practice_penalty',
-                description: `Practice: ${params.category} - Score ${safeScore}`,
-                reference_id: params.lessonId
-              });
-        }
-      }
-
-      // 4. Update streak
-      let streakResult = { current_streak: 0, is_new_day: false, streak_extended: false };
-      const { data: existingStreak } = await supabase
-        .from('daily_streaks')
-        .select('*')
-        .eq('user_id', user.id)
-        .maybeSingle();
-
-      if (!existingStreak) {
-        await supabase
-          .from('daily_streaks')
-          .insert({
-            user_id: user.id,
-            current_streak: 1,
-            longest_streak: 1,
-            last_practice_date: today,
-            streak_start_date: today
-          });
-        streakResult = { current_streak: 1, is_new_day: true, streak_extended: false };
-      } else if (existingStreak.last_practice_date !== today) {
-        const lastDate = existingStreak.last_practice_date 
-          ? new Date(existingStreak.last_practice_date) 
-          : null;
-        const todayDate = new Date(today);
-        
-        let newStreak = 1;
-        let streakStart = today;
-        
-        if (lastDate) {
-          const diffDays = Math.floor(
-            (todayDate.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24)
-          );
-          
-          if (diffDays === 1) {
-            newStreak = existingStreak.current_streak + 1;
-            streakStart = existingStreak.streak_start_date || today;
-          }
-        }
-
-        const newLongest = Math.max(existingStreak.longest_streak, newStreak);
-
-        await supabase
-          .from('daily_streaks')
-          .update({
-            current_streak: newStreak,
-            longest_streak: newLongest,
-            last_practice_date: today,
-            streak_start_date: streakStart
-          })
-          .eq('user_id', user.id);
-
-        streakResult = { 
-          current_streak: newStreak, 
-          is_new_day: true, 
-          streak_extended: newStreak > 1 
-        };
-      } else {
-        streakResult = { 
-          current_streak: existingStreak.current_streak, 
-          is_new_day: false, 
-          streak_extended: false 
-        };
-      }
-
-      // 5. Get updated stats for badge check
-      const { data: allHistory } = await supabase
-        .from('practice_history')
-        .select('score, practiced_at')
-        .eq('user_id', user.id);
-
-      const { data: allProgress } = await supabase
-        .from('user_progress')
-        .select('mastery_level')
-        .eq('user_id', user.id);
-
-      const { data: walletData } = await supabase
-        .from('user_wallets')
-        .select('balance')
-        .eq('user_id', user.id)
-        .single();
-
-      // Count today's practices
-      const todayPractices = allHistory?.filter(h => 
-        h.practiced_at.startsWith(today)
-      ).length || 0;
-
-      const stats = {
-        practiceCount: allHistory?.length || 0,
-        totalCoins: walletData?.balance || 0,
-        currentStreak: streakResult.current_streak,
-        perfectScores: allHistory?.filter(h => h.score >= 95).length || 0,
-        highScores: allHistory?.filter(h => h.score >= 80).length || 0,
-        vocabMastered: allProgress?.filter(p => p.mastery_level >= 3).length || 0,
-        practiceHour: currentHour,
-        dailyPractices: todayPractices
-      };
-
-      // 6. Check and award badges
-      const { data: allBadges } = await supabase
-        .from('badges')
-        .select('*');
+      const safeMetrics = Object.fromEntries(
+        Object.entries(params.metrics).map(([k, v]) => [k, Number.isFinite(v) ? v : 0])
+      );
+
+      const { data, error } = await supabase.rpc('settle_practice', {
+        p_settlement_key: params.settlementKey,
+        p_lesson_id: params.lessonId,
+        p_category: params.category,
+        p_item_index: safeItemIndex,
+        p_metrics: safeMetrics as unknown as Json,
+        p_audio_url: params.audioUrl,
+        p_audio_fingerprint: params.audioFingerprint as unknown as Json
+      });
 
-      const { data: existingBadges } = await supabase
-        .from('user_badges')
-        .select('badge_id')
-        .eq('user_id', user.id);
+      if (error) throw error;
 
-      const existingBadgeIds = new Set(existingBadges?.map(b => b.badge_id));
-      const newBadges: Array<{ name: string; coins_reward: number; rarity: string }> = [];
-
-      for (const badge of allBadges || []) {
-        if (existingBadgeIds.has(badge.id)) continue;
-
-        let earned = false;
-
-        switch (badge.requirement_type) {
-          case 'practice_count':
-            earned = stats.practiceCount >= badge.requirement_value;
-            break;
-          case 'total_coins':
-            earned = stats.totalCoins >= badge.requirement_value;
-            break;
-          case 'streak_days':
-            earned = stats.currentStreak >= badge.requirement_value;
-            break;
-          case 'perfect_score':
-            earned = stats.perfectScores >= badge.requirement_value;
-            break;
-          case 'high_scores':
-            earned = stats.highScores >= badge.requirement_value;
-            break;
-          case 'vocab_mastered':
-            earned = stats.vocabMastered >= badge.requirement_value;
-            break;
-          case 'early_practice':
-            earned = stats.practiceHour < 8;
-            break;
-          case 'late_practice':
-            earned = stats.practiceHour >= 22;
-            break;
-          case 'daily_practices':
-            earned = stats.dailyPractices >= badge.requirement_value;
-            break;
-        }
-
-        if (earned) {
-          const { error: insertError } = await supabase
-            .from('user_badges')
-            .insert({
-              user_id: user.id,
-              badge_id: badge.id
-            });
-
-          if (!insertError) {
-            newBadges.push({
-              name: badge.name,
-              coins_reward: badge.coins_reward,
-              rarity: badge.rarity
-            });
-
-            // Award badge coins
-            if (badge.coins_reward > 0) {
-              const { data: currentWallet } = await supabase
-                .from('user_wallets')
-                .select('balance, total_earned')
-                .eq('user_id', user.id)
-                .single();
-
-              if (currentWallet) {
-                await supabase
-                  .from('user_wallets')
-                  .update({
-                    balance: currentWallet.balance + badge.coins_reward,
-                    total_earned: currentWallet.total_earned + badge.coins_reward
-                  })
-                  .eq('user_id', user.id);
-
-                await supabase
-                  .from('coin_transactions')
-                  .insert({
-                    user_id: user.id,
-                    amount: badge.coins_reward,
-                    transaction_type: 'badge_reward',
-                    description: `Earned badge: ${badge.name}`
-                  });
-              }
-            }
-          }
-        }
+      const settlement = data as unknown as PracticeSettlement;
+      if (settlement.replayed) {
+        console.log('♻️ Practice already settled, replaying outcome:', settlement.practice_id);
       }
-
-      return { 
-        success: true, 
-        streakResult, 
-        newBadges,
-        stats
-      };
+      return settlement;
     },
+    // Safe to retry: the settlement key makes the RPC idempotent
+    retry: 2,
     onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['practice-history'] });
       queryClient.invalidateQueries({ queryKey: ['user-progress'] });
@@ -620,19 +410,26 @@ export const useSavePractice = () => {
       queryClient.invalidateQueries({ queryKey: ['wallet'] });
       queryClient.invalidateQueries({ queryKey: ['coin-transactions'] });
       queryClient.invalidateQueries({ queryKey: ['user-streak'] });
+      queryClient.invalidateQueries({ queryKey: ['streak-freeze-history'] });
       queryClient.invalidateQueries({ queryKey: ['user-badges'] });
+      queryClient.invalidateQueries({ queryKey: ['badge-progress'] });
       queryClient.invalidateQueries({ queryKey: ['realtime-leaderboard'] });
       queryClient.invalidateQueries({ queryKey: ['progress-stats'] });
 
+      // A replayed outcome was already announced
+      if (result.replayed) return;
+
       // Show streak notification
-      if (result.streakResult.is_new_day && result.streakResult.streak_extended) {
-        toast.success(`🔥 ${result.streakResult.current_streak} day streak!`, {
-          description: 'Keep up the great work!'
+      if (result.streak.is_new_day && result.streak.streak_extended) {
+        toast.success(`🔥 ${result.streak.current_streak} day streak!`, {
+          description: result.streak.freeze_earned
+            ? '❄️ You earned a streak freeze for a missed day.'
+            : 'Keep up the great work!'
         });
       }
 
       // Show badge notifications
-      result.newBadges.forEach(badge => {
+      result.new_badges.forEach(badge => {
         const rarityEmoji = {
           common: '🥉',
           uncommon: '🥈',
@@ -640,7 +437,10 @@ export const useSavePractice = () => {
           epic: '💎'
         }[badge.rarity] || '🏆';
 
-        toast.success(`${rarityEmoji} Badge Unlocked: ${badge.name}!`, {
+        const tierName = badge.tier ? BADGE_TIERS[badge.tier] : null;
+        toast.success(badge.upgraded
+          ? `${rarityEmoji} Badge Upgraded: ${badge.name}${tierName ? ` (${tierName})` : ''}!`
+          : `${rarityEmoji} Badge Unlocked: ${badge.name}!`, {
           description: badge.coins_reward > 0 
             ? `+${badge.coins_reward} coins reward!` 
             : undefined,
@@ -654,12 +454,16 @@ export const useSavePractice = () => {
   });
 };
 
-// Helper to calculate mastery level (0-5)
-function calculateMastery(attempts: number, bestScore: number): number {
-  if (bestScore >= 90 && attempts >= 3) return 5;
-  if (bestScore >= 80 && attempts >= 2) return 4;
-  if (bestScore >= 70) return 3;
-  if (bestScore >= 50) return 2;
-  if (attempts >= 1) return 1;
-  return 0;
-}
+// Coins from the take itself: base reward/penalty plus bonuses (badge rewards are toasted separately)
+export const getSettlementCoinChange = (settlement: PracticeSettlement): number =>
+  settlement.coins.base + settlement.coins.bonuses.reduce((sum, bonus) => sum + bonus.amount, 0);
+
+// Bonus lines shown under the coin change, e.g. "🎯 Quarter Complete: +10"
+export const formatSettlementBonuses = (settlement: PracticeSettlement): string[] =>
+  settlement.coins.bonuses.map(
+    bonus => `${bonus.icon} ${bonus.label}: ${bonus.amount > 0 ? '+' : ''}${bonus.amount}`
+  );
+
+// Why a take earned fewer coins, e.g. "Daily limit of 300 practice coins reached (-12)"
+export const formatSettlementLimits = (settlement: PracticeSettlement): string[] =>
+  (settlement.coins.limits ?? []).map(limit => `${limit.message} (-${limit.withheld})`);
@@ -1,5 +1,8 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { calculateLUFS } from "@/lib/lufsNormalization";
+import { convergeLiveEstimate, type AnalysisResult, type LiveEstimate } from "@/lib/audioAnalysis";
+import { startLiveAnalysis, type LiveAnalysisSession } from "@/lib/audioAnalysisWorker";
+import type { ScoringTarget } from "@/lib/scoringProfile";
 
 export interface RealtimeAudioMetrics {
   audioLevel: number;
@@ -7,10 +10,24 @@ export interface RealtimeAudioMetrics {
   isActive: boolean;
 }
 
-export function useRealtimeAudio(enabled: boolean = false) {
+export interface RealtimeAudioOptions {
+  constraints?: MediaTrackConstraints; // defaults to unprocessed capture (calibration)
+  liveAnalysis?: { scoringTarget?: ScoringTarget }; // rolling volume/pace/pause estimate
+}
+
+const RAW_CONSTRAINTS: MediaTrackConstraints = { echoCancellation: true, noiseSuppression: false, autoGainControl: false };
+
+export function useRealtimeAudio(enabled: boolean = false, options: RealtimeAudioOptions = {}) {
   const [metrics, setMetrics] = useState<RealtimeAudioMetrics>({ audioLevel: 0, lufs: null, isActive: false });
+  const [liveEstimate, setLiveEstimate] = useState<LiveEstimate | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // Read when monitoring starts, so a new options object per render does not restart it
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const liveSessionRef = useRef<LiveAnalysisSession | null>(null);
+  const processorRef = useRef<ScriptProcessorNode | null>(null);
+
   const streamRef = useRef<MediaStream | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyzerRef = useRef<AnalyserNode | null>(null);
@@ -64,9 +81,8 @@ export function useRealtimeAudio(enabled: boolean = false) {
 
   const startMonitoring = useCallback(async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: { echoCancellation: true, noiseSuppression: false, autoGainControl: false },
-      });
+      const { constraints, liveAnalysis } = optionsRef.current;
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: constraints ?? RAW_CONSTRAINTS });
       streamRef.current = stream;
 
       const audioContext = new AudioContext();
@@ -83,12 +99,44 @@ export function useRealtimeAudio(enabled: boolean = false) {
 
       updateMetrics();
       setError(null);
+
+      if (liveAnalysis) {
+        setLiveEstimate(null);
+        // The last estimate arrives after stop; it must not overwrite a converged final result
+        const session = await startLiveAnalysis(audioContext.sampleRate, liveAnalysis.scoringTarget, (estimate) =>
+          setLiveEstimate((current) => (current?.final ? current : estimate))
+        );
+        if (audioContextRef.current !== audioContext) {
+          // Stopped while the scoring profile was loading
+          void session.finish();
+          return;
+        }
+        liveSessionRef.current = session;
+
+        // ScriptProcessorNode is deprecated, but unlike an AudioWorklet it needs no separate module;
+        // it only copies samples out, its output stays silent
+        const processor = audioContext.createScriptProcessor(4096, 1, 1);
+        processor.onaudioprocess = (event) => session.push(new Float32Array(event.inputBuffer.getChannelData(0)));
+        source.connect(processor);
+        processor.connect(audioContext.destination);
+        processorRef.current = processor;
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to access microphone");
     }
   }, [updateMetrics]);
 
   const stopMonitoring = useCallback(() => {
+    if (processorRef.current) {
+      processorRef.current.onaudioprocess = null;
+      processorRef.current.disconnect();
+      processorRef.current = null;
+    }
+    if (liveSessionRef.current) {
+      // Analyzes the tail of the take; the estimate stays until converge() or the next start
+      void liveSessionRef.current.finish();
+      liveSessionRef.current = null;
+    }
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current);
       animationFrameRef.current = null;
@@ -117,6 +165,11 @@ export function useRealtimeAudio(enabled: boolean = false) {
     return () => stopMonitoring();
   }, [enabled, startMonitoring, stopMonitoring]);
 
-  return { ...metrics, error, startMonitoring, stopMonitoring };
+  /** Replace the live estimate with the final analysis result of the take */
+  const converge = useCallback((result: AnalysisResult) => {
+    setLiveEstimate((current) => convergeLiveEstimate(current, result));
+  }, []);
+
+  return { ...metrics, liveEstimate, error, startMonitoring, stopMonitoring, converge };
 }
 
@@ -0,0 +1,138 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { extractProsodyEnvelope, type ProsodyEnvelope } from "@/lib/prosodyComparison";
+
+const BUCKET = "reference-audio";
+
+export interface ReferenceAudio {
+  id: string;
+  lesson_id: string;
+  category: string;
+  item_index: number;
+  audio_path: string;
+  mime_type: string | null;
+  duration_seconds: number | null;
+  envelope: ProsodyEnvelope;
+  created_at: string;
+}
+
+// Reference recordings for every item of a lesson (admin editor)
+export const useLessonReferenceAudio = (lessonId: string | null) =>
+  useQuery({
+    queryKey: ["reference-audio", lessonId],
+    queryFn: async (): Promise<ReferenceAudio[]> => {
+      const { data, error } = await supabase
+        .from("lesson_reference_audio")
+        .select("*")
+        .eq("lesson_id", lessonId!);
+      if (error) throw error;
+      return (data ?? []) as unknown as ReferenceAudio[];
+    },
+    enabled: !!lessonId,
+  });
+
+// Reference for the item being practiced; null when the admin has not attached one
+export const useReferenceAudio = (lessonId: string | null | undefined, category: string | null | undefined, itemIndex: number) =>
+  useQuery({
+    queryKey: ["reference-audio", lessonId, category, itemIndex],
+    queryFn: async (): Promise<ReferenceAudio | null> => {
+      const { data, error } = await supabase
+        .from("lesson_reference_audio")
+        .select("*")
+        .eq("lesson_id", lessonId!)
+        .eq("category", category!)
+        .eq("item_index", itemIndex)
+        .maybeSingle();
+      if (error) throw error;
+      return data as unknown as ReferenceAudio | null;
+    },
+    enabled: !!lessonId && !!category && itemIndex >= 0,
+    staleTime: 5 * 60 * 1000,
+  });
+
+export const getReferenceAudioUrl = async (audioPath: string): Promise<string> => {
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(audioPath, 60 * 60);
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+async function decodeToEnvelope(file: File): Promise<{ envelope: ProsodyEnvelope; durationSeconds: number }> {
+  const audioContext = new AudioContext();
+  try {
+    const decoded = await audioContext.decodeAudioData(await file.arrayBuffer());
+    const envelope = extractProsodyEnvelope(decoded.getChannelData(0), decoded.sampleRate);
+    return { envelope, durationSeconds: Math.round(decoded.duration * 100) / 100 };
+  } finally {
+    audioContext.close();
+  }
+}
+
+export const useUploadReferenceAudio = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { lessonId: string; category: string; itemIndex: number; file: File; previousPath?: string }) => {
+      const { lessonId, category, itemIndex, file, previousPath } = params;
+      const { envelope, durationSeconds } = await decodeToEnvelope(file);
+      if (envelope.energy.length < 5) throw new Error("The recording is too short or silent");
+
+      const extension = file.name.split(".").pop() || "webm";
+      const audioPath = `${lessonId}/${encodeURIComponent(category)}/${itemIndex}-${Date.now()}.${extension}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(BUCKET)
+        .upload(audioPath, file, { contentType: file.type || undefined });
+      if (uploadError) throw uploadError;
+
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase.from("lesson_reference_audio").upsert(
+        {
+          lesson_id: lessonId,
+          category,
+          item_index: itemIndex,
+          audio_path: audioPath,
+          mime_type: file.type || null,
+          duration_seconds: durationSeconds,
+          envelope: envelope as unknown as Json,
+          created_by: user?.id ?? null,
+        },
+        { onConflict: "lesson_id,category,item_index" },
+      );
+      if (error) {
+        await supabase.storage.from(BUCKET).remove([audioPath]);
+        throw error;
+      }
+
+      // The replaced file is no longer referenced
+      if (previousPath) await supabase.storage.from(BUCKET).remove([previousPath]);
+    },
+    onSuccess: (_data, params) => {
+      queryClient.invalidateQueries({ queryKey: ["reference-audio", params.lessonId] });
+      toast.success("Reference recording saved");
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to save reference: ${error.message}`);
+    },
+  });
+};
+
+export const useDeleteReferenceAudio = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (reference: ReferenceAudio) => {
+      const { error } = await supabase.from("lesson_reference_audio").delete().eq("id", reference.id);
+      if (error) throw error;
+      await supabase.storage.from(BUCKET).remove([reference.audio_path]);
+    },
+    onSuccess: (_data, reference) => {
+      queryClient.invalidateQueries({ queryKey: ["reference-audio", reference.lesson_id] });
+      toast.success("Reference recording removed");
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to remove reference: ${error.message}`);
+    },
+  });
+};
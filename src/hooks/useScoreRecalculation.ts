@@ -0,0 +1,249 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/context/AuthContext';
+import { toast } from 'sonner';
+import type { Json } from '@/integrations/supabase/types';
+import type { RecalculationProgress, RecalculationTake, TakeChange } from '@/lib/scoreRecalculation';
+
+const PAGE_SIZE = 1000;
+// Past this the plan is not applied: mastery needs every take of an item
+export const MAX_RECALCULATION_TAKES = 50000;
+
+export interface ScoreRecalculationData {
+  takes: RecalculationTake[];
+  progress: RecalculationProgress[];
+  lessonCourses: Record<string, string | null>;
+  names: Record<string, string>;
+  truncated: boolean;
+}
+
+export interface ScoreRecalculationRun {
+  id: string;
+  triggered_by: string | null;
+  scoring_profile_version: number | null;
+  post_coins: boolean;
+  note: string | null;
+  takes_changed: number;
+  users_affected: number;
+  coins_delta: number;
+  coins_posted: number;
+  created_at: string;
+}
+
+export interface ScoreRecalculationAudit {
+  id: string;
+  run_id: string;
+  user_id: string;
+  takes: Array<{ take_id: string; old_score: number; new_score: number; old_base: number; new_base: number }>;
+  progress: Array<{
+    lesson_id: string;
+    category: string;
+    item_index: number;
+    old_best: number;
+    new_best: number;
+    old_mastery: number;
+    new_mastery: number;
+  }>;
+  coins_delta: number;
+  coins_posted: number;
+  created_at: string;
+  profile: { display_name: string | null; email: string | null } | null;
+}
+
+// Paged select of every row matching the filter
+async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: Error | null }>,
+  limit: number
+): Promise<{ rows: T[]; truncated: boolean }> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return { rows, truncated: false };
+    if (rows.length >= limit) return { rows, truncated: true };
+  }
+}
+
+// Takes (with stored metrics) and item progress of a course, or of every course.
+// Loaded on demand: `enabled` is false until the admin asks for a preview.
+export const useScoreRecalculationData = (courseId: string | null, enabled: boolean) => {
+  const { isAdmin } = useAuth();
+
+  return useQuery({
+    queryKey: ['score-recalculation-data', courseId],
+    queryFn: async (): Promise<ScoreRecalculationData> => {
+      let lessonsQuery = supabase.from('lessons').select('id, course_id');
+      if (courseId) {
+        lessonsQuery = lessonsQuery.eq('course_id', courseId);
+      }
+      const { data: lessons, error: lessonsError } = await lessonsQuery;
+      if (lessonsError) throw lessonsError;
+
+      const lessonIds = (lessons || []).map(l => l.id);
+      if (!lessonIds.length) {
+        return { takes: [], progress: [], lessonCourses: {}, names: {}, truncated: false };
+      }
+
+      const history = await fetchAllPages((from, to) => {
+        let query = supabase
+          .from('practice_history')
+          .select('id, user_id, lesson_id, category, item_index, score, metrics, coins_earned, settlement')
+          .order('practiced_at', { ascending: true })
+          .range(from, to);
+        if (courseId) {
+          query = query.in('lesson_id', lessonIds);
+        }
+        return query;
+      }, MAX_RECALCULATION_TAKES);
+
+      const progressRows = await fetchAllPages((from, to) => {
+        let query = supabase
+          .from('user_progress')
+          .select('user_id, lesson_id, category, item_index, attempts, best_score, mastery_level')
+          .order('id')
+          .range(from, to);
+        if (courseId) {
+          query = query.in('lesson_id', lessonIds);
+        }
+        return query;
+      }, Infinity);
+
+      const takes: RecalculationTake[] = history.rows.map(row => {
+        const coins = (row.settlement as { coins?: { base?: number; limits?: unknown[] } } | null)?.coins;
+        return {
+          id: row.id,
+          userId: row.user_id,
+          lessonId: row.lesson_id,
+          category: row.category,
+          itemIndex: row.item_index,
+          score: row.score,
+          metrics: row.metrics as Record<string, number> | null,
+          recordedBase: typeof coins?.base === 'number' ? coins.base : row.coins_earned,
+          limited: Array.isArray(coins?.limits) && coins.limits.length > 0
+        };
+      });
+
+      const userIds = [...new Set(takes.map(t => t.userId))];
+      const { data: profiles, error: profilesError } = userIds.length
+        ? await supabase.from('profiles').select('id, display_name, email').in('id', userIds)
+        : { data: [], error: null };
+      if (profilesError) throw profilesError;
+
+      return {
+        takes,
+        progress: progressRows.rows.map(row => ({
+          userId: row.user_id,
+          lessonId: row.lesson_id,
+          category: row.category,
+          itemIndex: row.item_index,
+          attempts: row.attempts,
+          bestScore: row.best_score,
+          masteryLevel: row.mastery_level
+        })),
+        lessonCourses: Object.fromEntries((lessons || []).map(l => [l.id, l.course_id])),
+        names: Object.fromEntries((profiles || []).map(p => [p.id, p.display_name || p.email || p.id.slice(0, 8)])),
+        truncated: history.truncated
+      };
+    },
+    enabled: isAdmin && enabled,
+    staleTime: 0
+  });
+};
+
+// Latest recalculation runs, newest first
+export const useScoreRecalculationRuns = () => {
+  const { isAdmin } = useAuth();
+
+  return useQuery({
+    queryKey: ['score-recalculation-runs'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('score_recalculation_runs')
+        .select('id, triggered_by, scoring_profile_version, post_coins, note, takes_changed, users_affected, coins_delta, coins_posted, created_at')
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      if (error) throw error;
+      return data as ScoreRecalculationRun[];
+    },
+    enabled: isAdmin
+  });
+};
+
+// Per-learner audit of one run
+export const useScoreRecalculationAudit = (runId: string | null) => {
+  return useQuery({
+    queryKey: ['score-recalculation-audit', runId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('score_recalculation_audit')
+        .select('*')
+        .eq('run_id', runId)
+        .order('coins_delta', { ascending: true });
+
+      if (error) throw error;
+
+      const userIds = (data || []).map(a => a.user_id);
+      const { data: profiles, error: profilesError } = userIds.length
+        ? await supabase.from('profiles').select('id, display_name, email').in('id', userIds)
+        : { data: [], error: null };
+
+      if (profilesError) throw profilesError;
+
+      return (data || []).map(a => ({
+        ...a,
+        profile: profiles?.find(p => p.id === a.user_id) ?? null
+      })) as unknown as ScoreRecalculationAudit[];
+    },
+    enabled: !!runId
+  });
+};
+
+export const useApplyScoreRecalculation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      changes,
+      postCoins,
+      scoringProfileId,
+      scoringProfileVersion,
+      note
+    }: {
+      changes: TakeChange[];
+      postCoins: boolean;
+      scoringProfileId: string | null;
+      scoringProfileVersion: number | null;
+      note?: string;
+    }) => {
+      // Reward-only changes matter only when the difference is posted. The
+      // server derives the new base reward itself; newBase is for the preview
+      const payload = changes
+        .filter(c => c.newScore !== c.oldScore || (postCoins && c.newBase !== c.oldBase))
+        .map(c => ({ id: c.takeId, score: c.newScore }));
+
+      const { data, error } = await supabase.rpc('apply_score_recalculation', {
+        p_changes: payload as unknown as Json,
+        p_post_coins: postCoins,
+        p_scoring_profile_id: scoringProfileId ?? undefined,
+        p_scoring_profile_version: scoringProfileVersion ?? undefined,
+        p_note: note || undefined
+      });
+
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['score-recalculation-runs'] });
+      queryClient.invalidateQueries({ queryKey: ['score-recalculation-data'] });
+      queryClient.invalidateQueries({ queryKey: ['all-users'] });
+      queryClient.invalidateQueries({ queryKey: ['wallet'] });
+      queryClient.invalidateQueries({ queryKey: ['coin-transactions'] });
+      toast.success('Recalculation applied');
+    },
+    onError: (error) => {
+      toast.error(`Recalculation failed: ${error.message}`);
+    }
+  });
+};
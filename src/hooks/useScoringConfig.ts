@@ -1,6 +1,9 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { toast } from 'sonner';
+import { fetchActiveScoringProfile, invalidateScoringProfile } from '@/lib/scoringProfile';
+import { UI_TO_DB } from '@/hooks/useMetricSettings';
 
 export interface ScoringMetric {
   id: string;
@@ -58,18 +61,36 @@ export const useUpdateAllScoringWeights = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (metrics: Array<{ id: string; weight: number }>) => {
-      const promises = metrics.map(m =>
+    mutationFn: async (metrics: Array<{ id: string; metric_name: string; weight: number }>) => {
+      // Scores follow the active scoring profile, so the new weights are
+      // published as its next version; scoring_config only mirrors them
+      const profile = await fetchActiveScoringProfile();
+      const weights = new Map(metrics.map(m => [m.metric_name, m.weight]));
+      const published = profile.metrics.map(entry => {
+        const weight = weights.get(UI_TO_DB[entry.id as keyof typeof UI_TO_DB]);
+        if (weight === undefined) return entry;
+        return { ...entry, weight: Math.round(weight * 100), enabled: weight > 0 };
+      });
+
+      const { error: publishError } = await supabase.rpc('publish_scoring_profile', {
+        p_metrics: published as unknown as Json
+      });
+      if (publishError) throw publishError;
+
+      const results = await Promise.all(metrics.map(m =>
         supabase
           .from('scoring_config')
           .update({ weight: m.weight })
           .eq('id', m.id)
-      );
-
-      await Promise.all(promises);
+      ));
+      const failed = results.find(r => r.error);
+      if (failed?.error) throw failed.error;
     },
     onSuccess: () => {
+      invalidateScoringProfile();
       queryClient.invalidateQueries({ queryKey: ['scoring-config'] });
+      queryClient.invalidateQueries({ queryKey: ['metric-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['scoring-profile'] });
       toast.success('All weights updated');
     },
     onError: (error) => {
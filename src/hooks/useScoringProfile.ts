@@ -0,0 +1,63 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  fetchActiveScoringProfile,
+  invalidateScoringProfile,
+  setActiveScoringProfile,
+  type ScoringOverride,
+} from "@/lib/scoringProfile";
+
+export const SCORING_PROFILE_QUERY_KEY = ["scoring-profile", "active"];
+
+// Active profile; also primes the in-memory cache that analyzeAudioAsync reads
+export const useActiveScoringProfile = () =>
+  useQuery({
+    queryKey: SCORING_PROFILE_QUERY_KEY,
+    queryFn: async () => {
+      const profile = await fetchActiveScoringProfile();
+      setActiveScoringProfile(profile);
+      return profile;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+// Published versions, newest first (admin audit)
+export const useScoringProfileVersions = () =>
+  useQuery({
+    queryKey: ["scoring-profile", "versions"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("scoring_profiles")
+        .select("id, name, version, is_active, notes, created_by, created_at")
+        .order("version", { ascending: false })
+        .limit(20);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+// Publish a new profile version with these overrides (base metrics carried over)
+export const usePublishScoringOverrides = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (overrides: ScoringOverride[]) => {
+      const { data, error } = await supabase.rpc("publish_scoring_profile", {
+        p_overrides: overrides as unknown as Json,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (published) => {
+      invalidateScoringProfile();
+      queryClient.invalidateQueries({ queryKey: ["scoring-profile"] });
+      queryClient.invalidateQueries({ queryKey: ["metric-settings"] });
+      toast.success(`Scoring profile v${published?.version ?? "?"} published`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to publish overrides: ${error.message}`);
+    },
+  });
+};
@@ -0,0 +1,183 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/context/AuthContext';
+import { toast } from 'sonner';
+
+export interface ShopItem {
+  id: string;
+  name: string;
+  description: string | null;
+  icon: string;
+  price: number;
+  stock: number | null;
+  per_user_limit: number | null;
+  available_from: string | null;
+  available_until: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ShopPurchase {
+  id: string;
+  item_id: string;
+  user_id: string;
+  price: number;
+  transaction_id: string;
+  created_at: string;
+}
+
+export interface ShopPurchaseResult {
+  purchase_id: string;
+  balance: number;
+  stock: number | null;
+}
+
+export type ShopItemInput = Pick<
+  ShopItem,
+  'name' | 'description' | 'icon' | 'price' | 'stock' | 'per_user_limit' | 'available_from' | 'available_until' | 'is_active'
+>;
+
+// Mirrors the checks in purchase_shop_item(); the server has the final say
+export const isShopItemAvailable = (item: ShopItem, now = new Date()) =>
+  item.is_active &&
+  (!item.available_from || new Date(item.available_from) <= now) &&
+  (!item.available_until || new Date(item.available_until) > now) &&
+  (item.stock === null || item.stock > 0);
+
+export const useShopItems = () => {
+  return useQuery({
+    queryKey: ['shop-items'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('shop_items')
+        .select('*')
+        .eq('is_active', true)
+        .order('price', { ascending: true });
+
+      if (error) throw error;
+      return data as ShopItem[];
+    }
+  });
+};
+
+export const useMyPurchases = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['shop-purchases', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('shop_purchases')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as ShopPurchase[];
+    },
+    enabled: !!user?.id
+  });
+};
+
+export const usePurchaseShopItem = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (item: ShopItem) => {
+      const { data, error } = await supabase.rpc('purchase_shop_item', {
+        p_item_id: item.id
+      });
+
+      if (error) throw error;
+      return { item, result: data as unknown as ShopPurchaseResult };
+    },
+    onSuccess: ({ item, result }) => {
+      queryClient.invalidateQueries({ queryKey: ['wallet'] });
+      queryClient.invalidateQueries({ queryKey: ['coin-transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['shop-items'] });
+      queryClient.invalidateQueries({ queryKey: ['shop-purchases'] });
+      queryClient.invalidateQueries({ queryKey: ['redemption-eligibility'] });
+      toast.success(`${item.icon} ${item.name} purchased!`, {
+        description: `${item.price} coins spent. New balance: ${result.balance} C`
+      });
+    },
+    onError: (error) => {
+      toast.error(`Failed to buy item: ${error.message}`);
+    }
+  });
+};
+
+// Admin: full catalog including inactive items, with purchase counts
+export const useAdminShopItems = () => {
+  const { isAdmin } = useAuth();
+
+  return useQuery({
+    queryKey: ['admin-shop-items'],
+    queryFn: async () => {
+      const [{ data: items, error }, { data: purchases, error: purchasesError }] = await Promise.all([
+        supabase.from('shop_items').select('*').order('created_at', { ascending: false }),
+        supabase.from('shop_purchases').select('item_id')
+      ]);
+
+      if (error) throw error;
+      if (purchasesError) throw purchasesError;
+
+      const sold = new Map<string, number>();
+      purchases?.forEach(p => sold.set(p.item_id, (sold.get(p.item_id) || 0) + 1));
+
+      return (items || []).map(item => ({
+        ...item,
+        sold: sold.get(item.id) || 0
+      })) as Array<ShopItem & { sold: number }>;
+    },
+    enabled: isAdmin
+  });
+};
+
+export const useSaveShopItem = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ id, ...item }: ShopItemInput & { id?: string }) => {
+      const { error } = id
+        ? await supabase.from('shop_items').update(item).eq('id', id)
+        : await supabase.from('shop_items').insert({ ...item, created_by: user?.id });
+
+      if (error) throw error;
+      return !id;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-shop-items'] });
+      queryClient.invalidateQueries({ queryKey: ['shop-items'] });
+      toast.success(created ? 'Reward added to the shop' : 'Reward updated');
+    },
+    onError: (error) => {
+      toast.error(`Failed to save reward: ${error.message}`);
+    }
+  });
+};
+
+// Items that were already bought can only be deactivated (purchases keep a reference)
+export const useDeleteShopItem = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (itemId: string) => {
+      const { error } = await supabase.from('shop_items').delete().eq('id', itemId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-shop-items'] });
+      queryClient.invalidateQueries({ queryKey: ['shop-items'] });
+      toast.success('Reward deleted');
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete reward: ${error.message}`);
+    }
+  });
+};
@@ -12,6 +12,40 @@ export interface DailyStreak {
   streak_start_date: string | null;
   created_at: string;
   updated_at: string;
+  // Streak freezes held; protected_through is the last missed day a freeze or repair covered
+  freezes_available?: number;
+  protected_through?: string | null;
+  // From get_my_streak(): evaluated in the learner's timezone
+  is_active_today?: boolean;
+  today?: string;
+  timezone?: string;
+  freezes_enabled?: boolean;
+  freeze_cost?: number;
+  freeze_max_held?: number;
+  // Set while a broken streak can still be repaired
+  repair?: StreakRepairOffer | null;
+}
+
+export interface StreakRepairOffer {
+  // Streak length after the repair
+  streak: number;
+  cost: number;
+  deadline: string;
+}
+
+export type StreakFreezeEvent = 'earned' | 'purchased' | 'used' | 'repaired';
+
+export interface StreakFreezeHistoryEntry {
+  id: string;
+  user_id: string;
+  event: StreakFreezeEvent;
+  days: number;
+  covered_from: string | null;
+  covered_to: string | null;
+  streak_length: number;
+  coins: number;
+  transaction_id: string | null;
+  created_at: string;
 }
 
 export const useStreak = () => {
@@ -22,115 +56,17 @@ export const useStreak = () => {
     queryFn: async () => {
       if (!user?.id) return null;
 
-      const { data, error } = await supabase
-        .from('daily_streaks')
-        .select('*')
-        .eq('user_id', user.id)
-        .maybeSingle();
+      // A streak whose last practice day is before yesterday reads as 0 here
+      // even before the hourly evaluate_streaks() job has reset it
+      const { data, error } = await supabase.rpc('get_my_streak');
 
       if (error) throw error;
-      return data as DailyStreak | null;
+      return (data as unknown as DailyStreak) || null;
     },
     enabled: !!user?.id
   });
 };
 
-export const useUpdateStreak = () => {
-  const { user } = useAuth();
-  const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationFn: async () => {
-      if (!user?.id) throw new Error('Not authenticated');
-
-      const today = new Date().toISOString().split('T')[0];
-
-      // Get current streak data
-      const { data: existing, error: fetchError } = await supabase
-        .from('daily_streaks')
-        .select('*')
-        .eq('user_id', user.id)
-        .maybeSingle();
-
-      if (fetchError) throw fetchError;
-
-      if (!existing) {
-        // Create new streak record
-        const { error } = await supabase
-          .from('daily_streaks')
-          .insert({
-            user_id: user.id,
-            current_streak: 1,
-            longest_streak: 1,
-            last_practice_date: today,
-            streak_start_date: today
-          });
-        
-        if (error) throw error;
-        return { current_streak: 1, is_new_day: true };
-      }
-
-      // Already practiced today
-      if (existing.last_practice_date === today) {
-        return { 
-          current_streak: existing.current_streak, 
-          is_new_day: false 
-        };
-      }
-
-      const lastDate = existing.last_practice_date 
-        ? new Date(existing.last_practice_date) 
-        : null;
-      const todayDate = new Date(today);
-      
-      let newStreak = 1;
-      let streakStart = today;
-      
-      if (lastDate) {
-        const diffDays = Math.floor(
-          (todayDate.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24)
-        );
-        
-        if (diffDays === 1) {
-          // Consecutive day - extend streak
-          newStreak = existing.current_streak + 1;
-          streakStart = existing.streak_start_date || today;
-        }
-        // If diffDays > 1, streak resets to 1
-      }
-
-      const newLongest = Math.max(existing.longest_streak, newStreak);
-
-      const { error } = await supabase
-        .from('daily_streaks')
-        .update({
-          current_streak: newStreak,
-          longest_streak: newLongest,
-          last_practice_date: today,
-          streak_start_date: streakStart
-        })
-        .eq('user_id', user.id);
-
-      if (error) throw error;
-
-      return { 
-        current_streak: newStreak, 
-        is_new_day: true,
-        streak_extended: newStreak > 1 
-      };
-    },
-    onSuccess: (result) => {
-      queryClient.invalidateQueries({ queryKey: ['user-streak'] });
-      
-      if (result.is_new_day && result.streak_extended) {
-        toast.success(`🔥 ${result.current_streak} day streak!`, {
-          description: 'Keep up the great work!'
-        });
-      }
-    }
-  });
-};
-
 export const useStreakLeaderboard = (limit = 10) => {
   return useQuery({
     queryKey: ['streak-leaderboard', limit],
@@ -162,3 +98,75 @@ export const useStreakLeaderboard = (limit = 10) => {
     }
   });
 };
+
+export const useStreakFreezeHistory = (limit = 10) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['streak-freeze-history', user?.id, limit],
+    queryFn: async () => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('streak_freeze_history')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data as StreakFreezeHistoryEntry[];
+    },
+    enabled: !!user?.id
+  });
+};
+
+const invalidateStreak = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['user-streak'] });
+  queryClient.invalidateQueries({ queryKey: ['streak-freeze-history'] });
+  queryClient.invalidateQueries({ queryKey: ['streak-leaderboard'] });
+  queryClient.invalidateQueries({ queryKey: ['wallet'] });
+  queryClient.invalidateQueries({ queryKey: ['coin-transactions'] });
+};
+
+export const useBuyStreakFreeze = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('buy_streak_freeze');
+
+      if (error) throw error;
+      return data as unknown as { freezes_available: number; balance: number };
+    },
+    onSuccess: (result) => {
+      invalidateStreak(queryClient);
+      toast.success('❄️ Streak freeze bought', {
+        description: `You now hold ${result.freezes_available}. One is used for each missed day.`
+      });
+    },
+    onError: (error) => {
+      toast.error(`Could not buy a streak freeze: ${error.message}`);
+    }
+  });
+};
+
+export const useRepairStreak = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('repair_streak');
+
+      if (error) throw error;
+      return data as unknown as { current_streak: number; balance: number };
+    },
+    onSuccess: (result) => {
+      invalidateStreak(queryClient);
+      toast.success(`🔥 Streak repaired: ${result.current_streak} days`);
+    },
+    onError: (error) => {
+      toast.error(`Could not repair your streak: ${error.message}`);
+    }
+  });
+};
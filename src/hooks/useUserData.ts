@@ -1,12 +1,19 @@
-import { useQuery } from '@tanstack/react-query';
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/context/AuthContext';
+import { getBrowserTimeZone, todayKey } from '@/lib/timezone';
 
 export interface Profile {
   id: string;
   email: string;
   display_name: string | null;
   avatar_url: string | null;
+  // IANA timezone that practice days and streaks are counted in (server default: UTC)
+  timezone: string | null;
+  // Requested with set_my_timezone(); replaces timezone from that local date (yyyy-MM-dd)
+  pending_timezone: string | null;
+  pending_timezone_from: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -40,6 +47,37 @@ export const useProfile = () => {
   });
 };
 
+// The learner's timezone: the profile setting (a pending change once its
+// first day has come, like user_timezone() on the server), else the browser's
+export const useTimeZone = () => {
+  const { data: profile } = useProfile();
+  const timezone = profile?.timezone || getBrowserTimeZone();
+  if (profile?.pending_timezone && profile.pending_timezone_from <= todayKey(timezone)) {
+    return profile.pending_timezone;
+  }
+  return timezone;
+};
+
+// Stores the browser timezone on profiles that have none yet, so the server
+// counts practice days the way the learner sees them
+export const useSyncProfileTimeZone = () => {
+  const { data: profile } = useProfile();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!profile || profile.timezone) return;
+
+    supabase
+      .rpc('set_my_timezone', { p_timezone: getBrowserTimeZone() })
+      .then(({ error }) => {
+        if (!error) {
+          queryClient.invalidateQueries({ queryKey: ['profile', profile.id] });
+          queryClient.invalidateQueries({ queryKey: ['user-streak'] });
+        }
+      });
+  }, [profile, queryClient]);
+};
+
 export const useWallet = () => {
   const { user } = useAuth();
 
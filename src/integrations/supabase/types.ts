@@ -51,6 +51,9 @@ export type Database = {
           rarity: string
           requirement_type: string
           requirement_value: number
+          rule: Json | null
+          tier: number | null
+          tier_group: string | null
         }
         Insert: {
           category?: string
@@ -63,6 +66,9 @@ export type Database = {
           rarity?: string
           requirement_type: string
           requirement_value?: number
+          rule?: Json | null
+          tier?: number | null
+          tier_group?: string | null
         }
         Update: {
           category?: string
@@ -75,9 +81,233 @@ export type Database = {
           rarity?: string
           requirement_type?: string
           requirement_value?: number
+          rule?: Json | null
+          tier?: number | null
+          tier_group?: string | null
         }
         Relationships: []
       }
+      class_pool_contributions: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          pool_id: string
+          refund_transaction_id: string | null
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          pool_id: string
+          refund_transaction_id?: string | null
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          pool_id?: string
+          refund_transaction_id?: string | null
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_pool_contributions_pool_id_fkey"
+            columns: ["pool_id"]
+            isOneToOne: false
+            referencedRelation: "class_pools"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "class_pool_contributions_refund_transaction_id_fkey"
+            columns: ["refund_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "coin_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "class_pool_contributions_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "coin_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      class_pools: {
+        Row: {
+          class_id: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          reached_at: string | null
+          reward: string
+          status: string
+          target: number
+          title: string
+          total: number
+          updated_at: string
+        }
+        Insert: {
+          class_id: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          reached_at?: string | null
+          reward: string
+          status?: string
+          target: number
+          title: string
+          total?: number
+          updated_at?: string
+        }
+        Update: {
+          class_id?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          reached_at?: string | null
+          reward?: string
+          status?: string
+          target?: number
+          title?: string
+          total?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_pools_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "course_classes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coin_adjustments: {
+        Row: {
+          admin_id: string | null
+          applied: number
+          balance_after: number
+          balance_before: number
+          batch_id: string | null
+          class_id: string | null
+          created_at: string
+          id: string
+          reason: string
+          requested: number
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          admin_id?: string | null
+          applied: number
+          balance_after: number
+          balance_before: number
+          batch_id?: string | null
+          class_id?: string | null
+          created_at?: string
+          id?: string
+          reason: string
+          requested: number
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          admin_id?: string | null
+          applied?: number
+          balance_after?: number
+          balance_before?: number
+          batch_id?: string | null
+          class_id?: string | null
+          created_at?: string
+          id?: string
+          reason?: string
+          requested?: number
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coin_adjustments_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "course_classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coin_adjustments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "coin_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coin_balance_drift: {
+        Row: {
+          balance_drift: number | null
+          id: string
+          ledger_balance: number
+          ledger_earned: number
+          ledger_spent: number
+          resolution: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          run_id: string
+          user_id: string
+          wallet_balance: number
+          wallet_earned: number
+          wallet_spent: number
+        }
+        Insert: {
+          balance_drift?: number | null
+          id?: string
+          ledger_balance: number
+          ledger_earned: number
+          ledger_spent: number
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          run_id: string
+          user_id: string
+          wallet_balance: number
+          wallet_earned: number
+          wallet_spent: number
+        }
+        Update: {
+          balance_drift?: number | null
+          id?: string
+          ledger_balance?: number
+          ledger_earned?: number
+          ledger_spent?: number
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          run_id?: string
+          user_id?: string
+          wallet_balance?: number
+          wallet_earned?: number
+          wallet_spent?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coin_balance_drift_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "coin_reconciliation_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       coin_config: {
         Row: {
           description: string | null
@@ -102,13 +332,230 @@ export type Database = {
         }
         Relationships: []
       }
+      coin_gifts: {
+        Row: {
+          amount: number
+          class_id: string
+          created_at: string
+          id: string
+          message: string | null
+          received_transaction_id: string
+          recipient_id: string
+          sender_id: string
+          sent_transaction_id: string
+        }
+        Insert: {
+          amount: number
+          class_id: string
+          created_at?: string
+          id?: string
+          message?: string | null
+          received_transaction_id: string
+          recipient_id: string
+          sender_id: string
+          sent_transaction_id: string
+        }
+        Update: {
+          amount?: number
+          class_id?: string
+          created_at?: string
+          id?: string
+          message?: string | null
+          received_transaction_id?: string
+          recipient_id?: string
+          sender_id?: string
+          sent_transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coin_gifts_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "course_classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coin_gifts_received_transaction_id_fkey"
+            columns: ["received_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "coin_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coin_gifts_sent_transaction_id_fkey"
+            columns: ["sent_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "coin_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coin_ledger_entries: {
+        Row: {
+          account: string
+          created_at: string
+          credit: number
+          debit: number
+          id: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          account: string
+          created_at?: string
+          credit?: number
+          debit?: number
+          id?: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          account?: string
+          created_at?: string
+          credit?: number
+          debit?: number
+          id?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coin_ledger_entries_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "coin_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coin_reconciliation_runs: {
+        Row: {
+          drifted_users: number
+          id: string
+          ledger_imbalance: number
+          started_at: string
+          total_drift: number
+          triggered_by: string | null
+          users_checked: number
+        }
+        Insert: {
+          drifted_users?: number
+          id?: string
+          ledger_imbalance?: number
+          started_at?: string
+          total_drift?: number
+          triggered_by?: string | null
+          users_checked?: number
+        }
+        Update: {
+          drifted_users?: number
+          id?: string
+          ledger_imbalance?: number
+          started_at?: string
+          total_drift?: number
+          triggered_by?: string | null
+          users_checked?: number
+        }
+        Relationships: []
+      }
+      coin_redemptions: {
+        Row: {
+          admin_notes: string | null
+          amount: number
+          created_at: string
+          id: string
+          note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          transaction_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          admin_notes?: string | null
+          amount: number
+          created_at?: string
+          id?: string
+          note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          transaction_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          admin_notes?: string | null
+          amount?: number
+          created_at?: string
+          id?: string
+          note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          transaction_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coin_redemptions_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "coin_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coin_season_resets: {
+        Row: {
+          amount: number
+          class_id: string
+          reset_at: string
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          amount?: number
+          class_id: string
+          reset_at?: string
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          class_id?: string
+          reset_at?: string
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coin_season_resets_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "course_classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coin_season_resets_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "coin_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       coin_transactions: {
         Row: {
           amount: number
           created_at: string
           description: string | null
+          entry_kind: Database["public"]["Enums"]["coin_entry_kind"]
           id: string
           reference_id: string | null
+          requested_amount: number | null
           transaction_type: string
           user_id: string
         }
@@ -116,8 +563,10 @@ export type Database = {
           amount: number
           created_at?: string
           description?: string | null
+          entry_kind: Database["public"]["Enums"]["coin_entry_kind"]
           id?: string
           reference_id?: string | null
+          requested_amount?: number | null
           transaction_type: string
           user_id: string
         }
@@ -125,8 +574,10 @@ export type Database = {
           amount?: number
           created_at?: string
           description?: string | null
+          entry_kind?: Database["public"]["Enums"]["coin_entry_kind"]
           id?: string
           reference_id?: string | null
+          requested_amount?: number | null
           transaction_type?: string
           user_id?: string
         }
@@ -138,6 +589,7 @@ export type Database = {
           class_name: string
           course_id: string
           created_at: string
+          end_date: string | null
           id: string
           is_active: boolean
           schedule_days: Json
@@ -149,6 +601,7 @@ export type Database = {
           class_name: string
           course_id: string
           created_at?: string
+          end_date?: string | null
           id?: string
           is_active?: boolean
           schedule_days?: Json
@@ -160,6 +613,7 @@ export type Database = {
           class_name?: string
           course_id?: string
           created_at?: string
+          end_date?: string | null
           id?: string
           is_active?: boolean
           schedule_days?: Json
@@ -217,31 +671,46 @@ export type Database = {
       }
       daily_streaks: {
         Row: {
+          broken_streak: number | null
+          broken_streak_start: string | null
+          broken_through: string | null
           created_at: string
           current_streak: number
+          freezes_available: number
           id: string
           last_practice_date: string | null
           longest_streak: number
+          protected_through: string | null
           streak_start_date: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          broken_streak?: number | null
+          broken_streak_start?: string | null
+          broken_through?: string | null
           created_at?: string
           current_streak?: number
+          freezes_available?: number
           id?: string
           last_practice_date?: string | null
           longest_streak?: number
+          protected_through?: string | null
           streak_start_date?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          broken_streak?: number | null
+          broken_streak_start?: string | null
+          broken_through?: string | null
           created_at?: string
           current_streak?: number
+          freezes_available?: number
           id?: string
           last_practice_date?: string | null
           longest_streak?: number
+          protected_through?: string | null
           streak_start_date?: string | null
           updated_at?: string
           user_id?: string
@@ -296,6 +765,53 @@ export type Database = {
           },
         ]
       }
+      lesson_reference_audio: {
+        Row: {
+          audio_path: string
+          category: string
+          created_at: string
+          created_by: string | null
+          duration_seconds: number | null
+          envelope: Json
+          id: string
+          item_index: number
+          lesson_id: string
+          mime_type: string | null
+        }
+        Insert: {
+          audio_path: string
+          category: string
+          created_at?: string
+          created_by?: string | null
+          duration_seconds?: number | null
+          envelope: Json
+          id?: string
+          item_index: number
+          lesson_id: string
+          mime_type?: string | null
+        }
+        Update: {
+          audio_path?: string
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          duration_seconds?: number | null
+          envelope?: Json
+          id?: string
+          item_index?: number
+          lesson_id?: string
+          mime_type?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_reference_audio_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       lessons: {
         Row: {
           categories: Json
@@ -342,6 +858,7 @@ export type Database = {
       }
       practice_history: {
         Row: {
+          audio_fingerprint: Json | null
           audio_url: string | null
           category: string
           coins_earned: number
@@ -351,9 +868,14 @@ export type Database = {
           metrics: Json | null
           practiced_at: string
           score: number
+          scoring_profile_id: string | null
+          scoring_profile_version: number | null
+          settlement: Json | null
+          settlement_key: string | null
           user_id: string
         }
         Insert: {
+          audio_fingerprint?: Json | null
           audio_url?: string | null
           category: string
           coins_earned?: number
@@ -363,9 +885,14 @@ export type Database = {
           metrics?: Json | null
           practiced_at?: string
           score?: number
+          scoring_profile_id?: string | null
+          scoring_profile_version?: number | null
+          settlement?: Json | null
+          settlement_key?: string | null
           user_id: string
         }
         Update: {
+          audio_fingerprint?: Json | null
           audio_url?: string | null
           category?: string
           coins_earned?: number
@@ -375,6 +902,10 @@ export type Database = {
           metrics?: Json | null
           practiced_at?: string
           score?: number
+          scoring_profile_id?: string | null
+          scoring_profile_version?: number | null
+          settlement?: Json | null
+          settlement_key?: string | null
           user_id?: string
         }
         Relationships: [
@@ -385,6 +916,13 @@ export type Database = {
             referencedRelation: "lessons"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "practice_history_scoring_profile_id_fkey"
+            columns: ["scoring_profile_id"]
+            isOneToOne: false
+            referencedRelation: "scoring_profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       practice_scores: {
@@ -568,6 +1106,9 @@ export type Database = {
           display_name: string | null
           email: string
           id: string
+          pending_timezone: string | null
+          pending_timezone_from: string | null
+          timezone: string | null
           updated_at: string
         }
         Insert: {
@@ -576,6 +1117,9 @@ export type Database = {
           display_name?: string | null
           email: string
           id: string
+          pending_timezone?: string | null
+          pending_timezone_from?: string | null
+          timezone?: string | null
           updated_at?: string
         }
         Update: {
@@ -584,10 +1128,117 @@ export type Database = {
           display_name?: string | null
           email?: string
           id?: string
+          pending_timezone?: string | null
+          pending_timezone_from?: string | null
+          timezone?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      score_recalculation_audit: {
+        Row: {
+          coins_delta: number
+          coins_posted: number
+          created_at: string
+          id: string
+          progress: Json
+          run_id: string
+          takes: Json
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          coins_delta?: number
+          coins_posted?: number
+          created_at?: string
+          id?: string
+          progress?: Json
+          run_id: string
+          takes?: Json
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          coins_delta?: number
+          coins_posted?: number
+          created_at?: string
+          id?: string
+          progress?: Json
+          run_id?: string
+          takes?: Json
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "score_recalculation_audit_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "score_recalculation_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_recalculation_audit_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "coin_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      score_recalculation_runs: {
+        Row: {
+          coin_config: Json
+          coins_delta: number
+          coins_posted: number
+          created_at: string
+          id: string
+          note: string | null
+          post_coins: boolean
+          scoring_profile_id: string | null
+          scoring_profile_version: number | null
+          takes_changed: number
+          triggered_by: string | null
+          users_affected: number
+        }
+        Insert: {
+          coin_config?: Json
+          coins_delta?: number
+          coins_posted?: number
+          created_at?: string
+          id?: string
+          note?: string | null
+          post_coins?: boolean
+          scoring_profile_id?: string | null
+          scoring_profile_version?: number | null
+          takes_changed?: number
+          triggered_by?: string | null
+          users_affected?: number
+        }
+        Update: {
+          coin_config?: Json
+          coins_delta?: number
+          coins_posted?: number
+          created_at?: string
+          id?: string
+          note?: string | null
+          post_coins?: boolean
+          scoring_profile_id?: string | null
+          scoring_profile_version?: number | null
+          takes_changed?: number
+          triggered_by?: string | null
+          users_affected?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "score_recalculation_runs_scoring_profile_id_fkey"
+            columns: ["scoring_profile_id"]
+            isOneToOne: false
+            referencedRelation: "scoring_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       scoring_config: {
         Row: {
           description: string | null
@@ -618,23 +1269,229 @@ export type Database = {
         }
         Relationships: []
       }
+      scoring_profiles: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          metrics: Json
+          name: string
+          notes: string | null
+          overrides: Json
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          metrics: Json
+          name?: string
+          notes?: string | null
+          overrides?: Json
+          version: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          metrics?: Json
+          name?: string
+          notes?: string | null
+          overrides?: Json
+          version?: number
+        }
+        Relationships: []
+      }
+      shop_items: {
+        Row: {
+          available_from: string | null
+          available_until: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          icon: string
+          id: string
+          is_active: boolean
+          name: string
+          per_user_limit: number | null
+          price: number
+          stock: number | null
+          updated_at: string
+        }
+        Insert: {
+          available_from?: string | null
+          available_until?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          icon?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          per_user_limit?: number | null
+          price: number
+          stock?: number | null
+          updated_at?: string
+        }
+        Update: {
+          available_from?: string | null
+          available_until?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          icon?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          per_user_limit?: number | null
+          price?: number
+          stock?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      shop_purchases: {
+        Row: {
+          created_at: string
+          id: string
+          item_id: string
+          price: number
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          item_id: string
+          price: number
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          item_id?: string
+          price?: number
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shop_purchases_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "shop_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shop_purchases_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "coin_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      streak_freeze_history: {
+        Row: {
+          coins: number
+          covered_from: string | null
+          covered_to: string | null
+          created_at: string
+          days: number
+          event: string
+          id: string
+          streak_length: number
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          coins?: number
+          covered_from?: string | null
+          covered_to?: string | null
+          created_at?: string
+          days?: number
+          event: string
+          id?: string
+          streak_length?: number
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          coins?: number
+          covered_from?: string | null
+          covered_to?: string | null
+          created_at?: string
+          days?: number
+          event?: string
+          id?: string
+          streak_length?: number
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "streak_freeze_history_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "coin_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timezone_changes: {
+        Row: {
+          created_at: string
+          effective_from: string
+          id: string
+          new_timezone: string
+          old_timezone: string | null
+          user_id: string
+          withdrawn_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          effective_from: string
+          id?: string
+          new_timezone: string
+          old_timezone?: string | null
+          user_id: string
+          withdrawn_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          effective_from?: string
+          id?: string
+          new_timezone?: string
+          old_timezone?: string | null
+          user_id?: string
+          withdrawn_at?: string | null
+        }
+        Relationships: []
+      }
       user_badges: {
         Row: {
           badge_id: string
           earned_at: string
           id: string
+          upgraded_at: string | null
           user_id: string
         }
         Insert: {
           badge_id: string
           earned_at?: string
           id?: string
+          upgraded_at?: string | null
           user_id: string
         }
         Update: {
           badge_id?: string
           earned_at?: string
           id?: string
+          upgraded_at?: string | null
           user_id?: string
         }
         Relationships: [
@@ -744,9 +1601,77 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      coin_ledger_balances: {
+        Row: {
+          ledger_balance: number | null
+          ledger_earned: number | null
+          ledger_spent: number | null
+          user_id: string | null
+          wallet_balance: number | null
+          wallet_earned: number | null
+          wallet_spent: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      admin_adjust_class_coins: {
+        Args: { p_amount: number; p_class_id: string; p_reason: string }
+        Returns: Json
+      }
+      admin_adjust_coins: {
+        Args: { p_amount: number; p_reason: string; p_user_id: string }
+        Returns: number
+      }
+      apply_score_recalculation: {
+        Args: {
+          p_changes: Json
+          p_note?: string
+          p_post_coins?: boolean
+          p_scoring_profile_id?: string
+          p_scoring_profile_version?: number
+        }
+        Returns: string
+      }
+      backfill_badge: {
+        Args: {
+          p_after?: string
+          p_badge_id: string
+          p_grant_coins?: boolean
+          p_limit?: number
+        }
+        Returns: Json
+      }
+      buy_streak_freeze: { Args: never; Returns: Json }
+      cancel_class_pool: { Args: { p_pool_id: string }; Returns: number }
+      cancel_coin_redemption: {
+        Args: { p_redemption_id: string }
+        Returns: undefined
+      }
+      coin_expiry_forecast: {
+        Args: { p_user_id?: string }
+        Returns: Json
+      }
+      coin_redemption_eligibility: {
+        Args: { p_user_id?: string }
+        Returns: Json
+      }
+      contribute_to_class_pool: {
+        Args: { p_amount: number; p_pool_id: string }
+        Returns: Json
+      }
+      evaluate_streaks: { Args: never; Returns: number }
+      expire_coins: { Args: never; Returns: Json }
+      get_my_badge_progress: {
+        Args: never
+        Returns: {
+          badge_id: string
+          current: number
+          metric: string
+          target: number
+        }[]
+      }
+      get_my_streak: { Args: never; Returns: Json }
       get_score_leaderboard: {
         Args: {
           p_class_id?: string
@@ -785,9 +1710,103 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_valid_timezone: { Args: { p_timezone: string }; Returns: boolean }
+      lesson_deadline: {
+        Args: { p_lesson_id: string; p_user_id: string }
+        Returns: string
+      }
+      practice_mastery: {
+        Args: { p_attempts: number; p_best_score: number }
+        Returns: number
+      }
+      preview_badge_rule: {
+        Args: { p_badge_id?: string; p_rule: Json }
+        Returns: {
+          already_earned: boolean
+          display_name: string
+          email: string
+          user_id: string
+        }[]
+      }
+      publish_scoring_profile: {
+        Args: {
+          p_metrics?: Json
+          p_name?: string
+          p_notes?: string
+          p_overrides?: Json
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          metrics: Json
+          name: string
+          notes: string | null
+          overrides: Json
+          version: number
+        }
+      }
+      purchase_shop_item: { Args: { p_item_id: string }; Returns: Json }
+      reconcile_coin_ledger: { Args: never; Returns: string }
+      repair_streak: { Args: never; Returns: Json }
+      request_coin_redemption: {
+        Args: { p_amount: number; p_note?: string }
+        Returns: string
+      }
+      resolve_coin_drift: {
+        Args: { p_drift_id: string; p_resolution: string }
+        Returns: undefined
+      }
+      review_coin_redemption: {
+        Args: { p_admin_notes?: string; p_approve: boolean; p_redemption_id: string }
+        Returns: undefined
+      }
+      send_coin_gift: {
+        Args: {
+          p_amount: number
+          p_class_id: string
+          p_message?: string
+          p_recipient_id: string
+        }
+        Returns: Json
+      }
+      set_my_timezone: { Args: { p_timezone: string }; Returns: Json }
+      settle_practice: {
+        Args: {
+          p_audio_fingerprint?: Json
+          p_audio_url?: string
+          p_category: string
+          p_item_index: number
+          p_lesson_id: string
+          p_metrics: Json
+          p_settlement_key: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       app_role: "admin" | "teacher" | "user"
+      coin_entry_kind:
+        | "practice_reward"
+        | "practice_penalty"
+        | "first_practice"
+        | "milestone"
+        | "streak"
+        | "deadline"
+        | "badge"
+        | "admin_adjustment"
+        | "legacy"
+        | "redemption"
+        | "purchase"
+        | "recalculation"
+        | "expiry"
+        | "gift_sent"
+        | "gift_received"
+        | "pool_contribution"
+        | "pool_refund"
+        | "streak_freeze"
+        | "streak_repair"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -919,6 +1938,27 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "teacher", "user"],
+      coin_entry_kind: [
+        "practice_reward",
+        "practice_penalty",
+        "first_practice",
+        "milestone",
+        "streak",
+        "deadline",
+        "badge",
+        "admin_adjustment",
+        "legacy",
+        "redemption",
+        "purchase",
+        "recalculation",
+        "expiry",
+        "gift_sent",
+        "gift_received",
+        "pool_contribution",
+        "pool_refund",
+        "streak_freeze",
+        "streak_repair",
+      ],
     },
   },
 } as const
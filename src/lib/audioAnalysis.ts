@@ -1,9 +1,24 @@
 // Audio Analysis Metrics for Voice Energy App
 // NOTE: This file contains the CORE ANALYSIS LOGIC that must NOT be changed
+// It runs inside the analysis Web Worker: no DOM, no localStorage, no Supabase
+// client imports here (see audioAnalysisWorker.ts for the main-thread side).
 
-import { calibrateAndNormalize, calculateNoiseFloor, getCalibrationProfile, TARGET_LUFS } from './lufsNormalization';
+import { calculateNoiseFloor, normalizeWithCalibration, TARGET_LUFS, type CalibrationProfile } from './lufsNormalization';
 // VADMetrics is defined locally below; analyzeVAD removed (module './vad' doesn't exist)
-import { transcribeAudio, calculateWPMFromTranscription } from './deepgramService';
+import type { DeepgramTranscription } from './deepgramService';
+import { analyzePronunciation, type PronunciationResult } from './pronunciationScoring';
+import { createMagnitudeSpectrum, getHannWindow } from './fft';
+import { hzToSemitones, trackPitch, type PitchFrame } from './pitchTracking';
+import { detectHesitations, withoutFillers, type HesitationStats } from './hesitation';
+import { buildPauseMap, detectSpeechSpans, type PauseMap } from './pauseMap';
+import { compareProsody, extractProsodyEnvelope, type ProsodyEnvelope, type ProsodyOverlayPoint } from './prosodyComparison';
+import type { ScoringProfileStamp } from './scoringProfile';
+
+export type { PronunciationResult, WordAlignment } from './pronunciationScoring';
+export type { PitchFrame } from './pitchTracking';
+export type { ProsodyEnvelope, ProsodyOverlayPoint } from './prosodyComparison';
+export type { PauseMap, PauseMapEntry } from './pauseMap';
+export type { HesitationEvent } from './hesitation';
 
 // VAD Metrics interface (from useEnhancedAudioRecorder)
 export interface SpeechSegment {
@@ -28,6 +43,7 @@ export type SpeechRateMethod = "energy-peaks" | "vad-enhanced" | "spectral-flux"
 export interface MetricConfig {
   id: string;
   weight: number;
+  enabled?: boolean; // missing means enabled
   thresholds: {
     min: number;
     ideal: number;
@@ -36,25 +52,27 @@ export interface MetricConfig {
   method?: SpeechRateMethod;
 }
 
-// Load config from localStorage or use defaults
-function getConfig(): MetricConfig[] {
-  try {
-    const saved = localStorage.getItem("metricConfig");
-    if (saved) {
-      return JSON.parse(saved);
-    }
-  } catch (e) {
-    console.warn("Failed to load metric config:", e);
-  }
+// Built-in defaults, used until the server scoring profile is loaded
+export const DEFAULT_METRIC_CONFIG: MetricConfig[] = [
+  { id: "volume", weight: 40, enabled: true, thresholds: { min: -35, ideal: -15, max: 0 } },
+  { id: "speechRate", weight: 40, enabled: true, thresholds: { min: 90, ideal: 150, max: 220 }, method: "spectral-flux" },
+  { id: "acceleration", weight: 5, enabled: true, thresholds: { min: 0, ideal: 50, max: 100 } },
+  { id: "responseTime", weight: 5, enabled: true, thresholds: { min: 2000, ideal: 200, max: 0 } },
+  { id: "pauseManagement", weight: 10, enabled: true, thresholds: { min: 0, ideal: 0, max: 2.71 } },
+  { id: "pronunciation", weight: 30, enabled: true, thresholds: { min: 0, ideal: 100, max: 100 } },
+  { id: "intonation", weight: 10, enabled: true, thresholds: { min: 2, ideal: 8, max: 16 } },
+  { id: "prosody", weight: 15, enabled: true, thresholds: { min: 20, ideal: 90, max: 100 } },
+  { id: "hesitation", weight: 10, enabled: true, thresholds: { min: 0, ideal: 2, max: 12 } },
+];
+
+// Metrics resolved for the item being analyzed (course/lesson/category overrides applied).
+// Set for the duration of one runAnalysisPipeline call; pipelineQueue keeps
+// jobs from overlapping while they yield between stages.
+let runMetrics: MetricConfig[] | null = null;
+let pipelineQueue: Promise<unknown> = Promise.resolve();
 
-  // Default config (matches AdminSettings defaults)
-  return [
-    { id: "volume", weight: 40, thresholds: { min: -35, ideal: -15, max: 0 } },
-    { id: "speechRate", weight: 40, thresholds: { min: 90, ideal: 150, max: 220 }, method: "spectral-flux" },
-    { id: "acceleration", weight: 5, thresholds: { min: 0, ideal: 50, max: 100 } },
-    { id: "responseTime", weight: 5, thresholds: { min: 2000, ideal: 200, max: 0 } },
-    { id: "pauseManagement", weight: 10, thresholds: { min: 0, ideal: 0, max: 2.71 } },
-  ];
+function getConfig(): MetricConfig[] {
+  return runMetrics ?? DEFAULT_METRIC_CONFIG;
 }
 
 function getMetricConfig(id: string): MetricConfig | undefined {
@@ -99,10 +117,34 @@ export interface ResponseTimeResult {
 
 export interface PauseResult {
   pauseRatio: number;
+  map?: PauseMap; // where each pause fell; missing on results saved before the pause map existed
   score: number;
   tag: "FLUIDITY";
 }
 
+export interface IntonationResult {
+  contour: PitchFrame[];    // F0 every 20ms, null where unvoiced
+  medianHz: number;
+  rangeSemitones: number;   // p10→p90 spread of voiced F0
+  monotony: number;         // 0 = lively, 100 = flat
+  voicedRatio: number;
+  score: number;
+  tag: "INTONATION";
+}
+
+export interface ProsodyResult {
+  similarity: number;         // raw DTW similarity to the reference, 0-100
+  durationRatio: number;      // learner / reference speaking time
+  overlay: ProsodyOverlayPoint[];
+  score: number;
+  tag: "SHADOWING";
+}
+
+export interface HesitationResult extends HesitationStats {
+  score: number;
+  tag: "HESITATION";
+}
+
 export interface AnalysisResult {
   overallScore: number;
   emotionalFeedback: "excellent" | "good" | "poor";
@@ -111,21 +153,21 @@ export interface AnalysisResult {
   acceleration: AccelerationResult;
   responseTime: ResponseTimeResult;
   pauses: PauseResult;
+  intonation?: IntonationResult; // missing on results saved before the metric existed
+  prosody?: ProsodyResult; // only when the item has a reference recording
+  hesitation?: HesitationResult; // only with a filler-word transcript
+  pronunciation?: PronunciationResult; // only when the expected text and a transcript are available
+  scoringProfile?: ScoringProfileStamp; // profile version the overall score was computed with
   normalization?: {
     originalLUFS: number;
     calibratedLUFS: number;
     finalLUFS: number;
     deviceGain: number;
     normalizationGain: number;
+    noiseFloor?: number; // lets the main thread track the recording against the device profile
   };
 }
 
-interface LocalMetricConfigEntry {
-  id?: string;
-  weight?: number;
-  enabled?: boolean;
-}
-
 // ============ ANALYSIS FUNCTIONS (DO NOT MODIFY) ============
 
 function analyzeVolume(audioBuffer: Float32Array, deviceDbOffset: number = 0): VolumeResult {
@@ -301,48 +343,18 @@ function detectSyllablesWithVAD(
  * Much more accurate than energy peaks because it detects
  * spectral changes (formant transitions) rather than just amplitude.
  */
-function detectSyllablesWithSpectralFlux(
+export function detectSyllablesWithSpectralFlux(
   audioBuffer: Float32Array,
   sampleRate: number,
   vadMetrics?: VADMetrics
 ): number {
   const frameSizeSamples = Math.floor(sampleRate * 0.02); // 20ms frames
   const hopSize = Math.floor(frameSizeSamples / 2);       // 50% overlap = 10ms hop
-  const fftBins = 256; // 256 bins covers ~0-8kHz at 44.1kHz (sufficient for speech)
-
-  // Pre-compute Hann window
-  const hannWindow = new Float32Array(frameSizeSamples);
-  for (let i = 0; i < frameSizeSamples; i++) {
-    hannWindow[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (frameSizeSamples - 1)));
-  }
-
-  // Pre-compute cosine/sine tables for DFT (avoids recalculating trig per frame)
-  const cosTable = new Float32Array(fftBins * frameSizeSamples);
-  const sinTable = new Float32Array(fftBins * frameSizeSamples);
-  for (let k = 0; k < fftBins; k++) {
-    const freqRatio = (2 * Math.PI * k) / frameSizeSamples;
-    for (let n = 0; n < frameSizeSamples; n++) {
-      cosTable[k * frameSizeSamples + n] = Math.cos(freqRatio * n);
-      sinTable[k * frameSizeSamples + n] = Math.sin(freqRatio * n);
-    }
-  }
-
-  // Compute magnitude spectrum for a windowed frame using pre-computed tables
-  function computeMagnitudeSpectrum(frame: Float32Array): Float32Array {
-    const magnitudes = new Float32Array(fftBins);
-    const N = frame.length;
-    for (let k = 0; k < fftBins; k++) {
-      let real = 0;
-      let imag = 0;
-      const offset = k * frameSizeSamples;
-      for (let n = 0; n < N; n++) {
-        real += frame[n] * cosTable[offset + n];
-        imag -= frame[n] * sinTable[offset + n];
-      }
-      magnitudes[k] = Math.sqrt(real * real + imag * imag);
-    }
-    return magnitudes;
-  }
+  // Same band the original 256-bin DFT covered (256 / frameSize of the sample rate),
+  // computed with a zero-padded radix-2 FFT instead of per-bin sums
+  const spectrum = createMagnitudeSpectrum(frameSizeSamples, 256 / frameSizeSamples);
+  const fftBins = spectrum.bins;
+  const hannWindow = getHannWindow(frameSizeSamples);
 
   // VAD speech region lookup
   const hasVAD = vadMetrics && vadMetrics.speechSegments && vadMetrics.speechSegments.length > 0;
@@ -354,7 +366,7 @@ function detectSyllablesWithSpectralFlux(
   };
 
   // Compute spectral flux for each frame
-  let prevSpectrum = new Float32Array(fftBins);
+  const prevSpectrum = new Float32Array(fftBins);
   const fluxValues: { flux: number; timeMs: number }[] = [];
   const windowed = new Float32Array(frameSizeSamples);
 
@@ -364,18 +376,18 @@ function detectSyllablesWithSpectralFlux(
       windowed[j] = audioBuffer[i + j] * hannWindow[j];
     }
 
-    const spectrum = computeMagnitudeSpectrum(windowed);
+    const magnitudes = spectrum.compute(windowed);
 
     // Half-wave rectified spectral flux (only positive changes = onsets)
     let flux = 0;
     for (let k = 0; k < fftBins; k++) {
-      const diff = spectrum[k] - prevSpectrum[k];
+      const diff = magnitudes[k] - prevSpectrum[k];
       if (diff > 0) flux += diff;
     }
 
     const timeMs = (i / sampleRate) * 1000;
     fluxValues.push({ flux, timeMs });
-    prevSpectrum = new Float32Array(spectrum) as Float32Array<ArrayBuffer>;
+    prevSpectrum.set(magnitudes);
   }
 
   if (fluxValues.length === 0) return 0;
@@ -671,7 +683,9 @@ function calculateAdaptiveNoiseFloor(audioBuffer: Float32Array, sampleRate: numb
 function analyzePauses(
   audioBuffer: Float32Array,
   sampleRate: number,
-  vadMetrics?: VADMetrics
+  vadMetrics?: VADMetrics,
+  transcription?: DeepgramTranscription,
+  expectedText?: string
 ): PauseResult {
   const config = getMetricConfig("pauseManagement");
   const maxRatio = config?.thresholds?.max ?? 2.71;
@@ -717,98 +731,221 @@ function analyzePauses(
     score = Math.max(0, 100 - ((pauseRatio - 0.1) / maxRatio) * 100);
   }
 
+  // Pause map: word gaps from Deepgram, silence measured against VAD (or energy) speech spans
+  const vadSegments = vadMetrics?.speechSegments?.length ? vadMetrics.speechSegments : null;
+  const map = buildPauseMap({
+    speech: vadSegments ?? detectSpeechSpans(audioBuffer, sampleRate),
+    speechSource: vadSegments ? 'vad' : 'energy',
+    durationMs: (audioBuffer.length / sampleRate) * 1000,
+    words: transcription?.words,
+    expectedText,
+  });
+  console.log(`⏸️ Pause map (${map.source}): ${map.pauseCount} pauses, ${map.naturalCount} natural, longest ${map.longestPauseMs}ms`);
+
   return {
     pauseRatio: Math.round(pauseRatio * 100) / 100,
+    map,
     score: Math.min(100, Math.max(0, Math.round(score))),
     tag: "FLUIDITY",
   };
 }
 
+function analyzeIntonation(audioBuffer: Float32Array, sampleRate: number): IntonationResult {
+  const config = getMetricConfig("intonation");
+  const { min, ideal, max } = config?.thresholds ?? { min: 2, ideal: 8, max: 16 };
+
+  const contour = trackPitch(audioBuffer, sampleRate);
+  const voiced = contour.map((frame) => frame.hz).filter((hz): hz is number => hz !== null);
+  const voicedRatio = contour.length > 0 ? voiced.length / contour.length : 0;
+
+  // Too little voicing to say anything about the melody
+  if (voiced.length < 10) {
+    console.log(`🎵 Intonation: only ${voiced.length} voiced frames — skipping`);
+    return { contour, medianHz: 0, rangeSemitones: 0, monotony: 100, voicedRatio, score: 0, tag: "INTONATION" };
+  }
+
+  const sorted = [...voiced].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+  const medianHz = percentile(0.5);
+
+  // p10→p90 ignores the odd octave error at either end
+  const rangeSemitones = hzToSemitones(percentile(0.9), percentile(0.1));
+
+  // Spread around the speaker's own median, so low and high voices compare fairly
+  const semitones = voiced.map((hz) => hzToSemitones(hz, medianHz));
+  const mean = semitones.reduce((a, b) => a + b, 0) / semitones.length;
+  const stdDev = Math.sqrt(semitones.reduce((a, b) => a + (b - mean) ** 2, 0) / semitones.length);
+  const monotony = 100 * Math.exp(-stdDev / 2);
+
+  // Score calculation (range in semitones):
+  // - Below min: 0→40 (monotone)
+  // - min to ideal: linear 40→100
+  // - ideal to max: 100 (expressive)
+  // - Above max: gentle penalty (exaggerated, or tracking errors)
+  let score: number;
+  if (rangeSemitones < min) {
+    score = min > 0 ? (rangeSemitones / min) * 40 : 40;
+  } else if (rangeSemitones < ideal) {
+    score = 40 + ((rangeSemitones - min) / (ideal - min)) * 60;
+  } else if (rangeSemitones <= max) {
+    score = 100;
+  } else {
+    score = Math.max(60, 100 - (rangeSemitones - max) * 5);
+  }
+
+  console.log(`🎵 Intonation: median=${medianHz.toFixed(0)}Hz, range=${rangeSemitones.toFixed(1)}st, monotony=${monotony.toFixed(0)}, voiced=${(voicedRatio * 100).toFixed(0)}%`);
+
+  return {
+    contour,
+    medianHz: Math.round(medianHz),
+    rangeSemitones: Math.round(rangeSemitones * 10) / 10,
+    monotony: Math.round(monotony),
+    voicedRatio: Math.round(voicedRatio * 100) / 100,
+    score: Math.min(100, Math.max(0, Math.round(score))),
+    tag: "INTONATION",
+  };
+}
+
+function analyzeProsody(
+  audioBuffer: Float32Array,
+  sampleRate: number,
+  reference: ProsodyEnvelope,
+  contour?: PitchFrame[]
+): ProsodyResult | undefined {
+  const config = getMetricConfig("prosody");
+  const { min, ideal } = config?.thresholds ?? { min: 20, ideal: 90 };
+
+  const comparison = compareProsody(extractProsodyEnvelope(audioBuffer, sampleRate, contour), reference);
+  if (!comparison) {
+    console.log('🪞 Prosody: take or reference too short to compare');
+    return undefined;
+  }
+
+  // Score calculation (similarity):
+  // - At or below min: 0
+  // - min to ideal: linear 0→100
+  // - At or above ideal: 100
+  const { similarity } = comparison;
+  let score = 100;
+  if (similarity <= min) {
+    score = 0;
+  } else if (similarity < ideal) {
+    score = ((similarity - min) / (ideal - min)) * 100;
+  }
+
+  console.log(`🪞 Prosody: similarity=${similarity}, distance=${comparison.distance}, durationRatio=${comparison.durationRatio}`);
+
+  return {
+    similarity,
+    durationRatio: comparison.durationRatio,
+    overlay: comparison.overlay,
+    score: Math.min(100, Math.max(0, Math.round(score))),
+    tag: "SHADOWING",
+  };
+}
+
+function analyzeHesitation(transcription: DeepgramTranscription, expectedText?: string): HesitationResult {
+  const config = getMetricConfig("hesitation");
+  const { ideal, max } = config?.thresholds ?? { ideal: 2, max: 12 };
+
+  const stats = detectHesitations(transcription.words, expectedText);
+
+  // Score calculation (hesitations per minute):
+  // - At or below ideal: 100 (a few are natural)
+  // - ideal to max: linear 100→0
+  // - Above max: 0
+  let score = 100;
+  if (stats.perMinute >= max) {
+    score = 0;
+  } else if (stats.perMinute > ideal) {
+    score = 100 - ((stats.perMinute - ideal) / (max - ideal)) * 100;
+  }
+
+  console.log(`🤔 Hesitation: ${stats.fillerCount} fillers, ${stats.repetitionCount} repeats, ${stats.falseStartCount} false starts → ${stats.perMinute}/min`);
+
+  return {
+    ...stats,
+    score: Math.min(100, Math.max(0, Math.round(score))),
+    tag: "HESITATION",
+  };
+}
+
 function calculateOverallScore(results: {
   volume: VolumeResult;
   speechRate: SpeechRateResult;
   acceleration: AccelerationResult;
   responseTime: ResponseTimeResult;
   pauses: PauseResult;
+  intonation?: IntonationResult;
+  prosody?: ProsodyResult;
+  hesitation?: HesitationResult;
+  pronunciation?: PronunciationResult;
 }): number {
-  // Try to load custom metric settings first
+  // Weights come from the active scoring profile, normalized over enabled metrics
   let weights = {
-    volume: 0.40,
-    speechRate: 0.40,
-    acceleration: 0.05,
-    responseTime: 0.05,
-    pauses: 0.10,
+    volume: 0,
+    speechRate: 0,
+    acceleration: 0,
+    responseTime: 0,
+    pauses: 0,
+    intonation: 0,
+    prosody: 0,
+    hesitation: 0,
+    pronunciation: 0,
   };
 
-  try {
-    // Load from metricConfig (saved by admin panel)
-    const metricConfigStr = localStorage.getItem('metricConfig');
-    console.log('🔍 Loading weights from localStorage (metricConfig):', metricConfigStr ? 'FOUND' : 'NOT FOUND');
-
-    if (metricConfigStr) {
-      const metricConfigArray = JSON.parse(metricConfigStr) as LocalMetricConfigEntry[];
-      console.log('📋 Metric config from localStorage:', metricConfigArray);
-
-      // Convert array to object for easier access
-      const metricSettings: Record<string, LocalMetricConfigEntry> = {};
-      metricConfigArray.forEach((config) => {
-        if (config.id) {
-          metricSettings[config.id] = config;
+  const config = getConfig();
+  const weightOf = (id: string) => {
+    const entry = config.find((c) => c.id === id);
+    return entry && entry.enabled !== false ? Number(entry.weight) || 0 : 0;
+  };
+  const rawWeights = {
+    volume: weightOf("volume"),
+    speechRate: weightOf("speechRate"),
+    acceleration: weightOf("acceleration"),
+    responseTime: weightOf("responseTime"),
+    pauses: weightOf("pauseManagement"),
+    intonation: results.intonation ? weightOf("intonation") : 0,
+    prosody: results.prosody ? weightOf("prosody") : 0,
+    hesitation: results.hesitation ? weightOf("hesitation") : 0,
+    pronunciation: weightOf("pronunciation"),
+  };
+  const enabledTotal = Object.values(rawWeights).reduce((a, b) => a + b, 0);
+
+  // Avoid division by zero if all metrics are disabled
+  if (enabledTotal > 0) {
+    weights = {
+      volume: rawWeights.volume / enabledTotal,
+      speechRate: rawWeights.speechRate / enabledTotal,
+      acceleration: rawWeights.acceleration / enabledTotal,
+      responseTime: rawWeights.responseTime / enabledTotal,
+      pauses: rawWeights.pauses / enabledTotal,
+      intonation: rawWeights.intonation / enabledTotal,
+      prosody: rawWeights.prosody / enabledTotal,
+      hesitation: rawWeights.hesitation / enabledTotal,
+      pronunciation: rawWeights.pronunciation / enabledTotal,
+    };
+  }
+  console.log('📐 Weights from scoring profile (normalized):', weights);
+
+  // Without a transcript there is nothing to check the words against:
+  // drop the pronunciation weight and spread it over the acoustic metrics.
+  if (!results.pronunciation && weights.pronunciation > 0) {
+    const remaining = 1 - weights.pronunciation;
+    weights = remaining > 0
+      ? {
+          volume: weights.volume / remaining,
+          speechRate: weights.speechRate / remaining,
+          acceleration: weights.acceleration / remaining,
+          responseTime: weights.responseTime / remaining,
+          pauses: weights.pauses / remaining,
+          intonation: weights.intonation / remaining,
+          prosody: weights.prosody / remaining,
+          hesitation: weights.hesitation / remaining,
+          pronunciation: 0,
         }
-      });
-
-      // Calculate total weight from enabled metrics
-      const enabledTotal: number = metricConfigArray
-        .filter((config) => !!config?.enabled)
-        .reduce((sum, config) => sum + (Number(config?.weight) || 0), 0);
-
-      console.log('📊 Enabled total weight:', enabledTotal);
-
-      if (enabledTotal > 0) {
-        weights = {
-          volume: metricSettings.volume?.enabled ? metricSettings.volume.weight / enabledTotal : 0,
-          speechRate: metricSettings.speechRate?.enabled ? metricSettings.speechRate.weight / enabledTotal : 0,
-          acceleration: metricSettings.acceleration?.enabled ? metricSettings.acceleration.weight / enabledTotal : 0,
-          responseTime: metricSettings.responseTime?.enabled ? metricSettings.responseTime.weight / enabledTotal : 0,
-          pauses: (metricSettings.pauses || metricSettings.pauseManagement)?.enabled
-            ? ((metricSettings.pauses || metricSettings.pauseManagement).weight / enabledTotal)
-            : 0,
-        };
-        console.log('✅ Using weights from localStorage (normalized):', weights);
-      }
-    } else {
-      // Fall back to old metricConfig from database if new settings not available
-      const config = getConfig();
-      const oldWeights = {
-        volume: config.find((c) => c.id === "volume")?.weight ?? 40,
-        speechRate: config.find((c) => c.id === "speechRate")?.weight ?? 40,
-        acceleration: config.find((c) => c.id === "acceleration")?.weight ?? 5,
-        responseTime: config.find((c) => c.id === "responseTime")?.weight ?? 5,
-        pauseManagement: config.find((c) => c.id === "pauseManagement")?.weight ?? 10,
-      };
-      const oldTotal = Object.values(oldWeights).reduce((a, b) => a + b, 0);
-
-      // Avoid division by zero if all metrics are disabled
-      if (oldTotal === 0) {
-        weights = {
-          volume: 0,
-          speechRate: 0,
-          acceleration: 0,
-          responseTime: 0,
-          pauses: 0,
-        };
-      } else {
-        weights = {
-          volume: oldWeights.volume / oldTotal,
-          speechRate: oldWeights.speechRate / oldTotal,
-          acceleration: oldWeights.acceleration / oldTotal,
-          responseTime: oldWeights.responseTime / oldTotal,
-          pauses: oldWeights.pauseManagement / oldTotal,
-        };
-      }
-    }
-  } catch (error) {
-    console.error('Failed to load metric weights, using defaults:', error);
+      : { ...weights, pronunciation: 0 };
+    console.log('ℹ️ No pronunciation result — weights renormalized without it:', weights);
   }
 
   const weightedSum =
@@ -816,7 +953,11 @@ function calculateOverallScore(results: {
     results.speechRate.score * weights.speechRate +
     results.acceleration.score * weights.acceleration +
     results.responseTime.score * weights.responseTime +
-    results.pauses.score * weights.pauses;
+    results.pauses.score * weights.pauses +
+    (results.intonation?.score ?? 0) * weights.intonation +
+    (results.prosody?.score ?? 0) * weights.prosody +
+    (results.hesitation?.score ?? 0) * weights.hesitation +
+    (results.pronunciation?.score ?? 0) * weights.pronunciation;
 
   const finalScore = Math.round(weightedSum);
 
@@ -827,6 +968,18 @@ function calculateOverallScore(results: {
   console.log(`  Acceleration: ${results.acceleration.score} × ${(weights.acceleration * 100).toFixed(0)}% = ${(results.acceleration.score * weights.acceleration).toFixed(1)} points`);
   console.log(`  Response Time: ${results.responseTime.score} × ${(weights.responseTime * 100).toFixed(0)}% = ${(results.responseTime.score * weights.responseTime).toFixed(1)} points`);
   console.log(`  Pauses: ${results.pauses.score} × ${(weights.pauses * 100).toFixed(0)}% = ${(results.pauses.score * weights.pauses).toFixed(1)} points`);
+  if (results.intonation) {
+    console.log(`  Intonation: ${results.intonation.score} × ${(weights.intonation * 100).toFixed(0)}% = ${(results.intonation.score * weights.intonation).toFixed(1)} points`);
+  }
+  if (results.prosody) {
+    console.log(`  Prosody: ${results.prosody.score} × ${(weights.prosody * 100).toFixed(0)}% = ${(results.prosody.score * weights.prosody).toFixed(1)} points`);
+  }
+  if (results.hesitation) {
+    console.log(`  Hesitation: ${results.hesitation.score} × ${(weights.hesitation * 100).toFixed(0)}% = ${(results.hesitation.score * weights.hesitation).toFixed(1)} points`);
+  }
+  if (results.pronunciation) {
+    console.log(`  Pronunciation: ${results.pronunciation.score} × ${(weights.pronunciation * 100).toFixed(0)}% = ${(results.pronunciation.score * weights.pronunciation).toFixed(1)} points`);
+  }
   console.log(`  ─────────────────────────────────────────`);
   console.log(`  TOTAL: ${finalScore}/100`);
 
@@ -839,17 +992,76 @@ function getEmotionalFeedback(score: number): "excellent" | "good" | "poor" {
   return "poor";
 }
 
-// ============ MAIN EXPORT ============
+// ============ PIPELINE ============
+// Everything below is pure computation on the buffer; I/O (profile lookup,
+// transcription, calibration storage) happens on the main thread beforehand.
+
+export interface AnalysisJobInput {
+  audioBuffer: Float32Array;
+  sampleRate: number;
+  metrics: MetricConfig[];              // scoring profile metrics resolved for the item
+  scoringProfile?: ScoringProfileStamp;
+  deviceId?: string;
+  calibration?: CalibrationProfile | null;
+  vadMetrics?: VADMetrics;
+  sttWordCount?: number;
+  transcription?: DeepgramTranscription;
+  fillerWords?: boolean;                // transcript was requested with filler words
+  expectedText?: string;
+  referenceEnvelope?: ProsodyEnvelope;  // admin reference recording for this item
+}
 
-export async function analyzeAudioAsync(
-  audioBuffer: Float32Array,
-  sampleRate: number,
-  _audioBase64?: string,
-  deviceId?: string,
-  vadMetrics?: VADMetrics,
-  sttWordCount?: number,
-  audioBlob?: Blob
+export type AnalysisStage =
+  | "profile"
+  | "transcribing"
+  | "normalizing"
+  | "volume"
+  | "speechRate"
+  | "acceleration"
+  | "responseTime"
+  | "pauses"
+  | "intonation"
+  | "prosody"
+  | "scoring";
+
+/** Called between stages; may yield to the event loop and throw to cancel */
+export type AnalysisCheckpoint = (stage: AnalysisStage, progress: number) => void | Promise<void>;
+
+export function runAnalysisPipeline(
+  input: AnalysisJobInput,
+  checkpoint?: AnalysisCheckpoint
 ): Promise<AnalysisResult> {
+  // Starts once the previous job has finished or been cancelled
+  const job = pipelineQueue.then(async () => {
+    runMetrics = input.metrics;
+    try {
+      return await runStages(input, checkpoint);
+    } finally {
+      runMetrics = null;
+    }
+  });
+  pipelineQueue = job.catch(() => undefined);
+  return job;
+}
+
+async function runStages(input: AnalysisJobInput, checkpoint?: AnalysisCheckpoint): Promise<AnalysisResult> {
+  const {
+    audioBuffer,
+    sampleRate,
+    scoringProfile,
+    deviceId,
+    calibration,
+    vadMetrics,
+    sttWordCount,
+    transcription,
+    fillerWords,
+    expectedText,
+    referenceEnvelope,
+  } = input;
+
+  // Fillers ("uh", "um") are hesitation events, not words: keep them out of word counts and alignment
+  const contentWords = transcription ? withoutFillers(transcription.words) : undefined;
+
   // Guard: if VAD detected no speech at all, short-circuit to score 0
   const hasSpeech = vadMetrics
     ? vadMetrics.speechRatio > 0.02 && vadMetrics.totalSpeechTime > 200
@@ -865,6 +1077,9 @@ export async function analyzeAudioAsync(
       acceleration: { isAccelerating: false, segment1Volume: 0, segment2Volume: 0, segment1Rate: 0, segment2Rate: 0, score: 0, tag: 'DYNAMICS' },
       responseTime: { responseTimeMs: 0, score: 0, tag: 'READINESS' },
       pauses: { pauseRatio: 1, score: 0, tag: 'FLUIDITY' },
+      intonation: { contour: [], medianHz: 0, rangeSemitones: 0, monotony: 100, voicedRatio: 0, score: 0, tag: 'INTONATION' },
+      pronunciation: expectedText ? analyzePronunciation(expectedText, [], '') : undefined,
+      scoringProfile,
     };
     return zeroResult;
   }
@@ -875,8 +1090,9 @@ export async function analyzeAudioAsync(
   // Apply LUFS normalization with device calibration if deviceId is provided
   // The normalized buffer is used for speech rate, acceleration, pauses, response time
   // but NOT for volume scoring (see below)
+  await checkpoint?.('normalizing', 0.05);
   if (deviceId) {
-    const result = calibrateAndNormalize(audioBuffer, sampleRate, deviceId);
+    const result = normalizeWithCalibration(audioBuffer, sampleRate, calibration ?? null);
     processedBuffer = result.normalized;
     normalizationInfo = {
       originalLUFS: Math.round(result.originalLUFS * 10) / 10,
@@ -884,6 +1100,7 @@ export async function analyzeAudioAsync(
       finalLUFS: Math.round(result.finalLUFS * 10) / 10,
       deviceGain: Math.round(result.deviceGain * 100) / 100,
       normalizationGain: Math.round(result.normalizationGain * 100) / 100,
+      noiseFloor: calculateNoiseFloor(audioBuffer, sampleRate),
     };
 
     console.log('🎚️ LUFS Normalization Applied:', normalizationInfo);
@@ -903,50 +1120,56 @@ export async function analyzeAudioAsync(
   // actual voice energy produces the same score on any device.
   // Unlike full LUFS normalization, this preserves loud vs quiet differences.
   let deviceDbOffset = 0;
-  if (deviceId) {
-    const profile = getCalibrationProfile(deviceId);
-    if (profile) {
-      deviceDbOffset = TARGET_LUFS - profile.referenceLevel;
-      console.log(`🎚️ Volume offset: ${deviceDbOffset.toFixed(1)} dB (ref=${profile.referenceLevel.toFixed(1)} LUFS, target=${TARGET_LUFS} LUFS)`);
-    }
+  if (deviceId && calibration) {
+    deviceDbOffset = TARGET_LUFS - calibration.referenceLevel;
+    console.log(`🎚️ Volume offset: ${deviceDbOffset.toFixed(1)} dB (ref=${calibration.referenceLevel.toFixed(1)} LUFS, target=${TARGET_LUFS} LUFS)`);
   }
 
   // Volume: analyze on RAW audio buffer + device offset (NOT LUFS-normalized)
   // This ensures loud speech = high score, quiet speech = low score
+  await checkpoint?.('volume', 0.2);
   const volume = analyzeVolume(audioBuffer, deviceDbOffset);
 
   // Other metrics: use LUFS-normalized buffer (they benefit from consistent levels)
-  // Check if Deepgram STT method is selected
+  // Deepgram word count only drives speech rate when that method is selected
   const method = getSpeechRateMethod();
-  let deepgramWordCount: number | undefined;
-
-  console.log(`🔍 Speech Rate Method: "${method}", audioBlob: ${audioBlob ? 'PROVIDED' : 'MISSING'}`);
-
-  if (method === 'deepgram-stt' && audioBlob) {
-    try {
-      console.log('🎙️ [analyzeAudioAsync] Using Deepgram STT for speech rate...');
-      console.log(`📦 Audio blob size: ${audioBlob.size} bytes, type: ${audioBlob.type}`);
-      const transcription = await transcribeAudio(audioBlob);
-      deepgramWordCount = transcription.words.length;
-      console.log(`✅ [analyzeAudioAsync] Deepgram transcribed ${deepgramWordCount} words`);
-      console.log(`📝 Transcript: "${transcription.transcript.substring(0, 100)}${transcription.transcript.length > 100 ? '...' : ''}"`);
-    } catch (error) {
-      console.error('❌ [analyzeAudioAsync] Deepgram transcription failed:', error);
-      console.warn('⚠️ Falling back to spectral-flux method');
-      // deepgramWordCount remains undefined, will fall back to spectral-flux
-    }
-  } else if (method === 'deepgram-stt' && !audioBlob) {
-    console.warn('⚠️ Deepgram STT selected but audioBlob not provided - falling back to spectral-flux');
+  const deepgramWordCount = method === 'deepgram-stt' && contentWords ? contentWords.length : undefined;
+  if (method === 'deepgram-stt' && !transcription) {
+    console.warn('⚠️ Deepgram STT selected but no transcription available - falling back to spectral-flux');
   }
 
   // Use Deepgram word count if available, otherwise use sttWordCount from Web Speech API
   const finalSttWordCount = deepgramWordCount ?? sttWordCount;
   console.log(`🔢 Final STT word count: ${finalSttWordCount ?? 'undefined'} (deepgram: ${deepgramWordCount ?? 'N/A'}, webSpeech: ${sttWordCount ?? 'N/A'})`);
 
+  await checkpoint?.('speechRate', 0.3);
   const speechRate = analyzeSpeechRate(processedBuffer, sampleRate, vadMetrics, finalSttWordCount);
+  await checkpoint?.('acceleration', 0.65);
   const acceleration = analyzeAcceleration(processedBuffer, sampleRate, vadMetrics);
+  await checkpoint?.('responseTime', 0.75);
   const responseTime = analyzeResponseTime(processedBuffer, sampleRate);
-  const pauses = analyzePauses(processedBuffer, sampleRate, vadMetrics);
+  await checkpoint?.('pauses', 0.8);
+  const pauses = analyzePauses(processedBuffer, sampleRate, vadMetrics, transcription, expectedText);
+  // Disabled metrics are skipped entirely: pitch tracking is the most expensive stage
+  const intonationConfig = getMetricConfig("intonation");
+  await checkpoint?.('intonation', 0.85);
+  const intonation = intonationConfig && intonationConfig.enabled !== false
+    ? analyzeIntonation(processedBuffer, sampleRate)
+    : undefined;
+  const prosodyConfig = getMetricConfig("prosody");
+  await checkpoint?.('prosody', 0.9);
+  const prosody = referenceEnvelope && prosodyConfig && prosodyConfig.enabled !== false
+    ? analyzeProsody(processedBuffer, sampleRate, referenceEnvelope, intonation?.contour)
+    : undefined;
+
+  await checkpoint?.('scoring', 0.95);
+  const pronunciation = expectedText && transcription
+    ? analyzePronunciation(expectedText, contentWords ?? [], transcription.transcript)
+    : undefined;
+  const hesitationConfig = getMetricConfig("hesitation");
+  const hesitation = transcription && fillerWords && hesitationConfig && hesitationConfig.enabled !== false
+    ? analyzeHesitation(transcription, expectedText)
+    : undefined;
 
   const overallScore = calculateOverallScore({
     volume,
@@ -954,6 +1177,10 @@ export async function analyzeAudioAsync(
     acceleration,
     responseTime,
     pauses,
+    intonation,
+    prosody,
+    hesitation,
+    pronunciation,
   });
 
   return {
@@ -964,6 +1191,162 @@ export async function analyzeAudioAsync(
     acceleration,
     responseTime,
     pauses,
+    intonation,
+    prosody,
+    hesitation,
+    pronunciation,
+    scoringProfile,
     normalization: normalizationInfo,
   };
 }
+
+// ============ LIVE ESTIMATE ============
+// Rolling estimate while the learner is still recording. Runs the same metric
+// functions and thresholds as runStages on everything captured so far, so the
+// last estimate of a take lands close to the final result.
+
+export type LiveCue = "start" | "louder" | "softer" | "keep-going" | "too-slow" | "great";
+
+export const LIVE_CUE_LABELS: Record<LiveCue, string> = {
+  start: "Start speaking",
+  louder: "Louder",
+  softer: "A bit softer",
+  "keep-going": "Keep going",
+  "too-slow": "Too slow",
+  great: "Great",
+};
+
+export interface LiveEstimate {
+  elapsedMs: number;
+  volume: VolumeResult;
+  speechRate: SpeechRateResult;
+  pauses: { pauseRatio: number; score: number };
+  cue: LiveCue;
+  final: boolean; // replaced by the analyzeAudioAsync result, see convergeLiveEstimate
+}
+
+/** Growable capture buffer for one live session */
+export interface LiveCapture {
+  sampleRate: number;
+  metrics: MetricConfig[];
+  samples: Float32Array;
+  length: number;
+}
+
+// Cues look at the last few seconds; the estimate covers the whole take
+const LIVE_WINDOW_SECONDS = 2;
+const LIVE_FRAME_SECONDS = 0.05;
+const LIVE_SILENCE_THRESHOLD = 0.01; // same as the energy fallback in analyzePauses
+// Pace over the first couple of words is noise, so no "too slow" before this
+const LIVE_PACE_MIN_SECONDS = 3;
+
+export function createLiveCapture(sampleRate: number, metrics: MetricConfig[]): LiveCapture {
+  return { sampleRate, metrics, samples: new Float32Array(sampleRate * 10), length: 0 };
+}
+
+export function appendLiveSamples(capture: LiveCapture, chunk: Float32Array): void {
+  if (capture.length + chunk.length > capture.samples.length) {
+    // Double the capacity so appends stay amortized O(1)
+    const grown = new Float32Array(Math.max(capture.samples.length * 2, capture.length + chunk.length));
+    grown.set(capture.samples.subarray(0, capture.length));
+    capture.samples = grown;
+  }
+  capture.samples.set(chunk, capture.length);
+  capture.length += chunk.length;
+}
+
+/** RMS level in dB of the voiced frames in a window, null when it is all silence */
+function voicedLevelDb(window: Float32Array, sampleRate: number): { db: number | null; voicedRatio: number } {
+  const frameSize = Math.max(1, Math.floor(sampleRate * LIVE_FRAME_SECONDS));
+  let voicedFrames = 0;
+  let totalFrames = 0;
+  let sumSquares = 0;
+  let voicedSamples = 0;
+
+  for (let i = 0; i + frameSize <= window.length; i += frameSize) {
+    let energy = 0;
+    let squares = 0;
+    for (let j = 0; j < frameSize; j++) {
+      energy += Math.abs(window[i + j]);
+      squares += window[i + j] * window[i + j];
+    }
+    totalFrames++;
+    if (energy / frameSize >= LIVE_SILENCE_THRESHOLD) {
+      voicedFrames++;
+      sumSquares += squares;
+      voicedSamples += frameSize;
+    }
+  }
+
+  return {
+    db: voicedSamples ? 20 * Math.log10(Math.max(Math.sqrt(sumSquares / voicedSamples), 1e-10)) : null,
+    voicedRatio: voicedFrames / Math.max(1, totalFrames),
+  };
+}
+
+export function estimateLive(capture: LiveCapture): LiveEstimate {
+  // A live tick can land between two stages of a running job: restore its metrics after
+  const previousMetrics = runMetrics;
+  runMetrics = capture.metrics;
+  try {
+    const { sampleRate } = capture;
+    const audioBuffer = capture.samples.subarray(0, capture.length);
+    const elapsedSeconds = audioBuffer.length / sampleRate;
+
+    // No word count while recording: analyzeSpeechRate falls back to spectral flux
+    const volume = analyzeVolume(audioBuffer);
+    const speechRate = analyzeSpeechRate(audioBuffer, sampleRate);
+    const pauses = analyzePauses(audioBuffer, sampleRate);
+
+    const recent = voicedLevelDb(
+      audioBuffer.subarray(Math.max(0, audioBuffer.length - Math.floor(sampleRate * LIVE_WINDOW_SECONDS))),
+      sampleRate
+    );
+    const volumeThresholds = getMetricConfig("volume")?.thresholds ?? { min: -35, ideal: -15, max: 0 };
+    const paceMin = getMetricConfig("speechRate")?.thresholds?.min ?? 90;
+
+    let cue: LiveCue = "great";
+    if (pauses.pauseRatio >= 0.98) {
+      cue = "start";
+    } else if (recent.db === null || recent.voicedRatio < 0.2) {
+      cue = "keep-going";
+    } else if (recent.db < (volumeThresholds.min + volumeThresholds.ideal) / 2) {
+      cue = "louder";
+    } else if (recent.db > volumeThresholds.max) {
+      cue = "softer";
+    } else if (elapsedSeconds >= LIVE_PACE_MIN_SECONDS && speechRate.wordsPerMinute < paceMin) {
+      cue = "too-slow";
+    }
+
+    return {
+      elapsedMs: Math.round(elapsedSeconds * 1000),
+      volume,
+      speechRate,
+      pauses: { pauseRatio: pauses.pauseRatio, score: pauses.score },
+      cue,
+      final: false,
+    };
+  } finally {
+    runMetrics = previousMetrics;
+  }
+}
+
+/** Snap the live estimate to the final result; logs how far off the live numbers were */
+export function convergeLiveEstimate(live: LiveEstimate | null, result: AnalysisResult): LiveEstimate {
+  if (live && !live.final) {
+    console.log(
+      `📡 Live estimate drift: volume ${(live.volume.averageDb - result.volume.averageDb).toFixed(1)} dB, ` +
+        `pace ${live.speechRate.wordsPerMinute - result.speechRate.wordsPerMinute} WPM, ` +
+        `pauses ${Math.round((live.pauses.pauseRatio - (result.pauses?.pauseRatio ?? 0)) * 100)}%`
+    );
+  }
+
+  return {
+    elapsedMs: live?.elapsedMs ?? 0,
+    volume: result.volume,
+    speechRate: result.speechRate,
+    pauses: { pauseRatio: result.pauses?.pauseRatio ?? 0, score: result.pauses?.score ?? 0 },
+    cue: live?.cue ?? "great",
+    final: true,
+  };
+}
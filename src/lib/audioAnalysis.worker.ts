@@ -0,0 +1,66 @@
+/**
+ * Audio analysis worker
+ * Runs the DSP pipeline off the main thread so the recording UI stays responsive.
+ */
+
+import { appendLiveSamples, createLiveCapture, estimateLive, runAnalysisPipeline, type LiveCapture } from './audioAnalysis';
+import {
+  AnalysisCancelledError,
+  isAnalysisCancelled,
+  type AnalysisWorkerRequest,
+  type AnalysisWorkerResponse,
+} from './audioAnalysisProtocol';
+
+// The app is type-checked against the DOM lib, so describe the worker scope we use
+const ctx = self as unknown as {
+  postMessage(message: AnalysisWorkerResponse): void;
+  onmessage: ((event: MessageEvent<AnalysisWorkerRequest>) => void) | null;
+};
+const cancelled = new Set<number>();
+const liveCaptures = new Map<number, LiveCapture>();
+
+const post = (message: AnalysisWorkerResponse) => ctx.postMessage(message);
+
+// Let queued "cancel" messages run between stages
+const yieldToEventLoop = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+ctx.onmessage = async (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'cancel') {
+    cancelled.add(message.jobId);
+    return;
+  }
+
+  if (message.type === 'live-start') {
+    liveCaptures.set(message.sessionId, createLiveCapture(message.sampleRate, message.metrics));
+    return;
+  }
+
+  if (message.type === 'live-samples') {
+    const capture = liveCaptures.get(message.sessionId);
+    if (!capture) return;
+    appendLiveSamples(capture, message.samples);
+    if (message.last) liveCaptures.delete(message.sessionId);
+    post({ type: 'live-estimate', sessionId: message.sessionId, estimate: estimateLive(capture), last: message.last });
+    return;
+  }
+
+  const { jobId, input } = message;
+  try {
+    const result = await runAnalysisPipeline(input, async (stage, progress) => {
+      await yieldToEventLoop();
+      if (cancelled.has(jobId)) throw new AnalysisCancelledError();
+      post({ type: 'progress', jobId, stage, progress });
+    });
+    post({ type: 'result', jobId, result });
+  } catch (error) {
+    if (isAnalysisCancelled(error)) {
+      post({ type: 'cancelled', jobId });
+    } else {
+      post({ type: 'error', jobId, message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    cancelled.delete(jobId);
+  }
+};
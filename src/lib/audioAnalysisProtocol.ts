@@ -0,0 +1,36 @@
+/**
+ * Message protocol between the main thread and the audio analysis worker.
+ * The worker handles one job at a time; `jobId` ties progress/results to a request.
+ * Live sessions stream samples while recording; `sessionId` ties estimates to a take.
+ */
+
+import type { AnalysisJobInput, AnalysisResult, AnalysisStage, LiveEstimate, MetricConfig } from './audioAnalysis';
+
+export type AnalysisWorkerRequest =
+  | { type: 'analyze'; jobId: number; input: AnalysisJobInput }
+  | { type: 'cancel'; jobId: number }
+  | { type: 'live-start'; sessionId: number; sampleRate: number; metrics: MetricConfig[] }
+  | { type: 'live-samples'; sessionId: number; samples: Float32Array; last: boolean };
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; jobId: number; stage: AnalysisStage; progress: number }
+  | { type: 'result'; jobId: number; result: AnalysisResult }
+  | { type: 'error'; jobId: number; message: string }
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'live-estimate'; sessionId: number; estimate: LiveEstimate; last: boolean };
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  progress: number; // 0-1 across the whole analysis
+}
+
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super('Analysis cancelled');
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+export function isAnalysisCancelled(error: unknown): error is AnalysisCancelledError {
+  return error instanceof Error && error.name === 'AnalysisCancelledError';
+}
@@ -0,0 +1,312 @@
+/**
+ * Main-thread entry point for audio analysis
+ * Resolves the scoring profile, transcribes and reads the device calibration
+ * here (network + localStorage), then hands the buffer to the analysis worker.
+ * Falls back to running the pipeline on the main thread when workers are unavailable.
+ * Also streams samples to the worker while recording for the live estimate.
+ */
+
+import {
+  appendLiveSamples,
+  createLiveCapture,
+  estimateLive,
+  runAnalysisPipeline,
+  type AnalysisJobInput,
+  type AnalysisResult,
+  type AnalysisStage,
+  type LiveEstimate,
+  type VADMetrics,
+} from './audioAnalysis';
+import {
+  AnalysisCancelledError,
+  type AnalysisProgress,
+  type AnalysisWorkerRequest,
+  type AnalysisWorkerResponse,
+} from './audioAnalysisProtocol';
+import { transcribeAudio, type DeepgramTranscription } from './deepgramService';
+import { getCalibrationProfile, trackRecording } from './lufsNormalization';
+import type { ProsodyEnvelope } from './prosodyComparison';
+import { loadScoringProfileFor, toScoringProfileStamp, type ScoringTarget } from './scoringProfile';
+
+export { AnalysisCancelledError, isAnalysisCancelled } from './audioAnalysisProtocol';
+export type { AnalysisProgress } from './audioAnalysisProtocol';
+
+export interface AnalyzeOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+  referenceEnvelope?: ProsodyEnvelope | null; // item reference recording, see useReferenceAudio
+}
+
+// Share of the progress bar spent before the worker starts (profile + transcription)
+const PREPARE_SHARE = 0.3;
+
+interface PendingJob {
+  resolve: (result: AnalysisResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+interface LiveListener {
+  onEstimate: (estimate: LiveEstimate) => void;
+  onDone: () => void;
+}
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextJobId = 1;
+const pending = new Map<number, PendingJob>();
+const liveListeners = new Map<number, LiveListener>();
+
+function getWorker(): Worker | null {
+  if (worker || workerUnavailable) return worker;
+  if (typeof Worker === 'undefined') {
+    workerUnavailable = true;
+    return null;
+  }
+
+  try {
+    worker = new Worker(new URL('./audioAnalysis.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('⚠️ Analysis worker unavailable, analyzing on the main thread:', error);
+    workerUnavailable = true;
+    return null;
+  }
+
+  worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+    const message = event.data;
+
+    if (message.type === 'live-estimate') {
+      const listener = liveListeners.get(message.sessionId);
+      if (!listener) return;
+      listener.onEstimate(message.estimate);
+      if (message.last) {
+        liveListeners.delete(message.sessionId);
+        listener.onDone();
+      }
+      return;
+    }
+
+    const job = pending.get(message.jobId);
+    if (!job) return; // cancelled on our side already
+
+    switch (message.type) {
+      case 'progress':
+        job.onProgress?.({ stage: message.stage, progress: PREPARE_SHARE + message.progress * (1 - PREPARE_SHARE) });
+        break;
+      case 'result':
+        pending.delete(message.jobId);
+        job.resolve(message.result);
+        break;
+      case 'error':
+        pending.delete(message.jobId);
+        job.reject(new Error(message.message));
+        break;
+      case 'cancelled':
+        pending.delete(message.jobId);
+        job.reject(new AnalysisCancelledError());
+        break;
+    }
+  };
+
+  worker.onerror = (event) => {
+    console.error('❌ Analysis worker crashed:', event.message);
+    for (const job of pending.values()) job.reject(new Error('Audio analysis failed'));
+    pending.clear();
+    for (const listener of liveListeners.values()) listener.onDone();
+    liveListeners.clear();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return worker;
+}
+
+function runInWorker(input: AnalysisJobInput, options: AnalyzeOptions): Promise<AnalysisResult> {
+  const target = getWorker();
+
+  if (!target) {
+    // Main-thread fallback: still yield between stages and honour the signal
+    return runAnalysisPipeline(input, async (stage, progress) => {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (options.signal?.aborted) throw new AnalysisCancelledError();
+      options.onProgress?.({ stage, progress: PREPARE_SHARE + progress * (1 - PREPARE_SHARE) });
+    });
+  }
+
+  const jobId = nextJobId++;
+  return new Promise<AnalysisResult>((resolve, reject) => {
+    pending.set(jobId, { resolve, reject, onProgress: options.onProgress });
+
+    options.signal?.addEventListener(
+      'abort',
+      () => {
+        if (!pending.has(jobId)) return;
+        pending.delete(jobId);
+        const cancel: AnalysisWorkerRequest = { type: 'cancel', jobId };
+        target.postMessage(cancel);
+        reject(new AnalysisCancelledError());
+      },
+      { once: true },
+    );
+
+    // The buffer is transferred, not copied: callers must not reuse it afterwards
+    const request: AnalysisWorkerRequest = { type: 'analyze', jobId, input };
+    target.postMessage(request, [input.audioBuffer.buffer]);
+  });
+}
+
+export async function analyzeAudioAsync(
+  audioBuffer: Float32Array,
+  sampleRate: number,
+  _audioBase64?: string,
+  deviceId?: string,
+  vadMetrics?: VADMetrics,
+  sttWordCount?: number,
+  audioBlob?: Blob,
+  expectedText?: string,
+  scoringTarget?: ScoringTarget,
+  options: AnalyzeOptions = {}
+): Promise<AnalysisResult> {
+  const { signal, onProgress } = options;
+  const report = (stage: AnalysisStage, progress: number) => onProgress?.({ stage, progress });
+  const throwIfAborted = () => {
+    if (signal?.aborted) throw new AnalysisCancelledError();
+  };
+
+  throwIfAborted();
+  report('profile', 0);
+
+  // Resolve the server scoring profile up front so the whole run uses one version
+  const resolvedProfile = await loadScoringProfileFor(scoringTarget);
+  const method = resolvedProfile.metrics.find((m) => m.id === 'speechRate')?.method ?? 'spectral-flux';
+  const hesitationMetric = resolvedProfile.metrics.find((m) => m.id === 'hesitation');
+  const fillerWords = !!hesitationMetric && hesitationMetric.enabled !== false && Number(hesitationMetric.weight) > 0;
+  throwIfAborted();
+
+  let transcription: DeepgramTranscription | undefined;
+  console.log(`🔍 Speech Rate Method: "${method}", audioBlob: ${audioBlob ? 'PROVIDED' : 'MISSING'}`);
+
+  // Transcribe when speech rate needs it, when there is an expected phrase to check against,
+  // or when hesitation is scored (needs the "uh"/"um" that Deepgram drops by default)
+  if ((method === 'deepgram-stt' || expectedText || fillerWords) && audioBlob) {
+    report('transcribing', 0.05);
+    try {
+      console.log('🎙️ [analyzeAudioAsync] Transcribing with Deepgram...');
+      console.log(`📦 Audio blob size: ${audioBlob.size} bytes, type: ${audioBlob.type}`);
+      transcription = await transcribeAudio(audioBlob, { fillerWords });
+      console.log(`✅ [analyzeAudioAsync] Deepgram transcribed ${transcription.words.length} words`);
+      console.log(`📝 Transcript: "${transcription.transcript.substring(0, 100)}${transcription.transcript.length > 100 ? '...' : ''}"`);
+    } catch (error) {
+      console.error('❌ [analyzeAudioAsync] Deepgram transcription failed:', error);
+      console.warn('⚠️ Falling back to spectral-flux method, skipping pronunciation');
+    }
+    throwIfAborted();
+  }
+  report('normalizing', PREPARE_SHARE);
+
+  const result = await runInWorker(
+    {
+      audioBuffer,
+      sampleRate,
+      metrics: resolvedProfile.metrics,
+      scoringProfile: toScoringProfileStamp(resolvedProfile),
+      deviceId,
+      calibration: deviceId ? getCalibrationProfile(deviceId) : null,
+      vadMetrics,
+      sttWordCount,
+      transcription,
+      fillerWords: fillerWords && !!transcription,
+      expectedText,
+      referenceEnvelope: options.referenceEnvelope ?? undefined,
+    },
+    options,
+  );
+
+  // Calibration history lives in localStorage, so it is recorded here rather than in the worker
+  if (deviceId && result.normalization) {
+    const { originalLUFS, calibratedLUFS, finalLUFS, noiseFloor } = result.normalization;
+    trackRecording(deviceId, { originalLUFS, calibratedLUFS, finalLUFS, noiseFloor: noiseFloor ?? 0 });
+  }
+
+  onProgress?.({ stage: 'scoring', progress: 1 });
+  return result;
+}
+
+export interface LiveAnalysisSession {
+  push: (samples: Float32Array) => void;
+  /** Analyzes the remaining samples; resolves with the last estimate of the take */
+  finish: () => Promise<LiveEstimate | null>;
+}
+
+// Samples are batched so the worker re-estimates about once a second
+const LIVE_INTERVAL_SECONDS = 1;
+
+export async function startLiveAnalysis(
+  sampleRate: number,
+  scoringTarget: ScoringTarget | undefined,
+  onEstimate: (estimate: LiveEstimate) => void
+): Promise<LiveAnalysisSession> {
+  // Same resolved thresholds as the final analysis, so both score against one profile
+  const resolvedProfile = await loadScoringProfileFor(scoringTarget);
+  const target = getWorker();
+  const sessionId = nextJobId++;
+
+  let chunks: Float32Array[] = [];
+  let chunkLength = 0;
+  let latest: LiveEstimate | null = null;
+  let finished: Promise<LiveEstimate | null> | null = null;
+
+  const report = (estimate: LiveEstimate) => {
+    latest = estimate;
+    onEstimate(estimate);
+  };
+
+  // Main-thread fallback keeps its own capture
+  const capture = target ? null : createLiveCapture(sampleRate, resolvedProfile.metrics);
+  let done: () => void = () => {};
+  const whenDone = new Promise<void>((resolve) => {
+    done = resolve;
+  });
+
+  if (target) {
+    liveListeners.set(sessionId, { onEstimate: report, onDone: () => done() });
+    const start: AnalysisWorkerRequest = { type: 'live-start', sessionId, sampleRate, metrics: resolvedProfile.metrics };
+    target.postMessage(start);
+  }
+
+  const flush = (last: boolean) => {
+    const samples = new Float32Array(chunkLength);
+    let offset = 0;
+    for (const chunk of chunks) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+    chunks = [];
+    chunkLength = 0;
+
+    if (target) {
+      const request: AnalysisWorkerRequest = { type: 'live-samples', sessionId, samples, last };
+      target.postMessage(request, [samples.buffer]);
+    } else if (capture) {
+      appendLiveSamples(capture, samples);
+      report(estimateLive(capture));
+      if (last) done();
+    }
+  };
+
+  return {
+    push: (samples) => {
+      if (finished) return;
+      chunks.push(samples);
+      chunkLength += samples.length;
+      if (chunkLength >= sampleRate * LIVE_INTERVAL_SECONDS) flush(false);
+    },
+    finish: () => {
+      if (!finished) {
+        flush(true);
+        finished = whenDone.then(() => latest);
+      }
+      return finished;
+    },
+  };
+}
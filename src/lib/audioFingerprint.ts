@@ -0,0 +1,61 @@
+/**
+ * Audio fingerprint for replayed-take detection
+ * A coarse loudness envelope of the voiced part of the recording: 20 ms RMS
+ * frames, leading/trailing silence trimmed, averaged into a fixed number of
+ * segments and taken relative to the mean level. settle_practice() compares
+ * it by correlation against recent takes of the same item, so the same
+ * recording played back or re-encoded still matches while a new take of the
+ * phrase, with its own timing and stress, does not.
+ * Call it before analyzeAudioAsync, which transfers the buffer to the
+ * analysis worker and leaves it empty here.
+ */
+
+export interface AudioFingerprint {
+  durationMs: number;
+  envelope: number[];
+}
+
+const FRAME_MS = 20;
+const SEGMENTS = 48;
+// Frames this far below the loudest one count as silence
+const SILENCE_BELOW_PEAK_DB = 30;
+
+export function fingerprintAudio(audioBuffer: Float32Array, sampleRate: number): AudioFingerprint | undefined {
+  const frameSize = Math.round((sampleRate * FRAME_MS) / 1000);
+  const frameCount = frameSize > 0 ? Math.floor(audioBuffer.length / frameSize) : 0;
+  if (frameCount < SEGMENTS) return undefined;
+
+  const levels = new Float64Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    for (let i = f * frameSize; i < (f + 1) * frameSize; i++) {
+      sum += audioBuffer[i] * audioBuffer[i];
+    }
+    levels[f] = 20 * Math.log10(Math.sqrt(sum / frameSize) + 1e-10);
+  }
+
+  const peak = levels.reduce((max, level) => Math.max(max, level), -Infinity);
+  const floor = peak - SILENCE_BELOW_PEAK_DB;
+  let start = 0;
+  let end = frameCount - 1;
+  while (start < end && levels[start] < floor) start++;
+  while (end > start && levels[end] < floor) end--;
+
+  const voiced = levels.subarray(start, end + 1);
+  if (voiced.length < SEGMENTS) return undefined;
+
+  const segments = Array.from({ length: SEGMENTS }, (_, s) => {
+    const from = Math.floor((s * voiced.length) / SEGMENTS);
+    const to = Math.floor(((s + 1) * voiced.length) / SEGMENTS);
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += voiced[i];
+    return sum / (to - from);
+  });
+  const mean = segments.reduce((sum, level) => sum + level, 0) / SEGMENTS;
+
+  return {
+    durationMs: voiced.length * FRAME_MS,
+    // Tenths of a dB keep the payload small
+    envelope: segments.map((level) => Math.round((level - mean) * 10) / 10),
+  };
+}
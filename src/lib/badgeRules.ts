@@ -0,0 +1,147 @@
+// Declarative badge criteria stored in badges.rule and evaluated on the server
+// (badge_rule_met). Keep BADGE_METRICS in sync with is_valid_badge_rule().
+
+export type BadgeRuleOperator = '>=' | '>' | '=' | '<=' | '<';
+
+export type BadgeMetric =
+  | 'practice_count'
+  | 'high_scores'
+  | 'perfect_scores'
+  | 'average_score'
+  | 'best_score'
+  | 'practice_days'
+  | 'early_practices'
+  | 'late_practices'
+  | 'vocab_mastered'
+  | 'current_streak'
+  | 'longest_streak'
+  | 'coin_balance'
+  | 'coins_earned';
+
+export interface BadgeRuleScope {
+  course_id?: string;
+  class_id?: string;
+  category?: string;
+}
+
+export interface BadgeRuleCondition {
+  metric: BadgeMetric;
+  op: BadgeRuleOperator;
+  value: number;
+  // Learner's local days up to today; 1 = today only. Absent = all time.
+  window_days?: number;
+  scope?: BadgeRuleScope;
+}
+
+export type BadgeRule =
+  | BadgeRuleCondition
+  | { all: BadgeRule[] }
+  | { any: BadgeRule[] };
+
+export interface BadgeMetricInfo {
+  label: string;
+  // Unit shown after the value, e.g. "50 practices"
+  unit: string;
+  supportsWindow: boolean;
+  supportsScope: boolean;
+}
+
+export const BADGE_METRICS: Record<BadgeMetric, BadgeMetricInfo> = {
+  practice_count: { label: 'Practices', unit: 'practices', supportsWindow: true, supportsScope: true },
+  high_scores: { label: 'Scores of 80+', unit: 'scores of 80+', supportsWindow: true, supportsScope: true },
+  perfect_scores: { label: 'Scores of 95+', unit: 'scores of 95+', supportsWindow: true, supportsScope: true },
+  average_score: { label: 'Average score', unit: 'average', supportsWindow: true, supportsScope: true },
+  best_score: { label: 'Best score', unit: 'best score', supportsWindow: true, supportsScope: true },
+  practice_days: { label: 'Days practiced', unit: 'days practiced', supportsWindow: true, supportsScope: true },
+  early_practices: { label: 'Practices before 8am', unit: 'early practices', supportsWindow: true, supportsScope: true },
+  late_practices: { label: 'Practices after 10pm', unit: 'late practices', supportsWindow: true, supportsScope: true },
+  vocab_mastered: { label: 'Items mastered', unit: 'items mastered', supportsWindow: false, supportsScope: true },
+  current_streak: { label: 'Current streak', unit: 'day streak', supportsWindow: false, supportsScope: false },
+  longest_streak: { label: 'Best streak', unit: 'day best streak', supportsWindow: false, supportsScope: false },
+  coin_balance: { label: 'Coin balance', unit: 'coins', supportsWindow: false, supportsScope: false },
+  coins_earned: { label: 'Coins earned', unit: 'coins earned', supportsWindow: false, supportsScope: false },
+};
+
+export const BADGE_RULE_OPERATORS: BadgeRuleOperator[] = ['>=', '>', '=', '<=', '<'];
+
+export const isRuleCondition = (rule: BadgeRule): rule is BadgeRuleCondition => 'metric' in rule;
+
+// Drops what the metric does not support and empty fields, so the rule passes
+// is_valid_badge_rule()
+export function normalizeCondition(condition: BadgeRuleCondition): BadgeRuleCondition {
+  const info = BADGE_METRICS[condition.metric];
+  const result: BadgeRuleCondition = { metric: condition.metric, op: condition.op, value: condition.value };
+
+  if (info.supportsWindow && condition.window_days && condition.window_days >= 1) {
+    result.window_days = Math.floor(condition.window_days);
+  }
+  if (info.supportsScope && condition.scope) {
+    const scope = Object.fromEntries(
+      Object.entries(condition.scope).filter(([, value]) => typeof value === 'string' && value.trim() !== '')
+    ) as BadgeRuleScope;
+    if (Object.keys(scope).length > 0) result.scope = scope;
+  }
+
+  return result;
+}
+
+export function isValidBadgeRule(rule: unknown): rule is BadgeRule {
+  if (!rule || typeof rule !== 'object' || Array.isArray(rule)) return false;
+  const value = rule as Record<string, unknown>;
+
+  for (const key of ['all', 'any']) {
+    if (key in value) {
+      const parts = value[key];
+      return Object.keys(value).length === 1 && Array.isArray(parts) && parts.length > 0 && parts.every(isValidBadgeRule);
+    }
+  }
+
+  const info = BADGE_METRICS[value.metric as BadgeMetric];
+  if (!info) return false;
+  if (!BADGE_RULE_OPERATORS.includes(value.op as BadgeRuleOperator) || typeof value.value !== 'number') return false;
+  if (Object.keys(value).some(key => !['metric', 'op', 'value', 'window_days', 'scope'].includes(key))) return false;
+  if ('window_days' in value && (!info.supportsWindow || !Number.isInteger(value.window_days) || (value.window_days as number) < 1)) {
+    return false;
+  }
+  if ('scope' in value && (!info.supportsScope || !value.scope || typeof value.scope !== 'object')) return false;
+  return true;
+}
+
+const describeWindow = (days?: number) => {
+  if (!days) return '';
+  if (days === 1) return ' today';
+  if (days === 7) return ' in a week';
+  return ` in ${days} days`;
+};
+
+/**
+ * Human-readable criteria, e.g. "50 practices in 7 days (course: Basics)".
+ * `names` resolves course/class ids to names.
+ */
+export function describeBadgeRule(rule: BadgeRule, names: Record<string, string> = {}): string {
+  if ('all' in rule) return rule.all.map(part => wrap(part, names)).join(' and ');
+  if ('any' in rule) return rule.any.map(part => wrap(part, names)).join(' or ');
+
+  const info = BADGE_METRICS[rule.metric];
+  const target = rule.op === '>=' ? `${rule.value}` : `${rule.op} ${rule.value}`;
+  const scopes = [
+    rule.scope?.course_id && `course: ${names[rule.scope.course_id] || 'unknown course'}`,
+    rule.scope?.class_id && `class: ${names[rule.scope.class_id] || 'unknown class'}`,
+    rule.scope?.category && `category: ${rule.scope.category}`,
+  ].filter(Boolean);
+
+  return `${target} ${info?.unit ?? rule.metric}${describeWindow(rule.window_days)}${scopes.length ? ` (${scopes.join(', ')})` : ''}`;
+}
+
+const wrap = (rule: BadgeRule, names: Record<string, string>) =>
+  isRuleCondition(rule) ? describeBadgeRule(rule, names) : `(${describeBadgeRule(rule, names)})`;
+
+/**
+ * Progress label for a badge not held yet, e.g. "34/50 practices".
+ * Without a metric the target counts rule conditions.
+ */
+export function formatBadgeProgress(progress: { current: number; target: number; metric: string | null }): string {
+  const round = (value: number) => Math.round(value * 10) / 10;
+  const unit = progress.metric ? BADGE_METRICS[progress.metric as BadgeMetric]?.unit ?? progress.metric : 'conditions';
+  return `${round(progress.current)}/${round(progress.target)} ${unit}`;
+}
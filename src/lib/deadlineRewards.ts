@@ -43,15 +43,17 @@ const DEFAULT_CONFIG: DeadlineConfig = {
  * @param deadline - Lesson deadline info
  * @param completionPercent - Current lesson completion (0-100)
  * @param config - Deadline configuration
+ * @param asOf - Day of completion (defaults to today; the economy simulator replays past days)
  * @returns Reward details (bonus, penalty, or none)
  */
 export function calculateDeadlineReward(
   deadline: LessonDeadline,
   completionPercent: number,
-  config: Partial<DeadlineConfig> = {}
+  config: Partial<DeadlineConfig> = {},
+  asOf: Date = new Date()
 ): DeadlineReward {
   const cfg = { ...DEFAULT_CONFIG, ...config };
-  const today = new Date();
+  const today = new Date(asOf);
   today.setHours(0, 0, 0, 0);
   
   const deadlineDate = new Date(deadline.deadline);
@@ -1,3 +1,5 @@
+import { supabase } from '@/integrations/supabase/client';
+
 // Deepgram types for transcription results
 
 export interface DeepgramWord {
@@ -5,6 +7,7 @@ export interface DeepgramWord {
     start: number;
     end: number;
     confidence: number;
+    punctuated_word?: string; // smart_format output, e.g. "Hello,"
 }
 
 export interface DeepgramTranscription {
@@ -19,51 +22,41 @@ interface DeepgramWordRaw {
     start: number;
     end: number;
     confidence: number;
+    punctuated_word?: string;
+}
+
+export interface TranscribeOptions {
+    fillerWords?: boolean; // keep "uh"/"um" in the transcript (hesitation metric)
 }
 
 /**
  * Transcribe audio using Deepgram API
  * @param audioBlob - Audio blob to transcribe
+ * @param options - Deepgram request options
  * @returns Transcription with word-level details
  */
 export async function transcribeAudio(
-    audioBlob: Blob
+    audioBlob: Blob,
+    options: TranscribeOptions = {}
 ): Promise<DeepgramTranscription> {
-    // Get Supabase URL from environment
-    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-
-    if (!supabaseUrl) {
-        throw new Error('Supabase URL not configured. Please add VITE_SUPABASE_URL to .env file.');
-    }
-
     try {
         console.log('🎙️ [Deepgram] Starting transcription via Supabase Edge Function...');
 
-        // Convert blob to ArrayBuffer
-        const arrayBuffer = await audioBlob.arrayBuffer();
-
-        // Call Supabase Edge Function
-        const functionUrl = `${supabaseUrl}/functions/v1/transcribe`;
+        // Multipart upload to the deepgram-transcribe Edge Function (see DEEPGRAM_SETUP.md)
+        const formData = new FormData();
+        formData.append('audio', audioBlob, 'recording.webm');
+        if (options.fillerWords) formData.append('fillerWords', 'true');
 
-        console.log(`📡 [Deepgram] Calling Edge Function: ${functionUrl}`);
-
-        const response = await fetch(functionUrl, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/octet-stream',
-            },
-            body: arrayBuffer,
+        const { data: result, error } = await supabase.functions.invoke('deepgram-transcribe', {
+            body: formData,
         });
 
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-            console.error('❌ [Deepgram] Edge Function error:', errorData);
-            throw new Error(`Edge Function error: ${errorData.error || response.statusText}`);
+        if (error) {
+            console.error('❌ [Deepgram] Edge Function error:', error);
+            throw new Error(`Edge Function error: ${error.message}`);
         }
 
-        const result = await response.json();
-
-        if (!result.transcript && !result.words) {
+        if (!result || (!result.transcript && !result.words)) {
             throw new Error('No transcription results returned from Edge Function');
         }
 
@@ -82,6 +75,7 @@ export async function transcribeAudio(
                 start: w.start,
                 end: w.end,
                 confidence: w.confidence,
+                punctuated_word: w.punctuated_word,
             })),
             confidence,
             duration,
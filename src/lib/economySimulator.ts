@@ -0,0 +1,504 @@
+import { addDays, addWeeks, format, parseISO, startOfWeek } from 'date-fns';
+import type { CoinConfig, CoinEntryKind } from '@/hooks/useCoinWallet';
+import type { Lesson } from '@/hooks/useCourses';
+import {
+  calculateLessonProgress,
+  calculateMastery,
+  calculateStreakBonus,
+  getFirstTimePracticeBonus,
+  getMilestoneBonus,
+} from './lessonProgress';
+import { calculateDeadlineReward } from './deadlineRewards';
+import { calculateLessonDeadlines, type LessonDeadline } from './scheduleUtils';
+
+export type SimulationLesson = Pick<Lesson, 'id' | 'course_id' | 'lesson_name' | 'order_index' | 'categories'>;
+
+export interface SimulationTake {
+  userId: string;
+  lessonId: string;
+  category: string;
+  itemIndex: number;
+  score: number;
+  practicedAt: string;
+}
+
+export interface SimulationSchedule {
+  courseId: string;
+  startDate: string;
+  scheduleDays: string[];
+}
+
+export interface SimulationLearner {
+  userId: string;
+  name: string;
+  schedules: SimulationSchedule[];
+}
+
+export interface LearnerOutcome {
+  userId: string;
+  name: string;
+  takes: number;
+  earned: number;
+  lost: number;
+  // Penalties that could not be taken because the balance was already too low
+  cappedPenalties: number;
+  finalBalance: number;
+  zeroedAt: string | null;
+  // Rewards withheld by the anti-farming rules
+  withheld: number;
+}
+
+export interface WeeklyFlow {
+  weekStart: string;
+  minted: number;
+  burned: number;
+  net: number;
+  supply: number;
+  // Net change relative to the supply at the start of the week, in %
+  inflation: number | null;
+}
+
+export interface BalanceBucket {
+  label: string;
+  count: number;
+}
+
+export interface EconomySimulation {
+  learners: LearnerOutcome[];
+  weeks: WeeklyFlow[];
+  distribution: BalanceBucket[];
+  byKind: Partial<Record<CoinEntryKind, number>>;
+  totals: {
+    takes: number;
+    minted: number;
+    burned: number;
+    supply: number;
+    zeroed: number;
+    withheld: number;
+  };
+}
+
+export interface SyntheticProfile {
+  id: string;
+  label: string;
+  description: string;
+  learners: number;
+  takesPerWeek: number;
+  meanScore: number;
+  scoreSpread: number;
+  activeWeekdays: number[]; // 0 = Sunday
+}
+
+export const SYNTHETIC_PROFILES: SyntheticProfile[] = [
+  {
+    id: 'diligent',
+    label: 'Diligent',
+    description: 'Practices most days and scores high',
+    learners: 5,
+    takesPerWeek: 30,
+    meanScore: 86,
+    scoreSpread: 8,
+    activeWeekdays: [1, 2, 3, 4, 5, 6],
+  },
+  {
+    id: 'steady',
+    label: 'Steady',
+    description: 'Practices on class days with average scores',
+    learners: 10,
+    takesPerWeek: 15,
+    meanScore: 74,
+    scoreSpread: 12,
+    activeWeekdays: [1, 3, 5],
+  },
+  {
+    id: 'struggling',
+    label: 'Struggling',
+    description: 'Practices regularly but often scores below the penalty threshold',
+    learners: 5,
+    takesPerWeek: 12,
+    meanScore: 55,
+    scoreSpread: 15,
+    activeWeekdays: [1, 3, 5],
+  },
+  {
+    id: 'weekend',
+    label: 'Weekend crammer',
+    description: 'Catches up on weekends, usually after the deadlines',
+    learners: 5,
+    takesPerWeek: 20,
+    meanScore: 70,
+    scoreSpread: 14,
+    activeWeekdays: [0, 6],
+  },
+];
+
+// Same buckets for every run so draft and saved configs can be compared
+const BALANCE_BUCKETS: Array<{ label: string; min: number; max: number }> = [
+  { label: '0', min: 0, max: 0 },
+  { label: '1–49', min: 1, max: 49 },
+  { label: '50–99', min: 50, max: 99 },
+  { label: '100–249', min: 100, max: 249 },
+  { label: '250–499', min: 250, max: 499 },
+  { label: '500–999', min: 500, max: 999 },
+  { label: '1000+', min: 1000, max: Infinity },
+];
+
+const DEFAULT_SCHEDULE_DAYS = ['monday', 'wednesday', 'friday'];
+
+/**
+ * Coins for the score of a single take; mirrors step 1 of public.settle_practice
+ */
+export function calculateScoreCoins(score: number, config: Partial<CoinConfig>): number {
+  const rewardThreshold = config.reward_score_threshold ?? 70;
+  if (score >= rewardThreshold) {
+    const min = config.reward_min ?? 0;
+    const max = config.reward_max ?? min;
+    return Math.round(min + ((score - rewardThreshold) / Math.max(1, 100 - rewardThreshold)) * (max - min));
+  }
+
+  const penaltyThreshold = config.penalty_score_threshold ?? 50;
+  if (score < penaltyThreshold) {
+    const min = config.penalty_min ?? 0;
+    const max = config.penalty_max ?? min;
+    return -Math.round(min + ((penaltyThreshold - score) / Math.max(1, penaltyThreshold)) * (max - min));
+  }
+
+  return 0;
+}
+
+/**
+ * Replay practice takes through the reward rules with the given config.
+ * Every learner starts at 0 coins; penalties are capped at the balance like
+ * post_coin_transaction does. The anti-farming limits of settle_practice are
+ * applied, except duplicate-audio detection. Badges are not simulated.
+ */
+export function simulateEconomy({
+  takes,
+  lessons,
+  learners,
+  config,
+}: {
+  takes: SimulationTake[];
+  lessons: SimulationLesson[];
+  learners: SimulationLearner[];
+  config: Partial<CoinConfig>;
+}): EconomySimulation {
+  const lessonsById = new Map(lessons.map((lesson) => [lesson.id, lesson]));
+  const learnersById = new Map(learners.map((learner) => [learner.userId, learner]));
+
+  const takesByUser = new Map<string, SimulationTake[]>();
+  takes.forEach((take) => {
+    if (!lessonsById.has(take.lessonId)) return;
+    const list = takesByUser.get(take.userId) || [];
+    list.push(take);
+    takesByUser.set(take.userId, list);
+  });
+
+  const weekly = new Map<string, { minted: number; burned: number }>();
+  const byKind: Partial<Record<CoinEntryKind, number>> = {};
+  const outcomes: LearnerOutcome[] = [];
+
+  takesByUser.forEach((userTakes, userId) => {
+    userTakes.sort((a, b) => a.practicedAt.localeCompare(b.practicedAt));
+
+    const learner = learnersById.get(userId);
+    const deadlines = getLearnerDeadlines(learner, lessons);
+    const progress = new Map<string, { attempts: number; best_score: number; mastery_level: number }>();
+    const progressByLesson = new Map<string, Array<{ mastery_level: number }>>();
+    const scoresByLesson = new Map<string, number[]>();
+    const rewardedAt = new Map<string, number[]>(); // item -> times of takes with a positive base reward
+    const earnedByDay = new Map<string, number>(); // repeatable practice coins per day
+
+    const outcome: LearnerOutcome = {
+      userId,
+      name: learner?.name || userId.slice(0, 8),
+      takes: userTakes.length,
+      earned: 0,
+      lost: 0,
+      cappedPenalties: 0,
+      finalBalance: 0,
+      zeroedAt: null,
+      withheld: 0,
+    };
+    let balance = 0;
+
+    userTakes.forEach((take) => {
+      const lesson = lessonsById.get(take.lessonId)!;
+      const practicedAt = parseISO(take.practicedAt);
+      const score = Math.min(100, Math.max(0, Math.round(take.score)));
+      const entries: Array<{ kind: CoinEntryKind; amount: number }> = [];
+
+      let base = calculateScoreCoins(score, config);
+
+      const key = `${take.lessonId}:${take.category}:${take.itemIndex}`;
+      let item = progress.get(key);
+      if (!item) {
+        item = { attempts: 0, best_score: 0, mastery_level: 0 };
+        progress.set(key, item);
+        const lessonItems = progressByLesson.get(take.lessonId) || [];
+        lessonItems.push(item);
+        progressByLesson.set(take.lessonId, lessonItems);
+      }
+      const wasMastered = item.mastery_level >= 3;
+      item.attempts += 1;
+      item.best_score = Math.max(item.best_score, score);
+      item.mastery_level = calculateMastery(item.attempts, item.best_score);
+
+      const firstBonus = getFirstTimePracticeBonus(item.attempts, config);
+      if (firstBonus !== 0) {
+        entries.push({ kind: 'first_practice', amount: firstBonus });
+      }
+
+      // Milestones can only be crossed by the take that masters an item
+      if (!wasMastered && item.mastery_level >= 3) {
+        const stats = calculateLessonProgress(lesson, progressByLesson.get(take.lessonId) || []);
+        const milestone = stats.milestoneAchieved !== null ? getMilestoneBonus(stats.milestoneAchieved, config) : null;
+        if (milestone) {
+          entries.push({ kind: 'milestone', amount: milestone.bonusCoins });
+
+          const deadline = deadlines.get(take.lessonId);
+          if (deadline && stats.completionPercent >= (config.min_completion_for_bonus ?? 80)) {
+            const reward = calculateDeadlineReward(deadline, stats.completionPercent, config, practicedAt);
+            if (reward.type !== 'none') {
+              entries.push({ kind: 'deadline', amount: reward.type === 'penalty' ? -reward.amount : reward.amount });
+            }
+          }
+        }
+      }
+
+      // The server looks at this take plus the previous nine in the lesson
+      const lessonScores = scoresByLesson.get(take.lessonId) || [];
+      lessonScores.push(score);
+      scoresByLesson.set(take.lessonId, lessonScores);
+      let streakAmount = calculateStreakBonus(lessonScores.slice(-10), config)?.bonusCoins ?? 0;
+
+      // Anti-farming, in the same order as settle_practice
+      const day = format(practicedAt, 'yyyy-MM-dd');
+      const itemRewards = rewardedAt.get(key) || [];
+      const before = Math.max(base, 0) + streakAmount;
+
+      const cooldownAfter = config.repeat_cooldown_after ?? 10;
+      const cooldownMinutes = config.repeat_cooldown_minutes ?? 30;
+      if (base >= 0 && base + streakAmount > 0 && cooldownAfter > 0 && cooldownMinutes > 0) {
+        const windowStart = practicedAt.getTime() - cooldownMinutes * 60 * 1000;
+        if (itemRewards.filter((time) => time > windowStart).length >= cooldownAfter) {
+          base = 0;
+          streakAmount = 0;
+        }
+      }
+
+      const fullRewards = config.repeat_full_rewards_per_day ?? 3;
+      const keep = Math.min(100, Math.max(0, config.repeat_reward_percent ?? 50)) / 100;
+      const rewardedToday = itemRewards.filter((time) => format(time, 'yyyy-MM-dd') === day).length;
+      if (base >= 0 && base + streakAmount > 0 && fullRewards > 0 && keep < 1 && rewardedToday >= fullRewards) {
+        const factor = Math.pow(keep, rewardedToday - fullRewards + 1);
+        base = Math.floor(base * factor);
+        streakAmount = Math.floor(streakAmount * factor);
+      }
+
+      const dailyCap = config.daily_practice_coin_cap ?? 0;
+      if (base >= 0 && base + streakAmount > 0 && dailyCap > 0) {
+        const remaining = Math.max(dailyCap - (earnedByDay.get(day) || 0), 0);
+        base = Math.min(base, remaining);
+        streakAmount = Math.min(streakAmount, remaining - base);
+      }
+
+      outcome.withheld += before - Math.max(base, 0) - streakAmount;
+      if (base > 0) {
+        itemRewards.push(practicedAt.getTime());
+        rewardedAt.set(key, itemRewards);
+      }
+      if (base > 0 || streakAmount > 0) {
+        earnedByDay.set(day, (earnedByDay.get(day) || 0) + Math.max(base, 0) + streakAmount);
+      }
+
+      entries.unshift({ kind: base > 0 ? 'practice_reward' : 'practice_penalty', amount: base });
+      if (streakAmount > 0) {
+        entries.push({ kind: 'streak', amount: streakAmount });
+      }
+
+      const weekKey = format(startOfWeek(practicedAt, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+      const week = weekly.get(weekKey) || { minted: 0, burned: 0 };
+
+      entries.forEach(({ kind, amount }) => {
+        if (amount === 0) return;
+
+        let posted = amount;
+        if (amount < 0) {
+          posted = -Math.min(-amount, balance);
+          outcome.cappedPenalties += posted - amount;
+        }
+        balance += posted;
+
+        if (posted > 0) {
+          outcome.earned += posted;
+          week.minted += posted;
+        } else {
+          outcome.lost -= posted;
+          week.burned -= posted;
+        }
+        byKind[kind] = (byKind[kind] || 0) + posted;
+
+        if (amount < 0 && balance === 0 && !outcome.zeroedAt) {
+          outcome.zeroedAt = take.practicedAt;
+        }
+      });
+
+      weekly.set(weekKey, week);
+    });
+
+    outcome.finalBalance = balance;
+    outcomes.push(outcome);
+  });
+
+  const weeks: WeeklyFlow[] = [];
+  const weekKeys = [...weekly.keys()].sort();
+  if (weekKeys.length > 0) {
+    const last = parseISO(weekKeys[weekKeys.length - 1]);
+    let supply = 0;
+    for (let week = parseISO(weekKeys[0]); week <= last; week = addWeeks(week, 1)) {
+      const weekStart = format(week, 'yyyy-MM-dd');
+      const { minted, burned } = weekly.get(weekStart) || { minted: 0, burned: 0 };
+      const net = minted - burned;
+      weeks.push({
+        weekStart,
+        minted,
+        burned,
+        net,
+        supply: supply + net,
+        inflation: supply > 0 ? Math.round((net / supply) * 1000) / 10 : null,
+      });
+      supply += net;
+    }
+  }
+
+  const distribution = BALANCE_BUCKETS.map(({ label, min, max }) => ({
+    label,
+    count: outcomes.filter((o) => o.finalBalance >= min && o.finalBalance <= max).length,
+  }));
+
+  return {
+    learners: outcomes,
+    weeks,
+    distribution,
+    byKind,
+    totals: {
+      takes: outcomes.reduce((sum, o) => sum + o.takes, 0),
+      minted: outcomes.reduce((sum, o) => sum + o.earned, 0),
+      burned: outcomes.reduce((sum, o) => sum + o.lost, 0),
+      supply: outcomes.reduce((sum, o) => sum + o.finalBalance, 0),
+      zeroed: outcomes.filter((o) => o.zeroedAt !== null).length,
+      withheld: outcomes.reduce((sum, o) => sum + o.withheld, 0),
+    },
+  };
+}
+
+function getLearnerDeadlines(
+  learner: SimulationLearner | undefined,
+  lessons: SimulationLesson[]
+): Map<string, LessonDeadline> {
+  const deadlines = new Map<string, LessonDeadline>();
+  learner?.schedules.forEach(({ courseId, startDate, scheduleDays }) => {
+    const courseLessons = lessons.filter((lesson) => lesson.course_id === courseId);
+    calculateLessonDeadlines(startDate, scheduleDays, courseLessons).forEach((deadline) => {
+      deadlines.set(deadline.lessonId, deadline);
+    });
+  });
+  return deadlines;
+}
+
+/**
+ * Generate takes for synthetic learners working through a course in order.
+ * Seeded, so the same inputs always produce the same takes.
+ */
+export function generateSyntheticTakes({
+  profiles,
+  lessons,
+  startDate,
+  weeks,
+  seed = 1,
+}: {
+  profiles: SyntheticProfile[];
+  lessons: SimulationLesson[];
+  startDate: Date;
+  weeks: number;
+  seed?: number;
+}): { takes: SimulationTake[]; learners: SimulationLearner[] } {
+  const random = mulberry32(seed);
+  const sortedLessons = [...lessons].sort((a, b) => a.order_index - b.order_index);
+  const items = sortedLessons.flatMap((lesson) =>
+    Object.entries(lesson.categories || {}).flatMap(([category, list]) =>
+      (Array.isArray(list) ? list : []).map((_, itemIndex) => ({ lessonId: lesson.id, category, itemIndex }))
+    )
+  );
+
+  const takes: SimulationTake[] = [];
+  const learners: SimulationLearner[] = [];
+  if (items.length === 0 || sortedLessons.length === 0) return { takes, learners };
+
+  const start = new Date(startDate);
+  start.setHours(0, 0, 0, 0);
+
+  profiles.forEach((profile) => {
+    const takesPerDay = profile.takesPerWeek / Math.max(1, profile.activeWeekdays.length);
+
+    for (let n = 0; n < profile.learners; n++) {
+      const userId = `synthetic-${profile.id}-${n + 1}`;
+      learners.push({
+        userId,
+        name: `${profile.label} #${n + 1}`,
+        schedules: [
+          {
+            courseId: sortedLessons[0].course_id,
+            startDate: format(start, 'yyyy-MM-dd'),
+            scheduleDays: DEFAULT_SCHEDULE_DAYS,
+          },
+        ],
+      });
+
+      // Retry an item until it is passed (at most 3 times), then move on
+      let position = 0;
+      let tries = 0;
+
+      for (let day = 0; day < weeks * 7 && position < items.length; day++) {
+        const date = addDays(start, day);
+        if (!profile.activeWeekdays.includes(date.getDay())) continue;
+
+        const count = Math.floor(takesPerDay) + (random() < takesPerDay % 1 ? 1 : 0);
+        for (let t = 0; t < count && position < items.length; t++) {
+          const score = Math.round(Math.min(100, Math.max(0, profile.meanScore + gaussian(random) * profile.scoreSpread)));
+          const practicedAt = new Date(date);
+          practicedAt.setHours(8 + Math.floor(random() * 14), Math.floor(random() * 60), t);
+
+          takes.push({ userId, ...items[position], score, practicedAt: practicedAt.toISOString() });
+
+          tries += 1;
+          if (score >= 70 || tries >= 3) {
+            position += 1;
+            tries = 0;
+          }
+        }
+      }
+    }
+  });
+
+  return { takes, learners };
+}
+
+function mulberry32(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal sample (Box-Muller)
+function gaussian(random: () => number) {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
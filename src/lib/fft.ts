@@ -0,0 +1,125 @@
+/**
+ * Radix-2 FFT
+ * Iterative in-place Cooley–Tukey with cached twiddle/bit-reversal tables and
+ * cached analysis windows, shared by spectral flux and other spectral metrics.
+ * Worker-safe: no DOM access.
+ */
+
+interface FFTPlan {
+  size: number;
+  bitReversed: Uint32Array;
+  cos: Float64Array; // twiddles for size/2 angles
+  sin: Float64Array;
+}
+
+const planCache = new Map<number, FFTPlan>();
+const hannCache = new Map<number, Float32Array>();
+
+export function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) size <<= 1;
+  return size;
+}
+
+function getPlan(size: number): FFTPlan {
+  const cached = planCache.get(size);
+  if (cached) return cached;
+
+  if (size < 2 || (size & (size - 1)) !== 0) {
+    throw new Error(`FFT size must be a power of two, got ${size}`);
+  }
+
+  const bits = Math.log2(size);
+  const bitReversed = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    let reversed = 0;
+    for (let b = 0; b < bits; b++) reversed = (reversed << 1) | ((i >> b) & 1);
+    bitReversed[i] = reversed;
+  }
+
+  const half = size / 2;
+  const cos = new Float64Array(half);
+  const sin = new Float64Array(half);
+  for (let i = 0; i < half; i++) {
+    cos[i] = Math.cos((2 * Math.PI * i) / size);
+    sin[i] = Math.sin((2 * Math.PI * i) / size);
+  }
+
+  const plan = { size, bitReversed, cos, sin };
+  planCache.set(size, plan);
+  return plan;
+}
+
+/** Forward FFT in place. `real` and `imag` must have the same power-of-two length. */
+export function fft(real: Float64Array, imag: Float64Array): void {
+  const { size, bitReversed, cos, sin } = getPlan(real.length);
+
+  for (let i = 0; i < size; i++) {
+    const j = bitReversed[i];
+    if (j > i) {
+      let t = real[i]; real[i] = real[j]; real[j] = t;
+      t = imag[i]; imag[i] = imag[j]; imag[j] = t;
+    }
+  }
+
+  for (let len = 2; len <= size; len <<= 1) {
+    const halfLen = len >> 1;
+    const step = size / len;
+    for (let start = 0; start < size; start += len) {
+      for (let k = 0; k < halfLen; k++) {
+        const wr = cos[k * step];
+        const wi = -sin[k * step];
+        const a = start + k;
+        const b = a + halfLen;
+        const tr = real[b] * wr - imag[b] * wi;
+        const ti = real[b] * wi + imag[b] * wr;
+        real[b] = real[a] - tr;
+        imag[b] = imag[a] - ti;
+        real[a] += tr;
+        imag[a] += ti;
+      }
+    }
+  }
+}
+
+/** Symmetric Hann window, cached per length */
+export function getHannWindow(length: number): Float32Array {
+  const cached = hannCache.get(length);
+  if (cached) return cached;
+
+  const window = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    window[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (length - 1)));
+  }
+  hannCache.set(length, window);
+  return window;
+}
+
+/**
+ * Build a reusable magnitude-spectrum function for frames of `frameSize` samples.
+ * Frames are zero-padded to the next power of two. `maxFrequencyRatio` (0-0.5)
+ * limits the returned bins to frequencies below ratio × sampleRate.
+ * The returned array is reused between calls — copy it if you need to keep it.
+ */
+export function createMagnitudeSpectrum(frameSize: number, maxFrequencyRatio = 0.5) {
+  const size = nextPowerOfTwo(frameSize);
+  const bins = Math.min(size / 2, Math.max(1, Math.round(maxFrequencyRatio * size)));
+  const real = new Float64Array(size);
+  const imag = new Float64Array(size);
+  const magnitudes = new Float32Array(bins);
+
+  return {
+    size,
+    bins,
+    compute(frame: Float32Array): Float32Array {
+      real.fill(0);
+      imag.fill(0);
+      real.set(frame.length > size ? frame.subarray(0, size) : frame);
+      fft(real, imag);
+      for (let k = 0; k < bins; k++) {
+        magnitudes[k] = Math.sqrt(real[k] * real[k] + imag[k] * imag[k]);
+      }
+      return magnitudes;
+    },
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Spectral-flux FFT benchmark + equivalence check
+ * Compares detectSyllablesWithSpectralFlux (radix-2 FFT) with the original
+ * per-bin DFT implementation on deterministic, speech-like synthetic takes.
+ * Run with `npm run bench:fft` (see scripts/fft-benchmark.mjs).
+ */
+
+import { detectSyllablesWithSpectralFlux } from './audioAnalysis';
+import { fft } from './fft';
+
+export interface BenchmarkCase {
+  name: string;
+  sampleRate: number;
+  durationSec: number;
+  syllablesPerSec: number;
+}
+
+export interface BenchmarkRow {
+  name: string;
+  durationSec: number;
+  sampleRate: number;
+  legacySyllables: number;
+  fftSyllables: number;
+  legacyMs: number;
+  fftMs: number;
+  speedup: number;
+  withinTolerance: boolean;
+}
+
+export const BENCHMARK_CASES: BenchmarkCase[] = [
+  { name: 'Vocab (2 words)', sampleRate: 44100, durationSec: 1.5, syllablesPerSec: 3 },
+  { name: 'Phrase', sampleRate: 48000, durationSec: 3, syllablesPerSec: 4 },
+  { name: 'Sentence (15 words)', sampleRate: 44100, durationSec: 8, syllablesPerSec: 4.5 },
+  { name: 'Long sentence', sampleRate: 48000, durationSec: 15, syllablesPerSec: 5 },
+  { name: 'Low sample rate', sampleRate: 16000, durationSec: 6, syllablesPerSec: 4 },
+];
+
+// Syllable counts may differ by this much (absolute or relative, whichever is larger)
+export const SYLLABLE_TOLERANCE = { absolute: 1, relative: 0.1 };
+
+/** Original implementation (per-bin DFT with precomputed trig tables), kept as the reference */
+export function legacySpectralFluxSyllables(audioBuffer: Float32Array, sampleRate: number): number {
+  const frameSizeSamples = Math.floor(sampleRate * 0.02);
+  const hopSize = Math.floor(frameSizeSamples / 2);
+  const fftBins = 256;
+
+  const hannWindow = new Float32Array(frameSizeSamples);
+  for (let i = 0; i < frameSizeSamples; i++) {
+    hannWindow[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (frameSizeSamples - 1)));
+  }
+
+  const cosTable = new Float32Array(fftBins * frameSizeSamples);
+  const sinTable = new Float32Array(fftBins * frameSizeSamples);
+  for (let k = 0; k < fftBins; k++) {
+    const freqRatio = (2 * Math.PI * k) / frameSizeSamples;
+    for (let n = 0; n < frameSizeSamples; n++) {
+      cosTable[k * frameSizeSamples + n] = Math.cos(freqRatio * n);
+      sinTable[k * frameSizeSamples + n] = Math.sin(freqRatio * n);
+    }
+  }
+
+  const computeMagnitudeSpectrum = (frame: Float32Array): Float32Array => {
+    const magnitudes = new Float32Array(fftBins);
+    for (let k = 0; k < fftBins; k++) {
+      let real = 0;
+      let imag = 0;
+      const offset = k * frameSizeSamples;
+      for (let n = 0; n < frame.length; n++) {
+        real += frame[n] * cosTable[offset + n];
+        imag -= frame[n] * sinTable[offset + n];
+      }
+      magnitudes[k] = Math.sqrt(real * real + imag * imag);
+    }
+    return magnitudes;
+  };
+
+  let prevSpectrum = new Float32Array(fftBins);
+  const fluxValues: number[] = [];
+  const windowed = new Float32Array(frameSizeSamples);
+
+  for (let i = 0; i <= audioBuffer.length - frameSizeSamples; i += hopSize) {
+    for (let j = 0; j < frameSizeSamples; j++) windowed[j] = audioBuffer[i + j] * hannWindow[j];
+    const spectrum = computeMagnitudeSpectrum(windowed);
+    let flux = 0;
+    for (let k = 0; k < fftBins; k++) {
+      const diff = spectrum[k] - prevSpectrum[k];
+      if (diff > 0) flux += diff;
+    }
+    fluxValues.push(flux);
+    prevSpectrum = spectrum;
+  }
+
+  if (fluxValues.length === 0) return 0;
+  if (fluxValues.length < 3) return Math.max(1, fluxValues.length);
+
+  const sortedFlux = [...fluxValues].sort((a, b) => a - b);
+  const median = sortedFlux[Math.floor(sortedFlux.length / 2)];
+  const threshold = Math.max(median * 1.5, sortedFlux[Math.floor(sortedFlux.length * 0.75)] * 0.5);
+
+  let peaks = 0;
+  let lastPeakIdx = -5;
+  for (let i = 1; i < fluxValues.length - 1; i++) {
+    if (
+      fluxValues[i] > threshold &&
+      fluxValues[i] > fluxValues[i - 1] &&
+      fluxValues[i] > fluxValues[i + 1] &&
+      i - lastPeakIdx > 4
+    ) {
+      peaks++;
+      lastPeakIdx = i;
+    }
+  }
+  return Math.max(1, peaks);
+}
+
+// Deterministic PRNG (mulberry32) so every run analyzes the same audio
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Voiced syllables (harmonic stack with a formant-ish tilt) separated by short gaps, plus noise */
+export function synthesizeSpeechLikeTake(testCase: BenchmarkCase, seed = 1): Float32Array {
+  const { sampleRate, durationSec, syllablesPerSec } = testCase;
+  const random = createRandom(seed);
+  const buffer = new Float32Array(Math.floor(sampleRate * durationSec));
+  const syllableSpacing = 1 / syllablesPerSec;
+
+  for (let t0 = 0.15; t0 < durationSec - 0.2; t0 += syllableSpacing * (0.8 + random() * 0.4)) {
+    const length = syllableSpacing * (0.5 + random() * 0.2);
+    const f0 = 110 + random() * 110;
+    const amplitude = 0.2 + random() * 0.3;
+    const start = Math.floor(t0 * sampleRate);
+    const end = Math.min(buffer.length, start + Math.floor(length * sampleRate));
+    for (let i = start; i < end; i++) {
+      const t = (i - start) / sampleRate;
+      const envelope = Math.sin((Math.PI * (i - start)) / (end - start));
+      let sample = 0;
+      for (let h = 1; h <= 8; h++) {
+        sample += Math.sin(2 * Math.PI * f0 * h * t) / h;
+      }
+      buffer[i] += amplitude * envelope * sample * 0.4;
+    }
+  }
+
+  for (let i = 0; i < buffer.length; i++) buffer[i] += (random() - 0.5) * 0.01;
+  return buffer;
+}
+
+/** Sanity check of the FFT itself against a direct DFT on random input */
+export function fftMaxError(size = 256, seed = 7): number {
+  const random = createRandom(seed);
+  const input = Array.from({ length: size }, () => random() * 2 - 1);
+  const real = Float64Array.from(input);
+  const imag = new Float64Array(size);
+  fft(real, imag);
+
+  let maxError = 0;
+  for (let k = 0; k < size; k++) {
+    let re = 0;
+    let im = 0;
+    for (let n = 0; n < size; n++) {
+      re += input[n] * Math.cos((2 * Math.PI * k * n) / size);
+      im -= input[n] * Math.sin((2 * Math.PI * k * n) / size);
+    }
+    maxError = Math.max(maxError, Math.abs(re - real[k]), Math.abs(im - imag[k]));
+  }
+  return maxError;
+}
+
+function timeIt<T>(fn: () => T): { value: T; ms: number } {
+  const start = performance.now();
+  const value = fn();
+  return { value, ms: performance.now() - start };
+}
+
+export function runSpectralFluxBenchmark(cases: BenchmarkCase[] = BENCHMARK_CASES): BenchmarkRow[] {
+  return cases.map((testCase, index) => {
+    const audio = synthesizeSpeechLikeTake(testCase, index + 1);
+    const legacy = timeIt(() => legacySpectralFluxSyllables(audio, testCase.sampleRate));
+    const current = timeIt(() => detectSyllablesWithSpectralFlux(audio, testCase.sampleRate));
+    const allowed = Math.max(SYLLABLE_TOLERANCE.absolute, legacy.value * SYLLABLE_TOLERANCE.relative);
+
+    return {
+      name: testCase.name,
+      durationSec: testCase.durationSec,
+      sampleRate: testCase.sampleRate,
+      legacySyllables: legacy.value,
+      fftSyllables: current.value,
+      legacyMs: Math.round(legacy.ms * 10) / 10,
+      fftMs: Math.round(current.ms * 10) / 10,
+      speedup: Math.round((legacy.ms / Math.max(current.ms, 0.01)) * 10) / 10,
+      withinTolerance: Math.abs(current.value - legacy.value) <= allowed,
+    };
+  });
+}
@@ -0,0 +1,126 @@
+/**
+ * Hesitation detection
+ * Counts filler words ("uh", "um"), repeated words ("I I want") and false
+ * starts (cut-off fragments, restarted phrases) in a Deepgram transcript
+ * requested with filler_words=true.
+ * Worker-safe: no DOM access.
+ */
+
+import type { DeepgramWord } from './deepgramService';
+import { normalizeWord } from './pronunciationScoring';
+
+export type HesitationType = 'filler' | 'repetition' | 'false-start';
+
+export interface HesitationEvent {
+  type: HesitationType;
+  text: string;
+  start: number;   // seconds
+  wordIndex: number;
+}
+
+export interface HesitationStats {
+  fillerCount: number;
+  repetitionCount: number;
+  falseStartCount: number;
+  perMinute: number;
+  events: HesitationEvent[];
+}
+
+// Deepgram's filler vocabulary plus common spelling variants
+const FILLER_WORDS = new Set(['uh', 'um', 'uhm', 'umm', 'uhh', 'er', 'erm', 'ah', 'eh', 'hmm', 'hm', 'mm', 'mhm']);
+
+const MIN_RATE_SECONDS = 10;
+
+export function isFillerWord(word: string): boolean {
+  return FILLER_WORDS.has(normalizeWord(word));
+}
+
+/** Transcript words without fillers, for metrics that count content words */
+export function withoutFillers(words: DeepgramWord[]): DeepgramWord[] {
+  return words.filter((w) => !isFillerWord(w.word));
+}
+
+/** Word pairs that legitimately repeat in the expected text ("bye bye", "very very") */
+function expectedDoubles(expectedText?: string): Set<string> {
+  const doubles = new Set<string>();
+  if (!expectedText) return doubles;
+  const tokens = expectedText.split(/\s+/).map(normalizeWord).filter(Boolean);
+  for (let i = 0; i < tokens.length - 1; i++) {
+    if (tokens[i] === tokens[i + 1]) doubles.add(tokens[i]);
+  }
+  return doubles;
+}
+
+export function detectHesitations(words: DeepgramWord[], expectedText?: string): HesitationStats {
+  const events: HesitationEvent[] = [];
+  const allowedDoubles = expectedDoubles(expectedText);
+  const expectedWords = new Set((expectedText ?? '').split(/\s+/).map(normalizeWord).filter(Boolean));
+
+  // Fillers are counted on the raw list, repetitions/false starts on content words
+  const content: Array<{ word: DeepgramWord; index: number; norm: string }> = [];
+  words.forEach((word, index) => {
+    if (isFillerWord(word.word)) {
+      events.push({ type: 'filler', text: word.word, start: word.start, wordIndex: index });
+    } else {
+      const norm = normalizeWord(word.word);
+      if (norm) content.push({ word, index, norm });
+    }
+  });
+
+  for (let i = 0; i < content.length - 1; i++) {
+    const current = content[i];
+    const next = content[i + 1];
+
+    // Restarted phrase: "I want I want"
+    const third = content[i + 2];
+    const fourth = content[i + 3];
+    if (third && fourth && current.norm === third.norm && next.norm === fourth.norm && current.norm !== next.norm) {
+      events.push({
+        type: 'false-start',
+        text: `${current.word.word} ${next.word.word}`,
+        start: current.word.start,
+        wordIndex: current.index,
+      });
+      i += 1; // the repeated pair is one event
+      continue;
+    }
+
+    if (current.norm === next.norm) {
+      if (!allowedDoubles.has(current.norm)) {
+        events.push({ type: 'repetition', text: current.word.word, start: current.word.start, wordIndex: current.index });
+      }
+      continue;
+    }
+
+    // Cut-off fragment: "wan- want", "th- the"
+    if (
+      current.norm.length >= 2 &&
+      current.norm.length < next.norm.length &&
+      next.norm.startsWith(current.norm) &&
+      !expectedWords.has(current.norm)
+    ) {
+      events.push({ type: 'false-start', text: current.word.word, start: current.word.start, wordIndex: current.index });
+    }
+  }
+
+  events.sort((a, b) => a.start - b.start);
+
+  // Short items are rated as if they lasted MIN_RATE_SECONDS, so one "um" in a
+  // three-word phrase does not extrapolate to dozens per minute
+  const first = words[0];
+  const last = words[words.length - 1];
+  const spokenSeconds = first && last ? last.end - first.start : 0;
+  const minutes = Math.max(MIN_RATE_SECONDS, spokenSeconds) / 60;
+
+  const fillerCount = events.filter((e) => e.type === 'filler').length;
+  const repetitionCount = events.filter((e) => e.type === 'repetition').length;
+  const falseStartCount = events.filter((e) => e.type === 'false-start').length;
+
+  return {
+    fillerCount,
+    repetitionCount,
+    falseStartCount,
+    perMinute: Math.round((events.length / minutes) * 10) / 10,
+    events,
+  };
+}
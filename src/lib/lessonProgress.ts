@@ -20,8 +20,8 @@ export interface MilestoneBonus {
  * Calculate lesson completion percentage and detect milestones
  */
 export function calculateLessonProgress(
-  lesson: Lesson,
-  userProgress: UserProgress[]
+  lesson: Pick<Lesson, "categories">,
+  userProgress: Array<Pick<UserProgress, "mastery_level">>
 ): LessonProgressStats {
   // Count total items across all categories
   let totalItems = 0;
@@ -120,6 +120,17 @@ export function getMilestoneBonus(
   }
 }
 
+/**
+ * Mastery level (0-5) of an item after a take; mirrors public.practice_mastery
+ */
+export function calculateMastery(attempts: number, bestScore: number): number {
+  if (bestScore >= 90 && attempts >= 3) return 5;
+  if (bestScore >= 80 && attempts >= 2) return 4;
+  if (bestScore >= 70) return 3;
+  if (bestScore >= 50) return 2;
+  return attempts >= 1 ? 1 : 0;
+}
+
 /**
  * Calculate total items practiced in a lesson
  */
@@ -225,31 +225,34 @@ export function getRecalibrationStatus(deviceId: string): { status: 'good' | 'wa
   return { status: 'warning', message: suggestion.reason || 'Consider recalibrating soon.', variance: suggestion.variance };
 }
 
-export function calibrateAndNormalize(
-  audioBuffer: Float32Array,
-  sampleRate: number,
-  deviceId?: string,
-  targetLUFS: number = TARGET_LUFS,
-): {
+export interface CalibratedNormalization {
   normalized: Float32Array;
   originalLUFS: number;
   calibratedLUFS: number;
   finalLUFS: number;
   deviceGain: number;
   normalizationGain: number;
-} {
+}
+
+/**
+ * Pure variant of calibrateAndNormalize: takes the device profile instead of
+ * reading localStorage and does not track the recording (safe in a Web Worker).
+ */
+export function normalizeWithCalibration(
+  audioBuffer: Float32Array,
+  sampleRate: number,
+  profile: CalibrationProfile | null,
+  targetLUFS: number = TARGET_LUFS,
+): CalibratedNormalization {
   let processed = audioBuffer;
   let deviceGain = 1;
   const originalLUFS = calculateLUFS(audioBuffer, sampleRate);
 
-  if (deviceId) {
-    const profile = getCalibrationProfile(deviceId);
-    if (profile && profile.gainAdjustment !== 1) {
-      deviceGain = profile.gainAdjustment;
-      processed = new Float32Array(audioBuffer.length);
-      for (let i = 0; i < audioBuffer.length; i++) {
-        processed[i] = Math.max(-1, Math.min(1, audioBuffer[i] * deviceGain));
-      }
+  if (profile && profile.gainAdjustment !== 1) {
+    deviceGain = profile.gainAdjustment;
+    processed = new Float32Array(audioBuffer.length);
+    for (let i = 0; i < audioBuffer.length; i++) {
+      processed[i] = Math.max(-1, Math.min(1, audioBuffer[i] * deviceGain));
     }
   }
 
@@ -257,15 +260,6 @@ export function calibrateAndNormalize(
   const { normalized, gainLinear } = normalizeToLUFS(processed, sampleRate, targetLUFS);
   const finalLUFS = calculateLUFS(normalized, sampleRate);
 
-  if (deviceId) {
-    trackRecording(deviceId, {
-      originalLUFS,
-      calibratedLUFS,
-      finalLUFS,
-      noiseFloor: calculateNoiseFloor(audioBuffer, sampleRate),
-    });
-  }
-
   return {
     normalized,
     originalLUFS,
@@ -276,6 +270,31 @@ export function calibrateAndNormalize(
   };
 }
 
+export function calibrateAndNormalize(
+  audioBuffer: Float32Array,
+  sampleRate: number,
+  deviceId?: string,
+  targetLUFS: number = TARGET_LUFS,
+): CalibratedNormalization {
+  const result = normalizeWithCalibration(
+    audioBuffer,
+    sampleRate,
+    deviceId ? getCalibrationProfile(deviceId) : null,
+    targetLUFS,
+  );
+
+  if (deviceId) {
+    trackRecording(deviceId, {
+      originalLUFS: result.originalLUFS,
+      calibratedLUFS: result.calibratedLUFS,
+      finalLUFS: result.finalLUFS,
+      noiseFloor: calculateNoiseFloor(audioBuffer, sampleRate),
+    });
+  }
+
+  return result;
+}
+
 export async function measureReferenceLevel(audioBuffer: Float32Array, sampleRate: number): Promise<number> {
   return calculateLUFS(audioBuffer, sampleRate);
 }
@@ -0,0 +1,166 @@
+/**
+ * Pause map
+ * Locates each pause in a take: between which words it falls (Deepgram word
+ * timestamps), how long the silence actually was (VAD or energy segments),
+ * and whether it sits at a natural phrase boundary.
+ * Worker-safe: no DOM access.
+ */
+
+import type { DeepgramWord } from './deepgramService';
+import { normalizeWord } from './pronunciationScoring';
+
+export interface SpeechSpan {
+  start: number;  // ms from recording start
+  end: number;
+}
+
+export interface PauseMapEntry {
+  startMs: number;
+  endMs: number;
+  durationMs: number;
+  beforeWord: string | null;   // last word before the pause (null when no transcript)
+  afterWord: string | null;
+  wordIndex: number | null;    // index of beforeWord in the transcript
+  natural: boolean;            // at punctuation / phrase boundary
+}
+
+export interface PauseMap {
+  pauses: PauseMapEntry[];
+  pauseCount: number;
+  longestPauseMs: number;
+  naturalCount: number;
+  durationMs: number;          // length of the take, for drawing the timeline
+  source: 'words' | 'vad' | 'energy';
+}
+
+// Shorter gaps are articulation, not pauses
+export const MIN_PAUSE_MS = 250;
+
+// Pausing before these words usually sounds like phrasing, not hesitation
+const PHRASE_STARTERS = new Set([
+  'and', 'but', 'or', 'so', 'because', 'if', 'when', 'while', 'although', 'though',
+  'which', 'who', 'that', 'then', 'however', 'after', 'before', 'until',
+]);
+
+const BOUNDARY_PUNCTUATION = /[,.;:!?…—-]["')\]]*$/;
+
+/** Expected words that are followed by punctuation in the lesson text ("Hello, how…" → "hello") */
+function boundaryWordsFromText(expectedText?: string): Set<string> {
+  const words = new Set<string>();
+  if (!expectedText) return words;
+  for (const token of expectedText.split(/\s+/)) {
+    if (BOUNDARY_PUNCTUATION.test(token)) {
+      const normalized = normalizeWord(token);
+      if (normalized) words.add(normalized);
+    }
+  }
+  return words;
+}
+
+/** Silence inside [start, end] that is not covered by any speech span */
+function silenceWithin(start: number, end: number, speech: SpeechSpan[]): number {
+  let covered = 0;
+  for (const span of speech) {
+    const overlap = Math.min(end, span.end) - Math.max(start, span.start);
+    if (overlap > 0) covered += overlap;
+  }
+  return Math.max(0, end - start - covered);
+}
+
+export function buildPauseMap(params: {
+  speech: SpeechSpan[];
+  speechSource: 'vad' | 'energy';
+  durationMs: number;
+  words?: DeepgramWord[];
+  expectedText?: string;
+}): PauseMap {
+  const { speech, speechSource, durationMs, words, expectedText } = params;
+  const pauses: PauseMapEntry[] = [];
+
+  if (words && words.length > 1) {
+    const boundaryWords = boundaryWordsFromText(expectedText);
+
+    for (let i = 0; i < words.length - 1; i++) {
+      const before = words[i];
+      const after = words[i + 1];
+      const startMs = Math.round(before.end * 1000);
+      const endMs = Math.round(after.start * 1000);
+      if (endMs - startMs < MIN_PAUSE_MS) continue;
+
+      // Deepgram gaps can include breaths or trailing sounds; keep the measured silence
+      const silentMs = speech.length ? silenceWithin(startMs, endMs, speech) : endMs - startMs;
+      if (silentMs < MIN_PAUSE_MS) continue;
+
+      const punctuated = before.punctuated_word ?? before.word;
+      const natural =
+        BOUNDARY_PUNCTUATION.test(punctuated) ||
+        boundaryWords.has(normalizeWord(before.word)) ||
+        PHRASE_STARTERS.has(normalizeWord(after.word));
+
+      pauses.push({
+        startMs,
+        endMs,
+        durationMs: Math.round(silentMs),
+        beforeWord: punctuated,
+        afterWord: after.punctuated_word ?? after.word,
+        wordIndex: i,
+        natural,
+      });
+    }
+  } else {
+    // No transcript: gaps between speech spans, leading/trailing silence excluded
+    for (let i = 0; i < speech.length - 1; i++) {
+      const startMs = Math.round(speech[i].end);
+      const endMs = Math.round(speech[i + 1].start);
+      if (endMs - startMs < MIN_PAUSE_MS) continue;
+      pauses.push({
+        startMs,
+        endMs,
+        durationMs: endMs - startMs,
+        beforeWord: null,
+        afterWord: null,
+        wordIndex: null,
+        natural: false,
+      });
+    }
+  }
+
+  return {
+    pauses,
+    pauseCount: pauses.length,
+    longestPauseMs: pauses.reduce((longest, p) => Math.max(longest, p.durationMs), 0),
+    naturalCount: pauses.filter((p) => p.natural).length,
+    durationMs: Math.round(durationMs),
+    source: words && words.length > 1 ? 'words' : speechSource,
+  };
+}
+
+/** Speech spans from frame energy (mean absolute amplitude), short gaps bridged */
+export function detectSpeechSpans(
+  audioBuffer: Float32Array,
+  sampleRate: number,
+  silenceThreshold = 0.01,
+  frameMs = 20
+): SpeechSpan[] {
+  const frameSize = Math.max(1, Math.floor((sampleRate * frameMs) / 1000));
+  const spans: SpeechSpan[] = [];
+  let current: SpeechSpan | null = null;
+
+  for (let i = 0; i + frameSize <= audioBuffer.length; i += frameSize) {
+    let energy = 0;
+    for (let j = 0; j < frameSize; j++) energy += Math.abs(audioBuffer[i + j]);
+    energy /= frameSize;
+
+    const timeMs = (i / sampleRate) * 1000;
+    if (energy >= silenceThreshold) {
+      if (current && timeMs - current.end < 100) {
+        current.end = timeMs + frameMs;
+      } else {
+        current = { start: timeMs, end: timeMs + frameMs };
+        spans.push(current);
+      }
+    }
+  }
+
+  return spans.map((s) => ({ start: Math.round(s.start), end: Math.round(s.end) }));
+}
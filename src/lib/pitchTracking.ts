@@ -0,0 +1,141 @@
+/**
+ * F0 (pitch) tracking with YIN
+ * de Cheveigné & Kawahara (2002): cumulative-mean-normalized difference function
+ * with an absolute threshold and parabolic interpolation.
+ * Audio is decimated to ~11 kHz first; speech F0 sits well below that Nyquist.
+ * Worker-safe: no DOM access.
+ */
+
+export interface PitchFrame {
+  timeMs: number;
+  hz: number | null; // null = unvoiced / silent
+}
+
+export interface PitchTrackOptions {
+  minHz?: number;
+  maxHz?: number;
+  hopMs?: number;
+  threshold?: number;     // YIN absolute threshold
+  silenceRatio?: number;  // frames quieter than this fraction of the loudest frame are skipped
+}
+
+const TARGET_RATE = 11025;
+
+function decimate(audioBuffer: Float32Array, sampleRate: number): { samples: Float32Array; rate: number } {
+  const factor = Math.max(1, Math.floor(sampleRate / TARGET_RATE));
+  if (factor === 1) return { samples: audioBuffer, rate: sampleRate };
+
+  // Box-filter average before dropping samples (cheap anti-aliasing)
+  const out = new Float32Array(Math.floor(audioBuffer.length / factor));
+  for (let i = 0; i < out.length; i++) {
+    let sum = 0;
+    const base = i * factor;
+    for (let j = 0; j < factor; j++) sum += audioBuffer[base + j];
+    out[i] = sum / factor;
+  }
+  return { samples: out, rate: sampleRate / factor };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+export function trackPitch(
+  audioBuffer: Float32Array,
+  sampleRate: number,
+  options: PitchTrackOptions = {}
+): PitchFrame[] {
+  const { minHz = 70, maxHz = 400, hopMs = 20, threshold = 0.15, silenceRatio = 0.1 } = options;
+  const { samples, rate } = decimate(audioBuffer, sampleRate);
+
+  const tauMin = Math.max(2, Math.floor(rate / maxHz));
+  const tauMax = Math.ceil(rate / minHz);
+  const windowSize = tauMax * 2; // two periods of the lowest F0
+  const hop = Math.max(1, Math.floor((rate * hopMs) / 1000));
+  if (samples.length < windowSize + tauMax) return [];
+
+  // Frame energies for the voicing gate
+  const starts: number[] = [];
+  const energies: number[] = [];
+  for (let start = 0; start + windowSize + tauMax <= samples.length; start += hop) {
+    let sum = 0;
+    for (let i = 0; i < windowSize; i++) sum += samples[start + i] * samples[start + i];
+    starts.push(start);
+    energies.push(Math.sqrt(sum / windowSize));
+  }
+  const loudest = Math.max(...energies);
+  const gate = loudest * silenceRatio;
+
+  const diff = new Float32Array(tauMax + 1);
+  const frames: PitchFrame[] = [];
+
+  for (let f = 0; f < starts.length; f++) {
+    const start = starts[f];
+    const timeMs = Math.round((start / rate) * 1000);
+    if (energies[f] < gate || energies[f] < 1e-4) {
+      frames.push({ timeMs, hz: null });
+      continue;
+    }
+
+    // Difference function d(τ)
+    for (let tau = 1; tau <= tauMax; tau++) {
+      let sum = 0;
+      for (let i = 0; i < windowSize; i++) {
+        const delta = samples[start + i] - samples[start + i + tau];
+        sum += delta * delta;
+      }
+      diff[tau] = sum;
+    }
+
+    // Cumulative mean normalized difference d'(τ)
+    diff[0] = 1;
+    let running = 0;
+    for (let tau = 1; tau <= tauMax; tau++) {
+      running += diff[tau];
+      diff[tau] = running > 0 ? (diff[tau] * tau) / running : 1;
+    }
+
+    // First dip below the threshold, then walk to its local minimum
+    let tauEstimate = -1;
+    for (let tau = tauMin; tau <= tauMax; tau++) {
+      if (diff[tau] < threshold) {
+        while (tau + 1 <= tauMax && diff[tau + 1] < diff[tau]) tau++;
+        tauEstimate = tau;
+        break;
+      }
+    }
+    if (tauEstimate < 0) {
+      frames.push({ timeMs, hz: null });
+      continue;
+    }
+
+    // Parabolic interpolation around the minimum
+    let refined = tauEstimate;
+    if (tauEstimate > 1 && tauEstimate < tauMax) {
+      const s0 = diff[tauEstimate - 1];
+      const s1 = diff[tauEstimate];
+      const s2 = diff[tauEstimate + 1];
+      const denominator = 2 * (2 * s1 - s2 - s0);
+      if (denominator !== 0) refined = tauEstimate + (s2 - s0) / denominator;
+    }
+
+    const hz = rate / refined;
+    frames.push({ timeMs, hz: hz >= minHz && hz <= maxHz ? hz : null });
+  }
+
+  // 5-point median over voiced neighbours removes isolated octave jumps
+  return frames.map((frame, i) => {
+    if (frame.hz === null) return frame;
+    const neighbours: number[] = [];
+    for (let j = Math.max(0, i - 2); j <= Math.min(frames.length - 1, i + 2); j++) {
+      const hz = frames[j].hz;
+      if (hz !== null) neighbours.push(hz);
+    }
+    return { timeMs: frame.timeMs, hz: Math.round(median(neighbours) * 10) / 10 };
+  });
+}
+
+export function hzToSemitones(hz: number, referenceHz: number): number {
+  return 12 * Math.log2(hz / referenceHz);
+}
@@ -0,0 +1,196 @@
+/**
+ * Pronunciation / accuracy scoring
+ * Aligns the Deepgram word list against the expected English phrase of a
+ * lesson item and reports per-word hits, misses, substitutions and insertions.
+ */
+
+import type { DeepgramWord } from './deepgramService';
+
+export type WordAlignmentStatus = 'hit' | 'substitution' | 'miss' | 'insertion';
+
+export interface WordAlignment {
+  status: WordAlignmentStatus;
+  expected: string | null;   // null for insertions
+  spoken: string | null;     // null for misses
+  similarity: number;        // 0-1 character similarity between expected and spoken
+  confidence: number | null; // Deepgram confidence of the spoken word
+  start: number | null;      // seconds
+  end: number | null;
+}
+
+export interface PronunciationResult {
+  accuracy: number;          // 0-100, share of expected words that were said
+  hits: number;
+  misses: number;
+  substitutions: number;
+  insertions: number;
+  expectedText: string;
+  transcript: string;
+  words: WordAlignment[];
+  score: number;
+  tag: 'ACCURACY';
+}
+
+// A substitution this similar to the expected word is treated as a hit
+// (plural "s", dropped "-ed", Deepgram spelling variants).
+const HIT_SIMILARITY = 0.8;
+// Substitutions earn partial credit proportional to similarity.
+const SUBSTITUTION_CREDIT = 0.5;
+// Each extra spoken word costs this fraction of an expected word.
+const INSERTION_PENALTY = 0.5;
+
+export function normalizeWord(word: string): string {
+  return word
+    .toLowerCase()
+    .replace(/[’‘`]/g, "'")
+    .replace(/[^a-z0-9']/g, '')
+    .replace(/^'+|'+$/g, '');
+}
+
+/**
+ * Split expected text into alternative word sequences.
+ * "Grilled pork / grilled beef" → [["grilled","pork"], ["grilled","beef"]]
+ * Ellipses and punctuation are dropped.
+ */
+export function tokenizeExpected(text: string): string[][] {
+  const alternatives = text
+    .split('/')
+    .map((part) => part.replace(/…|\.{3}/g, ' ').split(/\s+/).map(normalizeWord).filter(Boolean))
+    .filter((tokens) => tokens.length > 0);
+  return alternatives;
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prev = new Array<number>(b.length + 1);
+  let curr = new Array<number>(b.length + 1);
+  for (let j = 0; j <= b.length; j++) prev[j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    curr[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    [prev, curr] = [curr, prev];
+  }
+  return prev[b.length];
+}
+
+export function wordSimilarity(a: string, b: string): number {
+  const maxLen = Math.max(a.length, b.length);
+  if (maxLen === 0) return 1;
+  return 1 - levenshtein(a, b) / maxLen;
+}
+
+/**
+ * Word-level edit-distance alignment (Needleman–Wunsch style).
+ * Substitution cost is 1 - similarity so near-misses align with their target.
+ */
+function alignTokens(expected: string[], spoken: DeepgramWord[]): WordAlignment[] {
+  const spokenNorm = spoken.map((w) => normalizeWord(w.word));
+  const n = expected.length;
+  const m = spokenNorm.length;
+
+  const cost: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = 1; i <= n; i++) cost[i][0] = i;
+  for (let j = 1; j <= m; j++) cost[0][j] = j;
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const sub = 1 - wordSimilarity(expected[i - 1], spokenNorm[j - 1]);
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + sub,
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1,
+      );
+    }
+  }
+
+  // Backtrace
+  const result: WordAlignment[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const similarity = wordSimilarity(expected[i - 1], spokenNorm[j - 1]);
+      if (Math.abs(cost[i][j] - (cost[i - 1][j - 1] + 1 - similarity)) < 1e-9) {
+        const word = spoken[j - 1];
+        result.push({
+          status: similarity >= HIT_SIMILARITY ? 'hit' : 'substitution',
+          expected: expected[i - 1],
+          spoken: word.word,
+          similarity: Math.round(similarity * 100) / 100,
+          confidence: word.confidence,
+          start: word.start,
+          end: word.end,
+        });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && (j === 0 || Math.abs(cost[i][j] - (cost[i - 1][j] + 1)) < 1e-9)) {
+      result.push({ status: 'miss', expected: expected[i - 1], spoken: null, similarity: 0, confidence: null, start: null, end: null });
+      i--;
+    } else {
+      const word = spoken[j - 1];
+      result.push({ status: 'insertion', expected: null, spoken: word.word, similarity: 0, confidence: word.confidence, start: word.start, end: word.end });
+      j--;
+    }
+  }
+
+  return result.reverse();
+}
+
+function summarize(expectedText: string, transcript: string, words: WordAlignment[]): PronunciationResult {
+  const hits = words.filter((w) => w.status === 'hit').length;
+  const misses = words.filter((w) => w.status === 'miss').length;
+  const substitutionWords = words.filter((w) => w.status === 'substitution');
+  const insertions = words.filter((w) => w.status === 'insertion').length;
+  const expectedCount = hits + misses + substitutionWords.length;
+
+  const credit = hits + substitutionWords.reduce((sum, w) => sum + w.similarity * SUBSTITUTION_CREDIT, 0);
+  const denominator = expectedCount + insertions * INSERTION_PENALTY;
+  const score = denominator > 0 ? (credit / denominator) * 100 : 0;
+
+  return {
+    accuracy: expectedCount > 0 ? Math.round((hits / expectedCount) * 100) : 0,
+    hits,
+    misses,
+    substitutions: substitutionWords.length,
+    insertions,
+    expectedText,
+    transcript,
+    words,
+    score: Math.min(100, Math.max(0, Math.round(score))),
+    tag: 'ACCURACY',
+  };
+}
+
+/**
+ * Score how closely the spoken words match the expected phrase.
+ * When the phrase has "/" alternatives, the best-matching one is used.
+ */
+export function analyzePronunciation(
+  expectedText: string,
+  spokenWords: DeepgramWord[],
+  transcript: string = spokenWords.map((w) => w.word).join(' '),
+): PronunciationResult {
+  const alternatives = tokenizeExpected(expectedText);
+  if (alternatives.length === 0) {
+    return summarize(expectedText, transcript, []);
+  }
+
+  let best: PronunciationResult | null = null;
+  for (const tokens of alternatives) {
+    const candidate = summarize(expectedText, transcript, alignTokens(tokens, spokenWords));
+    if (!best || candidate.score > best.score) best = candidate;
+  }
+
+  console.log(`🗣️ Pronunciation: ${best!.hits} hits, ${best!.substitutions} subs, ${best!.misses} misses, ${best!.insertions} insertions → ${best!.score}`);
+  return best!;
+}
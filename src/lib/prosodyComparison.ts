@@ -0,0 +1,201 @@
+/**
+ * Prosody comparison against a reference recording
+ * Both takes are reduced to a 20ms envelope (loudness + pitch), normalized per
+ * speaker, then aligned with dynamic time warping (Sakoe-Chiba band) so tempo
+ * differences do not count as prosody differences.
+ * Worker-safe: no DOM access.
+ */
+
+import { hzToSemitones, trackPitch, type PitchFrame } from './pitchTracking';
+
+export interface ProsodyEnvelope {
+  hopMs: number;
+  energy: number[];          // dB relative to the loudest frame, floored at ENERGY_FLOOR_DB
+  pitch: (number | null)[];  // semitones relative to the speaker's median F0, null = unvoiced
+}
+
+export interface ProsodyOverlayPoint {
+  timeMs: number;             // reference timeline
+  referencePitch: number | null;
+  learnerPitch: number | null;
+  referenceEnergy: number;
+  learnerEnergy: number;
+}
+
+export interface ProsodyComparison {
+  similarity: number;         // 0-100
+  distance: number;           // mean aligned frame cost
+  durationRatio: number;      // learner / reference speaking time
+  overlay: ProsodyOverlayPoint[];
+}
+
+const ENERGY_FLOOR_DB = -40;
+const TRIM_DB = -35;          // frames quieter than this (vs loudest) are trimmed from both ends
+const MAX_FRAMES = 1000;      // longer envelopes are averaged down before DTW
+const BAND_RATIO = 0.25;
+const OVERLAY_POINTS = 120;
+
+// Frame cost scales: 10 dB or 4 semitones of difference cost 1
+const ENERGY_SCALE_DB = 10;
+const PITCH_SCALE_ST = 4;
+const VOICING_MISMATCH_COST = 0.5;
+
+// distance → similarity: 0 → 100, 0.5 → ~47, 1 → ~22
+const SIMILARITY_DECAY = 1.5;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/** `contour` can be passed in when trackPitch already ran on this buffer */
+export function extractProsodyEnvelope(
+  audioBuffer: Float32Array,
+  sampleRate: number,
+  contour: PitchFrame[] = trackPitch(audioBuffer, sampleRate)
+): ProsodyEnvelope {
+  const hopMs = contour.length > 1 ? contour[1].timeMs - contour[0].timeMs : 20;
+  const windowSamples = Math.floor((sampleRate * hopMs * 2) / 1000);
+
+  const rawDb = contour.map((frame) => {
+    const start = Math.floor((frame.timeMs / 1000) * sampleRate);
+    const end = Math.min(audioBuffer.length, start + windowSamples);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += audioBuffer[i] * audioBuffer[i];
+    const rms = Math.sqrt(sum / Math.max(1, end - start));
+    return 20 * Math.log10(Math.max(rms, 1e-10));
+  });
+  if (!rawDb.length) return { hopMs, energy: [], pitch: [] };
+
+  const loudest = Math.max(...rawDb);
+  const relative = rawDb.map((db) => Math.max(ENERGY_FLOOR_DB, db - loudest));
+
+  // Trim leading/trailing silence so the envelopes start and end with speech
+  let first = relative.findIndex((db) => db > TRIM_DB);
+  let last = relative.length - 1;
+  while (last > 0 && relative[last] <= TRIM_DB) last--;
+  if (first < 0) {
+    first = 0;
+    last = relative.length - 1;
+  }
+
+  const trimmed = contour.slice(first, last + 1);
+  const voiced = trimmed.map((frame) => frame.hz).filter((hz): hz is number => hz !== null).sort((a, b) => a - b);
+  const medianHz = voiced.length ? voiced[Math.floor(voiced.length / 2)] : 0;
+
+  return {
+    hopMs,
+    energy: relative.slice(first, last + 1).map(round1),
+    pitch: trimmed.map((frame) => (frame.hz !== null && medianHz ? round1(hzToSemitones(frame.hz, medianHz)) : null)),
+  };
+}
+
+/** Average adjacent frames until the envelope fits MAX_FRAMES */
+function downsample(envelope: ProsodyEnvelope): ProsodyEnvelope {
+  const factor = Math.ceil(envelope.energy.length / MAX_FRAMES);
+  if (factor <= 1) return envelope;
+
+  const energy: number[] = [];
+  const pitch: (number | null)[] = [];
+  for (let i = 0; i < envelope.energy.length; i += factor) {
+    const energySlice = envelope.energy.slice(i, i + factor);
+    const pitchSlice = envelope.pitch.slice(i, i + factor).filter((st): st is number => st !== null);
+    energy.push(energySlice.reduce((a, b) => a + b, 0) / energySlice.length);
+    // Voiced if most of the merged frames were voiced
+    pitch.push(pitchSlice.length * 2 >= energySlice.length ? pitchSlice.reduce((a, b) => a + b, 0) / pitchSlice.length : null);
+  }
+  return { hopMs: envelope.hopMs * factor, energy, pitch };
+}
+
+function frameCost(a: ProsodyEnvelope, i: number, b: ProsodyEnvelope, j: number): number {
+  let cost = Math.abs(a.energy[i] - b.energy[j]) / ENERGY_SCALE_DB;
+  const pa = a.pitch[i];
+  const pb = b.pitch[j];
+  if (pa !== null && pb !== null) cost += Math.abs(pa - pb) / PITCH_SCALE_ST;
+  else if (pa !== null || pb !== null) cost += VOICING_MISMATCH_COST;
+  return cost;
+}
+
+/** DTW alignment path as [learnerIndex, referenceIndex] pairs, plus its mean cost */
+function alignDTW(learner: ProsodyEnvelope, reference: ProsodyEnvelope): { path: Array<[number, number]>; distance: number } {
+  const n = learner.energy.length;
+  const m = reference.energy.length;
+  const band = Math.max(Math.abs(n - m), Math.ceil(Math.max(n, m) * BAND_RATIO));
+
+  const acc = new Float64Array(n * m).fill(Infinity);
+  const at = (i: number, j: number) => (i < 0 || j < 0 ? Infinity : acc[i * m + j]);
+
+  for (let i = 0; i < n; i++) {
+    // Band follows the diagonal of the (possibly rectangular) matrix
+    const center = Math.round((i * (m - 1)) / Math.max(1, n - 1));
+    const jStart = Math.max(0, center - band);
+    const jEnd = Math.min(m - 1, center + band);
+    for (let j = jStart; j <= jEnd; j++) {
+      const cost = frameCost(learner, i, reference, j);
+      const best = i === 0 && j === 0 ? 0 : Math.min(at(i - 1, j), at(i, j - 1), at(i - 1, j - 1));
+      acc[i * m + j] = cost + best;
+    }
+  }
+
+  // Backtrack from the end
+  const path: Array<[number, number]> = [];
+  let i = n - 1;
+  let j = m - 1;
+  path.push([i, j]);
+  while (i > 0 || j > 0) {
+    const diagonal = at(i - 1, j - 1);
+    const up = at(i - 1, j);
+    const left = at(i, j - 1);
+    if (diagonal <= up && diagonal <= left) {
+      i--;
+      j--;
+    } else if (up <= left) {
+      i--;
+    } else {
+      j--;
+    }
+    path.push([i, j]);
+  }
+  path.reverse();
+
+  return { path, distance: acc[n * m - 1] / path.length };
+}
+
+export function compareProsody(learnerInput: ProsodyEnvelope, referenceInput: ProsodyEnvelope): ProsodyComparison | null {
+  if (learnerInput.energy.length < 5 || referenceInput.energy.length < 5) return null;
+
+  const learner = downsample(learnerInput);
+  const reference = downsample(referenceInput);
+  const { path, distance } = alignDTW(learner, reference);
+
+  // Learner values averaged onto each reference frame they were aligned with
+  const learnerEnergy = new Array<number>(reference.energy.length).fill(0);
+  const learnerPitchSum = new Array<number>(reference.energy.length).fill(0);
+  const learnerPitchCount = new Array<number>(reference.energy.length).fill(0);
+  const matches = new Array<number>(reference.energy.length).fill(0);
+  for (const [li, ri] of path) {
+    learnerEnergy[ri] += learner.energy[li];
+    matches[ri]++;
+    const st = learner.pitch[li];
+    if (st !== null) {
+      learnerPitchSum[ri] += st;
+      learnerPitchCount[ri]++;
+    }
+  }
+
+  const step = Math.max(1, Math.ceil(reference.energy.length / OVERLAY_POINTS));
+  const overlay: ProsodyOverlayPoint[] = [];
+  for (let r = 0; r < reference.energy.length; r += step) {
+    overlay.push({
+      timeMs: r * reference.hopMs,
+      referencePitch: reference.pitch[r],
+      learnerPitch: learnerPitchCount[r] > 0 && learnerPitchCount[r] * 2 >= matches[r] ? round1(learnerPitchSum[r] / learnerPitchCount[r]) : null,
+      referenceEnergy: round1(reference.energy[r]),
+      learnerEnergy: round1(learnerEnergy[r] / Math.max(1, matches[r])),
+    });
+  }
+
+  return {
+    similarity: Math.round(100 * Math.exp(-SIMILARITY_DECAY * distance)),
+    distance: Math.round(distance * 1000) / 1000,
+    durationRatio: Math.round(((learnerInput.energy.length * learnerInput.hopMs) / (referenceInput.energy.length * referenceInput.hopMs)) * 100) / 100,
+    overlay,
+  };
+}
@@ -1,4 +1,5 @@
-import { addDays, getDay, format, parseISO, isAfter, isBefore, isToday } from 'date-fns';
+import { addDays, getDay, format, parseISO, isAfter, isBefore, isSameDay, startOfToday } from 'date-fns';
+import { zonedToday } from './timezone';
 
 // Weekday mapping (0 = Sunday, 1 = Monday, etc.)
 const WEEKDAY_MAP: Record<string, number> = {
@@ -27,16 +28,17 @@ export interface LessonDeadline {
  * @param startDate - Student's enrollment start date
  * @param scheduleDays - Array of weekday names (e.g., ["monday", "wednesday", "friday"])
  * @param lessons - Array of lessons with id, lesson_name, order_index
+ * @param timeZone - Learner's timezone that decides which day is "today" (defaults to the browser's)
  * @returns Array of lesson deadlines
  */
 export function calculateLessonDeadlines(
   startDate: string | Date,
   scheduleDays: string[],
-  lessons: Array<{ id: string; lesson_name: string; order_index: number }>
+  lessons: Array<{ id: string; lesson_name: string; order_index: number }>,
+  timeZone?: string
 ): LessonDeadline[] {
   const start = typeof startDate === 'string' ? parseISO(startDate) : startDate;
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const today = timeZone ? zonedToday(timeZone) : startOfToday();
 
   // Sort lessons by order_index
   const sortedLessons = [...lessons].sort((a, b) => a.order_index - b.order_index);
@@ -89,7 +91,7 @@ function createDeadlineInfo(
   deadlineMidnight.setHours(23, 59, 59, 999);
   
   const isPast = isAfter(today, deadlineMidnight);
-  const isTodayDeadline = isToday(deadline);
+  const isTodayDeadline = isSameDay(deadline, today);
   const timeDiff = deadline.getTime() - today.getTime();
   const daysRemaining = Math.ceil(timeDiff / (1000 * 60 * 60 * 24));
 
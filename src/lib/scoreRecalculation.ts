@@ -0,0 +1,329 @@
+import type { CoinConfig } from '@/hooks/useCoinWallet';
+import type { MetricConfig } from './audioAnalysis';
+import { calculateScoreCoins } from './economySimulator';
+import { calculateMastery } from './lessonProgress';
+import { resolveScoringProfile, type ScoringProfile } from './scoringProfile';
+
+/**
+ * Retroactive recalculation
+ * Re-scores past takes from the metrics stored on practice_history with the
+ * active scoring profile and re-derives the base reward with the current
+ * coin config. The plan is a dry run; public.apply_score_recalculation writes it.
+ *
+ * Stored metrics hold raw values for volume (dB), speech rate (WPM), pauses
+ * (ratio), latency (ms), pitch range, prosody similarity and fillers/min, so
+ * those are re-scored against the new thresholds with the curves of
+ * audioAnalysis.ts. Acceleration (endIntensity) and pronunciation are stored
+ * as scores and only re-weighted.
+ */
+
+export interface RecalculationTake {
+  id: string;
+  userId: string;
+  lessonId: string;
+  category: string;
+  itemIndex: number;
+  score: number;
+  metrics: Record<string, number> | null;
+  recordedBase: number; // base reward as settled (coins.base, or coins_earned for older takes)
+  limited: boolean;     // reward was reduced by the anti-farming rules
+}
+
+export interface RecalculationProgress {
+  userId: string;
+  lessonId: string;
+  category: string;
+  itemIndex: number;
+  attempts: number;
+  bestScore: number;
+  masteryLevel: number;
+}
+
+export interface TakeChange {
+  takeId: string;
+  userId: string;
+  lessonId: string;
+  category: string;
+  itemIndex: number;
+  oldScore: number;
+  newScore: number;
+  oldBase: number;
+  newBase: number;
+}
+
+export interface ProgressChange {
+  lessonId: string;
+  category: string;
+  itemIndex: number;
+  oldBest: number;
+  newBest: number;
+  oldMastery: number;
+  newMastery: number;
+}
+
+export interface UserRecalculation {
+  userId: string;
+  takes: TakeChange[];
+  progress: ProgressChange[];
+  scoreChanges: number;
+  coinDelta: number;
+}
+
+export interface RecalculationPlan {
+  users: UserRecalculation[];
+  changes: TakeChange[];
+  totals: {
+    takes: number;
+    skipped: number;      // no usable stored metrics; the stored score is kept
+    missing: Record<string, number>; // skipped takes lacking each required metric
+    scoreChanges: number;
+    coinChanges: number;
+    masteryUp: number;
+    masteryDown: number;
+    coinDelta: number;
+  };
+}
+
+const REQUIRED_METRICS = ['volume', 'speechRate', 'pauses', 'latency'];
+
+// Required metrics a stored take lacks; rescoreTake skips such takes
+export function missingMetrics(metrics: Record<string, number> | null): string[] {
+  return REQUIRED_METRICS.filter((key) => typeof metrics?.[key] !== 'number');
+}
+
+const clampScore = (score: number) => Math.min(100, Math.max(0, Math.round(score)));
+
+// ============ PER-METRIC CURVES (same as analyze* in audioAnalysis.ts) ============
+
+function scoreVolume(db: number, { min, ideal, max }: MetricConfig['thresholds']): number {
+  if (db >= ideal && db <= max) {
+    const midpoint = (ideal + max) / 2;
+    return db <= midpoint
+      ? 90 + ((db - ideal) / (midpoint - ideal)) * 10
+      : 100 - ((db - midpoint) / (max - midpoint)) * 10;
+  }
+  if (db > max) return Math.max(0, 90 - (db - max) * 5);
+  if (db >= min) return ((db - min) / (ideal - min)) * 90;
+  return 0;
+}
+
+function scoreSpeechRate(wpm: number, { min, ideal }: MetricConfig['thresholds']): number {
+  if (wpm <= 0 || wpm < min) return 0;
+  if (wpm < ideal) return ((wpm - min) / (ideal - min)) * 100;
+  return 100;
+}
+
+function scoreResponseTime(ms: number, { min: maxMs, ideal: idealMs }: MetricConfig['thresholds']): number {
+  if (ms <= idealMs) return 100;
+  if (ms <= maxMs) return 100 - ((ms - idealMs) / (maxMs - idealMs)) * 50;
+  return Math.max(0, 50 * (1 - (ms - maxMs) / 3000));
+}
+
+function scorePauses(ratio: number, { max }: MetricConfig['thresholds']): number {
+  return ratio > 0.1 ? Math.max(0, 100 - ((ratio - 0.1) / max) * 100) : 100;
+}
+
+function scoreIntonation(range: number, { min, ideal, max }: MetricConfig['thresholds']): number {
+  if (range < min) return min > 0 ? (range / min) * 40 : 40;
+  if (range < ideal) return 40 + ((range - min) / (ideal - min)) * 60;
+  if (range <= max) return 100;
+  return Math.max(60, 100 - (range - max) * 5);
+}
+
+function scoreProsody(similarity: number, { min, ideal }: MetricConfig['thresholds']): number {
+  if (similarity <= min) return 0;
+  return similarity < ideal ? ((similarity - min) / (ideal - min)) * 100 : 100;
+}
+
+function scoreHesitation(perMinute: number, { ideal, max }: MetricConfig['thresholds']): number {
+  if (perMinute >= max) return 0;
+  return perMinute > ideal ? 100 - ((perMinute - ideal) / (max - ideal)) * 100 : 100;
+}
+
+/**
+ * Overall score of a stored take under `config`, or null when the take has no
+ * usable metrics. Weights are normalized like calculateOverallScore.
+ */
+export function rescoreTake(metrics: Record<string, number> | null, config: MetricConfig[]): number | null {
+  if (missingMetrics(metrics).length > 0) return null;
+
+  // Takes without speech were short-circuited to 0 and saved with a 0 WPM / full pause ratio
+  if (metrics.speechRate <= 0 && metrics.pauses >= 1) return 0;
+
+  const metric = (id: string) => config.find((c) => c.id === id);
+  const thresholds = (id: string) => metric(id)?.thresholds;
+  const weightOf = (id: string) => {
+    const entry = metric(id);
+    return entry && entry.enabled !== false ? Number(entry.weight) || 0 : 0;
+  };
+  const has = (key: string) => typeof metrics[key] === 'number';
+
+  const parts: Array<{ score: number; weight: number; pronunciation?: boolean }> = [
+    { score: thresholds('volume') ? scoreVolume(metrics.volume, thresholds('volume')) : 0, weight: weightOf('volume') },
+    {
+      score: thresholds('speechRate') ? scoreSpeechRate(metrics.speechRate, thresholds('speechRate')) : 0,
+      weight: weightOf('speechRate'),
+    },
+    { score: metrics.endIntensity ?? 0, weight: weightOf('acceleration') },
+    {
+      score: thresholds('responseTime') ? scoreResponseTime(metrics.latency, thresholds('responseTime')) : 0,
+      weight: weightOf('responseTime'),
+    },
+    {
+      score: thresholds('pauseManagement') ? scorePauses(metrics.pauses, thresholds('pauseManagement')) : 0,
+      weight: weightOf('pauseManagement'),
+    },
+  ];
+
+  if (has('intonation')) {
+    const range = thresholds('intonation');
+    parts.push({
+      score: has('pitchRange') && range ? scoreIntonation(metrics.pitchRange, range) : metrics.intonation,
+      weight: weightOf('intonation'),
+    });
+  }
+  if (has('prosody')) {
+    const range = thresholds('prosody');
+    parts.push({
+      score: has('prosodySimilarity') && range ? scoreProsody(metrics.prosodySimilarity, range) : metrics.prosody,
+      weight: weightOf('prosody'),
+    });
+  }
+  if (has('hesitation')) {
+    const range = thresholds('hesitation');
+    parts.push({
+      score: has('fillersPerMinute') && range ? scoreHesitation(metrics.fillersPerMinute, range) : metrics.hesitation,
+      weight: weightOf('hesitation'),
+    });
+  }
+  // Without a transcript the pronunciation weight is spread over the other metrics
+  if (has('pronunciation')) {
+    parts.push({ score: metrics.pronunciation, weight: weightOf('pronunciation'), pronunciation: true });
+  }
+
+  const total = parts.reduce((sum, part) => sum + part.weight, 0);
+  if (total <= 0) return 0;
+
+  return Math.round(parts.reduce((sum, part) => sum + clampScore(part.score) * (part.weight / total), 0));
+}
+
+const itemKey = (userId: string, lessonId: string, category: string, itemIndex: number) =>
+  `${userId}:${lessonId}:${category}:${itemIndex}`;
+
+/**
+ * Dry run: what applying the current scoring profile and coin config to the
+ * given takes would change. Mastery is re-derived for items with a changed
+ * take, from the best score over all of the item's takes, so `takes` must
+ * hold the complete history of every lesson it covers.
+ */
+export function planScoreRecalculation({
+  takes,
+  progress,
+  profile,
+  lessonCourses,
+  config,
+}: {
+  takes: RecalculationTake[];
+  progress: RecalculationProgress[];
+  profile: ScoringProfile;
+  lessonCourses: Record<string, string | null>;
+  config: Partial<CoinConfig>;
+}): RecalculationPlan {
+  const metricsCache = new Map<string, MetricConfig[]>();
+  const metricsFor = (take: RecalculationTake) => {
+    const key = `${take.lessonId}:${take.category}`;
+    if (!metricsCache.has(key)) {
+      const target = { courseId: lessonCourses[take.lessonId] ?? null, lessonId: take.lessonId, category: take.category };
+      metricsCache.set(key, resolveScoringProfile(profile, target).metrics);
+    }
+    return metricsCache.get(key);
+  };
+
+  let skipped = 0;
+  const missing: Record<string, number> = {};
+  const changes: TakeChange[] = [];
+  const bestByItem = new Map<string, number>();
+
+  takes.forEach((take) => {
+    const rescored = rescoreTake(take.metrics, metricsFor(take));
+    if (rescored === null) {
+      skipped++;
+      missingMetrics(take.metrics).forEach((key) => {
+        missing[key] = (missing[key] ?? 0) + 1;
+      });
+    }
+
+    const newScore = rescored ?? take.score;
+    const newBase = take.limited ? take.recordedBase : calculateScoreCoins(newScore, config);
+    const key = itemKey(take.userId, take.lessonId, take.category, take.itemIndex);
+    bestByItem.set(key, Math.max(bestByItem.get(key) ?? 0, newScore));
+
+    if (newScore !== take.score || newBase !== take.recordedBase) {
+      changes.push({
+        takeId: take.id,
+        userId: take.userId,
+        lessonId: take.lessonId,
+        category: take.category,
+        itemIndex: take.itemIndex,
+        oldScore: take.score,
+        newScore,
+        oldBase: take.recordedBase,
+        newBase,
+      });
+    }
+  });
+
+  const progressByItem = new Map(
+    progress.map((row) => [itemKey(row.userId, row.lessonId, row.category, row.itemIndex), row])
+  );
+
+  const users = new Map<string, UserRecalculation>();
+  const touchedItems = new Set<string>();
+  changes.forEach((change) => {
+    if (!users.has(change.userId)) {
+      users.set(change.userId, { userId: change.userId, takes: [], progress: [], scoreChanges: 0, coinDelta: 0 });
+    }
+    const user = users.get(change.userId);
+    user.takes.push(change);
+    if (change.newScore !== change.oldScore) user.scoreChanges++;
+    user.coinDelta += change.newBase - change.oldBase;
+
+    const key = itemKey(change.userId, change.lessonId, change.category, change.itemIndex);
+    if (touchedItems.has(key)) return;
+    touchedItems.add(key);
+
+    const row = progressByItem.get(key);
+    if (!row) return;
+    const newBest = bestByItem.get(key) ?? row.bestScore;
+    const newMastery = calculateMastery(row.attempts, newBest);
+    if (newBest !== row.bestScore || newMastery !== row.masteryLevel) {
+      user.progress.push({
+        lessonId: row.lessonId,
+        category: row.category,
+        itemIndex: row.itemIndex,
+        oldBest: row.bestScore,
+        newBest,
+        oldMastery: row.masteryLevel,
+        newMastery,
+      });
+    }
+  });
+
+  const userList = [...users.values()];
+  const allProgress = userList.flatMap((user) => user.progress);
+
+  return {
+    users: userList.sort((a, b) => Math.abs(b.coinDelta) - Math.abs(a.coinDelta) || b.takes.length - a.takes.length),
+    changes,
+    totals: {
+      takes: takes.length,
+      skipped,
+      missing,
+      scoreChanges: changes.filter((c) => c.newScore !== c.oldScore).length,
+      coinChanges: changes.filter((c) => c.newBase !== c.oldBase).length,
+      masteryUp: allProgress.filter((p) => p.newMastery > p.oldMastery).length,
+      masteryDown: allProgress.filter((p) => p.newMastery < p.oldMastery).length,
+      coinDelta: userList.reduce((sum, user) => sum + user.coinDelta, 0),
+    },
+  };
+}
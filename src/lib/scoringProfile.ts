@@ -0,0 +1,247 @@
+/**
+ * Scoring profile
+ * Metric weights/thresholds come from the active row of `scoring_profiles`
+ * so every device scores against the same, versioned configuration.
+ * The profile is cached in memory; analysis never reads localStorage.
+ *
+ * A profile can carry course / lesson / category overrides. They are applied
+ * field by field on top of the base metrics, least specific first:
+ *   base → course → lesson → category → category within course → category within lesson
+ * Category comes last because it describes the kind of item (Vocab vs Sentence),
+ * which is what thresholds like speech rate and pauses actually depend on.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_METRIC_CONFIG, type MetricConfig } from './audioAnalysis';
+
+export type ScoringScope = 'course' | 'lesson' | 'category';
+
+/** Partial metric entry; only the fields present replace the inherited ones */
+export interface MetricOverride {
+  id: string;
+  weight?: number;
+  enabled?: boolean;
+  thresholds?: Partial<MetricConfig['thresholds']>;
+  method?: MetricConfig['method'];
+}
+
+export interface ScoringOverride {
+  id: string;
+  scope: ScoringScope;
+  course_id?: string | null;
+  lesson_id?: string | null; // category overrides may be narrowed to a course or lesson
+  category?: string | null;
+  metrics: MetricOverride[];
+}
+
+export interface ScoringProfile {
+  id: string | null;      // null for the built-in fallback
+  version: number | null;
+  name: string;
+  metrics: MetricConfig[];
+  overrides: ScoringOverride[];
+}
+
+/** The item being practiced */
+export interface ScoringTarget {
+  courseId?: string | null;
+  lessonId?: string | null;
+  category?: string | null;
+}
+
+export interface ResolvedScoringProfile extends ScoringProfile {
+  appliedOverrides: string[]; // override ids, in the order they were applied
+}
+
+/** What gets stamped onto practice_history */
+export interface ScoringProfileStamp {
+  id: string | null;
+  version: number | null;
+  overrides?: string[]; // ids of the overrides that applied to the item
+}
+
+// Used only when the server cannot be reached; results are stamped with a null version.
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  id: null,
+  version: null,
+  name: 'Built-in defaults',
+  metrics: DEFAULT_METRIC_CONFIG,
+  overrides: [],
+};
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+let cachedProfile: ScoringProfile | null = null;
+let cachedAt = 0;
+let inflight: Promise<ScoringProfile> | null = null;
+
+export async function fetchActiveScoringProfile(): Promise<ScoringProfile> {
+  const { data, error } = await supabase
+    .from('scoring_profiles')
+    .select('id, name, version, metrics, overrides')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return DEFAULT_SCORING_PROFILE;
+
+  return {
+    id: data.id,
+    version: data.version,
+    name: data.name,
+    metrics: (data.metrics as unknown as MetricConfig[]) ?? DEFAULT_SCORING_PROFILE.metrics,
+    overrides: (data.overrides as unknown as ScoringOverride[]) ?? [],
+  };
+}
+
+/** Prime the cache, e.g. from a react-query result */
+export function setActiveScoringProfile(profile: ScoringProfile) {
+  cachedProfile = profile;
+  cachedAt = Date.now();
+}
+
+/** Synchronous read of the cached profile (defaults until loaded) */
+export function getActiveScoringProfile(): ScoringProfile {
+  return cachedProfile ?? DEFAULT_SCORING_PROFILE;
+}
+
+export function invalidateScoringProfile() {
+  cachedProfile = null;
+  cachedAt = 0;
+}
+
+/**
+ * Resolve the active profile, refetching when the cache is stale.
+ * Falls back to the last cached profile (or defaults) if the fetch fails.
+ */
+export async function loadActiveScoringProfile(): Promise<ScoringProfile> {
+  if (cachedProfile && Date.now() - cachedAt < CACHE_TTL_MS) return cachedProfile;
+
+  if (!inflight) {
+    inflight = fetchActiveScoringProfile()
+      .then((profile) => {
+        setActiveScoringProfile(profile);
+        console.log(`📐 Scoring profile v${profile.version ?? '-'} (${profile.name}) loaded`);
+        return profile;
+      })
+      .catch((error) => {
+        console.warn('⚠️ Failed to load scoring profile, using cached/defaults:', error);
+        return getActiveScoringProfile();
+      })
+      .finally(() => {
+        inflight = null;
+      });
+  }
+  return inflight;
+}
+
+export function toScoringProfileStamp(profile: ScoringProfile | ResolvedScoringProfile): ScoringProfileStamp {
+  const applied = 'appliedOverrides' in profile ? profile.appliedOverrides : [];
+  return { id: profile.id, version: profile.version, overrides: applied };
+}
+
+// ============ OVERRIDE RESOLUTION ============
+
+function specificity(override: ScoringOverride): number {
+  switch (override.scope) {
+    case 'course':
+      return 1;
+    case 'lesson':
+      return 2;
+    case 'category':
+      return override.lesson_id ? 5 : override.course_id ? 4 : 3;
+    default:
+      return 0;
+  }
+}
+
+export function overrideMatches(override: ScoringOverride, target: ScoringTarget): boolean {
+  switch (override.scope) {
+    case 'course':
+      return !!target.courseId && override.course_id === target.courseId;
+    case 'lesson':
+      return !!target.lessonId && override.lesson_id === target.lessonId;
+    case 'category':
+      if (!target.category || override.category !== target.category) return false;
+      if (override.lesson_id) return override.lesson_id === target.lessonId;
+      if (override.course_id) return override.course_id === target.courseId;
+      return true;
+    default:
+      return false;
+  }
+}
+
+export function applyMetricOverrides(metrics: MetricConfig[], overrides: MetricOverride[]): MetricConfig[] {
+  return metrics.map((metric) => {
+    const patch = overrides.find((o) => o.id === metric.id);
+    if (!patch) return metric;
+    return {
+      ...metric,
+      ...(patch.weight !== undefined ? { weight: patch.weight } : {}),
+      ...(patch.enabled !== undefined ? { enabled: patch.enabled } : {}),
+      ...(patch.method !== undefined ? { method: patch.method } : {}),
+      thresholds: { ...metric.thresholds, ...(patch.thresholds ?? {}) },
+    };
+  });
+}
+
+/**
+ * Merge every override matching the target onto the base metrics.
+ * `excludeOverrideId` resolves what an override would inherit (used by the admin editor).
+ */
+export function resolveScoringProfile(
+  profile: ScoringProfile,
+  target: ScoringTarget,
+  excludeOverrideId?: string,
+): ResolvedScoringProfile {
+  const matching = profile.overrides
+    .filter((o) => o.id !== excludeOverrideId && overrideMatches(o, target))
+    .sort((a, b) => specificity(a) - specificity(b));
+
+  const metrics = matching.reduce((acc, o) => applyMetricOverrides(acc, o.metrics), profile.metrics);
+
+  return { ...profile, metrics, appliedOverrides: matching.map((o) => o.id) };
+}
+
+/** Re-apply the overrides recorded on a stamp (same profile version only) */
+export function metricsForStamp(profile: ScoringProfile, stamp?: ScoringProfileStamp): MetricConfig[] {
+  if (!stamp?.overrides?.length || stamp.version !== profile.version) return profile.metrics;
+  return stamp.overrides
+    .map((id) => profile.overrides.find((o) => o.id === id))
+    .filter((o): o is ScoringOverride => !!o)
+    .reduce((acc, o) => applyMetricOverrides(acc, o.metrics), profile.metrics);
+}
+
+const lessonCourseCache = new Map<string, string | null>();
+
+/** Fill in the course of a lesson when course overrides exist but the caller only knows the lesson */
+async function completeTarget(profile: ScoringProfile, target: ScoringTarget): Promise<ScoringTarget> {
+  if (target.courseId || !target.lessonId) return target;
+  if (!profile.overrides.some((o) => o.course_id)) return target;
+
+  if (!lessonCourseCache.has(target.lessonId)) {
+    const { data, error } = await supabase
+      .from('lessons')
+      .select('course_id')
+      .eq('id', target.lessonId)
+      .maybeSingle();
+    if (error) {
+      console.warn('⚠️ Could not look up lesson course for scoring overrides:', error);
+      return target;
+    }
+    lessonCourseCache.set(target.lessonId, data?.course_id ?? null);
+  }
+  return { ...target, courseId: lessonCourseCache.get(target.lessonId) };
+}
+
+/** Load the active profile and resolve it for the item being practiced */
+export async function loadScoringProfileFor(target?: ScoringTarget): Promise<ResolvedScoringProfile> {
+  const profile = await loadActiveScoringProfile();
+  if (!target) return { ...profile, appliedOverrides: [] };
+
+  const resolved = resolveScoringProfile(profile, await completeTarget(profile, target));
+  if (resolved.appliedOverrides.length) {
+    console.log(`📐 Scoring overrides applied for ${target.category ?? '-'}:`, resolved.appliedOverrides);
+  }
+  return resolved;
+}
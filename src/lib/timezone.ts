@@ -0,0 +1,48 @@
+// Calendar-day helpers for a learner's IANA timezone. Practice days, streaks and
+// deadlines are counted in the profile timezone (the server falls back to UTC),
+// not in whatever timezone the browser or toISOString() happens to use.
+
+export function getBrowserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * All IANA timezones the browser knows, for pickers
+ */
+export function listTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf?.('timeZone') ?? [];
+  return zones.length > 0 ? zones : [getBrowserTimeZone()];
+}
+
+/**
+ * Calendar day of `date` in `timeZone` as yyyy-MM-dd (the format of the
+ * date columns, e.g. daily_streaks.last_practice_date)
+ */
+export function toDateKey(date: Date | string, timeZone: string): string {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  // en-CA formats dates as yyyy-MM-dd
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(d);
+}
+
+export function todayKey(timeZone: string): string {
+  return toDateKey(new Date(), timeZone);
+}
+
+/**
+ * Today in `timeZone` as a local-midnight Date, so it can be compared with
+ * dates parsed from yyyy-MM-dd strings (parseISO) and used with date-fns
+ */
+export function zonedToday(timeZone: string): Date {
+  const [year, month, day] = todayKey(timeZone).split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
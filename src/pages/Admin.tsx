@@ -9,6 +9,9 @@ import {
   ArrowLeft,
   Activity,
   CalendarDays,
+  HandCoins,
+  ShoppingBag,
+  Award,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import CourseManagement from "@/components/admin/CourseManagement";
@@ -16,6 +19,9 @@ import ClassManagement from "@/components/admin/ClassManagement";
 import LessonManagement from "@/components/admin/LessonManagement";
 import UserManagement from "@/components/admin/UserManagement";
 import CoinConfigPanel from "@/components/admin/CoinConfigPanel";
+import RedemptionQueue from "@/components/admin/RedemptionQueue";
+import ShopManagement from "@/components/admin/ShopManagement";
+import BadgeManagement from "@/components/admin/BadgeManagement";
 import MetricsTab from "@/components/admin/MetricsTab";
 import { ThemeToggle } from "@/components/ui/ThemeToggle";
 import { LearnerLayout } from "@/components/layout/LearnerLayout";
@@ -83,6 +89,18 @@ const Admin: React.FC = () => {
             <Coins className="w-4 h-4" />
             Coins
           </TabsTrigger>
+          <TabsTrigger value="redemptions" className={tabTriggerClass}>
+            <HandCoins className="w-4 h-4" />
+            Redemptions
+          </TabsTrigger>
+          <TabsTrigger value="shop" className={tabTriggerClass}>
+            <ShoppingBag className="w-4 h-4" />
+            Shop
+          </TabsTrigger>
+          <TabsTrigger value="badges" className={tabTriggerClass}>
+            <Award className="w-4 h-4" />
+            Badges
+          </TabsTrigger>
           <TabsTrigger value="scoring" className={tabTriggerClass}>
             <Activity className="w-4 h-4" />
             Scoring
@@ -109,6 +127,18 @@ const Admin: React.FC = () => {
           <CoinConfigPanel />
         </TabsContent>
 
+        <TabsContent value="redemptions" className="mt-0">
+          <RedemptionQueue />
+        </TabsContent>
+
+        <TabsContent value="shop" className="mt-0">
+          <ShopManagement />
+        </TabsContent>
+
+        <TabsContent value="badges" className="mt-0">
+          <BadgeManagement />
+        </TabsContent>
+
         <TabsContent value="scoring" className="mt-0">
           <MetricsTab />
         </TabsContent>
@@ -9,6 +9,7 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { useEnrollments, useCourseLessons } from "@/hooks/useCourses";
 import { useProgressStats } from "@/hooks/useProgressStats";
+import { useTimeZone } from "@/hooks/useUserData";
 import { formatScheduleDays, calculateLessonDeadlines, getDeadlineStatus } from "@/lib/scheduleUtils";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
@@ -25,12 +26,15 @@ const Courses = () => {
   
   const { data: lessons, isLoading: lessonsLoading } = useCourseLessons(selectedCourse?.id || null);
 
+  const timeZone = useTimeZone();
+
   // Calculate deadlines based on class schedule (or enrollment start_date)
   const lessonDeadlines = selectedEnrollment && lessons 
     ? calculateLessonDeadlines(
         selectedClass?.start_date || selectedEnrollment.start_date || new Date().toISOString(),
         selectedClass?.schedule_days || ['monday', 'wednesday', 'friday'],
-        lessons.map(l => ({ id: l.id, lesson_name: l.lesson_name, order_index: l.order_index }))
+        lessons.map(l => ({ id: l.id, lesson_name: l.lesson_name, order_index: l.order_index })),
+        timeZone
       )
     : null;
 
@@ -17,7 +17,7 @@ import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/context/AuthContext";
-import { useProfile } from "@/hooks/useUserData";
+import { useProfile, useTimeZone } from "@/hooks/useUserData";
 import { useEnrollments, useCourseLessons } from "@/hooks/useCourses";
 import { useUserStats } from "@/hooks/usePractice";
 import { useProgressStats } from "@/hooks/useProgressStats";
@@ -40,12 +40,15 @@ const Index = () => {
 
   const { data: lessons, isLoading: lessonsLoading } = useCourseLessons(enrolledCourse?.id || null);
 
+  const timeZone = useTimeZone();
+
   // Calculate deadlines based on class schedule
   const lessonDeadlines = firstEnrollment && lessons 
     ? calculateLessonDeadlines(
         enrolledClass?.start_date || firstEnrollment.start_date || new Date().toISOString(),
         enrolledClass?.schedule_days || ['monday', 'wednesday', 'friday'],
-        lessons.map(l => ({ id: l.id, lesson_name: l.lesson_name, order_index: l.order_index }))
+        lessons.map(l => ({ id: l.id, lesson_name: l.lesson_name, order_index: l.order_index })),
+        timeZone
       )
     : null;
 
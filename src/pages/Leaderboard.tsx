@@ -1,12 +1,13 @@
 ﻿import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Trophy, Medal, Award, Crown, Loader2, ArrowUp, ArrowDown, Sparkles, Radio, RefreshCw, Users } from "lucide-react";
+import { Trophy, Medal, Award, Crown, Loader2, ArrowUp, ArrowDown, Sparkles, Radio, RefreshCw, Users, PiggyBank } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { LearnerLayout } from "@/components/layout/LearnerLayout";
+import { ClassCoinsPanel } from "@/components/profile/ClassCoinsPanel";
 import { useRealtimeLeaderboard } from "@/hooks/useRealtimeLeaderboard";
 import { useStreakLeaderboard } from "@/hooks/useStreak";
 import { useCourseLeaderboard, useClassLeaderboard, useUserEnrolledClass } from "@/hooks/useCourseLeaderboard";
@@ -142,7 +143,7 @@ const Leaderboard = () => {
 
           {/* Tabs for different leaderboards */}
           <Tabs defaultValue="score" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className={`grid w-full ${classId ? "grid-cols-3" : "grid-cols-2"}`}>
               <TabsTrigger value="score" className="gap-2">
                 <Trophy className="w-4 h-4" />
                 Total Score
@@ -151,6 +152,12 @@ const Leaderboard = () => {
                 <Sparkles className="w-4 h-4" />
                 Streaks
               </TabsTrigger>
+              {classId && (
+                <TabsTrigger value="class" className="gap-2">
+                  <PiggyBank className="w-4 h-4" />
+                  Class Coins
+                </TabsTrigger>
+              )}
             </TabsList>
 
             <TabsContent value="score" className="space-y-4">
@@ -317,6 +324,12 @@ const Leaderboard = () => {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            {classId && (
+              <TabsContent value="class">
+                <ClassCoinsPanel classId={classId} members={classLeaderboard || []} />
+              </TabsContent>
+            )}
           </Tabs>
     </LearnerLayout>
   );
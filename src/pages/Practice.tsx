@@ -1,4 +1,4 @@
-﻿import { useState, useEffect } from "react";
+﻿import { useState, useEffect, useRef } from "react";
 import { useSearchParams, Link } from "react-router-dom";
 import { motion } from "framer-motion";
 import { 
@@ -31,17 +31,18 @@ import { LessonGridView } from "@/components/practice/LessonGridView";
 import { LessonCalendarView } from "@/components/practice/LessonCalendarView";
 import { LessonWeekView } from "@/components/practice/LessonWeekView";
 import { useEnrollments, useCourseLessons, Lesson } from "@/hooks/useCourses";
-import { useAudioRecorder } from "@/hooks/useAudioRecorder";
+import { RECORDING_AUDIO_CONSTRAINTS, useAudioRecorder } from "@/hooks/useAudioRecorder";
+import { useRealtimeAudio } from "@/hooks/useRealtimeAudio";
 import { useTextToSpeech } from "@/hooks/useTextToSpeech";
-import { usePracticeIngest, useSavePractice, useUserProgress } from "@/hooks/usePractice";
-import { analyzeAudioAsync, AnalysisResult } from "@/lib/audioAnalysis";
-import { useCoinConfig } from "@/hooks/useCoinWallet";
-import { useWallet } from "@/hooks/useUserData";
+import { formatSettlementBonuses, formatSettlementLimits, getSettlementCoinChange, usePracticeIngest, useSavePractice, useUserProgress, type PracticeTake } from "@/hooks/usePractice";
+import { useActiveScoringProfile } from "@/hooks/useScoringProfile";
+import { useReferenceAudio } from "@/hooks/useReferenceAudio";
+import type { AnalysisResult } from "@/lib/audioAnalysis";
+import { analyzeAudioAsync } from "@/lib/audioAnalysisWorker";
+import { fingerprintAudio } from "@/lib/audioFingerprint";
+import { useTimeZone, useWallet } from "@/hooks/useUserData";
 import { useProgressStats } from "@/hooks/useProgressStats";
 import { calculateLessonDeadlines } from "@/lib/scheduleUtils";
-import { calculateLessonProgress, getMilestoneBonus, getFirstTimePracticeBonus, calculateStreakBonus } from "@/lib/lessonProgress";
-import { calculateDeadlineReward } from "@/lib/deadlineRewards";
-import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 
@@ -53,7 +54,6 @@ const Practice = () => {
   
   const { data: enrollments } = useEnrollments();
   const { data: wallet } = useWallet();
-  const { data: coinConfig } = useCoinConfig();
   const { data: progressStats } = useProgressStats();
   
   const enrolledCourseIds = enrollments?.map(e => e.course_id) || [];
@@ -72,21 +72,37 @@ const Practice = () => {
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [coinChange, setCoinChange] = useState<number | null>(null);
   const [bonusMessage, setBonusMessage] = useState<string | null>(null);
+  const [rewardLimits, setRewardLimits] = useState<string[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
   const recorder = useAudioRecorder();
+  const live = useRealtimeAudio(recorder.isRecording, {
+    constraints: RECORDING_AUDIO_CONSTRAINTS,
+    liveAnalysis: {
+      scoringTarget: selectedLesson
+        ? { courseId: selectedLesson.course_id, lessonId: selectedLesson.id, category: activeCategory }
+        : undefined,
+    },
+  });
   const tts = useTextToSpeech();
   const savePractice = useSavePractice();
+  // Settlement key of the take on screen; a late retry of an older take must not update it
+  const currentTakeKey = useRef<string | null>(null);
   const practiceIngest = usePracticeIngest();
+  useActiveScoringProfile(); // warm the scoring profile cache before the first take
 
   const { data: lessonProgress } = useUserProgress(selectedLesson?.id);
+  const { data: referenceAudio } = useReferenceAudio(selectedLesson?.id, activeCategory, currentItemIndex);
+
+  const timeZone = useTimeZone();
 
   // Calculate deadlines based on class schedule
   const lessonDeadlines = firstEnrollment && lessons 
     ? calculateLessonDeadlines(
         enrolledClass?.start_date || firstEnrollment.start_date || new Date().toISOString(),
         enrolledClass?.schedule_days || ['monday', 'wednesday', 'friday'],
-        lessons.map(l => ({ id: l.id, lesson_name: l.lesson_name, order_index: l.order_index }))
+        lessons.map(l => ({ id: l.id, lesson_name: l.lesson_name, order_index: l.order_index })),
+        timeZone
       )
     : null;
 
@@ -212,11 +228,39 @@ const Practice = () => {
     }
   };
 
+  // Settles a scored take. When that fails the toast offers a retry of the
+  // same take, with the same settlement key, so it is never paid twice.
+  const settleTake = async (take: PracticeTake) => {
+    try {
+      const settlement = await savePractice.mutateAsync(take);
+      if (currentTakeKey.current !== take.settlementKey) return;
+
+      // The server scores the metrics itself; its score is the one recorded
+      setAnalysisResult((current) =>
+        current && current.overallScore !== settlement.score ? { ...current, overallScore: settlement.score } : current
+      );
+      setCoinChange(getSettlementCoinChange(settlement));
+      setRewardLimits(formatSettlementLimits(settlement));
+
+      const bonusMessages = formatSettlementBonuses(settlement);
+      if (bonusMessages.length > 0) {
+        setBonusMessage(bonusMessages.join('\n'));
+      }
+    } catch (error: unknown) {
+      console.error("Error saving practice:", error);
+      const message = error instanceof Error ? error.message : "Failed to save practice";
+      toast.error(`Your take was analyzed, but saving it failed: ${message}`, {
+        action: { label: "Retry", onClick: () => void settleTake(take) },
+      });
+    }
+  };
+
   const handleStopRecording = async () => {
     if (!selectedLesson || !currentItem) return;
     
     setIsAnalyzing(true);
     setBonusMessage(null);
+    setRewardLimits([]);
     
     try {
       const audioData = await recorder.stopRecording();
@@ -225,6 +269,12 @@ const Practice = () => {
         throw new Error("No audio recorded");
       }
 
+      // One settlement key per take, kept for any retry of it
+      const settlementKey = crypto.randomUUID();
+      currentTakeKey.current = settlementKey;
+      // Fingerprint before analysis: the worker takes over (detaches) the sample buffer
+      const audioFingerprint = fingerprintAudio(audioData.audioBuffer, audioData.sampleRate);
+
       // Use local audio analysis with Supabase scoring config
       const result = await analyzeAudioAsync(
         audioData.audioBuffer,
@@ -233,44 +283,20 @@ const Practice = () => {
         undefined,
         undefined,
         undefined,
-        audioData.audioBlob ?? undefined
+        audioData.audioBlob ?? undefined,
+        currentItem.English,
+        { courseId: selectedLesson.course_id, lessonId: selectedLesson.id, category: activeCategory },
+        { referenceEnvelope: referenceAudio?.envelope }
       );
 
       setAnalysisResult(result);
-
-      // Calculate base coin reward/penalty
-      const score = result.overallScore;
-      let coins = 0;
-      const bonusMessages: string[] = [];
-      
-      if (coinConfig) {
-        const rewardThreshold = coinConfig.reward_score_threshold ?? 70;
-        const penaltyThreshold = coinConfig.penalty_score_threshold ?? 50;
-        const rewardMin = coinConfig.reward_min ?? 0;
-        const rewardMax = coinConfig.reward_max ?? rewardMin;
-        const penaltyMin = coinConfig.penalty_min ?? 0;
-        const penaltyMax = coinConfig.penalty_max ?? penaltyMin;
-
-        if (score >= rewardThreshold) {
-          coins = Math.round(
-            rewardMin +
-            ((score - rewardThreshold) / Math.max(1, 100 - rewardThreshold)) * (rewardMax - rewardMin)
-          );
-        } else if (score < penaltyThreshold) {
-          coins = -Math.round(
-            penaltyMin +
-            ((penaltyThreshold - score) / Math.max(1, penaltyThreshold)) * (penaltyMax - penaltyMin)
-          );
-        }
-      } else {
-        coins = score >= 70 ? Math.floor(score / 10) : (score < 50 ? -5 : 0);
-      }
-      coins = Number.isFinite(coins) ? coins : 0;
+      live.converge(result);
 
       const legacyPause = (result as unknown as { pauseManagement?: { pauseCount?: number; maxPauseDuration?: number; pauseRatio?: number } }).pauseManagement;
       const pauseRatio = result.pauses?.pauseRatio ?? legacyPause?.pauseRatio ?? 0;
-      const pauseCount = legacyPause?.pauseCount ?? Math.max(0, Math.round(pauseRatio * 10));
-      const longestPause = legacyPause?.maxPauseDuration ? Math.round(legacyPause.maxPauseDuration * 1000) : 0;
+      const pauseMap = result.pauses?.map;
+      const pauseCount = pauseMap?.pauseCount ?? legacyPause?.pauseCount ?? Math.max(0, Math.round(pauseRatio * 10));
+      const longestPause = pauseMap?.longestPauseMs ?? (legacyPause?.maxPauseDuration ? Math.round(legacyPause.maxPauseDuration * 1000) : 0);
 
       // Save normalized backend records (take/transcript/score)
       if (audioData.audioBlob) {
@@ -289,126 +315,33 @@ const Practice = () => {
               endIntensity: result.acceleration.score,
             },
             scoreOnServer: true,
+            fillerWords: !!result.hesitation,
           });
         } catch (e) {
           console.warn('practice-ingest failed, continuing with local save:', e);
         }
       }
 
-      // Save legacy practice history (coins/progress)
-      await savePractice.mutateAsync({
+      // Settle the take (score, progress, coins, bonuses, streak, badges) in one server transaction
+      await settleTake({
+        settlementKey,
         lessonId: selectedLesson.id,
         category: activeCategory,
         itemIndex: currentItemIndex,
-        score,
-        coinsEarned: coins,
         metrics: {
           volume: result.volume.averageDb,
           speechRate: result.speechRate.wordsPerMinute,
           pauses: pauseRatio,
           latency: result.responseTime.responseTimeMs,
           endIntensity: result.acceleration.score,
-        }
+          ...(result.pronunciation ? { pronunciation: result.pronunciation.score } : {}),
+          ...(result.intonation ? { intonation: result.intonation.score, pitchRange: result.intonation.rangeSemitones } : {}),
+          ...(result.prosody ? { prosody: result.prosody.score, prosodySimilarity: result.prosody.similarity } : {}),
+          ...(result.hesitation ? { hesitation: result.hesitation.score, fillersPerMinute: result.hesitation.perMinute } : {}),
+        },
+        audioFingerprint,
       });
 
-      // Calculate bonuses AFTER saving (so progress is updated)
-      let totalBonusCoins = 0;
-
-      // 1. First-time practice bonus
-      const currentProgress = lessonProgress?.find(
-        p => p.category === activeCategory && p.item_index === currentItemIndex
-      );
-      const firstTimeBonus = getFirstTimePracticeBonus(
-        currentProgress?.attempts || 1,
-        coinConfig
-      );
-      if (firstTimeBonus > 0) {
-        totalBonusCoins += firstTimeBonus;
-        bonusMessages.push(`🎁 First Practice: +${firstTimeBonus}`);
-      }
-
-      // 2. Lesson milestone bonus (25%, 50%, 75%, 100%)
-      if (lessonProgress && selectedLesson) {
-        const progressStats = calculateLessonProgress(selectedLesson, lessonProgress);
-        
-        if (progressStats.milestoneAchieved) {
-          const milestone = getMilestoneBonus(progressStats.milestoneAchieved, coinConfig);
-          if (milestone) {
-            totalBonusCoins += milestone.bonusCoins;
-            bonusMessages.push(`${milestone.icon} ${milestone.label}: +${milestone.bonusCoins}`);
-            
-            // 2b. Check for deadline bonus/penalty when reaching milestones
-            const lessonDeadline = lessonDeadlines?.find(d => d.lessonId === selectedLesson.id);
-            if (lessonDeadline && progressStats.completionPercent >= 80) {
-              const deadlineReward = calculateDeadlineReward(
-                lessonDeadline,
-                progressStats.completionPercent,
-                coinConfig
-              );
-              
-              if (deadlineReward.type === 'bonus') {
-                totalBonusCoins += deadlineReward.amount;
-                bonusMessages.push(`${deadlineReward.icon} ${deadlineReward.message}: +${deadlineReward.amount}`);
-              } else if (deadlineReward.type === 'penalty') {
-                totalBonusCoins -= deadlineReward.amount;
-                bonusMessages.push(`${deadlineReward.icon} ${deadlineReward.message}: -${deadlineReward.amount}`);
-              }
-            }
-          }
-        }
-      }
-
-      // 3. Streak bonus (consecutive high scores)
-      const recentScores = lessonProgress
-        ?.filter(p => p.lesson_id === selectedLesson.id)
-        .sort((a, b) => new Date(b.last_practiced_at || '').getTime() - new Date(a.last_practiced_at || '').getTime())
-        .slice(0, 10)
-        .map(p => p.best_score) || [];
-      
-      recentScores.unshift(score); // Add current score
-      
-      const streakBonus = calculateStreakBonus(recentScores, coinConfig);
-      if (streakBonus) {
-        totalBonusCoins += streakBonus.bonusCoins;
-        bonusMessages.push(`🔥 ${streakBonus.label}: +${streakBonus.bonusCoins}`);
-      }
-
-      // Update wallet with bonus coins (positive or negative)
-      if (totalBonusCoins !== 0) {
-        const currentUser = (await supabase.auth.getUser()).data.user;
-        if (currentUser) {
-          const newBalance = Math.max(0, (wallet?.balance || 0) + totalBonusCoins);
-          const { error: bonusError } = await supabase
-            .from('user_wallets')
-            .update({
-              balance: newBalance,
-              total_earned: totalBonusCoins > 0 ? (wallet?.total_earned || 0) + totalBonusCoins : wallet?.total_earned || 0,
-              total_spent: totalBonusCoins < 0 ? (wallet?.total_spent || 0) + Math.abs(totalBonusCoins) : wallet?.total_spent || 0
-            })
-            .eq('user_id', currentUser.id);
-
-          if (!bonusError) {
-            await supabase
-              .from('coin_transactions')
-              .insert({
-                user_id: currentUser.id,
-                amount: totalBonusCoins,
-                transaction_type: totalBonusCoins > 0 ? 'bonus' : 'penalty',
-                description: bonusMessages.join(' • '),
-                reference_id: selectedLesson.id
-              });
-          }
-        }
-      }
-
-      // Set final coin change (base + bonuses)
-      const finalCoinChange = Number.isFinite(coins + totalBonusCoins) ? coins + totalBonusCoins : 0;
-      setCoinChange(finalCoinChange);
-      
-      if (bonusMessages.length > 0) {
-        setBonusMessage(bonusMessages.join('\n'));
-      }
-
     } catch (error: unknown) {
       console.error("Error analyzing speech:", error);
       const message = error instanceof Error ? error.message : "Failed to analyze speech";
@@ -428,6 +361,7 @@ const Practice = () => {
       setAnalysisResult(null);
       setCoinChange(null);
       setBonusMessage(null);
+      setRewardLimits([]);
       recorder.resetRecording();
     } else {
       toast.success("Category complete! 🎉");
@@ -440,6 +374,7 @@ const Practice = () => {
       setAnalysisResult(null);
       setCoinChange(null);
       setBonusMessage(null);
+      setRewardLimits([]);
       recorder.resetRecording();
     }
   };
@@ -448,6 +383,7 @@ const Practice = () => {
     setAnalysisResult(null);
     setCoinChange(null);
     setBonusMessage(null);
+    setRewardLimits([]);
     recorder.resetRecording();
   };
 
@@ -881,6 +817,7 @@ const Practice = () => {
                         <PracticeCameraFeed
                           isRecording={recorder.isRecording}
                           audioLevel={recorder.getAudioLevel()}
+                          liveCue={live.liveEstimate?.cue}
                           onTap={() => {
                             if (isAnalyzing) return;
                             if (recorder.isRecording) {
@@ -897,6 +834,7 @@ const Practice = () => {
                           <RecordingWaveform
                             getAudioLevel={recorder.getAudioLevel}
                             isActive={recorder.isRecording}
+                            estimate={live.liveEstimate}
                           />
                           <Button 
                             size="lg" 
@@ -940,6 +878,8 @@ const Practice = () => {
                       <ResultsView
                         result={analysisResult}
                         coinChange={coinChange}
+                        rewardLimits={rewardLimits}
+                        audioUrl={recorder.audioUrl}
                         onRetry={handleRetry}
                       />
 
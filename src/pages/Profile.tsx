@@ -17,29 +17,34 @@ import {
   X,
   BookOpen,
   TrendingUp,
-  CalendarDays
+  CalendarDays,
+  Globe
 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { CoinBadge } from "@/components/ui/CoinBadge";
 import { StreakDisplay } from "@/components/ui/StreakDisplay";
 import { PracticeHeatmap } from "@/components/ui/PracticeHeatmap";
 import { BadgeCard } from "@/components/ui/BadgeCard";
 import { LearnerLayout } from "@/components/layout/LearnerLayout";
-import { useProfile, useWallet } from "@/hooks/useUserData";
+import { RedemptionCard } from "@/components/profile/RedemptionCard";
+import { CoinExpiryNotice } from "@/components/profile/CoinExpiryNotice";
+import { useProfile, useTimeZone, useWallet } from "@/hooks/useUserData";
 import { useUserStats, usePracticeHistory } from "@/hooks/usePractice";
-import { useCoinTransactions } from "@/hooks/useCoinWallet";
+import { BONUS_ENTRY_KINDS, COIN_ENTRY_KIND_LABELS, SPEND_ENTRY_KINDS, useCoinTransactions } from "@/hooks/useCoinWallet";
 import { useUserRank } from "@/hooks/useLeaderboard";
 import { useStreak } from "@/hooks/useStreak";
-import { useAllBadges, useUserBadges } from "@/hooks/useBadges";
+import { useAllBadges, useBadgeProgress, useUserBadges } from "@/hooks/useBadges";
 import { useAuth } from "@/context/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { formatDistanceToNow, format, startOfWeek, endOfWeek, isWithinInterval, subDays, startOfDay } from "date-fns";
+import { listTimeZones } from "@/lib/timezone";
+import { formatDistanceToNow, format, startOfWeek, endOfWeek, isWithinInterval, subDays, startOfDay, parseISO } from "date-fns";
 
 const Profile = () => {
   const { user } = useAuth();
@@ -49,21 +54,56 @@ const Profile = () => {
   const { data: practiceHistory } = usePracticeHistory();
   const { data: transactions } = useCoinTransactions();
   const { data: userRank } = useUserRank(user?.id);
-  const { data: streak } = useStreak();
+  const { data: streak, refetch: refetchStreak } = useStreak();
   const { data: allBadges } = useAllBadges();
   const { data: userBadges } = useUserBadges();
+  const { data: badgeProgress } = useBadgeProgress();
 
   const [isEditing, setIsEditing] = useState(false);
   const [displayName, setDisplayName] = useState(profile?.display_name || "");
+  const timeZone = useTimeZone();
+  const [timeZoneInput, setTimeZoneInput] = useState(timeZone);
+  const timeZones = useMemo(() => {
+    const zones = listTimeZones();
+    return zones.includes(timeZoneInput) ? zones : [timeZoneInput, ...zones];
+  }, [timeZoneInput]);
   const [isSaving, setIsSaving] = useState(false);
 
   // Filter states
   const [historyFilter, setHistoryFilter] = useState<'all' | 'today' | 'week' | 'month'>('all');
   const [selectedLesson, setSelectedLesson] = useState<string | null>(null);
-  const [coinFilter, setCoinFilter] = useState<'all' | 'earned' | 'spent' | 'bonus' | 'penalty'>('all');
+  const [coinFilter, setCoinFilter] = useState<'all' | 'earned' | 'spent' | 'bonus' | 'penalty' | 'expired'>('all');
 
   const earnedBadgeIds = new Set(userBadges?.map(ub => ub.badge_id));
 
+  // One entry per badge, except tiered badges: one per group, showing the
+  // held tier (with progress to the next) or else the first tier
+  const badgeCollection = useMemo(() => {
+    const held = new Map((userBadges || []).map(ub => [ub.badge_id, ub]));
+    const seenGroups = new Set<string>();
+
+    return (allBadges || []).flatMap((badge) => {
+      if (!badge.tier_group) {
+        return [{ badge, userBadge: held.get(badge.id), progress: badgeProgress?.[badge.id] }];
+      }
+      if (seenGroups.has(badge.tier_group)) return [];
+      seenGroups.add(badge.tier_group);
+
+      const tiers = allBadges!
+        .filter(b => b.tier_group === badge.tier_group)
+        .sort((a, b) => (a.tier ?? 0) - (b.tier ?? 0));
+      const heldTier = tiers.filter(b => held.has(b.id)).pop();
+      const nextTier = tiers.find(b => (b.tier ?? 0) > (heldTier?.tier ?? 0));
+      const shown = heldTier || nextTier!;
+
+      return [{
+        badge: shown,
+        userBadge: heldTier && held.get(heldTier.id),
+        progress: nextTier && badgeProgress?.[nextTier.id],
+      }];
+    });
+  }, [allBadges, userBadges, badgeProgress]);
+
   // Get unique lessons from practice history
   const uniqueLessons = useMemo(() => {
     if (!practiceHistory) return [];
@@ -106,28 +146,30 @@ const Profile = () => {
     return filtered;
   }, [practiceHistory, historyFilter, selectedLesson]);
 
-  // Filter coin transactions
+  // Filter coin transactions (older rows only have transaction_type 'bonus'/'penalty')
   const filteredTransactions = useMemo(() => {
     if (!transactions) return [];
+
+    const isBonus = (t: (typeof transactions)[number]) =>
+      t.amount > 0 && (BONUS_ENTRY_KINDS.includes(t.entry_kind) || t.transaction_type === 'bonus');
     
     if (coinFilter === 'all') return transactions;
     if (coinFilter === 'earned') {
-      return transactions.filter(t => 
-        t.transaction_type === 'practice' || 
-        (t.amount > 0 && !['bonus', 'penalty', 'purchase'].includes(t.transaction_type))
-      );
+      return transactions.filter(t => t.amount > 0 && !isBonus(t));
     }
     if (coinFilter === 'spent') {
-      return transactions.filter(t => 
-        t.transaction_type === 'purchase' || 
-        t.amount < 0
-      );
+      return transactions.filter(t => t.amount < 0);
     }
     if (coinFilter === 'bonus') {
-      return transactions.filter(t => t.transaction_type === 'bonus');
+      return transactions.filter(isBonus);
     }
     if (coinFilter === 'penalty') {
-      return transactions.filter(t => t.transaction_type === 'penalty' || (t.amount < 0 && t.transaction_type !== 'purchase'));
+      return transactions.filter(t =>
+        t.amount < 0 && t.entry_kind !== 'admin_adjustment' && t.entry_kind !== 'expiry' && !SPEND_ENTRY_KINDS.includes(t.entry_kind)
+      );
+    }
+    if (coinFilter === 'expired') {
+      return transactions.filter(t => t.entry_kind === 'expiry');
     }
     
     return transactions;
@@ -161,10 +203,18 @@ const Profile = () => {
         .eq("id", user.id);
 
       if (error) throw error;
+
+      // Timezone changes are rate-limited and start on the next local day
+      if (timeZoneInput !== (profile?.pending_timezone ?? timeZone)) {
+        const { error: timeZoneError } = await supabase.rpc("set_my_timezone", { p_timezone: timeZoneInput });
+        if (timeZoneError) throw timeZoneError;
+      }
       
       toast.success("Profile updated successfully");
       setIsEditing(false);
       refetchProfile();
+      // Streak days are counted in the profile timezone
+      refetchStreak();
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : "Unknown error";
       toast.error(`Failed to update profile: ${message}`);
@@ -230,6 +280,25 @@ const Profile = () => {
                             placeholder="Your display name"
                           />
                         </div>
+                        <div>
+                          <Label>Timezone</Label>
+                          <Select value={timeZoneInput} onValueChange={setTimeZoneInput}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {timeZones.map((zone) => (
+                                <SelectItem key={zone} value={zone}>
+                                  {zone.replace(/_/g, " ")}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Your practice days and streak reset at midnight in this timezone. Changes apply from
+                            tomorrow and can be replaced until then, with a waiting period between changes.
+                          </p>
+                        </div>
                         <div className="flex gap-2 justify-center sm:justify-start">
                           <Button 
                             onClick={handleSaveProfile} 
@@ -254,6 +323,7 @@ const Profile = () => {
                             className="w-8 h-8"
                             onClick={() => {
                               setDisplayName(profile?.display_name || "");
+                              setTimeZoneInput(profile?.pending_timezone ?? timeZone);
                               setIsEditing(true);
                             }}
                           >
@@ -268,6 +338,16 @@ const Profile = () => {
                           <Calendar className="w-4 h-4" />
                           <span className="text-sm">Joined {profile?.created_at ? format(new Date(profile.created_at), "MMMM yyyy") : "Recently"}</span>
                         </div>
+                        <div className="flex items-center gap-2 text-muted-foreground mt-2 justify-center sm:justify-start">
+                          <Globe className="w-4 h-4" />
+                          <span className="text-sm">{timeZone.replace(/_/g, " ")}</span>
+                        </div>
+                        {profile?.pending_timezone && profile.pending_timezone !== timeZone && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Changes to {profile.pending_timezone.replace(/_/g, " ")} on{" "}
+                            {format(parseISO(profile.pending_timezone_from), "MMM d")}
+                          </p>
+                        )}
                       </>
                     )}
                   </div>
@@ -291,7 +371,7 @@ const Profile = () => {
             transition={{ delay: 0.1 }}
             className="mb-6"
           >
-            <PracticeHeatmap practiceHistory={practiceHistory} className="w-full" />
+            <PracticeHeatmap practiceHistory={practiceHistory} timeZone={timeZone} className="w-full" />
           </motion.div>
 
           {/* Stats Grid */}
@@ -367,20 +447,18 @@ const Profile = () => {
                   {/* All Badges */}
                   <div>
                     <h3 className="text-sm font-medium text-muted-foreground mb-3">
-                      All Badges ({allBadges?.length || 0})
+                      All Badges ({badgeCollection.length})
                     </h3>
                     <div className="space-y-3">
-                      {allBadges?.map((badge) => {
-                        const userBadge = userBadges?.find(ub => ub.badge_id === badge.id);
-                        return (
-                          <BadgeCard
-                            key={badge.id}
-                            badge={badge}
-                            earned={!!userBadge}
-                            earnedAt={userBadge?.earned_at}
-                          />
-                        );
-                      })}
+                      {badgeCollection.map(({ badge, userBadge, progress }) => (
+                        <BadgeCard
+                          key={badge.id}
+                          badge={badge}
+                          earned={!!userBadge}
+                          earnedAt={userBadge?.earned_at}
+                          progress={progress}
+                        />
+                      ))}
                     </div>
                   </div>
                 </CardContent>
@@ -577,6 +655,9 @@ const Profile = () => {
             </TabsContent>
 
             <TabsContent value="coins">
+              <CoinExpiryNotice className="mb-6" />
+              <RedemptionCard />
+
               <Card>
                 <CardHeader>
                   <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
@@ -637,6 +718,13 @@ const Profile = () => {
                       >
                         Spent
                       </Button>
+                      <Button
+                        variant={coinFilter === 'expired' ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setCoinFilter('expired')}
+                      >
+                        Expired
+                      </Button>
                     </div>
                   </div>
 
@@ -658,18 +746,27 @@ const Profile = () => {
                             <div className="flex-1">
                               <div className="flex items-center gap-2 mb-1">
                                 <span className={`px-2 py-0.5 rounded-md text-xs font-medium ${
-                                  tx.transaction_type === 'practice' ? 'bg-green-500/10 text-green-600 border border-green-500/30' :
-                                  tx.transaction_type === 'bonus' ? 'bg-yellow-500/10 text-yellow-600 border border-yellow-500/30' :
-                                  tx.transaction_type === 'penalty' ? 'bg-red-500/10 text-red-600 border border-red-500/30' :
-                                  tx.transaction_type === 'purchase' ? 'bg-orange-500/10 text-orange-600 border border-orange-500/30' :
+                                  SPEND_ENTRY_KINDS.includes(tx.entry_kind) ? 'bg-orange-500/10 text-orange-600 border border-orange-500/30' :
+                                  tx.entry_kind === 'expiry' ? 'bg-secondary text-muted-foreground border border-border' :
+                                  tx.amount < 0 && tx.entry_kind !== 'admin_adjustment' ? 'bg-red-500/10 text-red-600 border border-red-500/30' :
+                                  tx.entry_kind === 'practice_reward' ? 'bg-green-500/10 text-green-600 border border-green-500/30' :
+                                  BONUS_ENTRY_KINDS.includes(tx.entry_kind) || tx.transaction_type === 'bonus' ? 'bg-yellow-500/10 text-yellow-600 border border-yellow-500/30' :
                                   'bg-secondary'
                                 }`}>
-                                  {tx.transaction_type.replace(/_/g, " ").toUpperCase()}
+                                  {(tx.entry_kind === 'legacy'
+                                    ? tx.transaction_type.replace(/_/g, " ")
+                                    : COIN_ENTRY_KIND_LABELS[tx.entry_kind]
+                                  ).toUpperCase()}
                                 </span>
                               </div>
                               <div className="font-medium text-sm mb-1">
                                 {tx.description || 'No description'}
                               </div>
+                              {tx.requested_amount !== null && (
+                                <div className="text-xs text-muted-foreground mb-1">
+                                  Penalty of {Math.abs(tx.requested_amount)} capped at your balance
+                                </div>
+                              )}
                               <div className="text-xs text-muted-foreground">
                                 {format(new Date(tx.created_at), "MMM d, yyyy 'at' h:mm a")}
                               </div>
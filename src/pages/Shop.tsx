@@ -0,0 +1,134 @@
+import { useMemo } from "react";
+import { motion } from "framer-motion";
+import { format } from "date-fns";
+import { CalendarClock, Loader2, Package, ShoppingBag } from "lucide-react";
+import { LearnerLayout } from "@/components/layout/LearnerLayout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CoinBadge } from "@/components/ui/CoinBadge";
+import { CoinExpiryNotice } from "@/components/profile/CoinExpiryNotice";
+import { useWallet } from "@/hooks/useUserData";
+import { isShopItemAvailable, useMyPurchases, usePurchaseShopItem, useShopItems } from "@/hooks/useShop";
+import { cn } from "@/lib/utils";
+
+const Shop = () => {
+  const { data: items, isLoading } = useShopItems();
+  const { data: purchases } = useMyPurchases();
+  const { data: wallet } = useWallet();
+  const purchaseItem = usePurchaseShopItem();
+
+  const balance = wallet?.balance ?? 0;
+
+  const boughtByItem = useMemo(() => {
+    const counts = new Map<string, number>();
+    purchases?.forEach((p) => counts.set(p.item_id, (counts.get(p.item_id) || 0) + 1));
+    return counts;
+  }, [purchases]);
+
+  const getBlockedReason = (item: NonNullable<typeof items>[number]) => {
+    const now = new Date();
+    if (item.available_from && new Date(item.available_from) > now) {
+      return `Available ${format(new Date(item.available_from), "MMM d")}`;
+    }
+    if (item.available_until && new Date(item.available_until) <= now) return "No longer available";
+    if (item.stock !== null && item.stock <= 0) return "Sold out";
+    if (item.per_user_limit !== null && (boughtByItem.get(item.id) || 0) >= item.per_user_limit) {
+      return "Limit reached";
+    }
+    if (balance < item.price) return `Need ${item.price - balance} more`;
+    return null;
+  };
+
+  return (
+    <LearnerLayout contentClassName="max-w-5xl">
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="mb-8 flex items-center justify-between gap-4 flex-wrap"
+      >
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-display font-bold flex items-center gap-3">
+            <ShoppingBag className="w-8 h-8 text-primary" />
+            Reward Shop
+          </h1>
+          <p className="text-muted-foreground">Spend the coins you earned practicing.</p>
+        </div>
+        <CoinBadge amount={balance} size="lg" />
+      </motion.div>
+
+      <CoinExpiryNotice className="mb-6" />
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : !items?.length ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <Package className="w-10 h-10 mx-auto mb-3 opacity-50" />
+            The shop is empty right now. Check back soon!
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {items.map((item, index) => {
+            const blockedReason = getBlockedReason(item);
+            const bought = boughtByItem.get(item.id) || 0;
+            const isBuying = purchaseItem.isPending && purchaseItem.variables?.id === item.id;
+
+            return (
+              <motion.div
+                key={item.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.03 }}
+              >
+                <Card className={cn("h-full", !isShopItemAvailable(item) && "opacity-60")}>
+                  <CardContent className="pt-6 flex flex-col h-full gap-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <span className="text-4xl">{item.icon}</span>
+                      <span className="text-lg font-bold">{item.price} C</span>
+                    </div>
+                    <div className="flex-1">
+                      <p className="font-semibold">{item.name}</p>
+                      {item.description && (
+                        <p className="text-sm text-muted-foreground">{item.description}</p>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      {item.stock !== null && (
+                        <Badge variant="outline">{item.stock > 0 ? `${item.stock} left` : "Sold out"}</Badge>
+                      )}
+                      {item.per_user_limit !== null && (
+                        <Badge variant="outline">
+                          {bought}/{item.per_user_limit} bought
+                        </Badge>
+                      )}
+                      {item.available_until && (
+                        <Badge variant="outline" className="gap-1">
+                          <CalendarClock className="w-3 h-3" />
+                          Until {format(new Date(item.available_until), "MMM d")}
+                        </Badge>
+                      )}
+                    </div>
+                    <Button
+                      className="w-full gap-2"
+                      disabled={!!blockedReason || purchaseItem.isPending}
+                      onClick={() => purchaseItem.mutate(item)}
+                    >
+                      {isBuying && <Loader2 className="w-4 h-4 animate-spin" />}
+                      {blockedReason ?? "Buy"}
+                    </Button>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+    </LearnerLayout>
+  );
+};
+
+export default Shop;
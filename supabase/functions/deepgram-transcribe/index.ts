@@ -13,6 +13,13 @@ type DeepgramWord = {
   punctuated_word?: string;
 };
 
+// Same list as src/lib/hesitation.ts; fillers are not counted as words
+const FILLER_WORDS = new Set(["uh", "um", "uhm", "umm", "uhh", "er", "erm", "ah", "eh", "hmm", "hm", "mm", "mhm"]);
+
+function isFillerWord(word: string): boolean {
+  return FILLER_WORDS.has(word.toLowerCase().replace(/[^a-z]/g, ""));
+}
+
 function json(body: unknown, init?: ResponseInit) {
   return new Response(JSON.stringify(body), {
     ...init,
@@ -47,6 +54,7 @@ serve(async (req) => {
 
     let audioBytes: Uint8Array;
     let mimeType: string;
+    let fillerWords = false;
 
     if (contentType.includes("multipart/form-data")) {
       const formData = await req.formData();
@@ -58,10 +66,12 @@ serve(async (req) => {
 
       mimeType = audioFile.type || "audio/webm";
       audioBytes = new Uint8Array(await audioFile.arrayBuffer());
+      fillerWords = formData.get("fillerWords") === "true";
     } else {
-      const { audio, mimeType: bodyMimeType } = (await req.json()) as {
+      const { audio, mimeType: bodyMimeType, fillerWords: bodyFillerWords } = (await req.json()) as {
         audio?: string;
         mimeType?: string;
+        fillerWords?: boolean;
       };
 
       if (!audio) {
@@ -70,10 +80,12 @@ serve(async (req) => {
 
       mimeType = bodyMimeType || "audio/webm";
       audioBytes = decodeBase64(audio);
+      fillerWords = bodyFillerWords === true;
     }
 
     const response = await fetch(
-      "https://api.deepgram.com/v1/listen?model=nova-2&language=en-US&smart_format=true&punctuate=true&filler_words=false&numerals=true",
+      // filler_words=true keeps "uh"/"um" for the client hesitation metric
+      `https://api.deepgram.com/v1/listen?model=nova-2&language=en-US&smart_format=true&punctuate=true&filler_words=${fillerWords}&numerals=true`,
       {
         method: "POST",
         headers: {
@@ -96,7 +108,7 @@ serve(async (req) => {
     const transcript: string = (alt?.transcript ?? "").trim();
     const confidence: number = alt?.confidence ?? 0;
     const words: DeepgramWord[] = alt?.words ?? [];
-    const wordCount = words.length;
+    const wordCount = words.filter((w) => !isFillerWord(w.word)).length;
     const duration: number = result?.metadata?.duration ?? 0;
 
     return json({
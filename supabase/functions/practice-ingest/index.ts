@@ -56,6 +56,13 @@ type AnalyzeSpeechResult = {
   feedback: string[];
 };
 
+// Same list as src/lib/hesitation.ts; fillers are not counted as words
+const FILLER_WORDS = new Set(["uh", "um", "uhm", "umm", "uhh", "er", "erm", "ah", "eh", "hmm", "hm", "mm", "mhm"]);
+
+function isFillerWord(word: string): boolean {
+  return FILLER_WORDS.has(word.toLowerCase().replace(/[^a-z]/g, ""));
+}
+
 function json(body: unknown, init?: ResponseInit) {
   return new Response(JSON.stringify(body), {
     ...init,
@@ -67,6 +74,25 @@ function json(body: unknown, init?: ResponseInit) {
   });
 }
 
+// Gaps between words shorter than this are articulation, not pauses (matches src/lib/pauseMap.ts)
+const MIN_PAUSE_MS = 250;
+
+// Pause stats from Deepgram word timestamps, used when the client sent no metrics
+function pauseStatsFromWords(words: DeepgramWord[]): { pauseCount: number; longestPause: number } {
+  let pauseCount = 0;
+  let longestPause = 0;
+  for (let i = 0; i < words.length - 1; i++) {
+    const end = words[i].end;
+    const nextStart = words[i + 1].start;
+    if (typeof end !== "number" || typeof nextStart !== "number") continue;
+    const gapMs = Math.round((nextStart - end) * 1000);
+    if (gapMs < MIN_PAUSE_MS) continue;
+    pauseCount++;
+    longestPause = Math.max(longestPause, gapMs);
+  }
+  return { pauseCount, longestPause };
+}
+
 function decodeBase64(base64: string): Uint8Array {
   const normalized = base64.replace(/^data:[^;]+;base64,/, "");
   const binary = atob(normalized);
@@ -75,12 +101,12 @@ function decodeBase64(base64: string): Uint8Array {
   return bytes;
 }
 
-async function deepgramTranscribe(audioBytes: Uint8Array, mimeType: string): Promise<TranscribeResult> {
+async function deepgramTranscribe(audioBytes: Uint8Array, mimeType: string, fillerWords = false): Promise<TranscribeResult> {
   const deepgramApiKey = Deno.env.get("DEEPGRAM_API_KEY");
   if (!deepgramApiKey) throw new Error("DEEPGRAM_API_KEY is not configured");
 
   const response = await fetch(
-    "https://api.deepgram.com/v1/listen?model=nova-2&language=en-US&smart_format=true&punctuate=true&filler_words=false&numerals=true",
+    `https://api.deepgram.com/v1/listen?model=nova-2&language=en-US&smart_format=true&punctuate=true&filler_words=${fillerWords}&numerals=true`,
     {
       method: "POST",
       headers: {
@@ -103,7 +129,7 @@ async function deepgramTranscribe(audioBytes: Uint8Array, mimeType: string): Pro
   const transcript: string = (alt?.transcript ?? "").trim();
   const confidence: number = alt?.confidence ?? 0;
   const words: DeepgramWord[] = alt?.words ?? [];
-  const wordCount = words.length;
+  const wordCount = words.filter((w) => !isFillerWord(w.word)).length;
   const duration: number = result?.metadata?.duration ?? 0;
 
   return {
@@ -158,6 +184,7 @@ serve(async (req) => {
     let sessionId: string | null = null;
     let clientMetrics: AnalyzeSpeechResult["rawMetrics"] | null = null;
     let scoreOnServer = true;
+    let fillerWords = false;
 
     if (contentType.includes("multipart/form-data")) {
       const formData = await req.formData();
@@ -186,6 +213,7 @@ serve(async (req) => {
 
       const rawScoreOnServer = (formData.get("scoreOnServer") as string | null) ?? null;
       if (rawScoreOnServer) scoreOnServer = rawScoreOnServer !== "false";
+      fillerWords = formData.get("fillerWords") === "true";
     } else {
       const body = (await req.json()) as {
         audio?: string;
@@ -196,6 +224,7 @@ serve(async (req) => {
         sessionId?: string;
         metrics?: AnalyzeSpeechResult["rawMetrics"];
         scoreOnServer?: boolean;
+        fillerWords?: boolean;
       };
 
       if (!body.audio) return json({ error: "No audio data provided" }, { status: 400 });
@@ -208,6 +237,7 @@ serve(async (req) => {
       sessionId = body.sessionId ?? null;
       clientMetrics = body.metrics ?? null;
       scoreOnServer = body.scoreOnServer ?? true;
+      fillerWords = body.fillerWords === true;
     }
 
     // 1) Create take record.
@@ -229,7 +259,7 @@ serve(async (req) => {
     if (takeError) throw takeError;
 
     // 2) Transcribe.
-    const transcribe = await deepgramTranscribe(audioBytes, mimeType);
+    const transcribe = await deepgramTranscribe(audioBytes, mimeType, fillerWords);
 
     const { error: transcriptError } = await supabase
       .from("practice_transcripts")
@@ -248,15 +278,15 @@ serve(async (req) => {
     let analyze: AnalyzeSpeechResult | null = null;
 
     if (scoreOnServer) {
-      // Use provided raw metrics when available (client can compute), else do a minimal server-only score using WPM.
-      // NOTE: Server cannot extract volume/pause/latency from encoded audio cheaply without extra DSP.
+      // Use provided raw metrics when available (client can compute), else do a minimal server-only score
+      // using WPM and word-timestamp pauses.
+      // NOTE: Server cannot extract volume/latency from encoded audio cheaply without extra DSP.
       const metrics =
         clientMetrics ??
         ({
           volume: -30,
           speechRate: transcribe.wordsPerMinute,
-          pauseCount: 0,
-          longestPause: 0,
+          ...pauseStatsFromWords(transcribe.words),
           latency: 400,
           endIntensity: 80,
         } satisfies AnalyzeSpeechResult["rawMetrics"]);
@@ -0,0 +1,11 @@
+-- Migration: Add pronunciation (text accuracy) metric to scoring_config
+-- The client aligns the Deepgram transcript against the lesson item's English
+-- text; this row carries the weight of that metric in the overall score.
+
+BEGIN;
+
+INSERT INTO public.scoring_config (metric_name, weight, min_value, max_value, description) VALUES
+  ('pronunciation', 0.30, 0, 100, 'Share of the expected words the learner actually said (Deepgram alignment)')
+ON CONFLICT (metric_name) DO NOTHING;
+
+COMMIT;
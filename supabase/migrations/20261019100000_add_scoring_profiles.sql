@@ -0,0 +1,95 @@
+-- Migration: Server-authoritative, versioned scoring profiles
+-- Metric weights/thresholds used to live in each browser's localStorage, so
+-- scores were not comparable across devices. Profiles are immutable rows:
+-- publishing a change inserts a new version and makes it the active one.
+-- Every practice_history row records the profile version it was scored with.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.scoring_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL DEFAULT 'Default',
+  version integer NOT NULL,
+  metrics jsonb NOT NULL,
+  is_active boolean NOT NULL DEFAULT false,
+  notes text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT scoring_profiles_version_key UNIQUE (version)
+);
+
+-- At most one active profile
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scoring_profiles_single_active
+  ON public.scoring_profiles (is_active) WHERE is_active;
+
+ALTER TABLE public.scoring_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view scoring profiles"
+  ON public.scoring_profiles FOR SELECT TO authenticated
+  USING (true);
+
+-- No INSERT/UPDATE policies: profiles are only written through publish_scoring_profile.
+
+-- Stamp each practice row with the profile it was scored against
+ALTER TABLE public.practice_history
+  ADD COLUMN IF NOT EXISTS scoring_profile_id uuid REFERENCES public.scoring_profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS scoring_profile_version integer;
+
+CREATE INDEX IF NOT EXISTS idx_practice_history_scoring_profile ON public.practice_history(scoring_profile_id);
+
+COMMENT ON TABLE public.scoring_profiles IS 'Versioned metric weights/thresholds; the active row is what every client scores with';
+COMMENT ON COLUMN public.practice_history.scoring_profile_version IS 'Version of scoring_profiles used to compute score';
+
+-- Publish a new profile version (admin only). Returns the new row.
+CREATE OR REPLACE FUNCTION public.publish_scoring_profile(
+  p_metrics jsonb,
+  p_name text DEFAULT 'Default',
+  p_notes text DEFAULT NULL
+)
+RETURNS public.scoring_profiles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.scoring_profiles;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can publish scoring profiles';
+  END IF;
+
+  IF jsonb_typeof(p_metrics) <> 'array' OR jsonb_array_length(p_metrics) = 0 THEN
+    RAISE EXCEPTION 'p_metrics must be a non-empty array';
+  END IF;
+
+  -- Serialize publishers so versions stay gap-free
+  LOCK TABLE public.scoring_profiles IN SHARE ROW EXCLUSIVE MODE;
+
+  UPDATE public.scoring_profiles SET is_active = false WHERE is_active;
+
+  INSERT INTO public.scoring_profiles (name, version, metrics, is_active, notes, created_by)
+  SELECT p_name, COALESCE(MAX(version), 0) + 1, p_metrics, true, p_notes, auth.uid()
+  FROM public.scoring_profiles
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.publish_scoring_profile(jsonb, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.publish_scoring_profile(jsonb, text, text) TO authenticated;
+
+-- Version 1 mirrors the client defaults that browsers without a saved
+-- localStorage config were already scoring with.
+INSERT INTO public.scoring_profiles (name, version, metrics, is_active, notes)
+SELECT 'Default', 1, '[
+  {"id": "volume", "weight": 40, "enabled": true, "thresholds": {"min": -35, "ideal": -15, "max": 0}},
+  {"id": "speechRate", "weight": 40, "enabled": true, "thresholds": {"min": 90, "ideal": 150, "max": 220}, "method": "spectral-flux"},
+  {"id": "acceleration", "weight": 5, "enabled": true, "thresholds": {"min": 0, "ideal": 50, "max": 100}},
+  {"id": "responseTime", "weight": 5, "enabled": true, "thresholds": {"min": 2000, "ideal": 200, "max": 0}},
+  {"id": "pauseManagement", "weight": 10, "enabled": true, "thresholds": {"min": 0, "ideal": 0, "max": 2.71}},
+  {"id": "pronunciation", "weight": 30, "enabled": true, "thresholds": {"min": 0, "ideal": 100, "max": 100}}
+]'::jsonb, true, 'Seeded from client defaults'
+WHERE NOT EXISTS (SELECT 1 FROM public.scoring_profiles);
+
+COMMIT;
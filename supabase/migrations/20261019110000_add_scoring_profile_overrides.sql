@@ -0,0 +1,80 @@
+-- Migration: Course / lesson / category overrides inside scoring profiles
+-- A two-word Vocab item and a fifteen-word Sentence should not share pause and
+-- speech-rate thresholds. Overrides live inside the versioned profile row, so a
+-- practice_history stamp (version + lesson + category) still pins down exactly
+-- which configuration was used.
+--
+-- overrides: [{ id, scope: 'course'|'lesson'|'category', course_id, lesson_id,
+--               category, metrics: [{ id, weight?, enabled?, thresholds?, method? }] }]
+
+BEGIN;
+
+ALTER TABLE public.scoring_profiles
+  ADD COLUMN IF NOT EXISTS overrides jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Replace the publisher: either part may be omitted to carry it over from the active version
+DROP FUNCTION IF EXISTS public.publish_scoring_profile(jsonb, text, text);
+
+CREATE OR REPLACE FUNCTION public.publish_scoring_profile(
+  p_metrics jsonb DEFAULT NULL,
+  p_overrides jsonb DEFAULT NULL,
+  p_name text DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS public.scoring_profiles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_active public.scoring_profiles;
+  v_row public.scoring_profiles;
+  v_metrics jsonb;
+  v_overrides jsonb;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can publish scoring profiles';
+  END IF;
+
+  -- Serialize publishers so versions stay gap-free
+  LOCK TABLE public.scoring_profiles IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT * INTO v_active FROM public.scoring_profiles WHERE is_active;
+
+  v_metrics := COALESCE(p_metrics, v_active.metrics);
+  v_overrides := COALESCE(p_overrides, v_active.overrides, '[]'::jsonb);
+
+  IF v_metrics IS NULL OR jsonb_typeof(v_metrics) <> 'array' OR jsonb_array_length(v_metrics) = 0 THEN
+    RAISE EXCEPTION 'p_metrics must be a non-empty array';
+  END IF;
+
+  IF jsonb_typeof(v_overrides) <> 'array' THEN
+    RAISE EXCEPTION 'p_overrides must be an array';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_overrides) o
+    WHERE o->>'scope' NOT IN ('course', 'lesson', 'category')
+       OR (o->>'scope' = 'course' AND o->>'course_id' IS NULL)
+       OR (o->>'scope' = 'lesson' AND o->>'lesson_id' IS NULL)
+       OR (o->>'scope' = 'category' AND COALESCE(o->>'category', '') = '')
+  ) THEN
+    RAISE EXCEPTION 'Invalid scoring override: scope must be course/lesson/category with its target set';
+  END IF;
+
+  UPDATE public.scoring_profiles SET is_active = false WHERE is_active;
+
+  INSERT INTO public.scoring_profiles (name, version, metrics, overrides, is_active, notes, created_by)
+  SELECT COALESCE(p_name, v_active.name, 'Default'), COALESCE(MAX(version), 0) + 1,
+         v_metrics, v_overrides, true, p_notes, auth.uid()
+  FROM public.scoring_profiles
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.publish_scoring_profile(jsonb, jsonb, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.publish_scoring_profile(jsonb, jsonb, text, text) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,38 @@
+-- Migration: Add intonation (pitch contour) metric
+-- The client tracks F0 with YIN and scores the pitch range in semitones.
+-- Publishes a new scoring profile version that carries the new metric over
+-- the active one, and mirrors it into scoring_config for the admin panel.
+
+BEGIN;
+
+INSERT INTO public.scoring_config (metric_name, weight, min_value, max_value, description) VALUES
+  ('intonation', 0.10, 2, 8, 'Pitch range of the voiced F0 contour in semitones (YIN tracker)')
+ON CONFLICT (metric_name) DO NOTHING;
+
+-- publish_scoring_profile() requires an admin session, so publish the version directly
+DO $$
+DECLARE
+  v_active public.scoring_profiles;
+BEGIN
+  LOCK TABLE public.scoring_profiles IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT * INTO v_active FROM public.scoring_profiles WHERE is_active;
+  IF NOT FOUND OR v_active.metrics @> '[{"id": "intonation"}]'::jsonb THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.scoring_profiles SET is_active = false WHERE id = v_active.id;
+
+  INSERT INTO public.scoring_profiles (name, version, metrics, overrides, is_active, notes)
+  SELECT
+    v_active.name,
+    MAX(version) + 1,
+    v_active.metrics || '[{"id": "intonation", "weight": 10, "enabled": true, "thresholds": {"min": 2, "ideal": 8, "max": 16}}]'::jsonb,
+    v_active.overrides,
+    true,
+    'Adds intonation metric'
+  FROM public.scoring_profiles;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,81 @@
+-- Migration: Reference recordings per lesson item (shadowing comparison)
+-- Admins upload a model recording for a lesson item. The audio file lives in
+-- the reference-audio storage bucket; the row keeps its prosody envelope
+-- (20ms loudness + pitch) so clients can run the DTW comparison without
+-- downloading and decoding the reference on every take.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.lesson_reference_audio (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lesson_id uuid NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  category text NOT NULL,
+  item_index integer NOT NULL CHECK (item_index >= 0),
+  audio_path text NOT NULL,
+  mime_type text,
+  duration_seconds numeric,
+  envelope jsonb NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  UNIQUE (lesson_id, category, item_index)
+);
+
+ALTER TABLE public.lesson_reference_audio ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view reference audio"
+  ON public.lesson_reference_audio FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage reference audio"
+  ON public.lesson_reference_audio FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+-- Storage bucket for the reference files (private; read via signed URLs)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('reference-audio', 'reference-audio', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Authenticated users can read reference audio files"
+  ON storage.objects FOR SELECT TO authenticated
+  USING (bucket_id = 'reference-audio');
+
+CREATE POLICY "Admins can upload reference audio files"
+  ON storage.objects FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'reference-audio' AND public.has_role(auth.uid(), 'admin'::public.app_role));
+
+CREATE POLICY "Admins can delete reference audio files"
+  ON storage.objects FOR DELETE TO authenticated
+  USING (bucket_id = 'reference-audio' AND public.has_role(auth.uid(), 'admin'::public.app_role));
+
+INSERT INTO public.scoring_config (metric_name, weight, min_value, max_value, description) VALUES
+  ('prosody', 0.15, 20, 90, 'DTW similarity of loudness + pitch envelope to the item reference recording')
+ON CONFLICT (metric_name) DO NOTHING;
+
+-- Carry the new metric into the active scoring profile (see the intonation migration)
+DO $$
+DECLARE
+  v_active public.scoring_profiles;
+BEGIN
+  LOCK TABLE public.scoring_profiles IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT * INTO v_active FROM public.scoring_profiles WHERE is_active;
+  IF NOT FOUND OR v_active.metrics @> '[{"id": "prosody"}]'::jsonb THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.scoring_profiles SET is_active = false WHERE id = v_active.id;
+
+  INSERT INTO public.scoring_profiles (name, version, metrics, overrides, is_active, notes)
+  SELECT
+    v_active.name,
+    MAX(version) + 1,
+    v_active.metrics || '[{"id": "prosody", "weight": 15, "enabled": true, "thresholds": {"min": 20, "ideal": 90, "max": 100}}]'::jsonb,
+    v_active.overrides,
+    true,
+    'Adds prosody (reference shadowing) metric'
+  FROM public.scoring_profiles;
+END;
+$$;
+
+COMMIT;
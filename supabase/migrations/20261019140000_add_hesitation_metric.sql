@@ -0,0 +1,39 @@
+-- Migration: Add hesitation (filler words) metric
+-- Transcripts are requested with filler_words=true when this metric is enabled;
+-- the client counts fillers, repeated words and false starts per minute.
+-- Publishes a new scoring profile version that carries the new metric over
+-- the active one, and mirrors it into scoring_config for the admin panel.
+
+BEGIN;
+
+INSERT INTO public.scoring_config (metric_name, weight, min_value, max_value, description) VALUES
+  ('hesitation', 0.10, 2, 12, 'Fillers, repeated words and false starts per minute (lower is better)')
+ON CONFLICT (metric_name) DO NOTHING;
+
+-- publish_scoring_profile() requires an admin session, so publish the version directly
+DO $$
+DECLARE
+  v_active public.scoring_profiles;
+BEGIN
+  LOCK TABLE public.scoring_profiles IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT * INTO v_active FROM public.scoring_profiles WHERE is_active;
+  IF NOT FOUND OR v_active.metrics @> '[{"id": "hesitation"}]'::jsonb THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.scoring_profiles SET is_active = false WHERE id = v_active.id;
+
+  INSERT INTO public.scoring_profiles (name, version, metrics, overrides, is_active, notes)
+  SELECT
+    v_active.name,
+    MAX(version) + 1,
+    v_active.metrics || '[{"id": "hesitation", "weight": 10, "enabled": true, "thresholds": {"min": 0, "ideal": 2, "max": 12}}]'::jsonb,
+    v_active.overrides,
+    true,
+    'Adds hesitation metric'
+  FROM public.scoring_profiles;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,719 @@
+-- Migration: Atomic, idempotent practice settlement
+-- useSavePractice used to write practice_history, user_progress, user_wallets,
+-- coin_transactions, daily_streaks and user_badges one request at a time, and
+-- Practice.tsx added bonus coins with its own wallet read-modify-write. A failed
+-- request or a second tab left balances and ledgers out of sync, and the wallet
+-- policies let any client write its own balance.
+-- settle_practice() settles a take in one transaction: the score is computed
+-- here from the take's metrics with the active scoring profile, every coin
+-- amount from coin_config, and a repeated settlement key returns the stored
+-- outcome instead of paying twice.
+
+BEGIN;
+
+ALTER TABLE public.practice_history
+  ADD COLUMN IF NOT EXISTS settlement_key text,
+  ADD COLUMN IF NOT EXISTS settlement jsonb;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_practice_history_settlement_key
+  ON public.practice_history (user_id, settlement_key) WHERE settlement_key IS NOT NULL;
+
+COMMENT ON COLUMN public.practice_history.settlement_key IS 'Client idempotency key passed to settle_practice, one per take';
+COMMENT ON COLUMN public.practice_history.settlement IS 'Outcome returned by settle_practice, replayed for a repeated key';
+
+-- Mastery level 0-5 (was calculateMastery in usePractice.ts)
+CREATE OR REPLACE FUNCTION public.practice_mastery(p_attempts integer, p_best_score integer)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_best_score >= 90 AND p_attempts >= 3 THEN 5
+    WHEN p_best_score >= 80 AND p_attempts >= 2 THEN 4
+    WHEN p_best_score >= 70 THEN 3
+    WHEN p_best_score >= 50 THEN 2
+    WHEN p_attempts >= 1 THEN 1
+    ELSE 0
+  END;
+$$;
+
+-- Deadline of a lesson for a student: the n-th class day on or after the
+-- enrollment start, n being the lesson's position in the course
+-- (same schedule as calculateLessonDeadlines in scheduleUtils.ts)
+CREATE OR REPLACE FUNCTION public.lesson_deadline(p_user_id uuid, p_lesson_id uuid)
+RETURNS date
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_course_id uuid;
+  v_start date;
+  v_schedule jsonb;
+  v_weekdays integer[];
+  v_position integer;
+BEGIN
+  SELECT course_id INTO v_course_id FROM public.lessons WHERE id = p_lesson_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(cc.start_date, e.start_date, e.enrolled_at::date),
+         COALESCE(cc.schedule_days, '["monday", "wednesday", "friday"]'::jsonb)
+    INTO v_start, v_schedule
+  FROM public.enrollments e
+  LEFT JOIN public.course_classes cc ON cc.id = e.class_id
+  WHERE e.user_id = p_user_id AND e.course_id = v_course_id
+  ORDER BY e.enrolled_at
+  LIMIT 1;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT position INTO v_position
+  FROM (
+    SELECT id, row_number() OVER (ORDER BY order_index, created_at) AS position
+    FROM public.lessons
+    WHERE course_id = v_course_id
+  ) ordered
+  WHERE id = p_lesson_id;
+
+  -- Postgres and JS agree on weekday numbers: 0 = Sunday
+  SELECT array_agg(array_position(
+    ARRAY['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'], lower(day)) - 1)
+    INTO v_weekdays
+  FROM jsonb_array_elements_text(CASE WHEN jsonb_typeof(v_schedule) = 'array' THEN v_schedule ELSE '[]'::jsonb END) AS day
+  WHERE lower(day) IN ('sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday');
+
+  -- No schedule: one lesson per day
+  IF v_weekdays IS NULL THEN
+    RETURN v_start + (v_position - 1);
+  END IF;
+
+  RETURN (
+    SELECT d::date
+    FROM generate_series(v_start, v_start + v_position * 7, interval '1 day') AS d
+    WHERE EXTRACT(dow FROM d)::integer = ANY (v_weekdays)
+    ORDER BY d
+    OFFSET v_position - 1
+    LIMIT 1
+  );
+END;
+$$;
+
+-- Moves coins and writes the matching transaction row. Only called from
+-- settlement functions, never granted to clients. Returns the new balance.
+CREATE OR REPLACE FUNCTION public.post_coin_transaction(
+  p_user_id uuid,
+  p_amount integer,
+  p_transaction_type text,
+  p_description text,
+  p_reference_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance integer;
+BEGIN
+  IF p_amount = 0 THEN
+    SELECT balance INTO v_balance FROM public.user_wallets WHERE user_id = p_user_id;
+    RETURN v_balance;
+  END IF;
+
+  UPDATE public.user_wallets
+  SET balance = GREATEST(0, balance + p_amount),
+      total_earned = total_earned + GREATEST(p_amount, 0),
+      total_spent = total_spent + GREATEST(-p_amount, 0)
+  WHERE user_id = p_user_id
+  RETURNING balance INTO v_balance;
+
+  INSERT INTO public.coin_transactions (user_id, amount, transaction_type, description, reference_id)
+  VALUES (p_user_id, p_amount, p_transaction_type, p_description, p_reference_id);
+
+  RETURN v_balance;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.post_coin_transaction(uuid, integer, text, text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Metric list of a scoring profile with every override matching the item
+-- merged on, least specific first (same as resolveScoringProfile in
+-- scoringProfile.ts)
+CREATE OR REPLACE FUNCTION public.resolve_scoring_metrics(
+  p_metrics jsonb,
+  p_overrides jsonb,
+  p_course_id uuid,
+  p_lesson_id uuid,
+  p_category text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_metrics jsonb := p_metrics;
+  v_override jsonb;
+BEGIN
+  FOR v_override IN
+    SELECT o
+    FROM jsonb_array_elements(COALESCE(p_overrides, '[]'::jsonb)) WITH ORDINALITY AS x(o, n)
+    WHERE CASE o ->> 'scope'
+      WHEN 'course' THEN o ->> 'course_id' = p_course_id::text
+      WHEN 'lesson' THEN o ->> 'lesson_id' = p_lesson_id::text
+      WHEN 'category' THEN o ->> 'category' = p_category
+        AND CASE
+          WHEN o ->> 'lesson_id' IS NOT NULL THEN o ->> 'lesson_id' = p_lesson_id::text
+          WHEN o ->> 'course_id' IS NOT NULL THEN o ->> 'course_id' = p_course_id::text
+          ELSE true
+        END
+      ELSE false
+    END
+    ORDER BY CASE o ->> 'scope'
+      WHEN 'course' THEN 1
+      WHEN 'lesson' THEN 2
+      ELSE CASE WHEN o ->> 'lesson_id' IS NOT NULL THEN 5 WHEN o ->> 'course_id' IS NOT NULL THEN 4 ELSE 3 END
+    END, n
+  LOOP
+    -- Patches replace the fields they set; thresholds are merged key by key
+    SELECT jsonb_agg(CASE
+        WHEN patch IS NULL THEN m
+        ELSE m || (patch - 'id' - 'thresholds')
+               || jsonb_build_object('thresholds', COALESCE(m -> 'thresholds', '{}'::jsonb) || COALESCE(patch -> 'thresholds', '{}'::jsonb))
+      END ORDER BY i)
+      INTO v_metrics
+    FROM jsonb_array_elements(v_metrics) WITH ORDINALITY AS e(m, i)
+    LEFT JOIN LATERAL (
+      SELECT p AS patch FROM jsonb_array_elements(v_override -> 'metrics') p
+      WHERE p ->> 'id' = m ->> 'id'
+      LIMIT 1
+    ) patches ON true;
+  END LOOP;
+
+  RETURN v_metrics;
+END;
+$$;
+
+-- Score (0-100, unrounded) of one raw metric value against its thresholds,
+-- with the curves of the analyze* functions in audioAnalysis.ts
+CREATE OR REPLACE FUNCTION public.score_practice_metric(p_metric text, p_value numeric, p_thresholds jsonb)
+RETURNS numeric
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_min numeric := (p_thresholds ->> 'min')::numeric;
+  v_ideal numeric := (p_thresholds ->> 'ideal')::numeric;
+  v_max numeric := (p_thresholds ->> 'max')::numeric;
+  v_mid numeric := (v_ideal + v_max) / 2;
+BEGIN
+  CASE p_metric
+    WHEN 'volume' THEN
+      IF p_value >= v_ideal AND p_value <= v_max THEN
+        RETURN CASE WHEN p_value <= v_mid
+          THEN 90 + (p_value - v_ideal) / NULLIF(v_mid - v_ideal, 0) * 10
+          ELSE 100 - (p_value - v_mid) / NULLIF(v_max - v_mid, 0) * 10
+        END;
+      ELSIF p_value > v_max THEN
+        RETURN GREATEST(0, 90 - (p_value - v_max) * 5);
+      ELSIF p_value >= v_min THEN
+        RETURN (p_value - v_min) / NULLIF(v_ideal - v_min, 0) * 90;
+      END IF;
+      RETURN 0;
+    WHEN 'speechRate' THEN
+      IF p_value <= 0 OR p_value < v_min THEN
+        RETURN 0;
+      END IF;
+      RETURN CASE WHEN p_value < v_ideal THEN (p_value - v_min) / NULLIF(v_ideal - v_min, 0) * 100 ELSE 100 END;
+    WHEN 'responseTime' THEN
+      -- min is the slowest acceptable response, ideal the target (ms)
+      IF p_value <= v_ideal THEN
+        RETURN 100;
+      ELSIF p_value <= v_min THEN
+        RETURN 100 - (p_value - v_ideal) / NULLIF(v_min - v_ideal, 0) * 50;
+      END IF;
+      RETURN GREATEST(0, 50 * (1 - (p_value - v_min) / 3000));
+    WHEN 'pauseManagement' THEN
+      RETURN CASE WHEN p_value > 0.1 THEN GREATEST(0, 100 - (p_value - 0.1) / NULLIF(v_max, 0) * 100) ELSE 100 END;
+    WHEN 'intonation' THEN
+      IF p_value < v_min THEN
+        RETURN CASE WHEN v_min > 0 THEN p_value / v_min * 40 ELSE 40 END;
+      ELSIF p_value < v_ideal THEN
+        RETURN 40 + (p_value - v_min) / NULLIF(v_ideal - v_min, 0) * 60;
+      ELSIF p_value <= v_max THEN
+        RETURN 100;
+      END IF;
+      RETURN GREATEST(60, 100 - (p_value - v_max) * 5);
+    WHEN 'prosody' THEN
+      IF p_value <= v_min THEN
+        RETURN 0;
+      END IF;
+      RETURN CASE WHEN p_value < v_ideal THEN (p_value - v_min) / NULLIF(v_ideal - v_min, 0) * 100 ELSE 100 END;
+    WHEN 'hesitation' THEN
+      IF p_value >= v_max THEN
+        RETURN 0;
+      END IF;
+      RETURN CASE WHEN p_value > v_ideal THEN 100 - (p_value - v_ideal) / NULLIF(v_max - v_ideal, 0) * 100 ELSE 100 END;
+    ELSE
+      RETURN p_value;
+  END CASE;
+END;
+$$;
+
+-- Overall score of a take from its practice_history.metrics under a resolved
+-- metric list, or NULL when a required metric is missing. Raw volume (dB),
+-- speech rate (WPM), pause ratio, latency (ms), pitch range, prosody
+-- similarity and fillers/min are scored against the thresholds;
+-- endIntensity and pronunciation arrive as scores. Weights are normalized
+-- over the metrics the take has, like calculateOverallScore.
+CREATE OR REPLACE FUNCTION public.score_practice_metrics(p_metrics jsonb, p_config jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_part record;
+  v_entry jsonb;
+  v_weight numeric;
+  v_score numeric;
+  v_sum numeric := 0;
+  v_total numeric := 0;
+BEGIN
+  IF p_metrics IS NULL OR EXISTS (
+    SELECT 1 FROM unnest(ARRAY['volume', 'speechRate', 'pauses', 'latency']) AS k
+    WHERE jsonb_typeof(p_metrics -> k) IS DISTINCT FROM 'number'
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Takes without speech are scored 0 (0 WPM, nothing but pause)
+  IF (p_metrics ->> 'speechRate')::numeric <= 0 AND (p_metrics ->> 'pauses')::numeric >= 1 THEN
+    RETURN 0;
+  END IF;
+
+  -- metric: id in the profile; stored: its score (or raw value); raw: raw
+  -- value stored next to a score, re-scored when present
+  FOR v_part IN
+    SELECT * FROM (VALUES
+      ('volume', 'volume', 'volume'),
+      ('speechRate', 'speechRate', 'speechRate'),
+      ('acceleration', 'endIntensity', NULL),
+      ('responseTime', 'latency', 'latency'),
+      ('pauseManagement', 'pauses', 'pauses'),
+      ('intonation', 'intonation', 'pitchRange'),
+      ('prosody', 'prosody', 'prosodySimilarity'),
+      ('hesitation', 'hesitation', 'fillersPerMinute'),
+      ('pronunciation', 'pronunciation', NULL)
+    ) AS parts(metric, stored, raw)
+  LOOP
+    -- Optional metrics count only when measured; without a transcript the
+    -- pronunciation weight is spread over the others
+    CONTINUE WHEN v_part.metric IN ('intonation', 'prosody', 'hesitation', 'pronunciation')
+      AND jsonb_typeof(p_metrics -> v_part.stored) IS DISTINCT FROM 'number';
+
+    SELECT c INTO v_entry FROM jsonb_array_elements(p_config) AS c WHERE c ->> 'id' = v_part.metric LIMIT 1;
+    v_weight := CASE
+      WHEN v_entry IS NULL OR v_entry -> 'enabled' = 'false'::jsonb THEN 0
+      ELSE COALESCE((v_entry ->> 'weight')::numeric, 0)
+    END;
+
+    IF v_part.raw IS NOT NULL AND jsonb_typeof(p_metrics -> v_part.raw) = 'number'
+       AND jsonb_typeof(v_entry -> 'thresholds') = 'object' THEN
+      v_score := public.score_practice_metric(v_part.metric, (p_metrics ->> v_part.raw)::numeric, v_entry -> 'thresholds');
+    ELSIF v_part.raw IS NULL OR v_part.raw <> v_part.stored THEN
+      v_score := COALESCE((p_metrics ->> v_part.stored)::numeric, 0);
+    ELSE
+      v_score := 0;
+    END IF;
+
+    v_sum := v_sum + LEAST(100, GREATEST(0, round(COALESCE(v_score, 0)))) * v_weight;
+    v_total := v_total + v_weight;
+  END LOOP;
+
+  IF v_total <= 0 THEN
+    RETURN 0;
+  END IF;
+  RETURN round(v_sum / v_total);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.settle_practice(
+  p_settlement_key text,
+  p_lesson_id uuid,
+  p_category text,
+  p_item_index integer,
+  p_metrics jsonb,
+  p_audio_url text DEFAULT NULL,
+  p_local_hour integer DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_today date := CURRENT_DATE;
+  v_hour integer;
+  v_score integer;
+  v_profile public.scoring_profiles;
+  v_replay jsonb;
+  v_lesson public.lessons;
+  v_config jsonb;
+  v_progress public.user_progress;
+  v_streak public.daily_streaks;
+  v_practice_id uuid;
+  v_balance integer;
+  v_outcome jsonb;
+
+  v_base integer := 0;
+  v_bonuses jsonb := '[]'::jsonb;
+  v_bonus_total integer := 0;
+  v_badge_total integer := 0;
+  v_new_badges jsonb := '[]'::jsonb;
+
+  v_threshold numeric;
+  v_min numeric;
+  v_max numeric;
+  v_amount integer;
+
+  v_total_items integer;
+  v_completed_before integer;
+  v_completed_after integer;
+  v_percent_before integer := 0;
+  v_percent_after integer := 0;
+  v_milestone integer;
+  v_deadline date;
+  v_days integer;
+
+  v_consecutive integer := 0;
+  v_recent record;
+
+  v_current_streak integer;
+  v_is_new_day boolean := false;
+  v_streak_extended boolean := false;
+
+  v_stats record;
+  v_vocab_mastered integer;
+  v_badge public.badges;
+  v_earned boolean;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_settlement_key IS NULL OR length(p_settlement_key) NOT BETWEEN 1 AND 100 THEN
+    RAISE EXCEPTION 'A settlement key (1-100 chars) is required';
+  END IF;
+
+  -- All settlements of one user serialize on the wallet row (second tab, retries)
+  INSERT INTO public.user_wallets (user_id, balance) VALUES (v_user_id, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+  PERFORM 1 FROM public.user_wallets WHERE user_id = v_user_id FOR UPDATE;
+
+  SELECT settlement INTO v_replay
+  FROM public.practice_history
+  WHERE user_id = v_user_id AND settlement_key = p_settlement_key;
+  IF FOUND THEN
+    RETURN v_replay || '{"replayed": true}'::jsonb;
+  END IF;
+
+  SELECT * INTO v_lesson FROM public.lessons WHERE id = p_lesson_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson % not found', p_lesson_id;
+  END IF;
+  IF jsonb_typeof(v_lesson.categories -> p_category) IS DISTINCT FROM 'array'
+     OR p_item_index IS NULL
+     OR p_item_index NOT BETWEEN 0 AND jsonb_array_length(v_lesson.categories -> p_category) - 1 THEN
+    RAISE EXCEPTION 'Item % of "%" does not exist in this lesson', p_item_index, p_category;
+  END IF;
+
+  -- The score is computed here from the take's metrics with the active
+  -- scoring profile and its overrides for this item; the score shown in the
+  -- browser is only a preview
+  SELECT * INTO v_profile FROM public.scoring_profiles WHERE is_active;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active scoring profile';
+  END IF;
+  v_score := public.score_practice_metrics(
+    p_metrics,
+    public.resolve_scoring_metrics(v_profile.metrics, v_profile.overrides, v_lesson.course_id, p_lesson_id, p_category));
+  IF v_score IS NULL THEN
+    RAISE EXCEPTION 'The take is missing the metrics needed to score it';
+  END IF;
+  -- Early/late badges are about the learner's clock, not the server's
+  v_hour := CASE WHEN p_local_hour BETWEEN 0 AND 23 THEN p_local_hour ELSE EXTRACT(hour FROM now())::integer END;
+
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb) INTO v_config FROM public.coin_config;
+
+  -- 1. Base reward/penalty for the score
+  v_threshold := COALESCE((v_config ->> 'reward_score_threshold')::numeric, 70);
+  IF v_score >= v_threshold THEN
+    v_min := COALESCE((v_config ->> 'reward_min')::numeric, 0);
+    v_max := COALESCE((v_config ->> 'reward_max')::numeric, v_min);
+    v_base := round(v_min + ((v_score - v_threshold) / GREATEST(1, 100 - v_threshold)) * (v_max - v_min));
+  ELSE
+    v_threshold := COALESCE((v_config ->> 'penalty_score_threshold')::numeric, 50);
+    IF v_score < v_threshold THEN
+      v_min := COALESCE((v_config ->> 'penalty_min')::numeric, 0);
+      v_max := COALESCE((v_config ->> 'penalty_max')::numeric, v_min);
+      v_base := -round(v_min + ((v_threshold - v_score) / GREATEST(1, v_threshold)) * (v_max - v_min));
+    END IF;
+  END IF;
+
+  -- 2. Progress
+  SELECT count(*) INTO v_completed_before
+  FROM public.user_progress
+  WHERE user_id = v_user_id AND lesson_id = p_lesson_id AND mastery_level >= 3;
+
+  INSERT INTO public.user_progress AS up
+    (user_id, lesson_id, category, item_index, attempts, best_score, mastery_level, last_practiced_at)
+  VALUES
+    (v_user_id, p_lesson_id, p_category, p_item_index, 1, v_score, public.practice_mastery(1, v_score), now())
+  ON CONFLICT (user_id, lesson_id, category, item_index) DO UPDATE
+  SET attempts = up.attempts + 1,
+      best_score = GREATEST(up.best_score, EXCLUDED.best_score),
+      mastery_level = public.practice_mastery(up.attempts + 1, GREATEST(up.best_score, EXCLUDED.best_score)),
+      last_practiced_at = now()
+  RETURNING * INTO v_progress;
+
+  -- 3. Bonuses (were computed in Practice.tsx from lessonProgress.ts / deadlineRewards.ts)
+  IF v_progress.attempts = 1 THEN
+    v_amount := COALESCE((v_config ->> 'first_practice_bonus')::integer, 2);
+    IF v_amount <> 0 THEN
+      v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+        'kind', 'first_practice', 'label', 'First Practice', 'icon', '🎁', 'amount', v_amount));
+    END IF;
+  END IF;
+
+  SELECT count(*) INTO v_completed_after
+  FROM public.user_progress
+  WHERE user_id = v_user_id AND lesson_id = p_lesson_id AND mastery_level >= 3;
+
+  SELECT COALESCE(sum(CASE WHEN jsonb_typeof(items) = 'array' THEN jsonb_array_length(items) ELSE 0 END), 0)
+    INTO v_total_items
+  FROM jsonb_each(v_lesson.categories) AS c(category, items);
+
+  IF v_total_items > 0 THEN
+    v_percent_before := LEAST(100, round(v_completed_before * 100.0 / v_total_items));
+    v_percent_after := LEAST(100, round(v_completed_after * 100.0 / v_total_items));
+  END IF;
+
+  SELECT m INTO v_milestone
+  FROM unnest(ARRAY[25, 50, 75, 100]) AS m
+  WHERE v_percent_after >= m AND v_percent_before < m
+  ORDER BY m
+  LIMIT 1;
+
+  IF v_milestone IS NOT NULL THEN
+    v_amount := COALESCE((v_config ->> ('milestone_' || v_milestone || '_bonus'))::integer,
+      CASE v_milestone WHEN 25 THEN 10 WHEN 50 THEN 25 WHEN 75 THEN 50 ELSE 100 END);
+    v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+      'kind', 'milestone',
+      'label', CASE v_milestone WHEN 25 THEN 'Quarter Complete' WHEN 50 THEN 'Halfway There'
+                                WHEN 75 THEN 'Almost Done' ELSE 'Lesson Complete' END,
+      'icon', CASE v_milestone WHEN 25 THEN '🎯' WHEN 50 THEN '🔥' WHEN 75 THEN '⭐' ELSE '🏆' END,
+      'amount', v_amount));
+
+    -- Deadline bonus/penalty once the lesson is (nearly) complete
+    v_deadline := public.lesson_deadline(v_user_id, p_lesson_id);
+    v_min := COALESCE((v_config ->> 'min_completion_for_bonus')::numeric, 80);
+    IF v_deadline IS NOT NULL AND v_percent_after >= v_min THEN
+      v_days := v_deadline - v_today;
+      IF v_days > 0 THEN
+        v_max := COALESCE((v_config ->> 'deadline_early_bonus_days')::numeric, 3);
+        v_amount := round(LEAST(v_days, v_max) / GREATEST(v_max, 1)
+          * COALESCE((v_config ->> 'deadline_early_bonus_max')::numeric, 50));
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '⚡', 'amount', v_amount,
+          'label', format('Completed %s day%s early!', v_days, CASE WHEN v_days > 1 THEN 's' ELSE '' END)));
+      ELSIF v_days = 0 THEN
+        v_amount := COALESCE((v_config ->> 'deadline_on_time_bonus')::integer, 20);
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '🎯', 'amount', v_amount, 'label', 'Completed right on time!'));
+      ELSIF -v_days <= COALESCE((v_config ->> 'deadline_penalty_grace_days')::integer, 0) THEN
+        v_amount := round(COALESCE((v_config ->> 'deadline_on_time_bonus')::numeric, 20) * 0.5);
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '🕐', 'amount', v_amount, 'label', 'Grace period - half bonus for completion'));
+      ELSE
+        -- Late: scales with days overdue, reduced because completion is high
+        v_max := COALESCE((v_config ->> 'deadline_penalty_scale_days')::numeric, 7);
+        v_amount := -round(COALESCE((v_config ->> 'deadline_penalty_max')::numeric, 100)
+          * LEAST(-v_days / GREATEST(v_max, 1), 1) * 0.3);
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '❌', 'amount', v_amount,
+          'label', format('%s day%s overdue (%s%% complete)', -v_days, CASE WHEN -v_days > 1 THEN 's' ELSE '' END, v_percent_after)));
+      END IF;
+    END IF;
+  END IF;
+
+  -- Consecutive high scores in this lesson, newest first, this take included
+  v_min := COALESCE((v_config ->> 'streak_bonus_min_score')::numeric, 80);
+  IF v_score >= v_min THEN
+    v_consecutive := 1;
+    FOR v_recent IN
+      SELECT score FROM public.practice_history
+      WHERE user_id = v_user_id AND lesson_id = p_lesson_id
+      ORDER BY practiced_at DESC
+      LIMIT 9
+    LOOP
+      EXIT WHEN v_recent.score < v_min;
+      v_consecutive := v_consecutive + 1;
+    END LOOP;
+  END IF;
+  v_threshold := GREATEST(1, COALESCE((v_config ->> 'streak_bonus_threshold')::numeric, 3));
+  IF v_consecutive >= v_threshold THEN
+    v_amount := COALESCE((v_config ->> 'streak_bonus_coins')::integer, 5) * floor(v_consecutive / v_threshold);
+    v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+      'kind', 'streak', 'icon', '🔥', 'amount', v_amount, 'label', format('%sx Streak Bonus', v_consecutive)));
+  END IF;
+
+  SELECT COALESCE(sum((b ->> 'amount')::integer), 0) INTO v_bonus_total FROM jsonb_array_elements(v_bonuses) AS b;
+
+  -- 4. History row (the idempotency record); outcome is stored once complete
+  INSERT INTO public.practice_history
+    (user_id, lesson_id, category, item_index, score, coins_earned, metrics, audio_url,
+     scoring_profile_id, scoring_profile_version, settlement_key)
+  VALUES
+    (v_user_id, p_lesson_id, p_category, p_item_index, v_score, v_base + v_bonus_total, p_metrics, p_audio_url,
+     v_profile.id, v_profile.version, p_settlement_key)
+  RETURNING id INTO v_practice_id;
+
+  -- 5. Coins
+  v_balance := public.post_coin_transaction(
+    v_user_id, v_base,
+    CASE WHEN v_base > 0 THEN 'practice_reward' ELSE 'practice_penalty' END,
+    format('Practice: %s - Score %s', p_category, v_score),
+    p_lesson_id);
+  IF v_bonus_total <> 0 THEN
+    v_balance := public.post_coin_transaction(
+      v_user_id, v_bonus_total,
+      CASE WHEN v_bonus_total > 0 THEN 'bonus' ELSE 'penalty' END,
+      (SELECT string_agg(format('%s %s: %s%s', b ->> 'icon', b ->> 'label',
+                                CASE WHEN (b ->> 'amount')::integer > 0 THEN '+' ELSE '' END, b ->> 'amount'), ' • ')
+       FROM jsonb_array_elements(v_bonuses) AS b),
+      p_lesson_id);
+  END IF;
+
+  -- 6. Daily streak
+  SELECT * INTO v_streak FROM public.daily_streaks WHERE user_id = v_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    INSERT INTO public.daily_streaks (user_id, current_streak, longest_streak, last_practice_date, streak_start_date)
+    VALUES (v_user_id, 1, 1, v_today, v_today);
+    v_current_streak := 1;
+    v_is_new_day := true;
+  ELSIF v_streak.last_practice_date IS DISTINCT FROM v_today THEN
+    IF v_streak.last_practice_date = v_today - 1 THEN
+      v_current_streak := v_streak.current_streak + 1;
+    ELSE
+      v_current_streak := 1;
+    END IF;
+    UPDATE public.daily_streaks
+    SET current_streak = v_current_streak,
+        longest_streak = GREATEST(longest_streak, v_current_streak),
+        last_practice_date = v_today,
+        streak_start_date = CASE WHEN v_current_streak > 1 THEN COALESCE(streak_start_date, v_today) ELSE v_today END
+    WHERE user_id = v_user_id;
+    v_is_new_day := true;
+    v_streak_extended := v_current_streak > 1;
+  ELSE
+    v_current_streak := v_streak.current_streak;
+  END IF;
+
+  -- 7. Badges
+  SELECT count(*) AS practice_count,
+         count(*) FILTER (WHERE score >= 95) AS perfect_scores,
+         count(*) FILTER (WHERE score >= 80) AS high_scores,
+         count(*) FILTER (WHERE practiced_at::date = v_today) AS daily_practices
+    INTO v_stats
+  FROM public.practice_history
+  WHERE user_id = v_user_id;
+
+  SELECT count(*) INTO v_vocab_mastered
+  FROM public.user_progress
+  WHERE user_id = v_user_id AND mastery_level >= 3;
+
+  FOR v_badge IN
+    SELECT b.* FROM public.badges b
+    WHERE NOT EXISTS (SELECT 1 FROM public.user_badges ub WHERE ub.user_id = v_user_id AND ub.badge_id = b.id)
+    ORDER BY b.requirement_value, b.name
+  LOOP
+    v_earned := CASE v_badge.requirement_type
+      WHEN 'practice_count' THEN v_stats.practice_count >= v_badge.requirement_value
+      WHEN 'total_coins' THEN v_balance >= v_badge.requirement_value
+      WHEN 'streak_days' THEN v_current_streak >= v_badge.requirement_value
+      WHEN 'perfect_score' THEN v_stats.perfect_scores >= v_badge.requirement_value
+      WHEN 'high_scores' THEN v_stats.high_scores >= v_badge.requirement_value
+      WHEN 'vocab_mastered' THEN v_vocab_mastered >= v_badge.requirement_value
+      WHEN 'early_practice' THEN v_hour < 8
+      WHEN 'late_practice' THEN v_hour >= 22
+      WHEN 'daily_practices' THEN v_stats.daily_practices >= v_badge.requirement_value
+      ELSE false
+    END;
+    CONTINUE WHEN NOT v_earned;
+
+    INSERT INTO public.user_badges (user_id, badge_id) VALUES (v_user_id, v_badge.id)
+    ON CONFLICT (user_id, badge_id) DO NOTHING;
+    CONTINUE WHEN NOT FOUND;
+
+    IF v_badge.coins_reward > 0 THEN
+      v_balance := public.post_coin_transaction(
+        v_user_id, v_badge.coins_reward, 'badge_reward', format('Earned badge: %s', v_badge.name));
+      v_badge_total := v_badge_total + v_badge.coins_reward;
+    END IF;
+    v_new_badges := v_new_badges || jsonb_build_array(jsonb_build_object(
+      'id', v_badge.id, 'name', v_badge.name, 'icon', v_badge.icon,
+      'rarity', v_badge.rarity, 'coins_reward', v_badge.coins_reward));
+  END LOOP;
+
+  v_outcome := jsonb_build_object(
+    'practice_id', v_practice_id,
+    'replayed', false,
+    'score', v_score,
+    'coins', jsonb_build_object(
+      'base', v_base,
+      'bonuses', v_bonuses,
+      'badges', v_badge_total,
+      'total', v_base + v_bonus_total + v_badge_total),
+    'balance', v_balance,
+    'progress', jsonb_build_object(
+      'attempts', v_progress.attempts,
+      'best_score', v_progress.best_score,
+      'mastery_level', v_progress.mastery_level),
+    'lesson', jsonb_build_object(
+      'completion_percent', v_percent_after,
+      'milestone', v_milestone),
+    'streak', jsonb_build_object(
+      'current_streak', v_current_streak,
+      'is_new_day', v_is_new_day,
+      'streak_extended', v_streak_extended),
+    'new_badges', v_new_badges);
+
+  UPDATE public.practice_history SET settlement = v_outcome WHERE id = v_practice_id;
+
+  RETURN v_outcome;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.settle_practice(text, uuid, text, integer, jsonb, text, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.settle_practice(text, uuid, text, integer, jsonb, text, integer) TO authenticated;
+
+-- Balances, ledger, progress, streaks and badges are now written only by
+-- settlement functions; admins keep direct access for manual adjustments
+DROP POLICY IF EXISTS "System can manage wallets" ON public.user_wallets;
+CREATE POLICY "Admins can manage wallets" ON public.user_wallets TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+DROP POLICY IF EXISTS "System can insert transactions" ON public.coin_transactions;
+CREATE POLICY "Admins can insert transactions" ON public.coin_transactions FOR INSERT TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+DROP POLICY IF EXISTS "Users can insert own practice" ON public.practice_history;
+DROP POLICY IF EXISTS "Users can manage own progress" ON public.user_progress;
+DROP POLICY IF EXISTS "Users can insert their own streak" ON public.daily_streaks;
+DROP POLICY IF EXISTS "Users can update their own streak" ON public.daily_streaks;
+DROP POLICY IF EXISTS "Users can insert their own badges" ON public.user_badges;
+
+COMMIT;
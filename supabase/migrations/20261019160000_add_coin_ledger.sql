@@ -0,0 +1,820 @@
+-- Migration: Double-entry coin ledger with balance reconciliation
+-- user_wallets.balance was updated independently of coin_transactions, and
+-- clamping at zero silently dropped part of a penalty, so the two diverged.
+-- coin_transactions becomes an append-only journal with a typed entry kind,
+-- every journal row is backed by balanced debit/credit legs between the
+-- learner's wallet and the system treasury, and user_wallets is a projection
+-- of the wallet legs that only the ledger trigger writes.
+-- reconcile_coin_ledger() records per-user drift between the projection and
+-- the ledger for the admin view in CoinConfigPanel.
+
+BEGIN;
+
+CREATE TYPE public.coin_entry_kind AS ENUM (
+  'practice_reward',
+  'practice_penalty',
+  'first_practice',
+  'milestone',
+  'streak',
+  'deadline',
+  'badge',
+  'admin_adjustment',
+  'legacy'
+);
+
+-- ---------------------------------------------------------------------------
+-- Journal (coin_transactions) and legs (coin_ledger_entries)
+-- ---------------------------------------------------------------------------
+
+ALTER TABLE public.coin_transactions
+  ADD COLUMN IF NOT EXISTS entry_kind public.coin_entry_kind,
+  ADD COLUMN IF NOT EXISTS requested_amount integer;
+
+COMMENT ON COLUMN public.coin_transactions.entry_kind IS 'Typed kind of the entry; transaction_type is kept for older rows';
+COMMENT ON COLUMN public.coin_transactions.requested_amount IS 'Penalty asked for when it exceeded the balance; amount is what was actually debited';
+
+UPDATE public.coin_transactions
+SET entry_kind = CASE transaction_type
+  WHEN 'practice_reward' THEN 'practice_reward'
+  WHEN 'practice_penalty' THEN 'practice_penalty'
+  WHEN 'badge_reward' THEN 'badge'
+  WHEN 'credit' THEN 'admin_adjustment'
+  WHEN 'debit' THEN 'admin_adjustment'
+  -- Older 'bonus'/'penalty' rows lump milestone, streak and deadline amounts together
+  ELSE 'legacy'
+END::public.coin_entry_kind
+WHERE entry_kind IS NULL;
+
+ALTER TABLE public.coin_transactions ALTER COLUMN entry_kind SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_coin_transactions_user_created
+  ON public.coin_transactions (user_id, created_at DESC);
+
+CREATE TABLE public.coin_ledger_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id uuid NOT NULL REFERENCES public.coin_transactions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account text NOT NULL CHECK (account IN ('wallet', 'treasury')),
+  debit integer NOT NULL DEFAULT 0 CHECK (debit >= 0),
+  credit integer NOT NULL DEFAULT 0 CHECK (credit >= 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK ((debit = 0) <> (credit = 0))
+);
+
+COMMENT ON TABLE public.coin_ledger_entries IS 'Debit/credit legs of each coin_transactions row; wallet legs belong to user_id, treasury legs are the system counter-account';
+
+CREATE INDEX idx_coin_ledger_entries_wallet ON public.coin_ledger_entries (user_id) WHERE account = 'wallet';
+CREATE INDEX idx_coin_ledger_entries_transaction ON public.coin_ledger_entries (transaction_id);
+
+ALTER TABLE public.coin_ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own ledger entries" ON public.coin_ledger_entries FOR SELECT TO authenticated
+  USING (((user_id = auth.uid()) OR public.has_role(auth.uid(), 'admin'::public.app_role)));
+
+-- Backfill the legs of existing journal rows (wallet projections are left as
+-- they are, so historical divergence shows up in the first reconciliation)
+INSERT INTO public.coin_ledger_entries (transaction_id, user_id, account, debit, credit, created_at)
+SELECT t.id, t.user_id, leg.account, leg.debit, leg.credit, t.created_at
+FROM public.coin_transactions t
+CROSS JOIN LATERAL (VALUES
+  ('wallet', GREATEST(-t.amount, 0), GREATEST(t.amount, 0)),
+  ('treasury', GREATEST(t.amount, 0), GREATEST(-t.amount, 0))
+) AS leg(account, debit, credit)
+WHERE t.amount <> 0;
+
+-- Every journal row must balance: sum(debit) = sum(credit)
+CREATE OR REPLACE FUNCTION public.check_coin_transaction_balanced()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_difference integer;
+BEGIN
+  SELECT COALESCE(sum(debit), 0) - COALESCE(sum(credit), 0) INTO v_difference
+  FROM public.coin_ledger_entries
+  WHERE transaction_id = NEW.transaction_id;
+
+  IF v_difference <> 0 THEN
+    RAISE EXCEPTION 'Coin transaction % is unbalanced by %', NEW.transaction_id, v_difference;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER coin_ledger_entries_balanced
+  AFTER INSERT ON public.coin_ledger_entries
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.check_coin_transaction_balanced();
+
+-- Append-only: rows only disappear when the user they belong to is deleted
+CREATE OR REPLACE FUNCTION public.prevent_coin_ledger_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'The coin ledger is append-only; post a correcting entry instead';
+END;
+$$;
+
+CREATE TRIGGER coin_transactions_append_only
+  BEFORE UPDATE OR DELETE ON public.coin_transactions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_coin_ledger_changes();
+
+CREATE TRIGGER coin_ledger_entries_append_only
+  BEFORE UPDATE OR DELETE ON public.coin_ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_coin_ledger_changes();
+
+-- Wallet projection follows the wallet legs
+CREATE OR REPLACE FUNCTION public.apply_coin_ledger_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.user_wallets
+  SET balance = balance + NEW.credit - NEW.debit,
+      total_earned = total_earned + NEW.credit,
+      total_spent = total_spent + NEW.debit
+  WHERE user_id = NEW.user_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER coin_ledger_entries_apply_wallet
+  AFTER INSERT ON public.coin_ledger_entries
+  FOR EACH ROW WHEN (NEW.account = 'wallet')
+  EXECUTE FUNCTION public.apply_coin_ledger_entry();
+
+-- ---------------------------------------------------------------------------
+-- Posting
+-- ---------------------------------------------------------------------------
+
+-- Writes one journal row and its two legs; no balance checks
+CREATE OR REPLACE FUNCTION public.record_coin_entry(
+  p_user_id uuid,
+  p_amount integer,
+  p_kind public.coin_entry_kind,
+  p_description text,
+  p_reference_id uuid DEFAULT NULL,
+  p_requested_amount integer DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction_id uuid;
+BEGIN
+  INSERT INTO public.coin_transactions
+    (user_id, amount, transaction_type, entry_kind, description, reference_id, requested_amount)
+  VALUES
+    (p_user_id, p_amount, p_kind::text, p_kind, p_description, p_reference_id, p_requested_amount)
+  RETURNING id INTO v_transaction_id;
+
+  IF p_amount <> 0 THEN
+    INSERT INTO public.coin_ledger_entries (transaction_id, user_id, account, debit, credit)
+    VALUES
+      (v_transaction_id, p_user_id, 'wallet', GREATEST(-p_amount, 0), GREATEST(p_amount, 0)),
+      (v_transaction_id, p_user_id, 'treasury', GREATEST(p_amount, 0), GREATEST(-p_amount, 0));
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_coin_entry(uuid, integer, public.coin_entry_kind, text, uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- Posts coins to a wallet. A debit larger than the balance is reduced to the
+-- balance and the full amount kept in requested_amount. Returns the new balance.
+DROP FUNCTION IF EXISTS public.post_coin_transaction(uuid, integer, text, text, uuid);
+
+CREATE OR REPLACE FUNCTION public.post_coin_transaction(
+  p_user_id uuid,
+  p_amount integer,
+  p_kind public.coin_entry_kind,
+  p_description text,
+  p_reference_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance integer;
+  v_amount integer := p_amount;
+BEGIN
+  INSERT INTO public.user_wallets (user_id, balance) VALUES (p_user_id, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+  SELECT balance INTO v_balance FROM public.user_wallets WHERE user_id = p_user_id FOR UPDATE;
+
+  IF p_amount = 0 THEN
+    RETURN v_balance;
+  END IF;
+
+  IF p_amount < 0 AND -p_amount > v_balance THEN
+    v_amount := -GREATEST(v_balance, 0);
+  END IF;
+
+  PERFORM public.record_coin_entry(
+    p_user_id, v_amount, p_kind, p_description, p_reference_id,
+    CASE WHEN v_amount <> p_amount THEN p_amount END);
+
+  SELECT balance INTO v_balance FROM public.user_wallets WHERE user_id = p_user_id;
+  RETURN v_balance;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.post_coin_transaction(uuid, integer, public.coin_entry_kind, text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Manual credit/debit from the admin user list
+CREATE OR REPLACE FUNCTION public.admin_adjust_coins(
+  p_user_id uuid,
+  p_amount integer,
+  p_description text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can adjust coins';
+  END IF;
+  IF p_amount IS NULL OR p_amount = 0 THEN
+    RAISE EXCEPTION 'Adjustment amount must be non-zero';
+  END IF;
+
+  RETURN public.post_coin_transaction(
+    p_user_id, p_amount, 'admin_adjustment', NULLIF(trim(p_description), ''));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.admin_adjust_coins(uuid, integer, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.admin_adjust_coins(uuid, integer, text) TO authenticated;
+
+-- Only the ledger writes balances and journal rows
+DROP POLICY IF EXISTS "Admins can manage wallets" ON public.user_wallets;
+DROP POLICY IF EXISTS "Admins can insert transactions" ON public.coin_transactions;
+
+-- ---------------------------------------------------------------------------
+-- Reconciliation
+-- ---------------------------------------------------------------------------
+
+CREATE TABLE public.coin_reconciliation_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  started_at timestamp with time zone NOT NULL DEFAULT now(),
+  triggered_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  users_checked integer NOT NULL DEFAULT 0,
+  drifted_users integer NOT NULL DEFAULT 0,
+  total_drift integer NOT NULL DEFAULT 0,
+  -- sum(debit) - sum(credit) over every leg; anything but 0 is a ledger bug
+  ledger_imbalance integer NOT NULL DEFAULT 0
+);
+
+CREATE TABLE public.coin_balance_drift (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES public.coin_reconciliation_runs(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  wallet_balance integer NOT NULL,
+  ledger_balance integer NOT NULL,
+  wallet_earned integer NOT NULL,
+  ledger_earned integer NOT NULL,
+  wallet_spent integer NOT NULL,
+  ledger_spent integer NOT NULL,
+  balance_drift integer GENERATED ALWAYS AS (wallet_balance - ledger_balance) STORED,
+  resolution text CHECK (resolution IN ('ledger', 'wallet')),
+  resolved_at timestamp with time zone,
+  resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_coin_balance_drift_run ON public.coin_balance_drift (run_id);
+
+ALTER TABLE public.coin_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coin_balance_drift ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view reconciliation runs" ON public.coin_reconciliation_runs FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+CREATE POLICY "Admins can view balance drift" ON public.coin_balance_drift FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+-- Wallet projection vs. ledger, per user
+CREATE OR REPLACE VIEW public.coin_ledger_balances
+WITH (security_invoker = true)
+AS
+SELECT w.user_id,
+       w.balance AS wallet_balance,
+       COALESCE(l.credit, 0) - COALESCE(l.debit, 0) AS ledger_balance,
+       w.total_earned AS wallet_earned,
+       COALESCE(l.credit, 0) AS ledger_earned,
+       w.total_spent AS wallet_spent,
+       COALESCE(l.debit, 0) AS ledger_spent
+FROM public.user_wallets w
+LEFT JOIN (
+  SELECT user_id, sum(credit)::integer AS credit, sum(debit)::integer AS debit
+  FROM public.coin_ledger_entries
+  WHERE account = 'wallet'
+  GROUP BY user_id
+) l ON l.user_id = w.user_id;
+
+-- Records a run and one drift row per user whose wallet disagrees with the
+-- ledger. Called by admins from CoinConfigPanel and nightly by pg_cron.
+CREATE OR REPLACE FUNCTION public.reconcile_coin_ledger()
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run_id uuid;
+BEGIN
+  -- auth.uid() is NULL when pg_cron runs the job as the owner; anon cannot
+  -- execute this function
+  IF auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can reconcile the coin ledger';
+  END IF;
+
+  INSERT INTO public.coin_reconciliation_runs (triggered_by) VALUES (auth.uid())
+  RETURNING id INTO v_run_id;
+
+  INSERT INTO public.coin_balance_drift
+    (run_id, user_id, wallet_balance, ledger_balance, wallet_earned, ledger_earned, wallet_spent, ledger_spent)
+  SELECT v_run_id, user_id, wallet_balance, ledger_balance, wallet_earned, ledger_earned, wallet_spent, ledger_spent
+  FROM public.coin_ledger_balances
+  WHERE wallet_balance <> ledger_balance
+     OR wallet_earned <> ledger_earned
+     OR wallet_spent <> ledger_spent;
+
+  UPDATE public.coin_reconciliation_runs r
+  SET users_checked = (SELECT count(*) FROM public.user_wallets),
+      drifted_users = d.drifted,
+      total_drift = d.total,
+      ledger_imbalance = (SELECT COALESCE(sum(debit), 0) - COALESCE(sum(credit), 0) FROM public.coin_ledger_entries)
+  FROM (
+    SELECT count(*) AS drifted, COALESCE(sum(abs(balance_drift)), 0) AS total
+    FROM public.coin_balance_drift
+    WHERE run_id = v_run_id
+  ) d
+  WHERE r.id = v_run_id;
+
+  IF (SELECT drifted_users FROM public.coin_reconciliation_runs WHERE id = v_run_id) > 0 THEN
+    RAISE LOG 'Coin reconciliation %: wallet drift detected', v_run_id;
+  END IF;
+
+  RETURN v_run_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reconcile_coin_ledger() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reconcile_coin_ledger() TO authenticated;
+
+-- Resolves a drift row:
+--   'ledger' - the ledger is right; reset the wallet projection to it
+--   'wallet' - the wallet is right; post an admin adjustment for the
+--              difference so the ledger matches what the learner sees
+CREATE OR REPLACE FUNCTION public.resolve_coin_drift(p_drift_id uuid, p_resolution text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_drift public.coin_balance_drift;
+  v_current public.coin_ledger_balances;
+  v_difference integer;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can resolve coin drift';
+  END IF;
+  IF p_resolution NOT IN ('ledger', 'wallet') THEN
+    RAISE EXCEPTION 'Unknown resolution "%"', p_resolution;
+  END IF;
+
+  SELECT * INTO v_drift FROM public.coin_balance_drift WHERE id = p_drift_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Drift % not found', p_drift_id;
+  END IF;
+  IF v_drift.resolved_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Drift % was already resolved', p_drift_id;
+  END IF;
+
+  PERFORM 1 FROM public.user_wallets WHERE user_id = v_drift.user_id FOR UPDATE;
+  SELECT * INTO v_current FROM public.coin_ledger_balances WHERE user_id = v_drift.user_id;
+
+  -- Use the live difference: entries posted since the run moved both sides
+  v_difference := v_current.wallet_balance - v_current.ledger_balance;
+  IF p_resolution = 'wallet' AND v_difference <> 0 THEN
+    PERFORM public.record_coin_entry(
+      v_drift.user_id, v_difference, 'admin_adjustment',
+      'Reconciliation: ledger aligned with wallet balance');
+  END IF;
+
+  -- Projection from the ledger, including any adjustment just posted
+  UPDATE public.user_wallets w
+  SET balance = b.ledger_balance,
+      total_earned = b.ledger_earned,
+      total_spent = b.ledger_spent
+  FROM public.coin_ledger_balances b
+  WHERE b.user_id = w.user_id AND w.user_id = v_drift.user_id;
+
+  UPDATE public.coin_balance_drift
+  SET resolution = p_resolution, resolved_at = now(), resolved_by = auth.uid()
+  WHERE id = p_drift_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_coin_drift(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.resolve_coin_drift(uuid, text) TO authenticated;
+
+-- Nightly reconciliation where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule('reconcile-coin-ledger', '15 3 * * *', 'SELECT public.reconcile_coin_ledger()');
+  END IF;
+END;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Settlement posts typed entries (one per bonus instead of a lumped 'bonus')
+-- ---------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.settle_practice(
+  p_settlement_key text,
+  p_lesson_id uuid,
+  p_category text,
+  p_item_index integer,
+  p_metrics jsonb,
+  p_audio_url text DEFAULT NULL,
+  p_local_hour integer DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_today date := CURRENT_DATE;
+  v_hour integer;
+  v_score integer;
+  v_profile public.scoring_profiles;
+  v_replay jsonb;
+  v_lesson public.lessons;
+  v_config jsonb;
+  v_progress public.user_progress;
+  v_streak public.daily_streaks;
+  v_practice_id uuid;
+  v_balance integer;
+  v_before integer;
+  v_outcome jsonb;
+
+  v_base integer := 0;
+  v_bonuses jsonb := '[]'::jsonb;
+  v_bonus_total integer := 0;
+  v_bonus record;
+  v_posted jsonb := '[]'::jsonb;
+  v_badge_total integer := 0;
+  v_new_badges jsonb := '[]'::jsonb;
+
+  v_threshold numeric;
+  v_min numeric;
+  v_max numeric;
+  v_amount integer;
+
+  v_total_items integer;
+  v_completed_before integer;
+  v_completed_after integer;
+  v_percent_before integer := 0;
+  v_percent_after integer := 0;
+  v_milestone integer;
+  v_deadline date;
+  v_days integer;
+
+  v_consecutive integer := 0;
+  v_recent record;
+
+  v_current_streak integer;
+  v_is_new_day boolean := false;
+  v_streak_extended boolean := false;
+
+  v_stats record;
+  v_vocab_mastered integer;
+  v_badge public.badges;
+  v_earned boolean;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_settlement_key IS NULL OR length(p_settlement_key) NOT BETWEEN 1 AND 100 THEN
+    RAISE EXCEPTION 'A settlement key (1-100 chars) is required';
+  END IF;
+
+  -- All settlements of one user serialize on the wallet row (second tab, retries)
+  INSERT INTO public.user_wallets (user_id, balance) VALUES (v_user_id, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+  SELECT balance INTO v_balance FROM public.user_wallets WHERE user_id = v_user_id FOR UPDATE;
+
+  SELECT settlement INTO v_replay
+  FROM public.practice_history
+  WHERE user_id = v_user_id AND settlement_key = p_settlement_key;
+  IF FOUND THEN
+    RETURN v_replay || '{"replayed": true}'::jsonb;
+  END IF;
+
+  SELECT * INTO v_lesson FROM public.lessons WHERE id = p_lesson_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson % not found', p_lesson_id;
+  END IF;
+  IF jsonb_typeof(v_lesson.categories -> p_category) IS DISTINCT FROM 'array'
+     OR p_item_index IS NULL
+     OR p_item_index NOT BETWEEN 0 AND jsonb_array_length(v_lesson.categories -> p_category) - 1 THEN
+    RAISE EXCEPTION 'Item % of "%" does not exist in this lesson', p_item_index, p_category;
+  END IF;
+
+  -- The score is computed here from the take's metrics with the active
+  -- scoring profile and its overrides for this item; the score shown in the
+  -- browser is only a preview
+  SELECT * INTO v_profile FROM public.scoring_profiles WHERE is_active;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active scoring profile';
+  END IF;
+  v_score := public.score_practice_metrics(
+    p_metrics,
+    public.resolve_scoring_metrics(v_profile.metrics, v_profile.overrides, v_lesson.course_id, p_lesson_id, p_category));
+  IF v_score IS NULL THEN
+    RAISE EXCEPTION 'The take is missing the metrics needed to score it';
+  END IF;
+  -- Early/late badges are about the learner's clock, not the server's
+  v_hour := CASE WHEN p_local_hour BETWEEN 0 AND 23 THEN p_local_hour ELSE EXTRACT(hour FROM now())::integer END;
+
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb) INTO v_config FROM public.coin_config;
+
+  -- 1. Base reward/penalty for the score
+  v_threshold := COALESCE((v_config ->> 'reward_score_threshold')::numeric, 70);
+  IF v_score >= v_threshold THEN
+    v_min := COALESCE((v_config ->> 'reward_min')::numeric, 0);
+    v_max := COALESCE((v_config ->> 'reward_max')::numeric, v_min);
+    v_base := round(v_min + ((v_score - v_threshold) / GREATEST(1, 100 - v_threshold)) * (v_max - v_min));
+  ELSE
+    v_threshold := COALESCE((v_config ->> 'penalty_score_threshold')::numeric, 50);
+    IF v_score < v_threshold THEN
+      v_min := COALESCE((v_config ->> 'penalty_min')::numeric, 0);
+      v_max := COALESCE((v_config ->> 'penalty_max')::numeric, v_min);
+      v_base := -round(v_min + ((v_threshold - v_score) / GREATEST(1, v_threshold)) * (v_max - v_min));
+    END IF;
+  END IF;
+
+  -- 2. Progress
+  SELECT count(*) INTO v_completed_before
+  FROM public.user_progress
+  WHERE user_id = v_user_id AND lesson_id = p_lesson_id AND mastery_level >= 3;
+
+  INSERT INTO public.user_progress AS up
+    (user_id, lesson_id, category, item_index, attempts, best_score, mastery_level, last_practiced_at)
+  VALUES
+    (v_user_id, p_lesson_id, p_category, p_item_index, 1, v_score, public.practice_mastery(1, v_score), now())
+  ON CONFLICT (user_id, lesson_id, category, item_index) DO UPDATE
+  SET attempts = up.attempts + 1,
+      best_score = GREATEST(up.best_score, EXCLUDED.best_score),
+      mastery_level = public.practice_mastery(up.attempts + 1, GREATEST(up.best_score, EXCLUDED.best_score)),
+      last_practiced_at = now()
+  RETURNING * INTO v_progress;
+
+  -- 3. Bonuses (were computed in Practice.tsx from lessonProgress.ts / deadlineRewards.ts)
+  IF v_progress.attempts = 1 THEN
+    v_amount := COALESCE((v_config ->> 'first_practice_bonus')::integer, 2);
+    IF v_amount <> 0 THEN
+      v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+        'kind', 'first_practice', 'label', 'First Practice', 'icon', '🎁', 'amount', v_amount));
+    END IF;
+  END IF;
+
+  SELECT count(*) INTO v_completed_after
+  FROM public.user_progress
+  WHERE user_id = v_user_id AND lesson_id = p_lesson_id AND mastery_level >= 3;
+
+  SELECT COALESCE(sum(CASE WHEN jsonb_typeof(items) = 'array' THEN jsonb_array_length(items) ELSE 0 END), 0)
+    INTO v_total_items
+  FROM jsonb_each(v_lesson.categories) AS c(category, items);
+
+  IF v_total_items > 0 THEN
+    v_percent_before := LEAST(100, round(v_completed_before * 100.0 / v_total_items));
+    v_percent_after := LEAST(100, round(v_completed_after * 100.0 / v_total_items));
+  END IF;
+
+  SELECT m INTO v_milestone
+  FROM unnest(ARRAY[25, 50, 75, 100]) AS m
+  WHERE v_percent_after >= m AND v_percent_before < m
+  ORDER BY m
+  LIMIT 1;
+
+  IF v_milestone IS NOT NULL THEN
+    v_amount := COALESCE((v_config ->> ('milestone_' || v_milestone || '_bonus'))::integer,
+      CASE v_milestone WHEN 25 THEN 10 WHEN 50 THEN 25 WHEN 75 THEN 50 ELSE 100 END);
+    v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+      'kind', 'milestone',
+      'label', CASE v_milestone WHEN 25 THEN 'Quarter Complete' WHEN 50 THEN 'Halfway There'
+                                WHEN 75 THEN 'Almost Done' ELSE 'Lesson Complete' END,
+      'icon', CASE v_milestone WHEN 25 THEN '🎯' WHEN 50 THEN '🔥' WHEN 75 THEN '⭐' ELSE '🏆' END,
+      'amount', v_amount));
+
+    -- Deadline bonus/penalty once the lesson is (nearly) complete
+    v_deadline := public.lesson_deadline(v_user_id, p_lesson_id);
+    v_min := COALESCE((v_config ->> 'min_completion_for_bonus')::numeric, 80);
+    IF v_deadline IS NOT NULL AND v_percent_after >= v_min THEN
+      v_days := v_deadline - v_today;
+      IF v_days > 0 THEN
+        v_max := COALESCE((v_config ->> 'deadline_early_bonus_days')::numeric, 3);
+        v_amount := round(LEAST(v_days, v_max) / GREATEST(v_max, 1)
+          * COALESCE((v_config ->> 'deadline_early_bonus_max')::numeric, 50));
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '⚡', 'amount', v_amount,
+          'label', format('Completed %s day%s early!', v_days, CASE WHEN v_days > 1 THEN 's' ELSE '' END)));
+      ELSIF v_days = 0 THEN
+        v_amount := COALESCE((v_config ->> 'deadline_on_time_bonus')::integer, 20);
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '🎯', 'amount', v_amount, 'label', 'Completed right on time!'));
+      ELSIF -v_days <= COALESCE((v_config ->> 'deadline_penalty_grace_days')::integer, 0) THEN
+        v_amount := round(COALESCE((v_config ->> 'deadline_on_time_bonus')::numeric, 20) * 0.5);
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '🕐', 'amount', v_amount, 'label', 'Grace period - half bonus for completion'));
+      ELSE
+        -- Late: scales with days overdue, reduced because completion is high
+        v_max := COALESCE((v_config ->> 'deadline_penalty_scale_days')::numeric, 7);
+        v_amount := -round(COALESCE((v_config ->> 'deadline_penalty_max')::numeric, 100)
+          * LEAST(-v_days / GREATEST(v_max, 1), 1) * 0.3);
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '❌', 'amount', v_amount,
+          'label', format('%s day%s overdue (%s%% complete)', -v_days, CASE WHEN -v_days > 1 THEN 's' ELSE '' END, v_percent_after)));
+      END IF;
+    END IF;
+  END IF;
+
+  -- Consecutive high scores in this lesson, newest first, this take included
+  v_min := COALESCE((v_config ->> 'streak_bonus_min_score')::numeric, 80);
+  IF v_score >= v_min THEN
+    v_consecutive := 1;
+    FOR v_recent IN
+      SELECT score FROM public.practice_history
+      WHERE user_id = v_user_id AND lesson_id = p_lesson_id
+      ORDER BY practiced_at DESC
+      LIMIT 9
+    LOOP
+      EXIT WHEN v_recent.score < v_min;
+      v_consecutive := v_consecutive + 1;
+    END LOOP;
+  END IF;
+  v_threshold := GREATEST(1, COALESCE((v_config ->> 'streak_bonus_threshold')::numeric, 3));
+  IF v_consecutive >= v_threshold THEN
+    v_amount := COALESCE((v_config ->> 'streak_bonus_coins')::integer, 5) * floor(v_consecutive / v_threshold);
+    v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+      'kind', 'streak', 'icon', '🔥', 'amount', v_amount, 'label', format('%sx Streak Bonus', v_consecutive)));
+  END IF;
+
+  -- 4. History row (the idempotency record); coins and outcome are stored once complete
+  INSERT INTO public.practice_history
+    (user_id, lesson_id, category, item_index, score, coins_earned, metrics, audio_url,
+     scoring_profile_id, scoring_profile_version, settlement_key)
+  VALUES
+    (v_user_id, p_lesson_id, p_category, p_item_index, v_score, 0, p_metrics, p_audio_url,
+     v_profile.id, v_profile.version, p_settlement_key)
+  RETURNING id INTO v_practice_id;
+
+  -- 5. Coins: one ledger entry per component. A penalty can be reduced to
+  -- the balance, so amounts are reported as actually posted.
+  v_before := v_balance;
+  v_balance := public.post_coin_transaction(
+    v_user_id, v_base,
+    (CASE WHEN v_base > 0 THEN 'practice_reward' ELSE 'practice_penalty' END)::public.coin_entry_kind,
+    format('Practice: %s - Score %s', p_category, v_score),
+    p_lesson_id);
+  v_base := v_balance - v_before;
+
+  FOR v_bonus IN SELECT value FROM jsonb_array_elements(v_bonuses) LOOP
+    v_before := v_balance;
+    v_balance := public.post_coin_transaction(
+      v_user_id, (v_bonus.value ->> 'amount')::integer,
+      (v_bonus.value ->> 'kind')::public.coin_entry_kind,
+      format('%s %s', v_bonus.value ->> 'icon', v_bonus.value ->> 'label'),
+      p_lesson_id);
+    v_posted := v_posted || jsonb_build_array(jsonb_set(v_bonus.value, '{amount}', to_jsonb(v_balance - v_before)));
+    v_bonus_total := v_bonus_total + (v_balance - v_before);
+  END LOOP;
+  v_bonuses := v_posted;
+
+  -- 6. Daily streak
+  SELECT * INTO v_streak FROM public.daily_streaks WHERE user_id = v_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    INSERT INTO public.daily_streaks (user_id, current_streak, longest_streak, last_practice_date, streak_start_date)
+    VALUES (v_user_id, 1, 1, v_today, v_today);
+    v_current_streak := 1;
+    v_is_new_day := true;
+  ELSIF v_streak.last_practice_date IS DISTINCT FROM v_today THEN
+    IF v_streak.last_practice_date = v_today - 1 THEN
+      v_current_streak := v_streak.current_streak + 1;
+    ELSE
+      v_current_streak := 1;
+    END IF;
+    UPDATE public.daily_streaks
+    SET current_streak = v_current_streak,
+        longest_streak = GREATEST(longest_streak, v_current_streak),
+        last_practice_date = v_today,
+        streak_start_date = CASE WHEN v_current_streak > 1 THEN COALESCE(streak_start_date, v_today) ELSE v_today END
+    WHERE user_id = v_user_id;
+    v_is_new_day := true;
+    v_streak_extended := v_current_streak > 1;
+  ELSE
+    v_current_streak := v_streak.current_streak;
+  END IF;
+
+  -- 7. Badges
+  SELECT count(*) AS practice_count,
+         count(*) FILTER (WHERE score >= 95) AS perfect_scores,
+         count(*) FILTER (WHERE score >= 80) AS high_scores,
+         count(*) FILTER (WHERE practiced_at::date = v_today) AS daily_practices
+    INTO v_stats
+  FROM public.practice_history
+  WHERE user_id = v_user_id;
+
+  SELECT count(*) INTO v_vocab_mastered
+  FROM public.user_progress
+  WHERE user_id = v_user_id AND mastery_level >= 3;
+
+  FOR v_badge IN
+    SELECT b.* FROM public.badges b
+    WHERE NOT EXISTS (SELECT 1 FROM public.user_badges ub WHERE ub.user_id = v_user_id AND ub.badge_id = b.id)
+    ORDER BY b.requirement_value, b.name
+  LOOP
+    v_earned := CASE v_badge.requirement_type
+      WHEN 'practice_count' THEN v_stats.practice_count >= v_badge.requirement_value
+      WHEN 'total_coins' THEN v_balance >= v_badge.requirement_value
+      WHEN 'streak_days' THEN v_current_streak >= v_badge.requirement_value
+      WHEN 'perfect_score' THEN v_stats.perfect_scores >= v_badge.requirement_value
+      WHEN 'high_scores' THEN v_stats.high_scores >= v_badge.requirement_value
+      WHEN 'vocab_mastered' THEN v_vocab_mastered >= v_badge.requirement_value
+      WHEN 'early_practice' THEN v_hour < 8
+      WHEN 'late_practice' THEN v_hour >= 22
+      WHEN 'daily_practices' THEN v_stats.daily_practices >= v_badge.requirement_value
+      ELSE false
+    END;
+    CONTINUE WHEN NOT v_earned;
+
+    INSERT INTO public.user_badges (user_id, badge_id) VALUES (v_user_id, v_badge.id)
+    ON CONFLICT (user_id, badge_id) DO NOTHING;
+    CONTINUE WHEN NOT FOUND;
+
+    IF v_badge.coins_reward > 0 THEN
+      v_balance := public.post_coin_transaction(
+        v_user_id, v_badge.coins_reward, 'badge', format('Earned badge: %s', v_badge.name));
+      v_badge_total := v_badge_total + v_badge.coins_reward;
+    END IF;
+    v_new_badges := v_new_badges || jsonb_build_array(jsonb_build_object(
+      'id', v_badge.id, 'name', v_badge.name, 'icon', v_badge.icon,
+      'rarity', v_badge.rarity, 'coins_reward', v_badge.coins_reward));
+  END LOOP;
+
+  v_outcome := jsonb_build_object(
+    'practice_id', v_practice_id,
+    'replayed', false,
+    'score', v_score,
+    'coins', jsonb_build_object(
+      'base', v_base,
+      'bonuses', v_bonuses,
+      'badges', v_badge_total,
+      'total', v_base + v_bonus_total + v_badge_total),
+    'balance', v_balance,
+    'progress', jsonb_build_object(
+      'attempts', v_progress.attempts,
+      'best_score', v_progress.best_score,
+      'mastery_level', v_progress.mastery_level),
+    'lesson', jsonb_build_object(
+      'completion_percent', v_percent_after,
+      'milestone', v_milestone),
+    'streak', jsonb_build_object(
+      'current_streak', v_current_streak,
+      'is_new_day', v_is_new_day,
+      'streak_extended', v_streak_extended),
+    'new_badges', v_new_badges);
+
+  UPDATE public.practice_history
+  SET coins_earned = v_base + v_bonus_total, settlement = v_outcome
+  WHERE id = v_practice_id;
+
+  RETURN v_outcome;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.settle_practice(text, uuid, text, integer, jsonb, text, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.settle_practice(text, uuid, text, integer, jsonb, text, integer) TO authenticated;
+
+COMMIT;
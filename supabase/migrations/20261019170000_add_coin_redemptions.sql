@@ -0,0 +1,213 @@
+-- Migration: Coin redemption requests with an admin approval queue
+-- lessons_required_for_withdraw and min_avg_score_for_withdraw were editable in
+-- CoinConfigPanel but nothing used them. Learners who meet both rules can ask
+-- to redeem coins; an admin approves (debits the ledger) or rejects with notes.
+
+-- Enum values cannot be added inside a transaction block that later uses them
+ALTER TYPE public.coin_entry_kind ADD VALUE IF NOT EXISTS 'redemption';
+
+BEGIN;
+
+CREATE TABLE public.coin_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount integer NOT NULL CHECK (amount > 0),
+  note text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  admin_notes text,
+  reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at timestamp with time zone,
+  transaction_id uuid REFERENCES public.coin_transactions(id),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_coin_redemptions_user ON public.coin_redemptions (user_id, created_at DESC);
+CREATE INDEX idx_coin_redemptions_pending ON public.coin_redemptions (created_at) WHERE status = 'pending';
+
+CREATE TRIGGER update_coin_redemptions_updated_at BEFORE UPDATE ON public.coin_redemptions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.coin_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Requests are created and reviewed through the functions below only
+CREATE POLICY "Users can view own redemptions" ON public.coin_redemptions FOR SELECT TO authenticated
+  USING (((user_id = auth.uid()) OR public.has_role(auth.uid(), 'admin'::public.app_role)));
+
+-- Withdrawal rules for a learner: completed lessons (every item mastered) and
+-- average practice score, plus what is still available to redeem
+CREATE OR REPLACE FUNCTION public.coin_redemption_eligibility(p_user_id uuid DEFAULT auth.uid())
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lessons_required integer;
+  v_min_average integer;
+  v_lessons_completed integer;
+  v_average_score integer;
+  v_balance integer;
+  v_pending integer;
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() AND NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Not allowed to view eligibility of another user';
+  END IF;
+
+  SELECT COALESCE(max(value) FILTER (WHERE key = 'lessons_required_for_withdraw'), 0),
+         COALESCE(max(value) FILTER (WHERE key = 'min_avg_score_for_withdraw'), 0)
+    INTO v_lessons_required, v_min_average
+  FROM public.coin_config;
+
+  SELECT count(*) INTO v_lessons_completed
+  FROM (
+    SELECT l.id,
+           (SELECT COALESCE(sum(CASE WHEN jsonb_typeof(items) = 'array' THEN jsonb_array_length(items) ELSE 0 END), 0)
+            FROM jsonb_each(l.categories) AS c(category, items)) AS total_items,
+           (SELECT count(*) FROM public.user_progress up
+            WHERE up.user_id = p_user_id AND up.lesson_id = l.id AND up.mastery_level >= 3) AS mastered_items
+    FROM public.lessons l
+  ) lesson_totals
+  WHERE total_items > 0 AND mastered_items >= total_items;
+
+  SELECT COALESCE(round(avg(score)), 0) INTO v_average_score
+  FROM public.practice_history
+  WHERE user_id = p_user_id;
+
+  SELECT COALESCE(balance, 0) INTO v_balance FROM public.user_wallets WHERE user_id = p_user_id;
+  SELECT COALESCE(sum(amount), 0) INTO v_pending
+  FROM public.coin_redemptions
+  WHERE user_id = p_user_id AND status = 'pending';
+
+  RETURN jsonb_build_object(
+    'lessons_completed', v_lessons_completed,
+    'lessons_required', v_lessons_required,
+    'average_score', v_average_score,
+    'min_average_score', v_min_average,
+    'balance', COALESCE(v_balance, 0),
+    'pending_amount', v_pending,
+    'available', GREATEST(COALESCE(v_balance, 0) - v_pending, 0),
+    'eligible', v_lessons_completed >= v_lessons_required AND v_average_score >= v_min_average);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.coin_redemption_eligibility(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.coin_redemption_eligibility(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.request_coin_redemption(p_amount integer, p_note text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_eligibility jsonb;
+  v_redemption_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Redemption amount must be positive';
+  END IF;
+
+  -- Serialize against settlements and other requests of this user
+  PERFORM 1 FROM public.user_wallets WHERE user_id = v_user_id FOR UPDATE;
+
+  v_eligibility := public.coin_redemption_eligibility(v_user_id);
+  IF NOT (v_eligibility ->> 'eligible')::boolean THEN
+    RAISE EXCEPTION 'Not eligible yet: complete % lessons with an average score of at least %',
+      v_eligibility ->> 'lessons_required', v_eligibility ->> 'min_average_score';
+  END IF;
+  IF p_amount > (v_eligibility ->> 'available')::integer THEN
+    RAISE EXCEPTION 'Only % coins are available to redeem', v_eligibility ->> 'available';
+  END IF;
+
+  INSERT INTO public.coin_redemptions (user_id, amount, note)
+  VALUES (v_user_id, p_amount, NULLIF(trim(p_note), ''))
+  RETURNING id INTO v_redemption_id;
+
+  RETURN v_redemption_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.request_coin_redemption(integer, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.request_coin_redemption(integer, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.cancel_coin_redemption(p_redemption_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.coin_redemptions
+  SET status = 'cancelled'
+  WHERE id = p_redemption_id AND user_id = auth.uid() AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only your own pending requests can be cancelled';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cancel_coin_redemption(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.cancel_coin_redemption(uuid) TO authenticated;
+
+-- Approving debits the full amount from the ledger; it fails rather than
+-- paying out part of it when the balance dropped since the request
+CREATE OR REPLACE FUNCTION public.review_coin_redemption(
+  p_redemption_id uuid,
+  p_approve boolean,
+  p_admin_notes text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_redemption public.coin_redemptions;
+  v_balance integer;
+  v_transaction_id uuid;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can review redemptions';
+  END IF;
+
+  SELECT * INTO v_redemption FROM public.coin_redemptions WHERE id = p_redemption_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption % not found', p_redemption_id;
+  END IF;
+  IF v_redemption.status <> 'pending' THEN
+    RAISE EXCEPTION 'Redemption is already %', v_redemption.status;
+  END IF;
+
+  IF p_approve THEN
+    SELECT balance INTO v_balance FROM public.user_wallets WHERE user_id = v_redemption.user_id FOR UPDATE;
+    IF COALESCE(v_balance, 0) < v_redemption.amount THEN
+      RAISE EXCEPTION 'Balance (%) is below the requested % coins', COALESCE(v_balance, 0), v_redemption.amount;
+    END IF;
+
+    v_transaction_id := public.record_coin_entry(
+      v_redemption.user_id, -v_redemption.amount, 'redemption',
+      COALESCE('Redemption: ' || v_redemption.note, 'Coin redemption'),
+      v_redemption.id);
+  END IF;
+
+  UPDATE public.coin_redemptions
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      admin_notes = NULLIF(trim(p_admin_notes), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      transaction_id = v_transaction_id
+  WHERE id = p_redemption_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.review_coin_redemption(uuid, boolean, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.review_coin_redemption(uuid, boolean, text) TO authenticated;
+
+COMMIT;
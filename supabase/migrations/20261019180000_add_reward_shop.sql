@@ -0,0 +1,125 @@
+-- Migration: Coin reward shop
+-- Admins manage a catalog of rewards (price, stock, per-user limit, active
+-- window). purchase_shop_item() checks all of them, takes the coins as a
+-- 'purchase' ledger entry (which raises user_wallets.total_spent) and
+-- records the purchase, in one transaction.
+
+ALTER TYPE public.coin_entry_kind ADD VALUE IF NOT EXISTS 'purchase';
+
+BEGIN;
+
+CREATE TABLE public.shop_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  icon text NOT NULL DEFAULT '🎁',
+  price integer NOT NULL CHECK (price > 0),
+  -- NULL = unlimited
+  stock integer CHECK (stock >= 0),
+  per_user_limit integer CHECK (per_user_limit > 0),
+  available_from timestamp with time zone,
+  available_until timestamp with time zone,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (available_until IS NULL OR available_from IS NULL OR available_until > available_from)
+);
+
+CREATE TABLE public.shop_purchases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES public.shop_items(id) ON DELETE RESTRICT,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  price integer NOT NULL,
+  transaction_id uuid NOT NULL REFERENCES public.coin_transactions(id),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_shop_purchases_user_item ON public.shop_purchases (user_id, item_id);
+
+CREATE TRIGGER update_shop_items_updated_at BEFORE UPDATE ON public.shop_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.shop_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shop_purchases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active shop items" ON public.shop_items FOR SELECT TO authenticated
+  USING ((is_active OR public.has_role(auth.uid(), 'admin'::public.app_role)));
+CREATE POLICY "Admins can manage shop items" ON public.shop_items TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+-- Purchases are only created by purchase_shop_item()
+CREATE POLICY "Users can view own purchases" ON public.shop_purchases FOR SELECT TO authenticated
+  USING (((user_id = auth.uid()) OR public.has_role(auth.uid(), 'admin'::public.app_role)));
+
+CREATE OR REPLACE FUNCTION public.purchase_shop_item(p_item_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_item public.shop_items;
+  v_balance integer;
+  v_bought integer;
+  v_purchase_id uuid := gen_random_uuid();
+  v_transaction_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the item (stock) and the wallet (balance, per-user count)
+  SELECT * INTO v_item FROM public.shop_items WHERE id = p_item_id FOR UPDATE;
+  IF NOT FOUND OR NOT v_item.is_active THEN
+    RAISE EXCEPTION 'This reward is not available';
+  END IF;
+  IF v_item.available_from IS NOT NULL AND now() < v_item.available_from THEN
+    RAISE EXCEPTION 'This reward is available from %', to_char(v_item.available_from, 'Mon DD, YYYY');
+  END IF;
+  IF v_item.available_until IS NOT NULL AND now() >= v_item.available_until THEN
+    RAISE EXCEPTION 'This reward is no longer available';
+  END IF;
+  IF v_item.stock IS NOT NULL AND v_item.stock <= 0 THEN
+    RAISE EXCEPTION 'This reward is sold out';
+  END IF;
+
+  SELECT balance INTO v_balance FROM public.user_wallets WHERE user_id = v_user_id FOR UPDATE;
+  IF COALESCE(v_balance, 0) < v_item.price THEN
+    RAISE EXCEPTION 'Not enough coins: % needed, % available', v_item.price, COALESCE(v_balance, 0);
+  END IF;
+
+  IF v_item.per_user_limit IS NOT NULL THEN
+    SELECT count(*) INTO v_bought
+    FROM public.shop_purchases
+    WHERE user_id = v_user_id AND item_id = p_item_id;
+    IF v_bought >= v_item.per_user_limit THEN
+      RAISE EXCEPTION 'You can buy this reward at most % time(s)', v_item.per_user_limit;
+    END IF;
+  END IF;
+
+  v_transaction_id := public.record_coin_entry(
+    v_user_id, -v_item.price, 'purchase', format('Shop: %s %s', v_item.icon, v_item.name), v_purchase_id);
+
+  INSERT INTO public.shop_purchases (id, item_id, user_id, price, transaction_id)
+  VALUES (v_purchase_id, p_item_id, v_user_id, v_item.price, v_transaction_id);
+
+  IF v_item.stock IS NOT NULL THEN
+    UPDATE public.shop_items SET stock = stock - 1 WHERE id = p_item_id;
+  END IF;
+
+  SELECT balance INTO v_balance FROM public.user_wallets WHERE user_id = v_user_id;
+
+  RETURN jsonb_build_object(
+    'purchase_id', v_purchase_id,
+    'balance', v_balance,
+    'stock', CASE WHEN v_item.stock IS NULL THEN NULL ELSE v_item.stock - 1 END);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.purchase_shop_item(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.purchase_shop_item(uuid) TO authenticated;
+
+COMMIT;
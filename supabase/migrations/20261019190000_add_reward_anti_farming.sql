@@ -0,0 +1,565 @@
+-- Migration: Anti-farming rules for practice rewards
+-- Re-recording the same easy item used to pay the full reward every time.
+-- settle_practice() now limits the repeatable coins (base reward and streak
+-- bonus) with diminishing returns per item per day, a cooldown after N
+-- rewarded takes, a daily cap, and withholds rewards for a take that replays
+-- a recent take of the same item. The browser sends a coarse loudness
+-- envelope of the recording (p_audio_fingerprint, see audioFingerprint.ts),
+-- compared by correlation so a re-encoded or re-played recording still
+-- matches. It is computed by the client: this stops casual replays, not a
+-- modified client.
+-- Every limit applied is explained in the settlement's coins.limits.
+
+BEGIN;
+
+ALTER TABLE public.practice_history ADD COLUMN IF NOT EXISTS audio_fingerprint jsonb;
+
+COMMENT ON COLUMN public.practice_history.audio_fingerprint IS 'Loudness envelope of the take ({durationMs, envelope}), compared against later takes of the item';
+
+CREATE INDEX IF NOT EXISTS idx_practice_history_user_item_time
+  ON public.practice_history (user_id, lesson_id, category, item_index, practiced_at DESC);
+
+INSERT INTO public.coin_config (key, value, description) VALUES
+  ('repeat_full_rewards_per_day', 3, 'Rewarded takes of the same item per day that earn the full reward (0 = no limit)'),
+  ('repeat_reward_percent', 50, 'Each further take of the same item that day earns this % of the previous reward'),
+  ('repeat_cooldown_after', 10, 'Rewarded takes of the same item within the cooldown window before its rewards pause (0 = off)'),
+  ('repeat_cooldown_minutes', 30, 'Length of the cooldown window in minutes'),
+  ('daily_practice_coin_cap', 300, 'Max coins per day from practice rewards and streak bonuses (0 = no cap)'),
+  ('block_duplicate_audio', 1, 'Withhold rewards for a take that replays one of the last 20 takes of the same item (1 = on, 0 = off)'),
+  ('duplicate_audio_similarity', 97, 'Loudness envelope similarity (%) from which a take counts as a replay')
+ON CONFLICT (key) DO NOTHING;
+
+-- A fingerprint from audioFingerprint.ts: {durationMs, envelope: [numbers]}
+CREATE OR REPLACE FUNCTION public.is_audio_fingerprint(p_fingerprint jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(
+    jsonb_typeof(p_fingerprint -> 'durationMs') = 'number'
+    AND jsonb_typeof(p_fingerprint -> 'envelope') = 'array'
+    AND jsonb_array_length(p_fingerprint -> 'envelope') BETWEEN 8 AND 256
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_fingerprint -> 'envelope') AS v
+      WHERE jsonb_typeof(v) <> 'number'),
+    false);
+$$;
+
+-- Correlation (-1..1) of two fingerprints' loudness envelopes; 0 when they
+-- have different lengths or their voiced durations differ by more than 5%
+CREATE OR REPLACE FUNCTION public.audio_fingerprint_similarity(p_a jsonb, p_b jsonb)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN NOT (public.is_audio_fingerprint(p_a) AND public.is_audio_fingerprint(p_b))
+      OR jsonb_array_length(p_a -> 'envelope') <> jsonb_array_length(p_b -> 'envelope')
+      OR abs((p_a ->> 'durationMs')::numeric - (p_b ->> 'durationMs')::numeric)
+         > 0.05 * GREATEST((p_a ->> 'durationMs')::numeric, (p_b ->> 'durationMs')::numeric)
+      THEN 0
+    ELSE COALESCE((
+      SELECT corr(a.value::text::double precision, b.value::text::double precision)
+      FROM jsonb_array_elements(p_a -> 'envelope') WITH ORDINALITY AS a(value, n)
+      JOIN jsonb_array_elements(p_b -> 'envelope') WITH ORDINALITY AS b(value, n) ON b.n = a.n
+    ), 0)::numeric
+  END;
+$$;
+
+-- The new parameter changes the signature; drop the old overload
+DROP FUNCTION IF EXISTS public.settle_practice(text, uuid, text, integer, jsonb, text, integer);
+
+CREATE OR REPLACE FUNCTION public.settle_practice(
+  p_settlement_key text,
+  p_lesson_id uuid,
+  p_category text,
+  p_item_index integer,
+  p_metrics jsonb,
+  p_audio_url text DEFAULT NULL,
+  p_local_hour integer DEFAULT NULL,
+  p_audio_fingerprint jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_today date := CURRENT_DATE;
+  v_hour integer;
+  v_score integer;
+  v_profile public.scoring_profiles;
+  v_replay jsonb;
+  v_lesson public.lessons;
+  v_config jsonb;
+  v_progress public.user_progress;
+  v_streak public.daily_streaks;
+  v_practice_id uuid;
+  v_balance integer;
+  v_before integer;
+  v_outcome jsonb;
+
+  v_base integer := 0;
+  v_bonuses jsonb := '[]'::jsonb;
+  v_bonus_total integer := 0;
+  v_bonus record;
+  v_posted jsonb := '[]'::jsonb;
+  v_badge_total integer := 0;
+  v_new_badges jsonb := '[]'::jsonb;
+
+  v_threshold numeric;
+  v_min numeric;
+  v_max numeric;
+  v_amount integer;
+
+  v_total_items integer;
+  v_completed_before integer;
+  v_completed_after integer;
+  v_percent_before integer := 0;
+  v_percent_after integer := 0;
+  v_milestone integer;
+  v_deadline date;
+  v_days integer;
+
+  v_consecutive integer := 0;
+  v_recent record;
+  v_streak_amount integer := 0;
+
+  v_limits jsonb := '[]'::jsonb;
+  v_withheld integer;
+  v_rewarded integer;
+  v_window_start timestamp with time zone;
+  v_factor numeric;
+  v_earned_today integer;
+
+  v_current_streak integer;
+  v_is_new_day boolean := false;
+  v_streak_extended boolean := false;
+
+  v_stats record;
+  v_vocab_mastered integer;
+  v_badge public.badges;
+  v_earned boolean;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_settlement_key IS NULL OR length(p_settlement_key) NOT BETWEEN 1 AND 100 THEN
+    RAISE EXCEPTION 'A settlement key (1-100 chars) is required';
+  END IF;
+
+  -- All settlements of one user serialize on the wallet row (second tab, retries)
+  INSERT INTO public.user_wallets (user_id, balance) VALUES (v_user_id, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+  SELECT balance INTO v_balance FROM public.user_wallets WHERE user_id = v_user_id FOR UPDATE;
+
+  SELECT settlement INTO v_replay
+  FROM public.practice_history
+  WHERE user_id = v_user_id AND settlement_key = p_settlement_key;
+  IF FOUND THEN
+    RETURN v_replay || '{"replayed": true}'::jsonb;
+  END IF;
+
+  SELECT * INTO v_lesson FROM public.lessons WHERE id = p_lesson_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson % not found', p_lesson_id;
+  END IF;
+  IF jsonb_typeof(v_lesson.categories -> p_category) IS DISTINCT FROM 'array'
+     OR p_item_index IS NULL
+     OR p_item_index NOT BETWEEN 0 AND jsonb_array_length(v_lesson.categories -> p_category) - 1 THEN
+    RAISE EXCEPTION 'Item % of "%" does not exist in this lesson', p_item_index, p_category;
+  END IF;
+
+  -- The score is computed here from the take's metrics with the active
+  -- scoring profile and its overrides for this item; the score shown in the
+  -- browser is only a preview
+  SELECT * INTO v_profile FROM public.scoring_profiles WHERE is_active;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active scoring profile';
+  END IF;
+  v_score := public.score_practice_metrics(
+    p_metrics,
+    public.resolve_scoring_metrics(v_profile.metrics, v_profile.overrides, v_lesson.course_id, p_lesson_id, p_category));
+  IF v_score IS NULL THEN
+    RAISE EXCEPTION 'The take is missing the metrics needed to score it';
+  END IF;
+  -- Early/late badges are about the learner's clock, not the server's
+  v_hour := CASE WHEN p_local_hour BETWEEN 0 AND 23 THEN p_local_hour ELSE EXTRACT(hour FROM now())::integer END;
+
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb) INTO v_config FROM public.coin_config;
+
+  -- 1. Base reward/penalty for the score
+  v_threshold := COALESCE((v_config ->> 'reward_score_threshold')::numeric, 70);
+  IF v_score >= v_threshold THEN
+    v_min := COALESCE((v_config ->> 'reward_min')::numeric, 0);
+    v_max := COALESCE((v_config ->> 'reward_max')::numeric, v_min);
+    v_base := round(v_min + ((v_score - v_threshold) / GREATEST(1, 100 - v_threshold)) * (v_max - v_min));
+  ELSE
+    v_threshold := COALESCE((v_config ->> 'penalty_score_threshold')::numeric, 50);
+    IF v_score < v_threshold THEN
+      v_min := COALESCE((v_config ->> 'penalty_min')::numeric, 0);
+      v_max := COALESCE((v_config ->> 'penalty_max')::numeric, v_min);
+      v_base := -round(v_min + ((v_threshold - v_score) / GREATEST(1, v_threshold)) * (v_max - v_min));
+    END IF;
+  END IF;
+
+  -- 2. Progress
+  SELECT count(*) INTO v_completed_before
+  FROM public.user_progress
+  WHERE user_id = v_user_id AND lesson_id = p_lesson_id AND mastery_level >= 3;
+
+  INSERT INTO public.user_progress AS up
+    (user_id, lesson_id, category, item_index, attempts, best_score, mastery_level, last_practiced_at)
+  VALUES
+    (v_user_id, p_lesson_id, p_category, p_item_index, 1, v_score, public.practice_mastery(1, v_score), now())
+  ON CONFLICT (user_id, lesson_id, category, item_index) DO UPDATE
+  SET attempts = up.attempts + 1,
+      best_score = GREATEST(up.best_score, EXCLUDED.best_score),
+      mastery_level = public.practice_mastery(up.attempts + 1, GREATEST(up.best_score, EXCLUDED.best_score)),
+      last_practiced_at = now()
+  RETURNING * INTO v_progress;
+
+  -- 3. Bonuses (were computed in Practice.tsx from lessonProgress.ts / deadlineRewards.ts)
+  IF v_progress.attempts = 1 THEN
+    v_amount := COALESCE((v_config ->> 'first_practice_bonus')::integer, 2);
+    IF v_amount <> 0 THEN
+      v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+        'kind', 'first_practice', 'label', 'First Practice', 'icon', '🎁', 'amount', v_amount));
+    END IF;
+  END IF;
+
+  SELECT count(*) INTO v_completed_after
+  FROM public.user_progress
+  WHERE user_id = v_user_id AND lesson_id = p_lesson_id AND mastery_level >= 3;
+
+  SELECT COALESCE(sum(CASE WHEN jsonb_typeof(items) = 'array' THEN jsonb_array_length(items) ELSE 0 END), 0)
+    INTO v_total_items
+  FROM jsonb_each(v_lesson.categories) AS c(category, items);
+
+  IF v_total_items > 0 THEN
+    v_percent_before := LEAST(100, round(v_completed_before * 100.0 / v_total_items));
+    v_percent_after := LEAST(100, round(v_completed_after * 100.0 / v_total_items));
+  END IF;
+
+  SELECT m INTO v_milestone
+  FROM unnest(ARRAY[25, 50, 75, 100]) AS m
+  WHERE v_percent_after >= m AND v_percent_before < m
+  ORDER BY m
+  LIMIT 1;
+
+  IF v_milestone IS NOT NULL THEN
+    v_amount := COALESCE((v_config ->> ('milestone_' || v_milestone || '_bonus'))::integer,
+      CASE v_milestone WHEN 25 THEN 10 WHEN 50 THEN 25 WHEN 75 THEN 50 ELSE 100 END);
+    v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+      'kind', 'milestone',
+      'label', CASE v_milestone WHEN 25 THEN 'Quarter Complete' WHEN 50 THEN 'Halfway There'
+                                WHEN 75 THEN 'Almost Done' ELSE 'Lesson Complete' END,
+      'icon', CASE v_milestone WHEN 25 THEN '🎯' WHEN 50 THEN '🔥' WHEN 75 THEN '⭐' ELSE '🏆' END,
+      'amount', v_amount));
+
+    -- Deadline bonus/penalty once the lesson is (nearly) complete
+    v_deadline := public.lesson_deadline(v_user_id, p_lesson_id);
+    v_min := COALESCE((v_config ->> 'min_completion_for_bonus')::numeric, 80);
+    IF v_deadline IS NOT NULL AND v_percent_after >= v_min THEN
+      v_days := v_deadline - v_today;
+      IF v_days > 0 THEN
+        v_max := COALESCE((v_config ->> 'deadline_early_bonus_days')::numeric, 3);
+        v_amount := round(LEAST(v_days, v_max) / GREATEST(v_max, 1)
+          * COALESCE((v_config ->> 'deadline_early_bonus_max')::numeric, 50));
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '⚡', 'amount', v_amount,
+          'label', format('Completed %s day%s early!', v_days, CASE WHEN v_days > 1 THEN 's' ELSE '' END)));
+      ELSIF v_days = 0 THEN
+        v_amount := COALESCE((v_config ->> 'deadline_on_time_bonus')::integer, 20);
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '🎯', 'amount', v_amount, 'label', 'Completed right on time!'));
+      ELSIF -v_days <= COALESCE((v_config ->> 'deadline_penalty_grace_days')::integer, 0) THEN
+        v_amount := round(COALESCE((v_config ->> 'deadline_on_time_bonus')::numeric, 20) * 0.5);
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '🕐', 'amount', v_amount, 'label', 'Grace period - half bonus for completion'));
+      ELSE
+        -- Late: scales with days overdue, reduced because completion is high
+        v_max := COALESCE((v_config ->> 'deadline_penalty_scale_days')::numeric, 7);
+        v_amount := -round(COALESCE((v_config ->> 'deadline_penalty_max')::numeric, 100)
+          * LEAST(-v_days / GREATEST(v_max, 1), 1) * 0.3);
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '❌', 'amount', v_amount,
+          'label', format('%s day%s overdue (%s%% complete)', -v_days, CASE WHEN -v_days > 1 THEN 's' ELSE '' END, v_percent_after)));
+      END IF;
+    END IF;
+  END IF;
+
+  -- Consecutive high scores in this lesson, newest first, this take included
+  v_min := COALESCE((v_config ->> 'streak_bonus_min_score')::numeric, 80);
+  IF v_score >= v_min THEN
+    v_consecutive := 1;
+    FOR v_recent IN
+      SELECT score FROM public.practice_history
+      WHERE user_id = v_user_id AND lesson_id = p_lesson_id
+      ORDER BY practiced_at DESC
+      LIMIT 9
+    LOOP
+      EXIT WHEN v_recent.score < v_min;
+      v_consecutive := v_consecutive + 1;
+    END LOOP;
+  END IF;
+  v_threshold := GREATEST(1, COALESCE((v_config ->> 'streak_bonus_threshold')::numeric, 3));
+  IF v_consecutive >= v_threshold THEN
+    v_streak_amount := COALESCE((v_config ->> 'streak_bonus_coins')::integer, 5) * floor(v_consecutive / v_threshold);
+  END IF;
+
+  -- 3b. Anti-farming. Only coins that can be earned over and over (the base
+  -- reward and the streak bonus) are limited; penalties are never reduced.
+  -- Each limit that withholds coins is reported in coins.limits.
+  IF public.is_audio_fingerprint(p_audio_fingerprint)
+     AND COALESCE((v_config ->> 'block_duplicate_audio')::integer, 1) <> 0
+     AND EXISTS (
+       SELECT 1
+       FROM (
+         SELECT audio_fingerprint FROM public.practice_history
+         WHERE user_id = v_user_id AND lesson_id = p_lesson_id
+           AND category = p_category AND item_index = p_item_index
+           AND audio_fingerprint IS NOT NULL
+         ORDER BY practiced_at DESC
+         LIMIT 20
+       ) recent
+       WHERE public.audio_fingerprint_similarity(recent.audio_fingerprint, p_audio_fingerprint)
+             >= COALESCE((v_config ->> 'duplicate_audio_similarity')::numeric, 97) / 100
+     ) THEN
+    -- The take replays a recent take of this item: nothing positive is paid
+    SELECT COALESCE(sum((b ->> 'amount')::integer), 0) INTO v_withheld
+    FROM jsonb_array_elements(v_bonuses) AS b
+    WHERE (b ->> 'amount')::integer > 0;
+    v_withheld := v_withheld + GREATEST(v_base, 0) + GREATEST(v_streak_amount, 0);
+
+    SELECT COALESCE(jsonb_agg(b), '[]'::jsonb) INTO v_bonuses
+    FROM jsonb_array_elements(v_bonuses) AS b
+    WHERE (b ->> 'amount')::integer <= 0;
+    v_base := LEAST(v_base, 0);
+    v_streak_amount := 0;
+
+    IF v_withheld > 0 THEN
+      v_limits := v_limits || jsonb_build_array(jsonb_build_object(
+        'rule', 'duplicate_audio', 'withheld', v_withheld,
+        'message', 'This recording matches a take you already submitted for this item, so it earns no coins'));
+    END IF;
+  END IF;
+
+  -- Cooldown: N rewarded takes of this item within the window pause its rewards
+  v_amount := COALESCE((v_config ->> 'repeat_cooldown_after')::integer, 10);
+  v_max := COALESCE((v_config ->> 'repeat_cooldown_minutes')::numeric, 30);
+  IF v_base + v_streak_amount > 0 AND v_base >= 0 AND v_amount > 0 AND v_max > 0 THEN
+    SELECT count(*), min(practiced_at) INTO v_rewarded, v_window_start
+    FROM (
+      SELECT practiced_at FROM public.practice_history
+      WHERE user_id = v_user_id AND lesson_id = p_lesson_id
+        AND category = p_category AND item_index = p_item_index
+        AND practiced_at > now() - make_interval(mins => v_max::integer)
+        AND COALESCE((settlement -> 'coins' ->> 'base')::integer, coins_earned) > 0
+      ORDER BY practiced_at DESC
+      LIMIT v_amount
+    ) recent;
+
+    IF v_rewarded >= v_amount THEN
+      v_limits := v_limits || jsonb_build_array(jsonb_build_object(
+        'rule', 'cooldown', 'withheld', v_base + v_streak_amount,
+        'message', format('Cooldown: %s rewarded takes of this item in %s min. It earns coins again in %s min',
+          v_amount, v_max, GREATEST(1, ceil(extract(epoch FROM v_window_start + make_interval(mins => v_max::integer) - now()) / 60)))));
+      v_base := 0;
+      v_streak_amount := 0;
+    END IF;
+  END IF;
+
+  -- Diminishing returns for the same item on the same day
+  v_amount := COALESCE((v_config ->> 'repeat_full_rewards_per_day')::integer, 3);
+  v_factor := LEAST(100, GREATEST(0, COALESCE((v_config ->> 'repeat_reward_percent')::numeric, 50))) / 100;
+  IF v_base + v_streak_amount > 0 AND v_base >= 0 AND v_amount > 0 AND v_factor < 1 THEN
+    SELECT count(*) INTO v_rewarded
+    FROM public.practice_history
+    WHERE user_id = v_user_id AND lesson_id = p_lesson_id
+      AND category = p_category AND item_index = p_item_index
+      AND practiced_at::date = v_today
+      AND COALESCE((settlement -> 'coins' ->> 'base')::integer, coins_earned) > 0;
+
+    IF v_rewarded >= v_amount THEN
+      v_factor := power(v_factor, v_rewarded - v_amount + 1);
+      v_withheld := v_base + v_streak_amount;
+      v_base := floor(v_base * v_factor);
+      v_streak_amount := floor(v_streak_amount * v_factor);
+      v_withheld := v_withheld - v_base - v_streak_amount;
+      IF v_withheld > 0 THEN
+        v_limits := v_limits || jsonb_build_array(jsonb_build_object(
+          'rule', 'diminishing_returns', 'withheld', v_withheld,
+          'message', format('Rewarded take %s of this item today earns %s%% of the usual reward',
+            v_rewarded + 1, round(v_factor * 100))));
+      END IF;
+    END IF;
+  END IF;
+
+  -- Daily cap on repeatable practice coins (0 = no cap)
+  v_amount := COALESCE((v_config ->> 'daily_practice_coin_cap')::integer, 0);
+  IF v_base + v_streak_amount > 0 AND v_base >= 0 AND v_amount > 0 THEN
+    SELECT COALESCE(sum(amount), 0) INTO v_earned_today
+    FROM public.coin_transactions
+    WHERE user_id = v_user_id
+      AND entry_kind IN ('practice_reward', 'streak')
+      AND amount > 0
+      AND created_at::date = v_today;
+
+    v_amount := GREATEST(v_amount - v_earned_today, 0);
+    IF v_base + v_streak_amount > v_amount THEN
+      v_withheld := v_base + v_streak_amount - v_amount;
+      v_base := LEAST(v_base, v_amount);
+      v_streak_amount := LEAST(v_streak_amount, v_amount - v_base);
+      v_limits := v_limits || jsonb_build_array(jsonb_build_object(
+        'rule', 'daily_cap', 'withheld', v_withheld,
+        'message', format('Daily limit of %s practice coins reached. Come back tomorrow!',
+          COALESCE((v_config ->> 'daily_practice_coin_cap')::integer, 0))));
+    END IF;
+  END IF;
+
+  IF v_streak_amount > 0 THEN
+    v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+      'kind', 'streak', 'icon', '🔥', 'amount', v_streak_amount, 'label', format('%sx Streak Bonus', v_consecutive)));
+  END IF;
+
+  -- 4. History row (the idempotency record); coins and outcome are stored once complete
+  INSERT INTO public.practice_history
+    (user_id, lesson_id, category, item_index, score, coins_earned, metrics, audio_url,
+     scoring_profile_id, scoring_profile_version, settlement_key, audio_fingerprint)
+  VALUES
+    (v_user_id, p_lesson_id, p_category, p_item_index, v_score, 0, p_metrics, p_audio_url,
+     v_profile.id, v_profile.version, p_settlement_key,
+     CASE WHEN public.is_audio_fingerprint(p_audio_fingerprint) THEN p_audio_fingerprint END)
+  RETURNING id INTO v_practice_id;
+
+  -- 5. Coins: one ledger entry per component. A penalty can be reduced to
+  -- the balance, so amounts are reported as actually posted.
+  v_before := v_balance;
+  v_balance := public.post_coin_transaction(
+    v_user_id, v_base,
+    (CASE WHEN v_base > 0 THEN 'practice_reward' ELSE 'practice_penalty' END)::public.coin_entry_kind,
+    format('Practice: %s - Score %s', p_category, v_score),
+    p_lesson_id);
+  v_base := v_balance - v_before;
+
+  FOR v_bonus IN SELECT value FROM jsonb_array_elements(v_bonuses) LOOP
+    v_before := v_balance;
+    v_balance := public.post_coin_transaction(
+      v_user_id, (v_bonus.value ->> 'amount')::integer,
+      (v_bonus.value ->> 'kind')::public.coin_entry_kind,
+      format('%s %s', v_bonus.value ->> 'icon', v_bonus.value ->> 'label'),
+      p_lesson_id);
+    v_posted := v_posted || jsonb_build_array(jsonb_set(v_bonus.value, '{amount}', to_jsonb(v_balance - v_before)));
+    v_bonus_total := v_bonus_total + (v_balance - v_before);
+  END LOOP;
+  v_bonuses := v_posted;
+
+  -- 6. Daily streak
+  SELECT * INTO v_streak FROM public.daily_streaks WHERE user_id = v_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    INSERT INTO public.daily_streaks (user_id, current_streak, longest_streak, last_practice_date, streak_start_date)
+    VALUES (v_user_id, 1, 1, v_today, v_today);
+    v_current_streak := 1;
+    v_is_new_day := true;
+  ELSIF v_streak.last_practice_date IS DISTINCT FROM v_today THEN
+    IF v_streak.last_practice_date = v_today - 1 THEN
+      v_current_streak := v_streak.current_streak + 1;
+    ELSE
+      v_current_streak := 1;
+    END IF;
+    UPDATE public.daily_streaks
+    SET current_streak = v_current_streak,
+        longest_streak = GREATEST(longest_streak, v_current_streak),
+        last_practice_date = v_today,
+        streak_start_date = CASE WHEN v_current_streak > 1 THEN COALESCE(streak_start_date, v_today) ELSE v_today END
+    WHERE user_id = v_user_id;
+    v_is_new_day := true;
+    v_streak_extended := v_current_streak > 1;
+  ELSE
+    v_current_streak := v_streak.current_streak;
+  END IF;
+
+  -- 7. Badges
+  SELECT count(*) AS practice_count,
+         count(*) FILTER (WHERE score >= 95) AS perfect_scores,
+         count(*) FILTER (WHERE score >= 80) AS high_scores,
+         count(*) FILTER (WHERE practiced_at::date = v_today) AS daily_practices
+    INTO v_stats
+  FROM public.practice_history
+  WHERE user_id = v_user_id;
+
+  SELECT count(*) INTO v_vocab_mastered
+  FROM public.user_progress
+  WHERE user_id = v_user_id AND mastery_level >= 3;
+
+  FOR v_badge IN
+    SELECT b.* FROM public.badges b
+    WHERE NOT EXISTS (SELECT 1 FROM public.user_badges ub WHERE ub.user_id = v_user_id AND ub.badge_id = b.id)
+    ORDER BY b.requirement_value, b.name
+  LOOP
+    v_earned := CASE v_badge.requirement_type
+      WHEN 'practice_count' THEN v_stats.practice_count >= v_badge.requirement_value
+      WHEN 'total_coins' THEN v_balance >= v_badge.requirement_value
+      WHEN 'streak_days' THEN v_current_streak >= v_badge.requirement_value
+      WHEN 'perfect_score' THEN v_stats.perfect_scores >= v_badge.requirement_value
+      WHEN 'high_scores' THEN v_stats.high_scores >= v_badge.requirement_value
+      WHEN 'vocab_mastered' THEN v_vocab_mastered >= v_badge.requirement_value
+      WHEN 'early_practice' THEN v_hour < 8
+      WHEN 'late_practice' THEN v_hour >= 22
+      WHEN 'daily_practices' THEN v_stats.daily_practices >= v_badge.requirement_value
+      ELSE false
+    END;
+    CONTINUE WHEN NOT v_earned;
+
+    INSERT INTO public.user_badges (user_id, badge_id) VALUES (v_user_id, v_badge.id)
+    ON CONFLICT (user_id, badge_id) DO NOTHING;
+    CONTINUE WHEN NOT FOUND;
+
+    IF v_badge.coins_reward > 0 THEN
+      v_balance := public.post_coin_transaction(
+        v_user_id, v_badge.coins_reward, 'badge', format('Earned badge: %s', v_badge.name));
+      v_badge_total := v_badge_total + v_badge.coins_reward;
+    END IF;
+    v_new_badges := v_new_badges || jsonb_build_array(jsonb_build_object(
+      'id', v_badge.id, 'name', v_badge.name, 'icon', v_badge.icon,
+      'rarity', v_badge.rarity, 'coins_reward', v_badge.coins_reward));
+  END LOOP;
+
+  v_outcome := jsonb_build_object(
+    'practice_id', v_practice_id,
+    'replayed', false,
+    'score', v_score,
+    'coins', jsonb_build_object(
+      'base', v_base,
+      'bonuses', v_bonuses,
+      'badges', v_badge_total,
+      'total', v_base + v_bonus_total + v_badge_total,
+      'limits', v_limits),
+    'balance', v_balance,
+    'progress', jsonb_build_object(
+      'attempts', v_progress.attempts,
+      'best_score', v_progress.best_score,
+      'mastery_level', v_progress.mastery_level),
+    'lesson', jsonb_build_object(
+      'completion_percent', v_percent_after,
+      'milestone', v_milestone),
+    'streak', jsonb_build_object(
+      'current_streak', v_current_streak,
+      'is_new_day', v_is_new_day,
+      'streak_extended', v_streak_extended),
+    'new_badges', v_new_badges);
+
+  UPDATE public.practice_history
+  SET coins_earned = v_base + v_bonus_total, settlement = v_outcome
+  WHERE id = v_practice_id;
+
+  RETURN v_outcome;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.settle_practice(text, uuid, text, integer, jsonb, text, integer, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.settle_practice(text, uuid, text, integer, jsonb, text, integer, jsonb) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,270 @@
+-- Migration: Retroactive score and reward recalculation
+-- Changing metric weights or coin_config only affected new takes; past scores,
+-- best_score / mastery_level and rewards kept the old rules. The admin panel
+-- re-scores past takes from practice_history.metrics with the active scoring
+-- profile and previews the diff; apply_score_recalculation then writes the new
+-- scores, re-derives best_score and mastery_level from practice_history and,
+-- when asked, posts the base-reward difference to the ledger. Every run keeps
+-- one audit row per affected learner with the old and new values.
+
+-- Enum values cannot be added inside a transaction block that later uses them
+ALTER TYPE public.coin_entry_kind ADD VALUE IF NOT EXISTS 'recalculation';
+
+BEGIN;
+
+CREATE TABLE public.score_recalculation_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  triggered_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  scoring_profile_id uuid REFERENCES public.scoring_profiles(id) ON DELETE SET NULL,
+  scoring_profile_version integer,
+  -- coin_config at the time of the run, for the audit
+  coin_config jsonb NOT NULL DEFAULT '{}'::jsonb,
+  post_coins boolean NOT NULL DEFAULT false,
+  note text,
+  takes_changed integer NOT NULL DEFAULT 0,
+  users_affected integer NOT NULL DEFAULT 0,
+  coins_delta integer NOT NULL DEFAULT 0,
+  -- Debits are capped at the balance, so this can be above coins_delta
+  coins_posted integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.score_recalculation_audit (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES public.score_recalculation_runs(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- [{take_id, lesson_id, category, item_index, old_score, new_score, old_base, new_base}]
+  takes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  -- [{lesson_id, category, item_index, old_best, new_best, old_mastery, new_mastery}]
+  progress jsonb NOT NULL DEFAULT '[]'::jsonb,
+  coins_delta integer NOT NULL DEFAULT 0,
+  coins_posted integer NOT NULL DEFAULT 0,
+  transaction_id uuid REFERENCES public.coin_transactions(id),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_score_recalculation_runs_created ON public.score_recalculation_runs (created_at DESC);
+CREATE INDEX idx_score_recalculation_audit_run ON public.score_recalculation_audit (run_id);
+CREATE INDEX idx_score_recalculation_audit_user ON public.score_recalculation_audit (user_id, created_at DESC);
+
+ALTER TABLE public.score_recalculation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.score_recalculation_audit ENABLE ROW LEVEL SECURITY;
+
+-- Runs and audit rows are written by apply_score_recalculation only
+CREATE POLICY "Admins can view recalculation runs" ON public.score_recalculation_runs FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+CREATE POLICY "Users can view own recalculation audit" ON public.score_recalculation_audit FOR SELECT TO authenticated
+  USING (((user_id = auth.uid()) OR public.has_role(auth.uid(), 'admin'::public.app_role)));
+
+-- Base reward (or penalty) a score earns under p_config, the way
+-- settle_practice() computes it
+CREATE OR REPLACE FUNCTION public.practice_base_reward(p_score integer, p_config jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_threshold numeric := COALESCE((p_config ->> 'reward_score_threshold')::numeric, 70);
+  v_min numeric;
+  v_max numeric;
+BEGIN
+  IF p_score >= v_threshold THEN
+    v_min := COALESCE((p_config ->> 'reward_min')::numeric, 0);
+    v_max := COALESCE((p_config ->> 'reward_max')::numeric, v_min);
+    RETURN round(v_min + ((p_score - v_threshold) / GREATEST(1, 100 - v_threshold)) * (v_max - v_min));
+  END IF;
+
+  v_threshold := COALESCE((p_config ->> 'penalty_score_threshold')::numeric, 50);
+  IF p_score < v_threshold THEN
+    v_min := COALESCE((p_config ->> 'penalty_min')::numeric, 0);
+    v_max := COALESCE((p_config ->> 'penalty_max')::numeric, v_min);
+    RETURN -round(v_min + ((v_threshold - p_score) / GREATEST(1, v_threshold)) * (v_max - v_min));
+  END IF;
+
+  RETURN 0;
+END;
+$$;
+
+-- Applies a previewed recalculation. p_changes is [{id, score}] per take; the
+-- base reward of the new score is derived here from the current coin_config.
+-- Takes whose reward was limited by the anti-farming rules keep their reward.
+-- Bonuses and badges are not re-derived. Returns the run id.
+CREATE OR REPLACE FUNCTION public.apply_score_recalculation(
+  p_changes jsonb,
+  p_post_coins boolean DEFAULT false,
+  p_scoring_profile_id uuid DEFAULT NULL,
+  p_scoring_profile_version integer DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run_id uuid;
+  v_audit record;
+  v_progress jsonb;
+  v_transaction_id uuid;
+  v_posted integer;
+  v_config jsonb;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can recalculate scores';
+  END IF;
+  IF jsonb_typeof(p_changes) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Changes must be a JSON array';
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb) INTO v_config FROM public.coin_config;
+
+  INSERT INTO public.score_recalculation_runs
+    (triggered_by, scoring_profile_id, scoring_profile_version, coin_config, post_coins, note)
+  VALUES
+    (auth.uid(), p_scoring_profile_id, p_scoring_profile_version, v_config,
+     COALESCE(p_post_coins, false), NULLIF(trim(p_note), ''))
+  RETURNING id INTO v_run_id;
+
+  -- 1. Takes: new score (and base reward), one audit row per learner
+  WITH changes AS (
+    SELECT c.id, LEAST(100, GREATEST(0, c.score)) AS score
+    FROM jsonb_to_recordset(p_changes) AS c(id uuid, score integer)
+    WHERE c.id IS NOT NULL AND c.score IS NOT NULL
+  ),
+  current_takes AS (
+    SELECT ph.id, ph.user_id, ph.lesson_id, ph.category, ph.item_index, ph.practiced_at,
+           ph.score AS old_score, ch.score AS new_score,
+           public.practice_base_reward(ch.score, v_config) AS base,
+           COALESCE((ph.settlement -> 'coins' ->> 'base')::integer, ph.coins_earned) AS old_base,
+           (COALESCE(p_post_coins, false)
+             AND jsonb_array_length(COALESCE(ph.settlement -> 'coins' -> 'limits', '[]'::jsonb)) = 0) AS coins_apply
+    FROM public.practice_history ph
+    JOIN changes ch ON ch.id = ph.id
+    FOR UPDATE OF ph
+  ),
+  changed AS (
+    SELECT t.*, CASE WHEN t.coins_apply THEN t.base ELSE t.old_base END AS new_base
+    FROM current_takes t
+    WHERE t.new_score <> t.old_score OR (t.coins_apply AND t.base <> t.old_base)
+  ),
+  updated AS (
+    UPDATE public.practice_history ph
+    SET score = c.new_score,
+        scoring_profile_id = COALESCE(p_scoring_profile_id, ph.scoring_profile_id),
+        scoring_profile_version = COALESCE(p_scoring_profile_version, ph.scoring_profile_version),
+        coins_earned = ph.coins_earned + (c.new_base - c.old_base),
+        settlement = CASE
+          WHEN c.new_base <> c.old_base AND ph.settlement ? 'coins'
+            THEN jsonb_set(ph.settlement, '{coins,base}', to_jsonb(c.new_base))
+          ELSE ph.settlement
+        END
+    FROM changed c
+    WHERE ph.id = c.id
+    RETURNING ph.id
+  )
+  INSERT INTO public.score_recalculation_audit (run_id, user_id, takes, coins_delta)
+  SELECT v_run_id, c.user_id,
+         jsonb_agg(jsonb_build_object(
+           'take_id', c.id,
+           'lesson_id', c.lesson_id,
+           'category', c.category,
+           'item_index', c.item_index,
+           'old_score', c.old_score,
+           'new_score', c.new_score,
+           'old_base', c.old_base,
+           'new_base', c.new_base) ORDER BY c.practiced_at),
+         sum(c.new_base - c.old_base)::integer
+  FROM changed c
+  WHERE c.id IN (SELECT id FROM updated)
+  GROUP BY c.user_id;
+
+  -- 2. Progress of every touched item, 3. compensating ledger entry
+  FOR v_audit IN
+    SELECT id, user_id, takes, coins_delta FROM public.score_recalculation_audit WHERE run_id = v_run_id
+  LOOP
+    WITH items AS (
+      SELECT DISTINCT (t ->> 'lesson_id')::uuid AS lesson_id, t ->> 'category' AS category,
+             (t ->> 'item_index')::integer AS item_index
+      FROM jsonb_array_elements(v_audit.takes) t
+    ),
+    best AS (
+      SELECT i.lesson_id, i.category, i.item_index, max(ph.score) AS best_score
+      FROM items i
+      JOIN public.practice_history ph
+        ON ph.user_id = v_audit.user_id AND ph.lesson_id = i.lesson_id
+       AND ph.category = i.category AND ph.item_index = i.item_index
+      GROUP BY i.lesson_id, i.category, i.item_index
+    ),
+    current_progress AS (
+      SELECT up.id, up.lesson_id, up.category, up.item_index,
+             up.best_score AS old_best, b.best_score AS new_best,
+             up.mastery_level AS old_mastery, public.practice_mastery(up.attempts, b.best_score) AS new_mastery
+      FROM public.user_progress up
+      JOIN best b ON b.lesson_id = up.lesson_id AND b.category = up.category AND b.item_index = up.item_index
+      WHERE up.user_id = v_audit.user_id
+      FOR UPDATE OF up
+    ),
+    changed AS (
+      SELECT * FROM current_progress WHERE old_best <> new_best OR old_mastery <> new_mastery
+    ),
+    updated AS (
+      UPDATE public.user_progress up
+      SET best_score = c.new_best, mastery_level = c.new_mastery
+      FROM changed c
+      WHERE up.id = c.id
+      RETURNING up.id
+    )
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+             'lesson_id', c.lesson_id,
+             'category', c.category,
+             'item_index', c.item_index,
+             'old_best', c.old_best,
+             'new_best', c.new_best,
+             'old_mastery', c.old_mastery,
+             'new_mastery', c.new_mastery)), '[]'::jsonb)
+      INTO v_progress
+    FROM changed c
+    WHERE c.id IN (SELECT id FROM updated);
+
+    v_transaction_id := NULL;
+    v_posted := 0;
+    IF v_audit.coins_delta <> 0 THEN
+      PERFORM public.post_coin_transaction(
+        v_audit.user_id, v_audit.coins_delta, 'recalculation',
+        format('Score recalculation (%s takes)', jsonb_array_length(v_audit.takes)), v_run_id);
+
+      SELECT id, amount INTO v_transaction_id, v_posted
+      FROM public.coin_transactions
+      WHERE user_id = v_audit.user_id AND reference_id = v_run_id AND entry_kind = 'recalculation'
+      ORDER BY created_at DESC
+      LIMIT 1;
+    END IF;
+
+    UPDATE public.score_recalculation_audit
+    SET progress = v_progress, coins_posted = COALESCE(v_posted, 0), transaction_id = v_transaction_id
+    WHERE id = v_audit.id;
+  END LOOP;
+
+  UPDATE public.score_recalculation_runs r
+  SET takes_changed = a.takes_changed,
+      users_affected = a.users_affected,
+      coins_delta = a.coins_delta,
+      coins_posted = a.coins_posted
+  FROM (
+    SELECT COALESCE(sum(jsonb_array_length(takes)), 0)::integer AS takes_changed,
+           count(*)::integer AS users_affected,
+           COALESCE(sum(coins_delta), 0)::integer AS coins_delta,
+           COALESCE(sum(coins_posted), 0)::integer AS coins_posted
+    FROM public.score_recalculation_audit
+    WHERE run_id = v_run_id
+  ) a
+  WHERE r.id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_score_recalculation(jsonb, boolean, uuid, integer, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.apply_score_recalculation(jsonb, boolean, uuid, integer, text) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,262 @@
+-- Migration: Coin expiry and seasonal resets
+-- Balances only ever grew, so coins carried over from one cohort to the next.
+-- Coins can now expire a configurable number of days after they were earned
+-- (oldest coins are spent first), and/or be reset when a learner's last class
+-- season ends (course_classes.end_date). expire_coins() runs nightly and posts
+-- the expired amounts as 'expiry' ledger entries; coin_expiry_forecast() tells
+-- the learner beforehand what is about to expire.
+
+-- Enum values cannot be added inside a transaction block that later uses them
+ALTER TYPE public.coin_entry_kind ADD VALUE IF NOT EXISTS 'expiry';
+
+BEGIN;
+
+ALTER TABLE public.course_classes
+  ADD COLUMN IF NOT EXISTS end_date date,
+  ADD CONSTRAINT course_classes_season_dates CHECK (end_date IS NULL OR end_date >= start_date);
+
+COMMENT ON COLUMN public.course_classes.end_date IS 'Last day of the class season; coins of its learners reset afterwards when season_reset_enabled is on';
+
+INSERT INTO public.coin_config (key, value, description) VALUES
+  ('coin_expiry_days', 0, 'Coins expire this many days after they were earned (0 = never)'),
+  ('coin_expiry_warning_days', 7, 'Warn learners this many days before coins expire or their season resets'),
+  ('season_reset_enabled', 0, 'Reset the balance when a learner''s last class season ends (1 = on, 0 = off)')
+ON CONFLICT (key) DO NOTHING;
+
+-- One row per learner and ended class; the reset itself happens once, when
+-- the learner has no running class left
+CREATE TABLE public.coin_season_resets (
+  class_id uuid NOT NULL REFERENCES public.course_classes(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount integer NOT NULL DEFAULT 0,
+  transaction_id uuid REFERENCES public.coin_transactions(id),
+  reset_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (class_id, user_id)
+);
+
+CREATE INDEX idx_coin_season_resets_user ON public.coin_season_resets (user_id);
+
+ALTER TABLE public.coin_season_resets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own season resets" ON public.coin_season_resets FOR SELECT TO authenticated
+  USING (((user_id = auth.uid()) OR public.has_role(auth.uid(), 'admin'::public.app_role)));
+
+-- Part of the current balance that is older than p_days at p_as_of. Debits
+-- consume the oldest coins first, so what is still held is the most recent
+-- credits: anything beyond the credits of the window has expired.
+CREATE OR REPLACE FUNCTION public.coin_expiring_amount(p_user_id uuid, p_days integer, p_as_of timestamp with time zone)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT GREATEST(0, COALESCE(w.balance, 0) - COALESCE((
+    SELECT sum(t.amount)::integer
+    FROM public.coin_transactions t
+    WHERE t.user_id = p_user_id AND t.amount > 0
+      AND t.created_at > p_as_of - make_interval(days => p_days)
+  ), 0))
+  FROM (SELECT p_user_id AS user_id) u
+  LEFT JOIN public.user_wallets w ON w.user_id = u.user_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.coin_expiring_amount(uuid, integer, timestamp with time zone) FROM PUBLIC, anon, authenticated;
+
+-- Running classes of a learner: no end date yet, or ending today or later
+CREATE OR REPLACE FUNCTION public.coin_season_end(p_user_id uuid)
+RETURNS date
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  -- NULL when the learner is in no class, or in one without an end date
+  SELECT CASE WHEN bool_or(c.end_date IS NULL) THEN NULL ELSE max(c.end_date) END
+  FROM public.enrollments e
+  JOIN public.course_classes c ON c.id = e.class_id
+  WHERE e.user_id = p_user_id
+    AND (c.end_date IS NULL OR c.end_date >= current_date);
+$$;
+
+REVOKE ALL ON FUNCTION public.coin_season_end(uuid) FROM PUBLIC, anon, authenticated;
+
+-- What expires for the learner within the warning window:
+--   expiring_amount / expires_on  - coins past coin_expiry_days by then, and
+--                                   the first day some of them go
+--   season_ends_on / season_amount - end of the learner's last running class
+--                                   season, when the balance resets
+CREATE OR REPLACE FUNCTION public.coin_expiry_forecast(p_user_id uuid DEFAULT auth.uid())
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_expiry_days integer;
+  v_warning_days integer;
+  v_season_reset boolean;
+  v_balance integer;
+  v_expiring integer := 0;
+  v_oldest_held timestamp with time zone;
+  v_season_end date;
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() AND NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Not allowed to view the coin expiry of another user';
+  END IF;
+
+  SELECT COALESCE(max(value) FILTER (WHERE key = 'coin_expiry_days'), 0),
+         COALESCE(max(value) FILTER (WHERE key = 'coin_expiry_warning_days'), 7),
+         COALESCE(max(value) FILTER (WHERE key = 'season_reset_enabled'), 0) <> 0
+    INTO v_expiry_days, v_warning_days, v_season_reset
+  FROM public.coin_config;
+
+  SELECT COALESCE(max(balance), 0) INTO v_balance FROM public.user_wallets WHERE user_id = p_user_id;
+
+  IF v_expiry_days > 0 AND v_balance > 0 THEN
+    v_expiring := public.coin_expiring_amount(
+      p_user_id, v_expiry_days, now() + make_interval(days => v_warning_days));
+
+    -- Oldest credit still (partly) held: newest credits first until they cover the balance
+    SELECT created_at INTO v_oldest_held
+    FROM (
+      SELECT created_at, sum(amount) OVER (ORDER BY created_at DESC, id) AS running
+      FROM public.coin_transactions
+      WHERE user_id = p_user_id AND amount > 0
+    ) credits
+    WHERE running >= v_balance
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  IF v_season_reset THEN
+    v_season_end := public.coin_season_end(p_user_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'balance', v_balance,
+    'warning_days', v_warning_days,
+    'expiry_days', v_expiry_days,
+    'expiring_amount', v_expiring,
+    'expires_on', CASE WHEN v_expiring > 0 THEN (v_oldest_held + make_interval(days => v_expiry_days))::date END,
+    'season_ends_on', v_season_end,
+    'season_amount', CASE WHEN v_season_end IS NOT NULL THEN v_balance ELSE 0 END
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.coin_expiry_forecast(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.coin_expiry_forecast(uuid) TO authenticated;
+
+-- Season resets first (whole balance), then coins past coin_expiry_days.
+-- Called nightly by pg_cron and by admins from CoinConfigPanel.
+CREATE OR REPLACE FUNCTION public.expire_coins()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_expiry_days integer;
+  v_season_reset boolean;
+  v_learner record;
+  v_balance integer;
+  v_amount integer;
+  v_transaction_id uuid;
+  v_reset_users integer := 0;
+  v_reset_amount integer := 0;
+  v_expired_users integer := 0;
+  v_expired_amount integer := 0;
+BEGIN
+  -- auth.uid() is NULL when pg_cron runs the job as the owner; anon cannot
+  -- execute this function
+  IF auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can expire coins';
+  END IF;
+
+  SELECT COALESCE(max(value) FILTER (WHERE key = 'coin_expiry_days'), 0),
+         COALESCE(max(value) FILTER (WHERE key = 'season_reset_enabled'), 0) <> 0
+    INTO v_expiry_days, v_season_reset
+  FROM public.coin_config;
+
+  IF v_season_reset THEN
+    -- Learners with an ended class not yet reset, and no class still running
+    FOR v_learner IN
+      SELECT e.user_id,
+             (array_agg(c.id ORDER BY c.end_date DESC))[1] AS class_id,
+             (array_agg(c.class_name ORDER BY c.end_date DESC))[1] AS class_name,
+             array_agg(DISTINCT c.id) AS class_ids
+      FROM public.enrollments e
+      JOIN public.course_classes c ON c.id = e.class_id
+      WHERE c.end_date < current_date
+        AND NOT EXISTS (
+          SELECT 1 FROM public.coin_season_resets r WHERE r.class_id = c.id AND r.user_id = e.user_id)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.enrollments e2
+          JOIN public.course_classes c2 ON c2.id = e2.class_id
+          WHERE e2.user_id = e.user_id AND (c2.end_date IS NULL OR c2.end_date >= current_date))
+      GROUP BY e.user_id
+    LOOP
+      INSERT INTO public.user_wallets (user_id, balance) VALUES (v_learner.user_id, 0)
+      ON CONFLICT (user_id) DO NOTHING;
+      SELECT balance INTO v_balance FROM public.user_wallets WHERE user_id = v_learner.user_id FOR UPDATE;
+
+      v_transaction_id := NULL;
+      IF v_balance > 0 THEN
+        v_transaction_id := public.record_coin_entry(
+          v_learner.user_id, -v_balance, 'expiry',
+          format('Season ended: %s', v_learner.class_name), v_learner.class_id);
+        v_reset_users := v_reset_users + 1;
+        v_reset_amount := v_reset_amount + v_balance;
+      END IF;
+
+      -- The amount goes on the class that triggered the reset
+      INSERT INTO public.coin_season_resets (class_id, user_id, amount, transaction_id)
+      SELECT class_id, v_learner.user_id,
+             CASE WHEN class_id = v_learner.class_id THEN GREATEST(v_balance, 0) ELSE 0 END,
+             CASE WHEN class_id = v_learner.class_id THEN v_transaction_id END
+      FROM unnest(v_learner.class_ids) AS class_id
+      ON CONFLICT DO NOTHING;
+    END LOOP;
+  END IF;
+
+  IF v_expiry_days > 0 THEN
+    FOR v_learner IN
+      SELECT user_id FROM public.user_wallets WHERE balance > 0
+    LOOP
+      PERFORM 1 FROM public.user_wallets WHERE user_id = v_learner.user_id FOR UPDATE;
+      v_amount := public.coin_expiring_amount(v_learner.user_id, v_expiry_days, now());
+
+      IF v_amount > 0 THEN
+        PERFORM public.record_coin_entry(
+          v_learner.user_id, -v_amount, 'expiry',
+          format('%s coins expired (earned more than %s days ago)', v_amount, v_expiry_days));
+        v_expired_users := v_expired_users + 1;
+        v_expired_amount := v_expired_amount + v_amount;
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'reset_users', v_reset_users,
+    'reset_amount', v_reset_amount,
+    'expired_users', v_expired_users,
+    'expired_amount', v_expired_amount
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.expire_coins() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.expire_coins() TO authenticated;
+
+-- Nightly expiry where pg_cron is available, after the ledger reconciliation
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-coins', '45 3 * * *', 'SELECT public.expire_coins()');
+  END IF;
+END;
+$$;
+
+COMMIT;
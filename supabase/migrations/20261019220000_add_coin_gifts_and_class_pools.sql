@@ -0,0 +1,362 @@
+-- Migration: Peer coin gifts and class pools
+-- Learners can tip a classmate coins (e.g. for helping in a role-play) and put
+-- coins into a class pool that unlocks a group reward once its target is
+-- reached. A gift is two ledger entries, 'gift_sent' on the sender and
+-- 'gift_received' on the recipient, sharing the gift id as reference; pool
+-- contributions are 'pool_contribution' entries, given back as 'pool_refund'
+-- when an admin cancels the pool. Amounts are capped by coin_config limits.
+
+-- Enum values cannot be added inside a transaction block that later uses them
+ALTER TYPE public.coin_entry_kind ADD VALUE IF NOT EXISTS 'gift_sent';
+ALTER TYPE public.coin_entry_kind ADD VALUE IF NOT EXISTS 'gift_received';
+ALTER TYPE public.coin_entry_kind ADD VALUE IF NOT EXISTS 'pool_contribution';
+ALTER TYPE public.coin_entry_kind ADD VALUE IF NOT EXISTS 'pool_refund';
+
+BEGIN;
+
+INSERT INTO public.coin_config (key, value, description) VALUES
+  ('gifts_enabled', 1, 'Allow learners to gift coins to classmates (1 = on, 0 = off)'),
+  ('gift_max_amount', 50, 'Most coins a single gift can carry'),
+  ('gift_daily_limit', 100, 'Most coins a learner can gift per day'),
+  ('gift_daily_receive_limit', 200, 'Most gifted coins a learner can receive per day'),
+  ('pool_daily_limit', 100, 'Most coins a learner can put into class pools per day')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE public.coin_gifts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sender_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipient_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  class_id uuid NOT NULL REFERENCES public.course_classes(id) ON DELETE CASCADE,
+  amount integer NOT NULL CHECK (amount > 0),
+  message text CHECK (char_length(message) <= 140),
+  sent_transaction_id uuid NOT NULL REFERENCES public.coin_transactions(id),
+  received_transaction_id uuid NOT NULL REFERENCES public.coin_transactions(id),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (sender_id <> recipient_id)
+);
+
+CREATE INDEX idx_coin_gifts_class ON public.coin_gifts (class_id, created_at DESC);
+CREATE INDEX idx_coin_gifts_sender ON public.coin_gifts (sender_id, created_at);
+CREATE INDEX idx_coin_gifts_recipient ON public.coin_gifts (recipient_id, created_at);
+
+CREATE TABLE public.class_pools (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id uuid NOT NULL REFERENCES public.course_classes(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  description text,
+  reward text NOT NULL,
+  target integer NOT NULL CHECK (target > 0),
+  total integer NOT NULL DEFAULT 0 CHECK (total >= 0),
+  -- open -> reached (target met) -> fulfilled (reward given); open -> cancelled (refunded)
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reached', 'fulfilled', 'cancelled')),
+  reached_at timestamp with time zone,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_class_pools_class ON public.class_pools (class_id, created_at DESC);
+
+CREATE TABLE public.class_pool_contributions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  pool_id uuid NOT NULL REFERENCES public.class_pools(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount integer NOT NULL CHECK (amount > 0),
+  transaction_id uuid NOT NULL REFERENCES public.coin_transactions(id),
+  refund_transaction_id uuid REFERENCES public.coin_transactions(id),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_class_pool_contributions_pool ON public.class_pool_contributions (pool_id);
+CREATE INDEX idx_class_pool_contributions_user ON public.class_pool_contributions (user_id, created_at);
+
+CREATE TRIGGER update_class_pools_updated_at BEFORE UPDATE ON public.class_pools
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Admins edit pools directly, but the total and the status belong to the
+-- functions below: a new pool starts empty and open, and the only status
+-- change by hand is handing out the reward of a reached pool
+CREATE OR REPLACE FUNCTION public.guard_class_pool()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.total <> 0 OR NEW.status <> 'open' THEN
+      RAISE EXCEPTION 'A new class pool starts open and empty';
+    END IF;
+  ELSIF NEW.total IS DISTINCT FROM OLD.total
+     OR NEW.class_id IS DISTINCT FROM OLD.class_id
+     OR (NEW.status IS DISTINCT FROM OLD.status AND NOT (OLD.status = 'reached' AND NEW.status = 'fulfilled')) THEN
+    RAISE EXCEPTION 'Pool totals and status change through contributions or cancel_class_pool()';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER class_pools_guard
+  BEFORE INSERT OR UPDATE ON public.class_pools
+  FOR EACH ROW EXECUTE FUNCTION public.guard_class_pool();
+
+ALTER TABLE public.coin_gifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.class_pools ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.class_pool_contributions ENABLE ROW LEVEL SECURITY;
+
+-- Gifts and pools are visible to the whole class; rows are only created by the functions below
+CREATE POLICY "Class members can view class gifts" ON public.coin_gifts FOR SELECT TO authenticated
+  USING (((sender_id = auth.uid()) OR (recipient_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM public.enrollments e WHERE e.class_id = coin_gifts.class_id AND e.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin'::public.app_role)));
+
+CREATE POLICY "Class members can view class pools" ON public.class_pools FOR SELECT TO authenticated
+  USING ((EXISTS (SELECT 1 FROM public.enrollments e WHERE e.class_id = class_pools.class_id AND e.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin'::public.app_role)));
+-- No DELETE: a pool with contributions is closed through cancel_class_pool(),
+-- which refunds them
+CREATE POLICY "Admins can create class pools" ON public.class_pools FOR INSERT TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::public.app_role));
+CREATE POLICY "Admins can update class pools" ON public.class_pools FOR UPDATE TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+CREATE POLICY "Class members can view pool contributions" ON public.class_pool_contributions FOR SELECT TO authenticated
+  USING (((user_id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM public.class_pools p
+      JOIN public.enrollments e ON e.class_id = p.class_id
+      WHERE p.id = class_pool_contributions.pool_id AND e.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin'::public.app_role)));
+
+CREATE OR REPLACE FUNCTION public.send_coin_gift(
+  p_recipient_id uuid,
+  p_class_id uuid,
+  p_amount integer,
+  p_message text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_enabled boolean;
+  v_max_amount integer;
+  v_daily_limit integer;
+  v_receive_limit integer;
+  v_sent_today integer;
+  v_received_today integer;
+  v_balance integer;
+  v_sender_name text;
+  v_recipient_name text;
+  v_gift_id uuid := gen_random_uuid();
+  v_sent_id uuid;
+  v_received_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_recipient_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot gift coins to yourself';
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Gift amount must be positive';
+  END IF;
+
+  SELECT COALESCE(max(value) FILTER (WHERE key = 'gifts_enabled'), 1) <> 0,
+         COALESCE(max(value) FILTER (WHERE key = 'gift_max_amount'), 50),
+         COALESCE(max(value) FILTER (WHERE key = 'gift_daily_limit'), 100),
+         COALESCE(max(value) FILTER (WHERE key = 'gift_daily_receive_limit'), 200)
+    INTO v_enabled, v_max_amount, v_daily_limit, v_receive_limit
+  FROM public.coin_config;
+
+  IF NOT v_enabled THEN
+    RAISE EXCEPTION 'Coin gifts are turned off';
+  END IF;
+  IF p_amount > v_max_amount THEN
+    RAISE EXCEPTION 'A gift can carry at most % coins', v_max_amount;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.enrollments WHERE class_id = p_class_id AND user_id = v_user_id)
+     OR NOT EXISTS (SELECT 1 FROM public.enrollments WHERE class_id = p_class_id AND user_id = p_recipient_id) THEN
+    RAISE EXCEPTION 'You can only gift coins to classmates';
+  END IF;
+
+  -- Lock both wallets in a fixed order so crossing gifts cannot deadlock
+  INSERT INTO public.user_wallets (user_id, balance)
+  VALUES (v_user_id, 0), (p_recipient_id, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+  PERFORM 1 FROM public.user_wallets WHERE user_id IN (v_user_id, p_recipient_id) ORDER BY user_id FOR UPDATE;
+
+  SELECT COALESCE(sum(amount) FILTER (WHERE sender_id = v_user_id), 0),
+         COALESCE(sum(amount) FILTER (WHERE recipient_id = p_recipient_id), 0)
+    INTO v_sent_today, v_received_today
+  FROM public.coin_gifts
+  WHERE (sender_id = v_user_id OR recipient_id = p_recipient_id)
+    AND created_at >= date_trunc('day', now());
+
+  IF v_sent_today + p_amount > v_daily_limit THEN
+    RAISE EXCEPTION 'Daily gift limit reached: % of % coins left today', GREATEST(v_daily_limit - v_sent_today, 0), v_daily_limit;
+  END IF;
+  IF v_received_today + p_amount > v_receive_limit THEN
+    RAISE EXCEPTION 'This classmate can receive only % more gifted coins today', GREATEST(v_receive_limit - v_received_today, 0);
+  END IF;
+
+  SELECT balance INTO v_balance FROM public.user_wallets WHERE user_id = v_user_id;
+  IF v_balance < p_amount THEN
+    RAISE EXCEPTION 'Not enough coins: % needed, % available', p_amount, v_balance;
+  END IF;
+
+  SELECT display_name INTO v_sender_name FROM public.profiles WHERE id = v_user_id;
+  SELECT display_name INTO v_recipient_name FROM public.profiles WHERE id = p_recipient_id;
+
+  v_sent_id := public.record_coin_entry(
+    v_user_id, -p_amount, 'gift_sent', format('Gift to %s', COALESCE(v_recipient_name, 'a classmate')), v_gift_id);
+  v_received_id := public.record_coin_entry(
+    p_recipient_id, p_amount, 'gift_received', format('Gift from %s', COALESCE(v_sender_name, 'a classmate')), v_gift_id);
+
+  INSERT INTO public.coin_gifts
+    (id, sender_id, recipient_id, class_id, amount, message, sent_transaction_id, received_transaction_id)
+  VALUES
+    (v_gift_id, v_user_id, p_recipient_id, p_class_id, p_amount, NULLIF(btrim(p_message), ''), v_sent_id, v_received_id);
+
+  RETURN jsonb_build_object(
+    'gift_id', v_gift_id,
+    'balance', v_balance - p_amount,
+    'sent_today', v_sent_today + p_amount,
+    'daily_limit', v_daily_limit);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.send_coin_gift(uuid, uuid, integer, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.send_coin_gift(uuid, uuid, integer, text) TO authenticated;
+
+-- Puts coins into an open pool of the learner's class. The amount is capped at
+-- what the pool still needs; the contribution that meets the target closes it.
+CREATE OR REPLACE FUNCTION public.contribute_to_class_pool(p_pool_id uuid, p_amount integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_pool public.class_pools;
+  v_daily_limit integer;
+  v_given_today integer;
+  v_balance integer;
+  v_amount integer;
+  v_contribution_id uuid := gen_random_uuid();
+  v_transaction_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Contribution must be positive';
+  END IF;
+
+  SELECT * INTO v_pool FROM public.class_pools WHERE id = p_pool_id FOR UPDATE;
+  IF NOT FOUND OR v_pool.status <> 'open' THEN
+    RAISE EXCEPTION 'This pool is not open for contributions';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.enrollments WHERE class_id = v_pool.class_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Only members of the class can contribute';
+  END IF;
+
+  SELECT COALESCE(max(value) FILTER (WHERE key = 'pool_daily_limit'), 100)
+    INTO v_daily_limit
+  FROM public.coin_config;
+
+  INSERT INTO public.user_wallets (user_id, balance) VALUES (v_user_id, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+  SELECT balance INTO v_balance FROM public.user_wallets WHERE user_id = v_user_id FOR UPDATE;
+
+  SELECT COALESCE(sum(amount), 0) INTO v_given_today
+  FROM public.class_pool_contributions
+  WHERE user_id = v_user_id AND created_at >= date_trunc('day', now());
+
+  v_amount := LEAST(p_amount, v_pool.target - v_pool.total);
+  IF v_given_today + v_amount > v_daily_limit THEN
+    RAISE EXCEPTION 'Daily pool limit reached: % of % coins left today', GREATEST(v_daily_limit - v_given_today, 0), v_daily_limit;
+  END IF;
+  IF v_balance < v_amount THEN
+    RAISE EXCEPTION 'Not enough coins: % needed, % available', v_amount, v_balance;
+  END IF;
+
+  v_transaction_id := public.record_coin_entry(
+    v_user_id, -v_amount, 'pool_contribution', format('Class pool: %s', v_pool.title), v_contribution_id);
+
+  INSERT INTO public.class_pool_contributions (id, pool_id, user_id, amount, transaction_id)
+  VALUES (v_contribution_id, p_pool_id, v_user_id, v_amount, v_transaction_id);
+
+  UPDATE public.class_pools
+  SET total = total + v_amount,
+      status = CASE WHEN total + v_amount >= target THEN 'reached' ELSE status END,
+      reached_at = CASE WHEN total + v_amount >= target THEN now() ELSE reached_at END
+  WHERE id = p_pool_id
+  RETURNING * INTO v_pool;
+
+  RETURN jsonb_build_object(
+    'contributed', v_amount,
+    'balance', v_balance - v_amount,
+    'total', v_pool.total,
+    'status', v_pool.status);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.contribute_to_class_pool(uuid, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.contribute_to_class_pool(uuid, integer) TO authenticated;
+
+-- Cancels an open pool and gives every contribution back. Returns the refunded total.
+CREATE OR REPLACE FUNCTION public.cancel_class_pool(p_pool_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pool public.class_pools;
+  v_contribution record;
+  v_refunded integer := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can cancel class pools';
+  END IF;
+
+  SELECT * INTO v_pool FROM public.class_pools WHERE id = p_pool_id FOR UPDATE;
+  IF NOT FOUND OR v_pool.status <> 'open' THEN
+    RAISE EXCEPTION 'Only open pools can be cancelled';
+  END IF;
+
+  FOR v_contribution IN
+    SELECT id, user_id, amount FROM public.class_pool_contributions
+    WHERE pool_id = p_pool_id AND refund_transaction_id IS NULL
+    ORDER BY user_id
+  LOOP
+    INSERT INTO public.user_wallets (user_id, balance) VALUES (v_contribution.user_id, 0)
+    ON CONFLICT (user_id) DO NOTHING;
+    PERFORM 1 FROM public.user_wallets WHERE user_id = v_contribution.user_id FOR UPDATE;
+
+    UPDATE public.class_pool_contributions
+    SET refund_transaction_id = public.record_coin_entry(
+      v_contribution.user_id, v_contribution.amount, 'pool_refund',
+      format('Class pool cancelled: %s', v_pool.title), v_contribution.id)
+    WHERE id = v_contribution.id;
+
+    v_refunded := v_refunded + v_contribution.amount;
+  END LOOP;
+
+  UPDATE public.class_pools SET status = 'cancelled', total = 0 WHERE id = p_pool_id;
+
+  RETURN v_refunded;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cancel_class_pool(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.cancel_class_pool(uuid) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,272 @@
+-- Migration: Audited admin coin adjustments
+-- admin_adjust_coins() took an optional description and did not record which
+-- admin made the change. Every manual adjustment now needs a reason and is
+-- written to coin_adjustments with the acting admin, the balance before and
+-- after and the ledger transaction (whose reference_id is the adjustment id).
+-- admin_adjust_class_coins() applies one adjustment to every learner of a
+-- class; its rows share a batch_id. Resolving ledger drift in favour of the
+-- wallet is an adjustment too, and record_coin_entry() refuses an
+-- admin_adjustment entry that has no coin_adjustments row.
+
+BEGIN;
+
+CREATE TABLE public.coin_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id uuid,
+  admin_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  class_id uuid REFERENCES public.course_classes(id) ON DELETE SET NULL,
+  -- requested is what the admin entered; applied is what was posted after a
+  -- debit was capped at the balance
+  requested integer NOT NULL CHECK (requested <> 0),
+  applied integer NOT NULL,
+  reason text NOT NULL CHECK (char_length(btrim(reason)) >= 3),
+  balance_before integer NOT NULL,
+  balance_after integer NOT NULL,
+  transaction_id uuid REFERENCES public.coin_transactions(id),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_coin_adjustments_created ON public.coin_adjustments (created_at DESC);
+CREATE INDEX idx_coin_adjustments_user ON public.coin_adjustments (user_id, created_at DESC);
+CREATE INDEX idx_coin_adjustments_admin ON public.coin_adjustments (admin_id, created_at DESC);
+CREATE INDEX idx_coin_adjustments_batch ON public.coin_adjustments (batch_id) WHERE batch_id IS NOT NULL;
+
+ALTER TABLE public.coin_adjustments ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only created by the functions below
+CREATE POLICY "Admins can view coin adjustments" ON public.coin_adjustments FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+-- Posts one adjustment and its audit row. Callers check the admin role.
+CREATE OR REPLACE FUNCTION public.apply_coin_adjustment(
+  p_admin_id uuid,
+  p_user_id uuid,
+  p_amount integer,
+  p_reason text,
+  p_class_id uuid DEFAULT NULL,
+  p_batch_id uuid DEFAULT NULL
+)
+RETURNS public.coin_adjustments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_adjustment public.coin_adjustments;
+  v_adjustment_id uuid := gen_random_uuid();
+  v_before integer;
+  v_after integer;
+BEGIN
+  INSERT INTO public.user_wallets (user_id, balance) VALUES (p_user_id, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+  SELECT balance INTO v_before FROM public.user_wallets WHERE user_id = p_user_id FOR UPDATE;
+
+  -- The audit row comes first: record_coin_entry() checks for it
+  INSERT INTO public.coin_adjustments
+    (id, batch_id, admin_id, user_id, class_id, requested, applied, reason, balance_before, balance_after)
+  VALUES
+    (v_adjustment_id, p_batch_id, p_admin_id, p_user_id, p_class_id, p_amount, 0, p_reason, v_before, v_before);
+
+  v_after := public.post_coin_transaction(p_user_id, p_amount, 'admin_adjustment', p_reason, v_adjustment_id);
+
+  UPDATE public.coin_adjustments
+  SET applied = v_after - v_before,
+      balance_after = v_after,
+      transaction_id = (SELECT id FROM public.coin_transactions WHERE reference_id = v_adjustment_id AND user_id = p_user_id)
+  WHERE id = v_adjustment_id
+  RETURNING * INTO v_adjustment;
+
+  RETURN v_adjustment;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_coin_adjustment(uuid, uuid, integer, text, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Same as before, except that an admin_adjustment must reference the
+-- coin_adjustments row apply_coin_adjustment() wrote for it
+CREATE OR REPLACE FUNCTION public.record_coin_entry(
+  p_user_id uuid,
+  p_amount integer,
+  p_kind public.coin_entry_kind,
+  p_description text,
+  p_reference_id uuid DEFAULT NULL,
+  p_requested_amount integer DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction_id uuid;
+BEGIN
+  IF p_kind = 'admin_adjustment' AND NOT EXISTS (
+    SELECT 1 FROM public.coin_adjustments
+    WHERE id = p_reference_id AND user_id = p_user_id AND transaction_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Admin adjustments are posted through apply_coin_adjustment()';
+  END IF;
+
+  INSERT INTO public.coin_transactions
+    (user_id, amount, transaction_type, entry_kind, description, reference_id, requested_amount)
+  VALUES
+    (p_user_id, p_amount, p_kind::text, p_kind, p_description, p_reference_id, p_requested_amount)
+  RETURNING id INTO v_transaction_id;
+
+  IF p_amount <> 0 THEN
+    INSERT INTO public.coin_ledger_entries (transaction_id, user_id, account, debit, credit)
+    VALUES
+      (v_transaction_id, p_user_id, 'wallet', GREATEST(-p_amount, 0), GREATEST(p_amount, 0)),
+      (v_transaction_id, p_user_id, 'treasury', GREATEST(p_amount, 0), GREATEST(-p_amount, 0));
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_coin_entry(uuid, integer, public.coin_entry_kind, text, uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- The reason is now required, so the old signature goes
+DROP FUNCTION IF EXISTS public.admin_adjust_coins(uuid, integer, text);
+
+-- Manual credit/debit of one learner. Returns the new balance.
+CREATE OR REPLACE FUNCTION public.admin_adjust_coins(
+  p_user_id uuid,
+  p_amount integer,
+  p_reason text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can adjust coins';
+  END IF;
+  IF p_amount IS NULL OR p_amount = 0 THEN
+    RAISE EXCEPTION 'Adjustment amount must be non-zero';
+  END IF;
+  IF char_length(btrim(COALESCE(p_reason, ''))) < 3 THEN
+    RAISE EXCEPTION 'A reason is required for every adjustment';
+  END IF;
+
+  RETURN (public.apply_coin_adjustment(auth.uid(), p_user_id, p_amount, btrim(p_reason))).balance_after;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.admin_adjust_coins(uuid, integer, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.admin_adjust_coins(uuid, integer, text) TO authenticated;
+
+-- The same adjustment for every learner enrolled in a class, as one batch
+CREATE OR REPLACE FUNCTION public.admin_adjust_class_coins(
+  p_class_id uuid,
+  p_amount integer,
+  p_reason text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch_id uuid := gen_random_uuid();
+  v_learner record;
+  v_adjustment public.coin_adjustments;
+  v_users integer := 0;
+  v_applied integer := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can adjust coins';
+  END IF;
+  IF p_amount IS NULL OR p_amount = 0 THEN
+    RAISE EXCEPTION 'Adjustment amount must be non-zero';
+  END IF;
+  IF char_length(btrim(COALESCE(p_reason, ''))) < 3 THEN
+    RAISE EXCEPTION 'A reason is required for every adjustment';
+  END IF;
+
+  -- Wallets are locked in user order so concurrent batches cannot deadlock
+  FOR v_learner IN
+    SELECT DISTINCT user_id FROM public.enrollments WHERE class_id = p_class_id ORDER BY user_id
+  LOOP
+    v_adjustment := public.apply_coin_adjustment(
+      auth.uid(), v_learner.user_id, p_amount, btrim(p_reason), p_class_id, v_batch_id);
+    v_users := v_users + 1;
+    v_applied := v_applied + v_adjustment.applied;
+  END LOOP;
+
+  IF v_users = 0 THEN
+    RAISE EXCEPTION 'This class has no learners';
+  END IF;
+
+  RETURN jsonb_build_object('batch_id', v_batch_id, 'users', v_users, 'applied', v_applied);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.admin_adjust_class_coins(uuid, integer, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.admin_adjust_class_coins(uuid, integer, text) TO authenticated;
+
+-- Resolves a drift row:
+--   'ledger' - the ledger is right; reset the wallet projection to it
+--   'wallet' - the wallet is right; reset the projection, then adjust it back
+--              to what the learner saw through apply_coin_adjustment(), so
+--              the correction is audited like any other adjustment
+CREATE OR REPLACE FUNCTION public.resolve_coin_drift(p_drift_id uuid, p_resolution text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_drift public.coin_balance_drift;
+  v_current public.coin_ledger_balances;
+  v_difference integer;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can resolve coin drift';
+  END IF;
+  IF p_resolution NOT IN ('ledger', 'wallet') THEN
+    RAISE EXCEPTION 'Unknown resolution "%"', p_resolution;
+  END IF;
+
+  SELECT * INTO v_drift FROM public.coin_balance_drift WHERE id = p_drift_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Drift % not found', p_drift_id;
+  END IF;
+  IF v_drift.resolved_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Drift % was already resolved', p_drift_id;
+  END IF;
+
+  PERFORM 1 FROM public.user_wallets WHERE user_id = v_drift.user_id FOR UPDATE;
+  SELECT * INTO v_current FROM public.coin_ledger_balances WHERE user_id = v_drift.user_id;
+
+  -- Use the live difference: entries posted since the run moved both sides
+  v_difference := v_current.wallet_balance - v_current.ledger_balance;
+
+  UPDATE public.user_wallets w
+  SET balance = b.ledger_balance,
+      total_earned = b.ledger_earned,
+      total_spent = b.ledger_spent
+  FROM public.coin_ledger_balances b
+  WHERE b.user_id = w.user_id AND w.user_id = v_drift.user_id;
+
+  -- The ledger balance plus the difference is the old wallet balance, so a
+  -- debit here is never capped
+  IF p_resolution = 'wallet' AND v_difference <> 0 THEN
+    PERFORM public.apply_coin_adjustment(
+      auth.uid(), v_drift.user_id, v_difference,
+      format('Reconciliation: ledger aligned with the wallet balance of %s', v_current.wallet_balance));
+  END IF;
+
+  UPDATE public.coin_balance_drift
+  SET resolution = p_resolution, resolved_at = now(), resolved_by = auth.uid()
+  WHERE id = p_drift_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_coin_drift(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.resolve_coin_drift(uuid, text) TO authenticated;
+
+COMMIT;
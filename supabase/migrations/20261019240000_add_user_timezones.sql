@@ -0,0 +1,1070 @@
+-- Migration: Per-user timezones for practice days and streaks
+-- "Today" was the server's UTC date, so a learner in Vietnam (UTC+7)
+-- practicing at 6am local time was counted on the previous day: streaks
+-- broke, the early-bird badge never fired and daily counts were split at 7am.
+-- profiles.timezone (IANA name, filled in from the browser when empty) now
+-- decides the calendar day for settle_practice() (streak, daily practice
+-- counts, anti-farming windows, early/late hour, deadlines) and
+-- lesson_deadline(). Streaks are evaluated on the server: get_my_streak()
+-- reports the streak as of the learner's today, and evaluate_streaks() resets
+-- broken streaks hourly so leaderboards stay current across timezones. The
+-- daily gift and class pool limits count the learner's local day as well.
+-- Hopping zones would stretch the streak window and reset the daily caps
+-- early, so a learner changes their timezone through set_my_timezone(): at
+-- most once every timezone_change_cooldown_days, effective from their next
+-- local day and logged in timezone_changes. The first timezone of a profile
+-- (filled in from the browser) applies at once, and a pending change can be
+-- replaced or withdrawn until it takes effect.
+
+BEGIN;
+
+-- now() AT TIME ZONE raises for unknown zone names
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(p_timezone text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  PERFORM now() AT TIME ZONE p_timezone;
+  RETURN true;
+EXCEPTION WHEN invalid_parameter_value THEN
+  RETURN false;
+END;
+$$;
+
+INSERT INTO public.coin_config (key, value, description) VALUES
+  ('timezone_change_cooldown_days', 30, 'Days a learner must wait between timezone changes')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS timezone text,
+  ADD COLUMN IF NOT EXISTS pending_timezone text,
+  ADD COLUMN IF NOT EXISTS pending_timezone_from date,
+  ADD CONSTRAINT profiles_timezone_valid CHECK (timezone IS NULL OR public.is_valid_timezone(timezone)),
+  ADD CONSTRAINT profiles_pending_timezone_valid
+    CHECK (pending_timezone IS NULL OR public.is_valid_timezone(pending_timezone)),
+  ADD CONSTRAINT profiles_pending_timezone_dated
+    CHECK ((pending_timezone IS NULL) = (pending_timezone_from IS NULL));
+
+COMMENT ON COLUMN public.profiles.timezone IS 'IANA timezone of the learner (e.g. Asia/Ho_Chi_Minh); practice days and streaks follow it. NULL = UTC';
+COMMENT ON COLUMN public.profiles.pending_timezone IS 'Timezone requested with set_my_timezone(); replaces timezone on pending_timezone_from (a date in the current timezone)';
+
+CREATE TABLE public.timezone_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  old_timezone text,
+  new_timezone text NOT NULL,
+  effective_from date NOT NULL,
+  -- Replaced or withdrawn before it took effect; does not start the cooldown
+  withdrawn_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.timezone_changes IS 'Every timezone a learner requested, with the local day it applies from';
+
+CREATE INDEX idx_timezone_changes_user ON public.timezone_changes (user_id, created_at DESC);
+
+ALTER TABLE public.timezone_changes ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only created by set_my_timezone()
+CREATE POLICY "Users can view their own timezone changes" ON public.timezone_changes FOR SELECT TO authenticated
+  USING (((user_id = auth.uid()) OR public.has_role(auth.uid(), 'admin'::public.app_role)));
+
+-- A pending timezone counts from its first day, even before
+-- apply_pending_timezones() has moved it into profiles.timezone
+CREATE OR REPLACE FUNCTION public.user_timezone(p_user_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT CASE
+        WHEN pending_timezone IS NOT NULL
+         AND pending_timezone_from <= (now() AT TIME ZONE COALESCE(timezone, 'UTC'))::date
+        THEN pending_timezone
+        ELSE timezone
+      END
+     FROM public.profiles WHERE id = p_user_id),
+    'UTC');
+$$;
+
+REVOKE ALL ON FUNCTION public.user_timezone(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Calendar day of p_at for the learner
+CREATE OR REPLACE FUNCTION public.user_local_date(p_user_id uuid, p_at timestamp with time zone DEFAULT now())
+RETURNS date
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (p_at AT TIME ZONE public.user_timezone(p_user_id))::date;
+$$;
+
+REVOKE ALL ON FUNCTION public.user_local_date(uuid, timestamp with time zone) FROM PUBLIC, anon, authenticated;
+
+-- Start of the learner's current calendar day
+CREATE OR REPLACE FUNCTION public.user_day_start(p_user_id uuid)
+RETURNS timestamp with time zone
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.user_local_date(p_user_id)::timestamp AT TIME ZONE public.user_timezone(p_user_id);
+$$;
+
+REVOKE ALL ON FUNCTION public.user_day_start(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Learners cannot edit the timezone columns directly; set_my_timezone() and
+-- the functions below run as the table owner
+CREATE OR REPLACE FUNCTION public.guard_profile_timezone()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon')
+     AND (NEW.timezone IS DISTINCT FROM OLD.timezone
+          OR NEW.pending_timezone IS DISTINCT FROM OLD.pending_timezone
+          OR NEW.pending_timezone_from IS DISTINCT FROM OLD.pending_timezone_from) THEN
+    RAISE EXCEPTION 'Change your timezone with set_my_timezone()';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER profiles_guard_timezone
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_profile_timezone();
+
+-- Moves pending timezones whose first day has come into profiles.timezone
+CREATE OR REPLACE FUNCTION public.apply_pending_timezones()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.profiles
+  SET timezone = pending_timezone,
+      pending_timezone = NULL,
+      pending_timezone_from = NULL
+  WHERE pending_timezone IS NOT NULL
+    AND pending_timezone_from <= (now() AT TIME ZONE COALESCE(timezone, 'UTC'))::date;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_pending_timezones() FROM PUBLIC, anon, authenticated;
+
+-- Gift and pool limits reset at the learner's local midnight
+CREATE OR REPLACE FUNCTION public.send_coin_gift(
+  p_recipient_id uuid,
+  p_class_id uuid,
+  p_amount integer,
+  p_message text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_enabled boolean;
+  v_max_amount integer;
+  v_daily_limit integer;
+  v_receive_limit integer;
+  v_sent_today integer;
+  v_received_today integer;
+  v_sender_day_start timestamp with time zone := public.user_day_start(v_user_id);
+  v_recipient_day_start timestamp with time zone := public.user_day_start(p_recipient_id);
+  v_balance integer;
+  v_sender_name text;
+  v_recipient_name text;
+  v_gift_id uuid := gen_random_uuid();
+  v_sent_id uuid;
+  v_received_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_recipient_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot gift coins to yourself';
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Gift amount must be positive';
+  END IF;
+
+  SELECT COALESCE(max(value) FILTER (WHERE key = 'gifts_enabled'), 1) <> 0,
+         COALESCE(max(value) FILTER (WHERE key = 'gift_max_amount'), 50),
+         COALESCE(max(value) FILTER (WHERE key = 'gift_daily_limit'), 100),
+         COALESCE(max(value) FILTER (WHERE key = 'gift_daily_receive_limit'), 200)
+    INTO v_enabled, v_max_amount, v_daily_limit, v_receive_limit
+  FROM public.coin_config;
+
+  IF NOT v_enabled THEN
+    RAISE EXCEPTION 'Coin gifts are turned off';
+  END IF;
+  IF p_amount > v_max_amount THEN
+    RAISE EXCEPTION 'A gift can carry at most % coins', v_max_amount;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.enrollments WHERE class_id = p_class_id AND user_id = v_user_id)
+     OR NOT EXISTS (SELECT 1 FROM public.enrollments WHERE class_id = p_class_id AND user_id = p_recipient_id) THEN
+    RAISE EXCEPTION 'You can only gift coins to classmates';
+  END IF;
+
+  -- Lock both wallets in a fixed order so crossing gifts cannot deadlock
+  INSERT INTO public.user_wallets (user_id, balance)
+  VALUES (v_user_id, 0), (p_recipient_id, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+  PERFORM 1 FROM public.user_wallets WHERE user_id IN (v_user_id, p_recipient_id) ORDER BY user_id FOR UPDATE;
+
+  -- Each side's limit counts from the start of their own local day
+  SELECT COALESCE(sum(amount) FILTER (WHERE sender_id = v_user_id AND created_at >= v_sender_day_start), 0),
+         COALESCE(sum(amount) FILTER (WHERE recipient_id = p_recipient_id AND created_at >= v_recipient_day_start), 0)
+    INTO v_sent_today, v_received_today
+  FROM public.coin_gifts
+  WHERE (sender_id = v_user_id OR recipient_id = p_recipient_id)
+    AND created_at >= LEAST(v_sender_day_start, v_recipient_day_start);
+
+  IF v_sent_today + p_amount > v_daily_limit THEN
+    RAISE EXCEPTION 'Daily gift limit reached: % of % coins left today', GREATEST(v_daily_limit - v_sent_today, 0), v_daily_limit;
+  END IF;
+  IF v_received_today + p_amount > v_receive_limit THEN
+    RAISE EXCEPTION 'This classmate can receive only % more gifted coins today', GREATEST(v_receive_limit - v_received_today, 0);
+  END IF;
+
+  SELECT balance INTO v_balance FROM public.user_wallets WHERE user_id = v_user_id;
+  IF v_balance < p_amount THEN
+    RAISE EXCEPTION 'Not enough coins: % needed, % available', p_amount, v_balance;
+  END IF;
+
+  SELECT display_name INTO v_sender_name FROM public.profiles WHERE id = v_user_id;
+  SELECT display_name INTO v_recipient_name FROM public.profiles WHERE id = p_recipient_id;
+
+  v_sent_id := public.record_coin_entry(
+    v_user_id, -p_amount, 'gift_sent', format('Gift to %s', COALESCE(v_recipient_name, 'a classmate')), v_gift_id);
+  v_received_id := public.record_coin_entry(
+    p_recipient_id, p_amount, 'gift_received', format('Gift from %s', COALESCE(v_sender_name, 'a classmate')), v_gift_id);
+
+  INSERT INTO public.coin_gifts
+    (id, sender_id, recipient_id, class_id, amount, message, sent_transaction_id, received_transaction_id)
+  VALUES
+    (v_gift_id, v_user_id, p_recipient_id, p_class_id, p_amount, NULLIF(btrim(p_message), ''), v_sent_id, v_received_id);
+
+  RETURN jsonb_build_object(
+    'gift_id', v_gift_id,
+    'balance', v_balance - p_amount,
+    'sent_today', v_sent_today + p_amount,
+    'daily_limit', v_daily_limit);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.send_coin_gift(uuid, uuid, integer, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.send_coin_gift(uuid, uuid, integer, text) TO authenticated;
+
+-- Puts coins into an open pool of the learner's class. The amount is capped at
+-- what the pool still needs; the contribution that meets the target closes it.
+CREATE OR REPLACE FUNCTION public.contribute_to_class_pool(p_pool_id uuid, p_amount integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_pool public.class_pools;
+  v_daily_limit integer;
+  v_given_today integer;
+  v_balance integer;
+  v_amount integer;
+  v_contribution_id uuid := gen_random_uuid();
+  v_transaction_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Contribution must be positive';
+  END IF;
+
+  SELECT * INTO v_pool FROM public.class_pools WHERE id = p_pool_id FOR UPDATE;
+  IF NOT FOUND OR v_pool.status <> 'open' THEN
+    RAISE EXCEPTION 'This pool is not open for contributions';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.enrollments WHERE class_id = v_pool.class_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Only members of the class can contribute';
+  END IF;
+
+  SELECT COALESCE(max(value) FILTER (WHERE key = 'pool_daily_limit'), 100)
+    INTO v_daily_limit
+  FROM public.coin_config;
+
+  INSERT INTO public.user_wallets (user_id, balance) VALUES (v_user_id, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+  SELECT balance INTO v_balance FROM public.user_wallets WHERE user_id = v_user_id FOR UPDATE;
+
+  SELECT COALESCE(sum(amount), 0) INTO v_given_today
+  FROM public.class_pool_contributions
+  WHERE user_id = v_user_id AND created_at >= public.user_day_start(v_user_id);
+
+  v_amount := LEAST(p_amount, v_pool.target - v_pool.total);
+  IF v_given_today + v_amount > v_daily_limit THEN
+    RAISE EXCEPTION 'Daily pool limit reached: % of % coins left today', GREATEST(v_daily_limit - v_given_today, 0), v_daily_limit;
+  END IF;
+  IF v_balance < v_amount THEN
+    RAISE EXCEPTION 'Not enough coins: % needed, % available', v_amount, v_balance;
+  END IF;
+
+  v_transaction_id := public.record_coin_entry(
+    v_user_id, -v_amount, 'pool_contribution', format('Class pool: %s', v_pool.title), v_contribution_id);
+
+  INSERT INTO public.class_pool_contributions (id, pool_id, user_id, amount, transaction_id)
+  VALUES (v_contribution_id, p_pool_id, v_user_id, v_amount, v_transaction_id);
+
+  UPDATE public.class_pools
+  SET total = total + v_amount,
+      status = CASE WHEN total + v_amount >= target THEN 'reached' ELSE status END,
+      reached_at = CASE WHEN total + v_amount >= target THEN now() ELSE reached_at END
+  WHERE id = p_pool_id
+  RETURNING * INTO v_pool;
+
+  RETURN jsonb_build_object(
+    'contributed', v_amount,
+    'balance', v_balance - v_amount,
+    'total', v_pool.total,
+    'status', v_pool.status);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.contribute_to_class_pool(uuid, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.contribute_to_class_pool(uuid, integer) TO authenticated;
+
+-- Requests a timezone for the caller. Returns {timezone, pending_timezone,
+-- pending_timezone_from}. Until a change takes effect it can be replaced by
+-- another zone, or withdrawn by choosing the current one, without waiting
+-- for the cooldown; neither counts as a change.
+CREATE OR REPLACE FUNCTION public.set_my_timezone(p_timezone text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_cooldown integer;
+  v_last_change timestamp with time zone;
+  v_from date;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_timezone IS NULL OR NOT public.is_valid_timezone(p_timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone: %', p_timezone;
+  END IF;
+
+  PERFORM public.apply_pending_timezones();
+
+  SELECT * INTO v_profile FROM public.profiles WHERE id = v_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF v_profile.timezone IS NULL THEN
+    -- First timezone of the profile: nothing to exploit yet
+    v_from := (now() AT TIME ZONE p_timezone)::date;
+    UPDATE public.profiles SET timezone = p_timezone WHERE id = v_user_id;
+    INSERT INTO public.timezone_changes (user_id, old_timezone, new_timezone, effective_from)
+    VALUES (v_user_id, NULL, p_timezone, v_from);
+
+  ELSIF p_timezone IS DISTINCT FROM COALESCE(v_profile.pending_timezone, v_profile.timezone) THEN
+    IF v_profile.pending_timezone IS NOT NULL THEN
+      -- The pending change never took effect
+      UPDATE public.timezone_changes SET withdrawn_at = now()
+      WHERE id = (
+        SELECT id FROM public.timezone_changes
+        WHERE user_id = v_user_id AND withdrawn_at IS NULL
+        ORDER BY created_at DESC
+        LIMIT 1);
+    ELSE
+      SELECT COALESCE(max(value) FILTER (WHERE key = 'timezone_change_cooldown_days'), 30)::integer
+        INTO v_cooldown
+      FROM public.coin_config;
+
+      -- The first timezone (old_timezone NULL) does not start the cooldown
+      SELECT max(created_at) INTO v_last_change
+      FROM public.timezone_changes
+      WHERE user_id = v_user_id AND old_timezone IS NOT NULL AND withdrawn_at IS NULL;
+
+      IF v_last_change IS NOT NULL AND v_last_change > now() - make_interval(days => v_cooldown) THEN
+        RAISE EXCEPTION 'You can change your timezone again on %',
+          to_char((v_last_change + make_interval(days => v_cooldown)) AT TIME ZONE v_profile.timezone, 'YYYY-MM-DD');
+      END IF;
+    END IF;
+
+    IF p_timezone = v_profile.timezone THEN
+      UPDATE public.profiles SET pending_timezone = NULL, pending_timezone_from = NULL WHERE id = v_user_id;
+    ELSE
+      -- From the next day in the current timezone, so today is not counted twice
+      v_from := (now() AT TIME ZONE v_profile.timezone)::date + 1;
+      UPDATE public.profiles
+      SET pending_timezone = p_timezone, pending_timezone_from = v_from
+      WHERE id = v_user_id;
+      INSERT INTO public.timezone_changes (user_id, old_timezone, new_timezone, effective_from)
+      VALUES (v_user_id, v_profile.timezone, p_timezone, v_from);
+    END IF;
+  END IF;
+
+  SELECT * INTO v_profile FROM public.profiles WHERE id = v_user_id;
+  RETURN jsonb_build_object(
+    'timezone', v_profile.timezone,
+    'pending_timezone', v_profile.pending_timezone,
+    'pending_timezone_from', v_profile.pending_timezone_from);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_my_timezone(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.set_my_timezone(text) TO authenticated;
+
+-- Deadline of a lesson for a student: the n-th class day on or after the
+-- enrollment start, n being the lesson's position in the course
+-- (same schedule as calculateLessonDeadlines in scheduleUtils.ts)
+CREATE OR REPLACE FUNCTION public.lesson_deadline(p_user_id uuid, p_lesson_id uuid)
+RETURNS date
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_course_id uuid;
+  v_start date;
+  v_schedule jsonb;
+  v_weekdays integer[];
+  v_position integer;
+BEGIN
+  SELECT course_id INTO v_course_id FROM public.lessons WHERE id = p_lesson_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- An enrollment without a start date starts on the learner's local day of enrolling
+  SELECT COALESCE(cc.start_date, e.start_date, (e.enrolled_at AT TIME ZONE public.user_timezone(p_user_id))::date),
+         COALESCE(cc.schedule_days, '["monday", "wednesday", "friday"]'::jsonb)
+    INTO v_start, v_schedule
+  FROM public.enrollments e
+  LEFT JOIN public.course_classes cc ON cc.id = e.class_id
+  WHERE e.user_id = p_user_id AND e.course_id = v_course_id
+  ORDER BY e.enrolled_at
+  LIMIT 1;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT position INTO v_position
+  FROM (
+    SELECT id, row_number() OVER (ORDER BY order_index, created_at) AS position
+    FROM public.lessons
+    WHERE course_id = v_course_id
+  ) ordered
+  WHERE id = p_lesson_id;
+
+  -- Postgres and JS agree on weekday numbers: 0 = Sunday
+  SELECT array_agg(array_position(
+    ARRAY['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'], lower(day)) - 1)
+    INTO v_weekdays
+  FROM jsonb_array_elements_text(CASE WHEN jsonb_typeof(v_schedule) = 'array' THEN v_schedule ELSE '[]'::jsonb END) AS day
+  WHERE lower(day) IN ('sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday');
+
+  -- No schedule: one lesson per day
+  IF v_weekdays IS NULL THEN
+    RETURN v_start + (v_position - 1);
+  END IF;
+
+  RETURN (
+    SELECT d::date
+    FROM generate_series(v_start, v_start + v_position * 7, interval '1 day') AS d
+    WHERE EXTRACT(dow FROM d)::integer = ANY (v_weekdays)
+    ORDER BY d
+    OFFSET v_position - 1
+    LIMIT 1
+  );
+END;
+$$;
+
+-- Same settlement as before; every "today" is now the learner's local day
+CREATE OR REPLACE FUNCTION public.settle_practice(
+  p_settlement_key text,
+  p_lesson_id uuid,
+  p_category text,
+  p_item_index integer,
+  p_metrics jsonb,
+  p_audio_url text DEFAULT NULL,
+  p_local_hour integer DEFAULT NULL,
+  p_audio_fingerprint jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_profile_tz text;
+  v_tz text;
+  v_today date;
+  v_hour integer;
+  v_score integer;
+  v_profile public.scoring_profiles;
+  v_replay jsonb;
+  v_lesson public.lessons;
+  v_config jsonb;
+  v_progress public.user_progress;
+  v_streak public.daily_streaks;
+  v_practice_id uuid;
+  v_balance integer;
+  v_before integer;
+  v_outcome jsonb;
+
+  v_base integer := 0;
+  v_bonuses jsonb := '[]'::jsonb;
+  v_bonus_total integer := 0;
+  v_bonus record;
+  v_posted jsonb := '[]'::jsonb;
+  v_badge_total integer := 0;
+  v_new_badges jsonb := '[]'::jsonb;
+
+  v_threshold numeric;
+  v_min numeric;
+  v_max numeric;
+  v_amount integer;
+
+  v_total_items integer;
+  v_completed_before integer;
+  v_completed_after integer;
+  v_percent_before integer := 0;
+  v_percent_after integer := 0;
+  v_milestone integer;
+  v_deadline date;
+  v_days integer;
+
+  v_consecutive integer := 0;
+  v_recent record;
+  v_streak_amount integer := 0;
+
+  v_limits jsonb := '[]'::jsonb;
+  v_withheld integer;
+  v_rewarded integer;
+  v_window_start timestamp with time zone;
+  v_factor numeric;
+  v_earned_today integer;
+
+  v_current_streak integer;
+  v_is_new_day boolean := false;
+  v_streak_extended boolean := false;
+
+  v_stats record;
+  v_vocab_mastered integer;
+  v_badge public.badges;
+  v_earned boolean;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_settlement_key IS NULL OR length(p_settlement_key) NOT BETWEEN 1 AND 100 THEN
+    RAISE EXCEPTION 'A settlement key (1-100 chars) is required';
+  END IF;
+
+  -- "Today" is the learner's calendar day in their profile timezone
+  SELECT timezone INTO v_profile_tz FROM public.profiles WHERE id = v_user_id;
+  v_tz := public.user_timezone(v_user_id);
+  v_today := (now() AT TIME ZONE v_tz)::date;
+
+  -- All settlements of one user serialize on the wallet row (second tab, retries)
+  INSERT INTO public.user_wallets (user_id, balance) VALUES (v_user_id, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+  SELECT balance INTO v_balance FROM public.user_wallets WHERE user_id = v_user_id FOR UPDATE;
+
+  SELECT settlement INTO v_replay
+  FROM public.practice_history
+  WHERE user_id = v_user_id AND settlement_key = p_settlement_key;
+  IF FOUND THEN
+    RETURN v_replay || '{"replayed": true}'::jsonb;
+  END IF;
+
+  SELECT * INTO v_lesson FROM public.lessons WHERE id = p_lesson_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson % not found', p_lesson_id;
+  END IF;
+  IF jsonb_typeof(v_lesson.categories -> p_category) IS DISTINCT FROM 'array'
+     OR p_item_index IS NULL
+     OR p_item_index NOT BETWEEN 0 AND jsonb_array_length(v_lesson.categories -> p_category) - 1 THEN
+    RAISE EXCEPTION 'Item % of "%" does not exist in this lesson', p_item_index, p_category;
+  END IF;
+
+  -- The score is computed here from the take's metrics with the active
+  -- scoring profile and its overrides for this item; the score shown in the
+  -- browser is only a preview
+  SELECT * INTO v_profile FROM public.scoring_profiles WHERE is_active;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active scoring profile';
+  END IF;
+  v_score := public.score_practice_metrics(
+    p_metrics,
+    public.resolve_scoring_metrics(v_profile.metrics, v_profile.overrides, v_lesson.course_id, p_lesson_id, p_category));
+  IF v_score IS NULL THEN
+    RAISE EXCEPTION 'The take is missing the metrics needed to score it';
+  END IF;
+  -- Early/late badges are about the learner's clock: the profile timezone, or
+  -- the hour reported by the browser while no timezone is set
+  v_hour := CASE
+    WHEN v_profile_tz IS NULL AND p_local_hour BETWEEN 0 AND 23 THEN p_local_hour
+    ELSE EXTRACT(hour FROM now() AT TIME ZONE v_tz)::integer
+  END;
+
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb) INTO v_config FROM public.coin_config;
+
+  -- 1. Base reward/penalty for the score
+  v_threshold := COALESCE((v_config ->> 'reward_score_threshold')::numeric, 70);
+  IF v_score >= v_threshold THEN
+    v_min := COALESCE((v_config ->> 'reward_min')::numeric, 0);
+    v_max := COALESCE((v_config ->> 'reward_max')::numeric, v_min);
+    v_base := round(v_min + ((v_score - v_threshold) / GREATEST(1, 100 - v_threshold)) * (v_max - v_min));
+  ELSE
+    v_threshold := COALESCE((v_config ->> 'penalty_score_threshold')::numeric, 50);
+    IF v_score < v_threshold THEN
+      v_min := COALESCE((v_config ->> 'penalty_min')::numeric, 0);
+      v_max := COALESCE((v_config ->> 'penalty_max')::numeric, v_min);
+      v_base := -round(v_min + ((v_threshold - v_score) / GREATEST(1, v_threshold)) * (v_max - v_min));
+    END IF;
+  END IF;
+
+  -- 2. Progress
+  SELECT count(*) INTO v_completed_before
+  FROM public.user_progress
+  WHERE user_id = v_user_id AND lesson_id = p_lesson_id AND mastery_level >= 3;
+
+  INSERT INTO public.user_progress AS up
+    (user_id, lesson_id, category, item_index, attempts, best_score, mastery_level, last_practiced_at)
+  VALUES
+    (v_user_id, p_lesson_id, p_category, p_item_index, 1, v_score, public.practice_mastery(1, v_score), now())
+  ON CONFLICT (user_id, lesson_id, category, item_index) DO UPDATE
+  SET attempts = up.attempts + 1,
+      best_score = GREATEST(up.best_score, EXCLUDED.best_score),
+      mastery_level = public.practice_mastery(up.attempts + 1, GREATEST(up.best_score, EXCLUDED.best_score)),
+      last_practiced_at = now()
+  RETURNING * INTO v_progress;
+
+  -- 3. Bonuses (were computed in Practice.tsx from lessonProgress.ts / deadlineRewards.ts)
+  IF v_progress.attempts = 1 THEN
+    v_amount := COALESCE((v_config ->> 'first_practice_bonus')::integer, 2);
+    IF v_amount <> 0 THEN
+      v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+        'kind', 'first_practice', 'label', 'First Practice', 'icon', '🎁', 'amount', v_amount));
+    END IF;
+  END IF;
+
+  SELECT count(*) INTO v_completed_after
+  FROM public.user_progress
+  WHERE user_id = v_user_id AND lesson_id = p_lesson_id AND mastery_level >= 3;
+
+  SELECT COALESCE(sum(CASE WHEN jsonb_typeof(items) = 'array' THEN jsonb_array_length(items) ELSE 0 END), 0)
+    INTO v_total_items
+  FROM jsonb_each(v_lesson.categories) AS c(category, items);
+
+  IF v_total_items > 0 THEN
+    v_percent_before := LEAST(100, round(v_completed_before * 100.0 / v_total_items));
+    v_percent_after := LEAST(100, round(v_completed_after * 100.0 / v_total_items));
+  END IF;
+
+  SELECT m INTO v_milestone
+  FROM unnest(ARRAY[25, 50, 75, 100]) AS m
+  WHERE v_percent_after >= m AND v_percent_before < m
+  ORDER BY m
+  LIMIT 1;
+
+  IF v_milestone IS NOT NULL THEN
+    v_amount := COALESCE((v_config ->> ('milestone_' || v_milestone || '_bonus'))::integer,
+      CASE v_milestone WHEN 25 THEN 10 WHEN 50 THEN 25 WHEN 75 THEN 50 ELSE 100 END);
+    v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+      'kind', 'milestone',
+      'label', CASE v_milestone WHEN 25 THEN 'Quarter Complete' WHEN 50 THEN 'Halfway There'
+                                WHEN 75 THEN 'Almost Done' ELSE 'Lesson Complete' END,
+      'icon', CASE v_milestone WHEN 25 THEN '🎯' WHEN 50 THEN '🔥' WHEN 75 THEN '⭐' ELSE '🏆' END,
+      'amount', v_amount));
+
+    -- Deadline bonus/penalty once the lesson is (nearly) complete
+    v_deadline := public.lesson_deadline(v_user_id, p_lesson_id);
+    v_min := COALESCE((v_config ->> 'min_completion_for_bonus')::numeric, 80);
+    IF v_deadline IS NOT NULL AND v_percent_after >= v_min THEN
+      v_days := v_deadline - v_today;
+      IF v_days > 0 THEN
+        v_max := COALESCE((v_config ->> 'deadline_early_bonus_days')::numeric, 3);
+        v_amount := round(LEAST(v_days, v_max) / GREATEST(v_max, 1)
+          * COALESCE((v_config ->> 'deadline_early_bonus_max')::numeric, 50));
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '⚡', 'amount', v_amount,
+          'label', format('Completed %s day%s early!', v_days, CASE WHEN v_days > 1 THEN 's' ELSE '' END)));
+      ELSIF v_days = 0 THEN
+        v_amount := COALESCE((v_config ->> 'deadline_on_time_bonus')::integer, 20);
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '🎯', 'amount', v_amount, 'label', 'Completed right on time!'));
+      ELSIF -v_days <= COALESCE((v_config ->> 'deadline_penalty_grace_days')::integer, 0) THEN
+        v_amount := round(COALESCE((v_config ->> 'deadline_on_time_bonus')::numeric, 20) * 0.5);
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '🕐', 'amount', v_amount, 'label', 'Grace period - half bonus for completion'));
+      ELSE
+        -- Late: scales with days overdue, reduced because completion is high
+        v_max := COALESCE((v_config ->> 'deadline_penalty_scale_days')::numeric, 7);
+        v_amount := -round(COALESCE((v_config ->> 'deadline_penalty_max')::numeric, 100)
+          * LEAST(-v_days / GREATEST(v_max, 1), 1) * 0.3);
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '❌', 'amount', v_amount,
+          'label', format('%s day%s overdue (%s%% complete)', -v_days, CASE WHEN -v_days > 1 THEN 's' ELSE '' END, v_percent_after)));
+      END IF;
+    END IF;
+  END IF;
+
+  -- Consecutive high scores in this lesson, newest first, this take included
+  v_min := COALESCE((v_config ->> 'streak_bonus_min_score')::numeric, 80);
+  IF v_score >= v_min THEN
+    v_consecutive := 1;
+    FOR v_recent IN
+      SELECT score FROM public.practice_history
+      WHERE user_id = v_user_id AND lesson_id = p_lesson_id
+      ORDER BY practiced_at DESC
+      LIMIT 9
+    LOOP
+      EXIT WHEN v_recent.score < v_min;
+      v_consecutive := v_consecutive + 1;
+    END LOOP;
+  END IF;
+  v_threshold := GREATEST(1, COALESCE((v_config ->> 'streak_bonus_threshold')::numeric, 3));
+  IF v_consecutive >= v_threshold THEN
+    v_streak_amount := COALESCE((v_config ->> 'streak_bonus_coins')::integer, 5) * floor(v_consecutive / v_threshold);
+  END IF;
+
+  -- 3b. Anti-farming. Only coins that can be earned over and over (the base
+  -- reward and the streak bonus) are limited; penalties are never reduced.
+  -- Each limit that withholds coins is reported in coins.limits.
+  IF public.is_audio_fingerprint(p_audio_fingerprint)
+     AND COALESCE((v_config ->> 'block_duplicate_audio')::integer, 1) <> 0
+     AND EXISTS (
+       SELECT 1
+       FROM (
+         SELECT audio_fingerprint FROM public.practice_history
+         WHERE user_id = v_user_id AND lesson_id = p_lesson_id
+           AND category = p_category AND item_index = p_item_index
+           AND audio_fingerprint IS NOT NULL
+         ORDER BY practiced_at DESC
+         LIMIT 20
+       ) recent
+       WHERE public.audio_fingerprint_similarity(recent.audio_fingerprint, p_audio_fingerprint)
+             >= COALESCE((v_config ->> 'duplicate_audio_similarity')::numeric, 97) / 100
+     ) THEN
+    -- The take replays a recent take of this item: nothing positive is paid
+    SELECT COALESCE(sum((b ->> 'amount')::integer), 0) INTO v_withheld
+    FROM jsonb_array_elements(v_bonuses) AS b
+    WHERE (b ->> 'amount')::integer > 0;
+    v_withheld := v_withheld + GREATEST(v_base, 0) + GREATEST(v_streak_amount, 0);
+
+    SELECT COALESCE(jsonb_agg(b), '[]'::jsonb) INTO v_bonuses
+    FROM jsonb_array_elements(v_bonuses) AS b
+    WHERE (b ->> 'amount')::integer <= 0;
+    v_base := LEAST(v_base, 0);
+    v_streak_amount := 0;
+
+    IF v_withheld > 0 THEN
+      v_limits := v_limits || jsonb_build_array(jsonb_build_object(
+        'rule', 'duplicate_audio', 'withheld', v_withheld,
+        'message', 'This recording matches a take you already submitted for this item, so it earns no coins'));
+    END IF;
+  END IF;
+
+  -- Cooldown: N rewarded takes of this item within the window pause its rewards
+  v_amount := COALESCE((v_config ->> 'repeat_cooldown_after')::integer, 10);
+  v_max := COALESCE((v_config ->> 'repeat_cooldown_minutes')::numeric, 30);
+  IF v_base + v_streak_amount > 0 AND v_base >= 0 AND v_amount > 0 AND v_max > 0 THEN
+    SELECT count(*), min(practiced_at) INTO v_rewarded, v_window_start
+    FROM (
+      SELECT practiced_at FROM public.practice_history
+      WHERE user_id = v_user_id AND lesson_id = p_lesson_id
+        AND category = p_category AND item_index = p_item_index
+        AND practiced_at > now() - make_interval(mins => v_max::integer)
+        AND COALESCE((settlement -> 'coins' ->> 'base')::integer, coins_earned) > 0
+      ORDER BY practiced_at DESC
+      LIMIT v_amount
+    ) recent;
+
+    IF v_rewarded >= v_amount THEN
+      v_limits := v_limits || jsonb_build_array(jsonb_build_object(
+        'rule', 'cooldown', 'withheld', v_base + v_streak_amount,
+        'message', format('Cooldown: %s rewarded takes of this item in %s min. It earns coins again in %s min',
+          v_amount, v_max, GREATEST(1, ceil(extract(epoch FROM v_window_start + make_interval(mins => v_max::integer) - now()) / 60)))));
+      v_base := 0;
+      v_streak_amount := 0;
+    END IF;
+  END IF;
+
+  -- Diminishing returns for the same item on the same day
+  v_amount := COALESCE((v_config ->> 'repeat_full_rewards_per_day')::integer, 3);
+  v_factor := LEAST(100, GREATEST(0, COALESCE((v_config ->> 'repeat_reward_percent')::numeric, 50))) / 100;
+  IF v_base + v_streak_amount > 0 AND v_base >= 0 AND v_amount > 0 AND v_factor < 1 THEN
+    SELECT count(*) INTO v_rewarded
+    FROM public.practice_history
+    WHERE user_id = v_user_id AND lesson_id = p_lesson_id
+      AND category = p_category AND item_index = p_item_index
+      AND (practiced_at AT TIME ZONE v_tz)::date = v_today
+      AND COALESCE((settlement -> 'coins' ->> 'base')::integer, coins_earned) > 0;
+
+    IF v_rewarded >= v_amount THEN
+      v_factor := power(v_factor, v_rewarded - v_amount + 1);
+      v_withheld := v_base + v_streak_amount;
+      v_base := floor(v_base * v_factor);
+      v_streak_amount := floor(v_streak_amount * v_factor);
+      v_withheld := v_withheld - v_base - v_streak_amount;
+      IF v_withheld > 0 THEN
+        v_limits := v_limits || jsonb_build_array(jsonb_build_object(
+          'rule', 'diminishing_returns', 'withheld', v_withheld,
+          'message', format('Rewarded take %s of this item today earns %s%% of the usual reward',
+            v_rewarded + 1, round(v_factor * 100))));
+      END IF;
+    END IF;
+  END IF;
+
+  -- Daily cap on repeatable practice coins (0 = no cap)
+  v_amount := COALESCE((v_config ->> 'daily_practice_coin_cap')::integer, 0);
+  IF v_base + v_streak_amount > 0 AND v_base >= 0 AND v_amount > 0 THEN
+    SELECT COALESCE(sum(amount), 0) INTO v_earned_today
+    FROM public.coin_transactions
+    WHERE user_id = v_user_id
+      AND entry_kind IN ('practice_reward', 'streak')
+      AND amount > 0
+      AND (created_at AT TIME ZONE v_tz)::date = v_today;
+
+    v_amount := GREATEST(v_amount - v_earned_today, 0);
+    IF v_base + v_streak_amount > v_amount THEN
+      v_withheld := v_base + v_streak_amount - v_amount;
+      v_base := LEAST(v_base, v_amount);
+      v_streak_amount := LEAST(v_streak_amount, v_amount - v_base);
+      v_limits := v_limits || jsonb_build_array(jsonb_build_object(
+        'rule', 'daily_cap', 'withheld', v_withheld,
+        'message', format('Daily limit of %s practice coins reached. Come back tomorrow!',
+          COALESCE((v_config ->> 'daily_practice_coin_cap')::integer, 0))));
+    END IF;
+  END IF;
+
+  IF v_streak_amount > 0 THEN
+    v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+      'kind', 'streak', 'icon', '🔥', 'amount', v_streak_amount, 'label', format('%sx Streak Bonus', v_consecutive)));
+  END IF;
+
+  -- 4. History row (the idempotency record); coins and outcome are stored once complete
+  INSERT INTO public.practice_history
+    (user_id, lesson_id, category, item_index, score, coins_earned, metrics, audio_url,
+     scoring_profile_id, scoring_profile_version, settlement_key, audio_fingerprint)
+  VALUES
+    (v_user_id, p_lesson_id, p_category, p_item_index, v_score, 0, p_metrics, p_audio_url,
+     v_profile.id, v_profile.version, p_settlement_key,
+     CASE WHEN public.is_audio_fingerprint(p_audio_fingerprint) THEN p_audio_fingerprint END)
+  RETURNING id INTO v_practice_id;
+
+  -- 5. Coins: one ledger entry per component. A penalty can be reduced to
+  -- the balance, so amounts are reported as actually posted.
+  v_before := v_balance;
+  v_balance := public.post_coin_transaction(
+    v_user_id, v_base,
+    (CASE WHEN v_base > 0 THEN 'practice_reward' ELSE 'practice_penalty' END)::public.coin_entry_kind,
+    format('Practice: %s - Score %s', p_category, v_score),
+    p_lesson_id);
+  v_base := v_balance - v_before;
+
+  FOR v_bonus IN SELECT value FROM jsonb_array_elements(v_bonuses) LOOP
+    v_before := v_balance;
+    v_balance := public.post_coin_transaction(
+      v_user_id, (v_bonus.value ->> 'amount')::integer,
+      (v_bonus.value ->> 'kind')::public.coin_entry_kind,
+      format('%s %s', v_bonus.value ->> 'icon', v_bonus.value ->> 'label'),
+      p_lesson_id);
+    v_posted := v_posted || jsonb_build_array(jsonb_set(v_bonus.value, '{amount}', to_jsonb(v_balance - v_before)));
+    v_bonus_total := v_bonus_total + (v_balance - v_before);
+  END LOOP;
+  v_bonuses := v_posted;
+
+  -- 6. Daily streak
+  SELECT * INTO v_streak FROM public.daily_streaks WHERE user_id = v_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    INSERT INTO public.daily_streaks (user_id, current_streak, longest_streak, last_practice_date, streak_start_date)
+    VALUES (v_user_id, 1, 1, v_today, v_today);
+    v_current_streak := 1;
+    v_is_new_day := true;
+  ELSIF v_streak.last_practice_date IS DISTINCT FROM v_today THEN
+    IF v_streak.last_practice_date = v_today - 1 THEN
+      v_current_streak := v_streak.current_streak + 1;
+    ELSE
+      v_current_streak := 1;
+    END IF;
+    UPDATE public.daily_streaks
+    SET current_streak = v_current_streak,
+        longest_streak = GREATEST(longest_streak, v_current_streak),
+        last_practice_date = v_today,
+        streak_start_date = CASE WHEN v_current_streak > 1 THEN COALESCE(streak_start_date, v_today) ELSE v_today END
+    WHERE user_id = v_user_id;
+    v_is_new_day := true;
+    v_streak_extended := v_current_streak > 1;
+  ELSE
+    v_current_streak := v_streak.current_streak;
+  END IF;
+
+  -- 7. Badges
+  SELECT count(*) AS practice_count,
+         count(*) FILTER (WHERE score >= 95) AS perfect_scores,
+         count(*) FILTER (WHERE score >= 80) AS high_scores,
+         count(*) FILTER (WHERE (practiced_at AT TIME ZONE v_tz)::date = v_today) AS daily_practices
+    INTO v_stats
+  FROM public.practice_history
+  WHERE user_id = v_user_id;
+
+  SELECT count(*) INTO v_vocab_mastered
+  FROM public.user_progress
+  WHERE user_id = v_user_id AND mastery_level >= 3;
+
+  FOR v_badge IN
+    SELECT b.* FROM public.badges b
+    WHERE NOT EXISTS (SELECT 1 FROM public.user_badges ub WHERE ub.user_id = v_user_id AND ub.badge_id = b.id)
+    ORDER BY b.requirement_value, b.name
+  LOOP
+    v_earned := CASE v_badge.requirement_type
+      WHEN 'practice_count' THEN v_stats.practice_count >= v_badge.requirement_value
+      WHEN 'total_coins' THEN v_balance >= v_badge.requirement_value
+      WHEN 'streak_days' THEN v_current_streak >= v_badge.requirement_value
+      WHEN 'perfect_score' THEN v_stats.perfect_scores >= v_badge.requirement_value
+      WHEN 'high_scores' THEN v_stats.high_scores >= v_badge.requirement_value
+      WHEN 'vocab_mastered' THEN v_vocab_mastered >= v_badge.requirement_value
+      WHEN 'early_practice' THEN v_hour < 8
+      WHEN 'late_practice' THEN v_hour >= 22
+      WHEN 'daily_practices' THEN v_stats.daily_practices >= v_badge.requirement_value
+      ELSE false
+    END;
+    CONTINUE WHEN NOT v_earned;
+
+    INSERT INTO public.user_badges (user_id, badge_id) VALUES (v_user_id, v_badge.id)
+    ON CONFLICT (user_id, badge_id) DO NOTHING;
+    CONTINUE WHEN NOT FOUND;
+
+    IF v_badge.coins_reward > 0 THEN
+      v_balance := public.post_coin_transaction(
+        v_user_id, v_badge.coins_reward, 'badge', format('Earned badge: %s', v_badge.name));
+      v_badge_total := v_badge_total + v_badge.coins_reward;
+    END IF;
+    v_new_badges := v_new_badges || jsonb_build_array(jsonb_build_object(
+      'id', v_badge.id, 'name', v_badge.name, 'icon', v_badge.icon,
+      'rarity', v_badge.rarity, 'coins_reward', v_badge.coins_reward));
+  END LOOP;
+
+  v_outcome := jsonb_build_object(
+    'practice_id', v_practice_id,
+    'replayed', false,
+    'score', v_score,
+    'coins', jsonb_build_object(
+      'base', v_base,
+      'bonuses', v_bonuses,
+      'badges', v_badge_total,
+      'total', v_base + v_bonus_total + v_badge_total,
+      'limits', v_limits),
+    'balance', v_balance,
+    'progress', jsonb_build_object(
+      'attempts', v_progress.attempts,
+      'best_score', v_progress.best_score,
+      'mastery_level', v_progress.mastery_level),
+    'lesson', jsonb_build_object(
+      'completion_percent', v_percent_after,
+      'milestone', v_milestone),
+    'streak', jsonb_build_object(
+      'current_streak', v_current_streak,
+      'is_new_day', v_is_new_day,
+      'streak_extended', v_streak_extended),
+    'new_badges', v_new_badges);
+
+  UPDATE public.practice_history
+  SET coins_earned = v_base + v_bonus_total, settlement = v_outcome
+  WHERE id = v_practice_id;
+
+  RETURN v_outcome;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.settle_practice(text, uuid, text, integer, jsonb, text, integer, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.settle_practice(text, uuid, text, integer, jsonb, text, integer, jsonb) TO authenticated;
+
+-- The learner's streak as of their local today: a streak whose last practice
+-- day is before yesterday is already broken, even before evaluate_streaks()
+-- has reset it. NULL when the learner never practiced.
+CREATE OR REPLACE FUNCTION public.get_my_streak()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT to_jsonb(s) || jsonb_build_object(
+    'current_streak', CASE WHEN s.last_practice_date >= t.today - 1 THEN s.current_streak ELSE 0 END,
+    'is_active_today', s.last_practice_date = t.today,
+    'today', t.today,
+    'timezone', public.user_timezone(s.user_id))
+  FROM public.daily_streaks s
+  CROSS JOIN LATERAL (SELECT public.user_local_date(s.user_id) AS today) t
+  WHERE s.user_id = auth.uid();
+$$;
+
+REVOKE ALL ON FUNCTION public.get_my_streak() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_my_streak() TO authenticated;
+
+-- Resets streaks whose learner let a whole local day pass without practice.
+-- Runs hourly (midnight comes at a different hour in every timezone).
+CREATE OR REPLACE FUNCTION public.evaluate_streaks()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reset integer;
+BEGIN
+  -- auth.uid() is NULL when pg_cron runs the job as the owner; anon cannot
+  -- execute this function
+  IF auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can evaluate streaks';
+  END IF;
+
+  UPDATE public.daily_streaks s
+  SET current_streak = 0
+  WHERE s.current_streak > 0
+    AND s.last_practice_date < public.user_local_date(s.user_id) - 1;
+  GET DIAGNOSTICS v_reset = ROW_COUNT;
+
+  RETURN v_reset;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.evaluate_streaks() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.evaluate_streaks() TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('evaluate-streaks', '5 * * * *', 'SELECT public.evaluate_streaks()');
+    PERFORM cron.schedule('apply-pending-timezones', '0 * * * *', 'SELECT public.apply_pending_timezones()');
+  END IF;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,787 @@
+-- Migration: Declarative badge rules
+-- settle_practice() decided badges with a CASE over requirement_type, so a
+-- new kind of badge needed a code change. badges.rule now holds the criteria
+-- as data, evaluated on the server for each settlement:
+--   leaf:      {"metric": "practice_count", "op": ">=", "value": 50,
+--               "window_days": 7, "scope": {"course_id" | "class_id" | "category": ...}}
+--   composite: {"all": [rule, ...]} or {"any": [rule, ...]}
+-- window_days counts the learner's local days up to today (1 = today only).
+-- Existing badges are converted from requirement_type/requirement_value,
+-- which stay as the badge's headline target. preview_badge_rule() lists the
+-- learners who would qualify for a rule right now.
+
+BEGIN;
+
+-- Practice metrics support window and scope, vocab_mastered only scope, the
+-- rest neither (same catalog as BADGE_METRICS in src/lib/badgeRules.ts)
+CREATE OR REPLACE FUNCTION public.is_valid_badge_rule(p_rule jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_key text;
+  v_part jsonb;
+  v_metric text;
+  v_practice_metric boolean;
+BEGIN
+  IF jsonb_typeof(p_rule) IS DISTINCT FROM 'object' THEN
+    RETURN false;
+  END IF;
+
+  IF p_rule ? 'all' OR p_rule ? 'any' THEN
+    v_key := CASE WHEN p_rule ? 'all' THEN 'all' ELSE 'any' END;
+    IF (SELECT count(*) FROM jsonb_object_keys(p_rule)) <> 1
+       OR jsonb_typeof(p_rule -> v_key) <> 'array'
+       OR jsonb_array_length(p_rule -> v_key) = 0 THEN
+      RETURN false;
+    END IF;
+    FOR v_part IN SELECT value FROM jsonb_array_elements(p_rule -> v_key) LOOP
+      IF NOT public.is_valid_badge_rule(v_part) THEN
+        RETURN false;
+      END IF;
+    END LOOP;
+    RETURN true;
+  END IF;
+
+  v_metric := p_rule ->> 'metric';
+  v_practice_metric := v_metric IN (
+    'practice_count', 'high_scores', 'perfect_scores', 'average_score', 'best_score',
+    'practice_days', 'early_practices', 'late_practices');
+
+  IF v_metric IS NULL
+     OR NOT (v_practice_metric OR v_metric IN (
+       'vocab_mastered', 'current_streak', 'longest_streak', 'coin_balance', 'coins_earned')) THEN
+    RETURN false;
+  END IF;
+  IF COALESCE(p_rule ->> 'op', '') NOT IN ('>=', '>', '=', '<=', '<')
+     OR jsonb_typeof(p_rule -> 'value') IS DISTINCT FROM 'number' THEN
+    RETURN false;
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_object_keys(p_rule) k
+    WHERE k NOT IN ('metric', 'op', 'value', 'window_days', 'scope')
+  ) THEN
+    RETURN false;
+  END IF;
+
+  IF p_rule ? 'window_days' AND (
+    NOT v_practice_metric
+    OR jsonb_typeof(p_rule -> 'window_days') <> 'number'
+    OR (p_rule ->> 'window_days') !~ '^[1-9][0-9]*$'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  IF p_rule ? 'scope' THEN
+    IF NOT (v_practice_metric OR v_metric = 'vocab_mastered')
+       OR jsonb_typeof(p_rule -> 'scope') <> 'object' THEN
+      RETURN false;
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM jsonb_each(p_rule -> 'scope') s
+      WHERE s.key NOT IN ('course_id', 'class_id', 'category')
+         OR jsonb_typeof(s.value) <> 'string'
+         OR (s.key <> 'category'
+             AND (s.value #>> '{}') !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$')
+    ) THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+ALTER TABLE public.badges
+  ADD COLUMN IF NOT EXISTS rule jsonb,
+  ADD CONSTRAINT badges_rule_valid CHECK (rule IS NULL OR public.is_valid_badge_rule(rule));
+
+COMMENT ON COLUMN public.badges.rule IS 'Award criteria (see is_valid_badge_rule). NULL = never awarded automatically';
+
+-- The criteria settle_practice() used to hardcode
+UPDATE public.badges
+SET rule = CASE requirement_type
+  WHEN 'practice_count' THEN jsonb_build_object('metric', 'practice_count', 'op', '>=', 'value', requirement_value)
+  WHEN 'total_coins' THEN jsonb_build_object('metric', 'coin_balance', 'op', '>=', 'value', requirement_value)
+  WHEN 'streak_days' THEN jsonb_build_object('metric', 'current_streak', 'op', '>=', 'value', requirement_value)
+  WHEN 'perfect_score' THEN jsonb_build_object('metric', 'perfect_scores', 'op', '>=', 'value', requirement_value)
+  WHEN 'high_scores' THEN jsonb_build_object('metric', 'high_scores', 'op', '>=', 'value', requirement_value)
+  WHEN 'vocab_mastered' THEN jsonb_build_object('metric', 'vocab_mastered', 'op', '>=', 'value', requirement_value)
+  WHEN 'early_practice' THEN '{"metric": "early_practices", "op": ">=", "value": 1}'::jsonb
+  WHEN 'late_practice' THEN '{"metric": "late_practices", "op": ">=", "value": 1}'::jsonb
+  WHEN 'daily_practices' THEN jsonb_build_object(
+    'metric', 'practice_count', 'op', '>=', 'value', requirement_value, 'window_days', 1)
+END
+WHERE rule IS NULL;
+
+CREATE POLICY "Admins can manage badges" ON public.badges TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+-- Value of one leaf rule's metric for a learner, over its window and scope.
+-- A class scope counts practice on the class's course between enrolling in
+-- the class and completing it (vocab mastery: items last practiced then).
+CREATE OR REPLACE FUNCTION public.badge_metric_value(p_user_id uuid, p_rule jsonb)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_metric text := p_rule ->> 'metric';
+  v_tz text := public.user_timezone(p_user_id);
+  v_from date;
+  v_course_id uuid := (p_rule #>> '{scope,course_id}')::uuid;
+  v_class_id uuid := (p_rule #>> '{scope,class_id}')::uuid;
+  v_class_course_id uuid;
+  v_category text := p_rule #>> '{scope,category}';
+  v_value numeric;
+BEGIN
+  IF p_rule ? 'window_days' THEN
+    v_from := public.user_local_date(p_user_id) - ((p_rule ->> 'window_days')::integer - 1);
+  END IF;
+
+  IF v_class_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM public.enrollments WHERE user_id = p_user_id AND class_id = v_class_id) THEN
+      RETURN 0;
+    END IF;
+    SELECT course_id INTO v_class_course_id FROM public.course_classes WHERE id = v_class_id;
+  END IF;
+
+  CASE
+    WHEN v_metric IN ('practice_count', 'high_scores', 'perfect_scores', 'average_score', 'best_score',
+                      'practice_days', 'early_practices', 'late_practices') THEN
+      SELECT CASE v_metric
+          WHEN 'practice_count' THEN count(*)
+          WHEN 'high_scores' THEN count(*) FILTER (WHERE ph.score >= 80)
+          WHEN 'perfect_scores' THEN count(*) FILTER (WHERE ph.score >= 95)
+          WHEN 'average_score' THEN COALESCE(round(avg(ph.score), 1), 0)
+          WHEN 'best_score' THEN COALESCE(max(ph.score), 0)
+          WHEN 'practice_days' THEN count(DISTINCT (ph.practiced_at AT TIME ZONE v_tz)::date)
+          WHEN 'early_practices' THEN count(*) FILTER (WHERE extract(hour FROM ph.practiced_at AT TIME ZONE v_tz) < 8)
+          WHEN 'late_practices' THEN count(*) FILTER (WHERE extract(hour FROM ph.practiced_at AT TIME ZONE v_tz) >= 22)
+        END
+        INTO v_value
+      FROM public.practice_history ph
+      LEFT JOIN public.lessons l ON l.id = ph.lesson_id
+      WHERE ph.user_id = p_user_id
+        AND (v_from IS NULL OR (ph.practiced_at AT TIME ZONE v_tz)::date >= v_from)
+        AND (v_course_id IS NULL OR l.course_id = v_course_id)
+        AND (v_class_id IS NULL OR (l.course_id = v_class_course_id AND EXISTS (
+          SELECT 1 FROM public.enrollments e
+          WHERE e.user_id = p_user_id AND e.class_id = v_class_id
+            AND ph.practiced_at >= e.enrolled_at AND (e.completed_at IS NULL OR ph.practiced_at <= e.completed_at))))
+        AND (v_category IS NULL OR ph.category = v_category);
+
+    WHEN v_metric = 'vocab_mastered' THEN
+      SELECT count(*) INTO v_value
+      FROM public.user_progress up
+      LEFT JOIN public.lessons l ON l.id = up.lesson_id
+      WHERE up.user_id = p_user_id
+        AND up.mastery_level >= 3
+        AND (v_course_id IS NULL OR l.course_id = v_course_id)
+        AND (v_class_id IS NULL OR (l.course_id = v_class_course_id AND EXISTS (
+          SELECT 1 FROM public.enrollments e
+          WHERE e.user_id = p_user_id AND e.class_id = v_class_id
+            AND up.last_practiced_at >= e.enrolled_at AND (e.completed_at IS NULL OR up.last_practiced_at <= e.completed_at))))
+        AND (v_category IS NULL OR up.category = v_category);
+
+    WHEN v_metric IN ('current_streak', 'longest_streak') THEN
+      SELECT CASE v_metric WHEN 'current_streak' THEN current_streak ELSE longest_streak END
+        INTO v_value
+      FROM public.daily_streaks
+      WHERE user_id = p_user_id;
+
+    WHEN v_metric IN ('coin_balance', 'coins_earned') THEN
+      SELECT CASE v_metric WHEN 'coin_balance' THEN balance ELSE total_earned END
+        INTO v_value
+      FROM public.user_wallets
+      WHERE user_id = p_user_id;
+
+    ELSE
+      v_value := 0;
+  END CASE;
+
+  RETURN COALESCE(v_value, 0);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.badge_metric_value(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.badge_rule_met(p_user_id uuid, p_rule jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_part jsonb;
+  v_value numeric;
+  v_target numeric;
+BEGIN
+  IF p_rule ? 'all' THEN
+    FOR v_part IN SELECT value FROM jsonb_array_elements(p_rule -> 'all') LOOP
+      IF NOT public.badge_rule_met(p_user_id, v_part) THEN
+        RETURN false;
+      END IF;
+    END LOOP;
+    RETURN true;
+  END IF;
+
+  IF p_rule ? 'any' THEN
+    FOR v_part IN SELECT value FROM jsonb_array_elements(p_rule -> 'any') LOOP
+      IF public.badge_rule_met(p_user_id, v_part) THEN
+        RETURN true;
+      END IF;
+    END LOOP;
+    RETURN false;
+  END IF;
+
+  v_value := public.badge_metric_value(p_user_id, p_rule);
+  v_target := (p_rule ->> 'value')::numeric;
+
+  RETURN CASE p_rule ->> 'op'
+    WHEN '>=' THEN v_value >= v_target
+    WHEN '>' THEN v_value > v_target
+    WHEN '=' THEN v_value = v_target
+    WHEN '<=' THEN v_value <= v_target
+    WHEN '<' THEN v_value < v_target
+    ELSE false
+  END;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.badge_rule_met(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- p_local_hour is gone: early and late practices are counted in the
+-- profile timezone by the badge rules
+DROP FUNCTION IF EXISTS public.settle_practice(text, uuid, text, integer, jsonb, text, integer, jsonb);
+
+-- Same settlement as before; badges are awarded when their rule is met
+-- (badge_rule_met)
+CREATE OR REPLACE FUNCTION public.settle_practice(
+  p_settlement_key text,
+  p_lesson_id uuid,
+  p_category text,
+  p_item_index integer,
+  p_metrics jsonb,
+  p_audio_url text DEFAULT NULL,
+  p_audio_fingerprint jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_tz text;
+  v_today date;
+  v_score integer;
+  v_profile public.scoring_profiles;
+  v_replay jsonb;
+  v_lesson public.lessons;
+  v_config jsonb;
+  v_progress public.user_progress;
+  v_streak public.daily_streaks;
+  v_practice_id uuid;
+  v_balance integer;
+  v_before integer;
+  v_outcome jsonb;
+
+  v_base integer := 0;
+  v_bonuses jsonb := '[]'::jsonb;
+  v_bonus_total integer := 0;
+  v_bonus record;
+  v_posted jsonb := '[]'::jsonb;
+  v_badge_total integer := 0;
+  v_new_badges jsonb := '[]'::jsonb;
+
+  v_threshold numeric;
+  v_min numeric;
+  v_max numeric;
+  v_amount integer;
+
+  v_total_items integer;
+  v_completed_before integer;
+  v_completed_after integer;
+  v_percent_before integer := 0;
+  v_percent_after integer := 0;
+  v_milestone integer;
+  v_deadline date;
+  v_days integer;
+
+  v_consecutive integer := 0;
+  v_recent record;
+  v_streak_amount integer := 0;
+
+  v_limits jsonb := '[]'::jsonb;
+  v_withheld integer;
+  v_rewarded integer;
+  v_window_start timestamp with time zone;
+  v_factor numeric;
+  v_earned_today integer;
+
+  v_current_streak integer;
+  v_is_new_day boolean := false;
+  v_streak_extended boolean := false;
+  v_freeze_every integer;
+  v_freeze_earned boolean := false;
+
+  v_badge public.badges;
+  v_earned boolean;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_settlement_key IS NULL OR length(p_settlement_key) NOT BETWEEN 1 AND 100 THEN
+    RAISE EXCEPTION 'A settlement key (1-100 chars) is required';
+  END IF;
+
+  -- "Today" is the learner's calendar day in their profile timezone
+  v_tz := public.user_timezone(v_user_id);
+  v_today := (now() AT TIME ZONE v_tz)::date;
+
+  -- All settlements of one user serialize on the wallet row (second tab, retries)
+  INSERT INTO public.user_wallets (user_id, balance) VALUES (v_user_id, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+  SELECT balance INTO v_balance FROM public.user_wallets WHERE user_id = v_user_id FOR UPDATE;
+
+  SELECT settlement INTO v_replay
+  FROM public.practice_history
+  WHERE user_id = v_user_id AND settlement_key = p_settlement_key;
+  IF FOUND THEN
+    RETURN v_replay || '{"replayed": true}'::jsonb;
+  END IF;
+
+  SELECT * INTO v_lesson FROM public.lessons WHERE id = p_lesson_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson % not found', p_lesson_id;
+  END IF;
+  IF jsonb_typeof(v_lesson.categories -> p_category) IS DISTINCT FROM 'array'
+     OR p_item_index IS NULL
+     OR p_item_index NOT BETWEEN 0 AND jsonb_array_length(v_lesson.categories -> p_category) - 1 THEN
+    RAISE EXCEPTION 'Item % of "%" does not exist in this lesson', p_item_index, p_category;
+  END IF;
+
+  -- The score is computed here from the take's metrics with the active
+  -- scoring profile and its overrides for this item; the score shown in the
+  -- browser is only a preview
+  SELECT * INTO v_profile FROM public.scoring_profiles WHERE is_active;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active scoring profile';
+  END IF;
+  v_score := public.score_practice_metrics(
+    p_metrics,
+    public.resolve_scoring_metrics(v_profile.metrics, v_profile.overrides, v_lesson.course_id, p_lesson_id, p_category));
+  IF v_score IS NULL THEN
+    RAISE EXCEPTION 'The take is missing the metrics needed to score it';
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb) INTO v_config FROM public.coin_config;
+
+  -- 1. Base reward/penalty for the score
+  v_threshold := COALESCE((v_config ->> 'reward_score_threshold')::numeric, 70);
+  IF v_score >= v_threshold THEN
+    v_min := COALESCE((v_config ->> 'reward_min')::numeric, 0);
+    v_max := COALESCE((v_config ->> 'reward_max')::numeric, v_min);
+    v_base := round(v_min + ((v_score - v_threshold) / GREATEST(1, 100 - v_threshold)) * (v_max - v_min));
+  ELSE
+    v_threshold := COALESCE((v_config ->> 'penalty_score_threshold')::numeric, 50);
+    IF v_score < v_threshold THEN
+      v_min := COALESCE((v_config ->> 'penalty_min')::numeric, 0);
+      v_max := COALESCE((v_config ->> 'penalty_max')::numeric, v_min);
+      v_base := -round(v_min + ((v_threshold - v_score) / GREATEST(1, v_threshold)) * (v_max - v_min));
+    END IF;
+  END IF;
+
+  -- 2. Progress
+  SELECT count(*) INTO v_completed_before
+  FROM public.user_progress
+  WHERE user_id = v_user_id AND lesson_id = p_lesson_id AND mastery_level >= 3;
+
+  INSERT INTO public.user_progress AS up
+    (user_id, lesson_id, category, item_index, attempts, best_score, mastery_level, last_practiced_at)
+  VALUES
+    (v_user_id, p_lesson_id, p_category, p_item_index, 1, v_score, public.practice_mastery(1, v_score), now())
+  ON CONFLICT (user_id, lesson_id, category, item_index) DO UPDATE
+  SET attempts = up.attempts + 1,
+      best_score = GREATEST(up.best_score, EXCLUDED.best_score),
+      mastery_level = public.practice_mastery(up.attempts + 1, GREATEST(up.best_score, EXCLUDED.best_score)),
+      last_practiced_at = now()
+  RETURNING * INTO v_progress;
+
+  -- 3. Bonuses (were computed in Practice.tsx from lessonProgress.ts / deadlineRewards.ts)
+  IF v_progress.attempts = 1 THEN
+    v_amount := COALESCE((v_config ->> 'first_practice_bonus')::integer, 2);
+    IF v_amount <> 0 THEN
+      v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+        'kind', 'first_practice', 'label', 'First Practice', 'icon', '🎁', 'amount', v_amount));
+    END IF;
+  END IF;
+
+  SELECT count(*) INTO v_completed_after
+  FROM public.user_progress
+  WHERE user_id = v_user_id AND lesson_id = p_lesson_id AND mastery_level >= 3;
+
+  SELECT COALESCE(sum(CASE WHEN jsonb_typeof(items) = 'array' THEN jsonb_array_length(items) ELSE 0 END), 0)
+    INTO v_total_items
+  FROM jsonb_each(v_lesson.categories) AS c(category, items);
+
+  IF v_total_items > 0 THEN
+    v_percent_before := LEAST(100, round(v_completed_before * 100.0 / v_total_items));
+    v_percent_after := LEAST(100, round(v_completed_after * 100.0 / v_total_items));
+  END IF;
+
+  SELECT m INTO v_milestone
+  FROM unnest(ARRAY[25, 50, 75, 100]) AS m
+  WHERE v_percent_after >= m AND v_percent_before < m
+  ORDER BY m
+  LIMIT 1;
+
+  IF v_milestone IS NOT NULL THEN
+    v_amount := COALESCE((v_config ->> ('milestone_' || v_milestone || '_bonus'))::integer,
+      CASE v_milestone WHEN 25 THEN 10 WHEN 50 THEN 25 WHEN 75 THEN 50 ELSE 100 END);
+    v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+      'kind', 'milestone',
+      'label', CASE v_milestone WHEN 25 THEN 'Quarter Complete' WHEN 50 THEN 'Halfway There'
+                                WHEN 75 THEN 'Almost Done' ELSE 'Lesson Complete' END,
+      'icon', CASE v_milestone WHEN 25 THEN '🎯' WHEN 50 THEN '🔥' WHEN 75 THEN '⭐' ELSE '🏆' END,
+      'amount', v_amount));
+
+    -- Deadline bonus/penalty once the lesson is (nearly) complete
+    v_deadline := public.lesson_deadline(v_user_id, p_lesson_id);
+    v_min := COALESCE((v_config ->> 'min_completion_for_bonus')::numeric, 80);
+    IF v_deadline IS NOT NULL AND v_percent_after >= v_min THEN
+      v_days := v_deadline - v_today;
+      IF v_days > 0 THEN
+        v_max := COALESCE((v_config ->> 'deadline_early_bonus_days')::numeric, 3);
+        v_amount := round(LEAST(v_days, v_max) / GREATEST(v_max, 1)
+          * COALESCE((v_config ->> 'deadline_early_bonus_max')::numeric, 50));
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '⚡', 'amount', v_amount,
+          'label', format('Completed %s day%s early!', v_days, CASE WHEN v_days > 1 THEN 's' ELSE '' END)));
+      ELSIF v_days = 0 THEN
+        v_amount := COALESCE((v_config ->> 'deadline_on_time_bonus')::integer, 20);
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '🎯', 'amount', v_amount, 'label', 'Completed right on time!'));
+      ELSIF -v_days <= COALESCE((v_config ->> 'deadline_penalty_grace_days')::integer, 0) THEN
+        v_amount := round(COALESCE((v_config ->> 'deadline_on_time_bonus')::numeric, 20) * 0.5);
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '🕐', 'amount', v_amount, 'label', 'Grace period - half bonus for completion'));
+      ELSE
+        -- Late: scales with days overdue, reduced because completion is high
+        v_max := COALESCE((v_config ->> 'deadline_penalty_scale_days')::numeric, 7);
+        v_amount := -round(COALESCE((v_config ->> 'deadline_penalty_max')::numeric, 100)
+          * LEAST(-v_days / GREATEST(v_max, 1), 1) * 0.3);
+        v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+          'kind', 'deadline', 'icon', '❌', 'amount', v_amount,
+          'label', format('%s day%s overdue (%s%% complete)', -v_days, CASE WHEN -v_days > 1 THEN 's' ELSE '' END, v_percent_after)));
+      END IF;
+    END IF;
+  END IF;
+
+  -- Consecutive high scores in this lesson, newest first, this take included
+  v_min := COALESCE((v_config ->> 'streak_bonus_min_score')::numeric, 80);
+  IF v_score >= v_min THEN
+    v_consecutive := 1;
+    FOR v_recent IN
+      SELECT score FROM public.practice_history
+      WHERE user_id = v_user_id AND lesson_id = p_lesson_id
+      ORDER BY practiced_at DESC
+      LIMIT 9
+    LOOP
+      EXIT WHEN v_recent.score < v_min;
+      v_consecutive := v_consecutive + 1;
+    END LOOP;
+  END IF;
+  v_threshold := GREATEST(1, COALESCE((v_config ->> 'streak_bonus_threshold')::numeric, 3));
+  IF v_consecutive >= v_threshold THEN
+    v_streak_amount := COALESCE((v_config ->> 'streak_bonus_coins')::integer, 5) * floor(v_consecutive / v_threshold);
+  END IF;
+
+  -- 3b. Anti-farming. Only coins that can be earned over and over (the base
+  -- reward and the streak bonus) are limited; penalties are never reduced.
+  -- Each limit that withholds coins is reported in coins.limits.
+  IF public.is_audio_fingerprint(p_audio_fingerprint)
+     AND COALESCE((v_config ->> 'block_duplicate_audio')::integer, 1) <> 0
+     AND EXISTS (
+       SELECT 1
+       FROM (
+         SELECT audio_fingerprint FROM public.practice_history
+         WHERE user_id = v_user_id AND lesson_id = p_lesson_id
+           AND category = p_category AND item_index = p_item_index
+           AND audio_fingerprint IS NOT NULL
+         ORDER BY practiced_at DESC
+         LIMIT 20
+       ) recent
+       WHERE public.audio_fingerprint_similarity(recent.audio_fingerprint, p_audio_fingerprint)
+             >= COALESCE((v_config ->> 'duplicate_audio_similarity')::numeric, 97) / 100
+     ) THEN
+    -- The take replays a recent take of this item: nothing positive is paid
+    SELECT COALESCE(sum((b ->> 'amount')::integer), 0) INTO v_withheld
+    FROM jsonb_array_elements(v_bonuses) AS b
+    WHERE (b ->> 'amount')::integer > 0;
+    v_withheld := v_withheld + GREATEST(v_base, 0) + GREATEST(v_streak_amount, 0);
+
+    SELECT COALESCE(jsonb_agg(b), '[]'::jsonb) INTO v_bonuses
+    FROM jsonb_array_elements(v_bonuses) AS b
+    WHERE (b ->> 'amount')::integer <= 0;
+    v_base := LEAST(v_base, 0);
+    v_streak_amount := 0;
+
+    IF v_withheld > 0 THEN
+      v_limits := v_limits || jsonb_build_array(jsonb_build_object(
+        'rule', 'duplicate_audio', 'withheld', v_withheld,
+        'message', 'This recording matches a take you already submitted for this item, so it earns no coins'));
+    END IF;
+  END IF;
+
+  -- Cooldown: N rewarded takes of this item within the window pause its rewards
+  v_amount := COALESCE((v_config ->> 'repeat_cooldown_after')::integer, 10);
+  v_max := COALESCE((v_config ->> 'repeat_cooldown_minutes')::numeric, 30);
+  IF v_base + v_streak_amount > 0 AND v_base >= 0 AND v_amount > 0 AND v_max > 0 THEN
+    SELECT count(*), min(practiced_at) INTO v_rewarded, v_window_start
+    FROM (
+      SELECT practiced_at FROM public.practice_history
+      WHERE user_id = v_user_id AND lesson_id = p_lesson_id
+        AND category = p_category AND item_index = p_item_index
+        AND practiced_at > now() - make_interval(mins => v_max::integer)
+        AND COALESCE((settlement -> 'coins' ->> 'base')::integer, coins_earned) > 0
+      ORDER BY practiced_at DESC
+      LIMIT v_amount
+    ) recent;
+
+    IF v_rewarded >= v_amount THEN
+      v_limits := v_limits || jsonb_build_array(jsonb_build_object(
+        'rule', 'cooldown', 'withheld', v_base + v_streak_amount,
+        'message', format('Cooldown: %s rewarded takes of this item in %s min. It earns coins again in %s min',
+          v_amount, v_max, GREATEST(1, ceil(extract(epoch FROM v_window_start + make_interval(mins => v_max::integer) - now()) / 60)))));
+      v_base := 0;
+      v_streak_amount := 0;
+    END IF;
+  END IF;
+
+  -- Diminishing returns for the same item on the same day
+  v_amount := COALESCE((v_config ->> 'repeat_full_rewards_per_day')::integer, 3);
+  v_factor := LEAST(100, GREATEST(0, COALESCE((v_config ->> 'repeat_reward_percent')::numeric, 50))) / 100;
+  IF v_base + v_streak_amount > 0 AND v_base >= 0 AND v_amount > 0 AND v_factor < 1 THEN
+    SELECT count(*) INTO v_rewarded
+    FROM public.practice_history
+    WHERE user_id = v_user_id AND lesson_id = p_lesson_id
+      AND category = p_category AND item_index = p_item_index
+      AND (practiced_at AT TIME ZONE v_tz)::date = v_today
+      AND COALESCE((settlement -> 'coins' ->> 'base')::integer, coins_earned) > 0;
+
+    IF v_rewarded >= v_amount THEN
+      v_factor := power(v_factor, v_rewarded - v_amount + 1);
+      v_withheld := v_base + v_streak_amount;
+      v_base := floor(v_base * v_factor);
+      v_streak_amount := floor(v_streak_amount * v_factor);
+      v_withheld := v_withheld - v_base - v_streak_amount;
+      IF v_withheld > 0 THEN
+        v_limits := v_limits || jsonb_build_array(jsonb_build_object(
+          'rule', 'diminishing_returns', 'withheld', v_withheld,
+          'message', format('Rewarded take %s of this item today earns %s%% of the usual reward',
+            v_rewarded + 1, round(v_factor * 100))));
+      END IF;
+    END IF;
+  END IF;
+
+  -- Daily cap on repeatable practice coins (0 = no cap)
+  v_amount := COALESCE((v_config ->> 'daily_practice_coin_cap')::integer, 0);
+  IF v_base + v_streak_amount > 0 AND v_base >= 0 AND v_amount > 0 THEN
+    SELECT COALESCE(sum(amount), 0) INTO v_earned_today
+    FROM public.coin_transactions
+    WHERE user_id = v_user_id
+      AND entry_kind IN ('practice_reward', 'streak')
+      AND amount > 0
+      AND (created_at AT TIME ZONE v_tz)::date = v_today;
+
+    v_amount := GREATEST(v_amount - v_earned_today, 0);
+    IF v_base + v_streak_amount > v_amount THEN
+      v_withheld := v_base + v_streak_amount - v_amount;
+      v_base := LEAST(v_base, v_amount);
+      v_streak_amount := LEAST(v_streak_amount, v_amount - v_base);
+      v_limits := v_limits || jsonb_build_array(jsonb_build_object(
+        'rule', 'daily_cap', 'withheld', v_withheld,
+        'message', format('Daily limit of %s practice coins reached. Come back tomorrow!',
+          COALESCE((v_config ->> 'daily_practice_coin_cap')::integer, 0))));
+    END IF;
+  END IF;
+
+  IF v_streak_amount > 0 THEN
+    v_bonuses := v_bonuses || jsonb_build_array(jsonb_build_object(
+      'kind', 'streak', 'icon', '🔥', 'amount', v_streak_amount, 'label', format('%sx Streak Bonus', v_consecutive)));
+  END IF;
+
+  -- 4. History row (the idempotency record); coins and outcome are stored once complete
+  INSERT INTO public.practice_history
+    (user_id, lesson_id, category, item_index, score, coins_earned, metrics, audio_url,
+     scoring_profile_id, scoring_profile_version, settlement_key, audio_fingerprint)
+  VALUES
+    (v_user_id, p_lesson_id, p_category, p_item_index, v_score, 0, p_metrics, p_audio_url,
+     v_profile.id, v_profile.version, p_settlement_key,
+     CASE WHEN public.is_audio_fingerprint(p_audio_fingerprint) THEN p_audio_fingerprint END)
+  RETURNING id INTO v_practice_id;
+
+  -- 5. Coins: one ledger entry per component. A penalty can be reduced to
+  -- the balance, so amounts are reported as actually posted.
+  v_before := v_balance;
+  v_balance := public.post_coin_transaction(
+    v_user_id, v_base,
+    (CASE WHEN v_base > 0 THEN 'practice_reward' ELSE 'practice_penalty' END)::public.coin_entry_kind,
+    format('Practice: %s - Score %s', p_category, v_score),
+    p_lesson_id);
+  v_base := v_balance - v_before;
+
+  FOR v_bonus IN SELECT value FROM jsonb_array_elements(v_bonuses) LOOP
+    v_before := v_balance;
+    v_balance := public.post_coin_transaction(
+      v_user_id, (v_bonus.value ->> 'amount')::integer,
+      (v_bonus.value ->> 'kind')::public.coin_entry_kind,
+      format('%s %s', v_bonus.value ->> 'icon', v_bonus.value ->> 'label'),
+      p_lesson_id);
+    v_posted := v_posted || jsonb_build_array(jsonb_set(v_bonus.value, '{amount}', to_jsonb(v_balance - v_before)));
+    v_bonus_total := v_bonus_total + (v_balance - v_before);
+  END LOOP;
+  v_bonuses := v_posted;
+
+  -- 6. Daily streak: freezes cover missed days, otherwise the streak starts over
+  v_streak := public.apply_streak_freezes(v_user_id);
+  IF v_streak.user_id IS NULL THEN
+    INSERT INTO public.daily_streaks (user_id, current_streak, longest_streak, last_practice_date, streak_start_date)
+    VALUES (v_user_id, 1, 1, v_today, v_today);
+    v_current_streak := 1;
+    v_is_new_day := true;
+  ELSIF v_streak.last_practice_date IS DISTINCT FROM v_today THEN
+    IF v_streak.current_streak > 0
+       AND GREATEST(v_streak.last_practice_date, v_streak.protected_through) >= v_today - 1 THEN
+      v_current_streak := v_streak.current_streak + 1;
+    ELSE
+      v_current_streak := 1;
+    END IF;
+    UPDATE public.daily_streaks
+    SET current_streak = v_current_streak,
+        longest_streak = GREATEST(longest_streak, v_current_streak),
+        last_practice_date = v_today,
+        streak_start_date = CASE WHEN v_current_streak > 1 THEN COALESCE(streak_start_date, v_today) ELSE v_today END
+    WHERE user_id = v_user_id;
+    v_is_new_day := true;
+    v_streak_extended := v_current_streak > 1;
+
+    v_freeze_every := COALESCE((v_config ->> 'streak_freeze_earn_days')::integer, 7);
+    IF v_streak_extended AND v_freeze_every > 0 AND v_current_streak % v_freeze_every = 0
+       AND COALESCE((v_config ->> 'streak_freezes_enabled')::integer, 1) <> 0 THEN
+      UPDATE public.daily_streaks
+      SET freezes_available = freezes_available + 1
+      WHERE user_id = v_user_id
+        AND freezes_available < COALESCE((v_config ->> 'streak_freeze_max_held')::integer, 2);
+      IF FOUND THEN
+        INSERT INTO public.streak_freeze_history (user_id, event, streak_length)
+        VALUES (v_user_id, 'earned', v_current_streak);
+        v_freeze_earned := true;
+      END IF;
+    END IF;
+  ELSE
+    v_current_streak := v_streak.current_streak;
+  END IF;
+
+  -- 7. Badges (rules see this take, the streak and the balance after it)
+  FOR v_badge IN
+    SELECT b.* FROM public.badges b
+    WHERE NOT EXISTS (SELECT 1 FROM public.user_badges ub WHERE ub.user_id = v_user_id AND ub.badge_id = b.id)
+    ORDER BY b.requirement_value, b.name
+  LOOP
+    v_earned := v_badge.rule IS NOT NULL AND public.badge_rule_met(v_user_id, v_badge.rule);
+    CONTINUE WHEN NOT v_earned;
+
+    INSERT INTO public.user_badges (user_id, badge_id) VALUES (v_user_id, v_badge.id)
+    ON CONFLICT (user_id, badge_id) DO NOTHING;
+    CONTINUE WHEN NOT FOUND;
+
+    IF v_badge.coins_reward > 0 THEN
+      v_balance := public.post_coin_transaction(
+        v_user_id, v_badge.coins_reward, 'badge', format('Earned badge: %s', v_badge.name));
+      v_badge_total := v_badge_total + v_badge.coins_reward;
+    END IF;
+    v_new_badges := v_new_badges || jsonb_build_array(jsonb_build_object(
+      'id', v_badge.id, 'name', v_badge.name, 'icon', v_badge.icon,
+      'rarity', v_badge.rarity, 'coins_reward', v_badge.coins_reward));
+  END LOOP;
+
+  v_outcome := jsonb_build_object(
+    'practice_id', v_practice_id,
+    'replayed', false,
+    'score', v_score,
+    'coins', jsonb_build_object(
+      'base', v_base,
+      'bonuses', v_bonuses,
+      'badges', v_badge_total,
+      'total', v_base + v_bonus_total + v_badge_total,
+      'limits', v_limits),
+    'balance', v_balance,
+    'progress', jsonb_build_object(
+      'attempts', v_progress.attempts,
+      'best_score', v_progress.best_score,
+      'mastery_level', v_progress.mastery_level),
+    'lesson', jsonb_build_object(
+      'completion_percent', v_percent_after,
+      'milestone', v_milestone),
+    'streak', jsonb_build_object(
+      'current_streak', v_current_streak,
+      'is_new_day', v_is_new_day,
+      'streak_extended', v_streak_extended,
+      'freeze_earned', v_freeze_earned),
+    'new_badges', v_new_badges);
+
+  UPDATE public.practice_history
+  SET coins_earned = v_base + v_bonus_total, settlement = v_outcome
+  WHERE id = v_practice_id;
+
+  RETURN v_outcome;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.settle_practice(text, uuid, text, integer, jsonb, text, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.settle_practice(text, uuid, text, integer, jsonb, text, jsonb) TO authenticated;
+
+-- Learners who meet a rule right now (for the badge editor). With p_badge_id,
+-- also whether each one already has that badge.
+CREATE OR REPLACE FUNCTION public.preview_badge_rule(p_rule jsonb, p_badge_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  email text,
+  already_earned boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can preview badge rules';
+  END IF;
+  IF NOT public.is_valid_badge_rule(p_rule) THEN
+    RAISE EXCEPTION 'This badge rule is not valid';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.display_name, p.email,
+         EXISTS (SELECT 1 FROM public.user_badges ub WHERE ub.user_id = p.id AND ub.badge_id = p_badge_id)
+  FROM public.profiles p
+  WHERE NOT public.has_role(p.id, 'admin'::public.app_role)
+    AND public.badge_rule_met(p.id, p_rule)
+  ORDER BY p.display_name NULLS LAST, p.email;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.preview_badge_rule(jsonb, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.preview_badge_rule(jsonb, uuid) TO authenticated;
+
+COMMIT;
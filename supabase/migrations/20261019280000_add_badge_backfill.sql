@@ -0,0 +1,396 @@
+-- Migration: Retroactive badge backfill
+-- Badges are only checked when a learner settles a practice, so a new badge
+-- reaches learners who already qualify whenever they next practice.
+-- backfill_badge() evaluates one badge for every learner against their
+-- history and awards it with the date they first met the rule, optionally
+-- with its coin reward.
+-- To find that date, badge rules can be evaluated as of a past moment
+-- (p_as_of): practice metrics count the takes up to then, streaks come from
+-- the practice days up to then (without freezes), vocab mastery from the
+-- takes of each item and coin metrics from the wallet's ledger legs.
+
+BEGIN;
+
+-- Replaced by the versions with p_as_of below; callers passing two
+-- arguments keep working through the default
+DROP FUNCTION IF EXISTS public.badge_rule_met(uuid, jsonb);
+DROP FUNCTION IF EXISTS public.badge_metric_value(uuid, jsonb);
+
+-- Value of one leaf rule's metric for a learner, over its window and scope.
+-- A class scope counts practice on the class's course between enrolling in
+-- the class and completing it (vocab mastery: items last practiced then, or
+-- with p_as_of, mastered by the takes of that period).
+-- p_as_of NULL = now, from the live tables.
+CREATE OR REPLACE FUNCTION public.badge_metric_value(p_user_id uuid, p_rule jsonb, p_as_of timestamptz DEFAULT NULL)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_metric text := p_rule ->> 'metric';
+  v_tz text := public.user_timezone(p_user_id);
+  v_until timestamptz := COALESCE(p_as_of, now());
+  v_until_date date := (COALESCE(p_as_of, now()) AT TIME ZONE public.user_timezone(p_user_id))::date;
+  v_from date;
+  v_course_id uuid := (p_rule #>> '{scope,course_id}')::uuid;
+  v_class_id uuid := (p_rule #>> '{scope,class_id}')::uuid;
+  v_class_course_id uuid;
+  v_category text := p_rule #>> '{scope,category}';
+  v_value numeric;
+BEGIN
+  IF p_rule ? 'window_days' THEN
+    v_from := v_until_date - ((p_rule ->> 'window_days')::integer - 1);
+  END IF;
+
+  IF v_class_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM public.enrollments WHERE user_id = p_user_id AND class_id = v_class_id) THEN
+      RETURN 0;
+    END IF;
+    SELECT course_id INTO v_class_course_id FROM public.course_classes WHERE id = v_class_id;
+  END IF;
+
+  CASE
+    WHEN v_metric IN ('practice_count', 'high_scores', 'perfect_scores', 'average_score', 'best_score',
+                      'practice_days', 'early_practices', 'late_practices') THEN
+      SELECT CASE v_metric
+          WHEN 'practice_count' THEN count(*)
+          WHEN 'high_scores' THEN count(*) FILTER (WHERE ph.score >= 80)
+          WHEN 'perfect_scores' THEN count(*) FILTER (WHERE ph.score >= 95)
+          WHEN 'average_score' THEN COALESCE(round(avg(ph.score), 1), 0)
+          WHEN 'best_score' THEN COALESCE(max(ph.score), 0)
+          WHEN 'practice_days' THEN count(DISTINCT (ph.practiced_at AT TIME ZONE v_tz)::date)
+          WHEN 'early_practices' THEN count(*) FILTER (WHERE extract(hour FROM ph.practiced_at AT TIME ZONE v_tz) < 8)
+          WHEN 'late_practices' THEN count(*) FILTER (WHERE extract(hour FROM ph.practiced_at AT TIME ZONE v_tz) >= 22)
+        END
+        INTO v_value
+      FROM public.practice_history ph
+      LEFT JOIN public.lessons l ON l.id = ph.lesson_id
+      WHERE ph.user_id = p_user_id
+        AND ph.practiced_at <= v_until
+        AND (v_from IS NULL OR (ph.practiced_at AT TIME ZONE v_tz)::date >= v_from)
+        AND (v_course_id IS NULL OR l.course_id = v_course_id)
+        AND (v_class_id IS NULL OR (l.course_id = v_class_course_id AND EXISTS (
+          SELECT 1 FROM public.enrollments e
+          WHERE e.user_id = p_user_id AND e.class_id = v_class_id
+            AND ph.practiced_at >= e.enrolled_at AND (e.completed_at IS NULL OR ph.practiced_at <= e.completed_at))))
+        AND (v_category IS NULL OR ph.category = v_category);
+
+    WHEN v_metric = 'vocab_mastered' AND p_as_of IS NULL THEN
+      SELECT count(*) INTO v_value
+      FROM public.user_progress up
+      LEFT JOIN public.lessons l ON l.id = up.lesson_id
+      WHERE up.user_id = p_user_id
+        AND up.mastery_level >= 3
+        AND (v_course_id IS NULL OR l.course_id = v_course_id)
+        AND (v_class_id IS NULL OR (l.course_id = v_class_course_id AND EXISTS (
+          SELECT 1 FROM public.enrollments e
+          WHERE e.user_id = p_user_id AND e.class_id = v_class_id
+            AND up.last_practiced_at >= e.enrolled_at AND (e.completed_at IS NULL OR up.last_practiced_at <= e.completed_at))))
+        AND (v_category IS NULL OR up.category = v_category);
+
+    WHEN v_metric = 'vocab_mastered' THEN
+      SELECT count(*) INTO v_value
+      FROM (
+        SELECT ph.lesson_id
+        FROM public.practice_history ph
+        LEFT JOIN public.lessons l ON l.id = ph.lesson_id
+        WHERE ph.user_id = p_user_id
+          AND ph.practiced_at <= v_until
+          AND (v_course_id IS NULL OR l.course_id = v_course_id)
+          AND (v_class_id IS NULL OR (l.course_id = v_class_course_id AND EXISTS (
+            SELECT 1 FROM public.enrollments e
+            WHERE e.user_id = p_user_id AND e.class_id = v_class_id
+              AND ph.practiced_at >= e.enrolled_at AND (e.completed_at IS NULL OR ph.practiced_at <= e.completed_at))))
+          AND (v_category IS NULL OR ph.category = v_category)
+        GROUP BY ph.lesson_id, ph.category, ph.item_index
+        HAVING public.practice_mastery(count(*)::integer, max(ph.score)) >= 3
+      ) items;
+
+    WHEN v_metric IN ('current_streak', 'longest_streak') AND p_as_of IS NULL THEN
+      SELECT CASE v_metric WHEN 'current_streak' THEN current_streak ELSE longest_streak END
+        INTO v_value
+      FROM public.daily_streaks
+      WHERE user_id = p_user_id;
+
+    WHEN v_metric IN ('current_streak', 'longest_streak') THEN
+      -- Consecutive practice days share practice_day - row_number()
+      WITH days AS (
+        SELECT DISTINCT (practiced_at AT TIME ZONE v_tz)::date AS practice_day
+        FROM public.practice_history
+        WHERE user_id = p_user_id AND practiced_at <= v_until
+      ),
+      runs AS (
+        SELECT practice_day, practice_day - (row_number() OVER (ORDER BY practice_day))::integer AS run
+        FROM days
+      )
+      SELECT CASE v_metric
+          WHEN 'longest_streak' THEN (SELECT max(c) FROM (SELECT count(*) AS c FROM runs GROUP BY run) r)
+          -- Still current if it reached yesterday
+          ELSE (SELECT count(*) FROM runs WHERE run = (
+            SELECT run FROM runs WHERE practice_day >= v_until_date - 1 ORDER BY practice_day DESC LIMIT 1))
+        END
+        INTO v_value;
+
+    WHEN v_metric IN ('coin_balance', 'coins_earned') AND p_as_of IS NULL THEN
+      SELECT CASE v_metric WHEN 'coin_balance' THEN balance ELSE total_earned END
+        INTO v_value
+      FROM public.user_wallets
+      WHERE user_id = p_user_id;
+
+    WHEN v_metric IN ('coin_balance', 'coins_earned') THEN
+      SELECT CASE v_metric WHEN 'coin_balance' THEN sum(credit - debit) ELSE sum(credit) END
+        INTO v_value
+      FROM public.coin_ledger_entries
+      WHERE user_id = p_user_id AND account = 'wallet' AND created_at <= v_until;
+
+    ELSE
+      v_value := 0;
+  END CASE;
+
+  RETURN COALESCE(v_value, 0);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.badge_metric_value(uuid, jsonb, timestamptz) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.badge_rule_met(p_user_id uuid, p_rule jsonb, p_as_of timestamptz DEFAULT NULL)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_part jsonb;
+  v_value numeric;
+  v_target numeric;
+BEGIN
+  IF p_rule ? 'all' THEN
+    FOR v_part IN SELECT value FROM jsonb_array_elements(p_rule -> 'all') LOOP
+      IF NOT public.badge_rule_met(p_user_id, v_part, p_as_of) THEN
+        RETURN false;
+      END IF;
+    END LOOP;
+    RETURN true;
+  END IF;
+
+  IF p_rule ? 'any' THEN
+    FOR v_part IN SELECT value FROM jsonb_array_elements(p_rule -> 'any') LOOP
+      IF public.badge_rule_met(p_user_id, v_part, p_as_of) THEN
+        RETURN true;
+      END IF;
+    END LOOP;
+    RETURN false;
+  END IF;
+
+  v_value := public.badge_metric_value(p_user_id, p_rule, p_as_of);
+  v_target := (p_rule ->> 'value')::numeric;
+
+  RETURN CASE p_rule ->> 'op'
+    WHEN '>=' THEN v_value >= v_target
+    WHEN '>' THEN v_value > v_target
+    WHEN '=' THEN v_value = v_target
+    WHEN '<=' THEN v_value <= v_target
+    WHEN '<' THEN v_value < v_target
+    ELSE false
+  END;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.badge_rule_met(uuid, jsonb, timestamptz) FROM PUBLIC, anon, authenticated;
+
+-- True when a rule, once met, stays met as history grows: only >= and >
+-- leaves on all-time totals that never go down
+CREATE OR REPLACE FUNCTION public.badge_rule_monotonic(p_rule jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_part jsonb;
+BEGIN
+  IF p_rule ? 'all' OR p_rule ? 'any' THEN
+    FOR v_part IN SELECT value FROM jsonb_array_elements(COALESCE(p_rule -> 'all', p_rule -> 'any')) LOOP
+      IF NOT public.badge_rule_monotonic(v_part) THEN
+        RETURN false;
+      END IF;
+    END LOOP;
+    RETURN true;
+  END IF;
+
+  RETURN p_rule ->> 'op' IN ('>=', '>')
+    AND NOT p_rule ? 'window_days'
+    AND p_rule ->> 'metric' IN ('practice_count', 'high_scores', 'perfect_scores', 'best_score', 'practice_days',
+                                'early_practices', 'late_practices', 'vocab_mastered', 'longest_streak',
+                                'coins_earned');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.badge_rule_monotonic(jsonb) FROM PUBLIC, anon, authenticated;
+
+-- When a learner first met a rule: the earliest practice or wallet entry
+-- after which it held. Monotonic rules are binary searched over every
+-- moment. The others are checked once per day, at its last moment, which
+-- keeps the scan to the number of active days; a rule that held only in the
+-- middle of a day is missed. NULL if their history never met it.
+CREATE OR REPLACE FUNCTION public.badge_first_met_at(p_user_id uuid, p_rule jsonb)
+RETURNS timestamptz
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_moments timestamptz[];
+  v_low integer;
+  v_high integer;
+  v_mid integer;
+  v_moment timestamptz;
+  v_tz text;
+BEGIN
+  SELECT array_agg(moment ORDER BY moment) INTO v_moments
+  FROM (
+    SELECT practiced_at AS moment FROM public.practice_history WHERE user_id = p_user_id
+    UNION
+    SELECT created_at FROM public.coin_ledger_entries WHERE user_id = p_user_id AND account = 'wallet'
+  ) moments;
+
+  IF v_moments IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF public.badge_rule_monotonic(p_rule) THEN
+    v_low := 1;
+    v_high := array_length(v_moments, 1);
+    IF NOT public.badge_rule_met(p_user_id, p_rule, v_moments[v_high]) THEN
+      RETURN NULL;
+    END IF;
+    WHILE v_low < v_high LOOP
+      v_mid := (v_low + v_high) / 2;
+      IF public.badge_rule_met(p_user_id, p_rule, v_moments[v_mid]) THEN
+        v_high := v_mid;
+      ELSE
+        v_low := v_mid + 1;
+      END IF;
+    END LOOP;
+    RETURN v_moments[v_low];
+  END IF;
+
+  v_tz := public.user_timezone(p_user_id);
+  FOR v_moment IN
+    SELECT max(moment) FROM unnest(v_moments) moment
+    GROUP BY (moment AT TIME ZONE v_tz)::date
+    ORDER BY 1
+  LOOP
+    IF public.badge_rule_met(p_user_id, p_rule, v_moment) THEN
+      RETURN v_moment;
+    END IF;
+  END LOOP;
+  RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.badge_first_met_at(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Awards a badge to every learner who has met its rule and does not hold it
+-- (or a higher tier of its group), dated when they first met it. Learners
+-- who only meet it now, e.g. thanks to a streak freeze, get today's date.
+-- With p_grant_coins the badge's coin reward is posted as well.
+-- Learners are processed in batches of p_limit, ordered by id, after
+-- p_after. The result's next_after is the cursor for the next batch, null
+-- after the last one.
+CREATE OR REPLACE FUNCTION public.backfill_badge(
+  p_badge_id uuid,
+  p_grant_coins boolean DEFAULT false,
+  p_after uuid DEFAULT NULL,
+  p_limit integer DEFAULT 100
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_badge public.badges%ROWTYPE;
+  v_learner uuid;
+  v_earned_at timestamptz;
+  v_upgraded boolean;
+  v_last_learner uuid;
+  v_batch integer := 0;
+  v_evaluated integer := 0;
+  v_awarded integer := 0;
+  v_upgrades integer := 0;
+  v_coins integer := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only admins can backfill badges';
+  END IF;
+
+  SELECT * INTO v_badge FROM public.badges WHERE id = p_badge_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Badge not found';
+  END IF;
+  IF v_badge.rule IS NULL THEN
+    RAISE EXCEPTION 'This badge has no rule to evaluate';
+  END IF;
+  IF p_limit IS NULL OR p_limit NOT BETWEEN 1 AND 500 THEN
+    RAISE EXCEPTION 'The batch size must be between 1 and 500';
+  END IF;
+
+  FOR v_learner IN
+    SELECT p.id FROM public.profiles p
+    WHERE (p_after IS NULL OR p.id > p_after)
+    ORDER BY p.id
+    LIMIT p_limit
+  LOOP
+    v_last_learner := v_learner;
+    v_batch := v_batch + 1;
+    CONTINUE WHEN public.has_role(v_learner, 'admin'::public.app_role)
+      OR EXISTS (
+        SELECT 1 FROM public.user_badges ub
+        JOIN public.badges hb ON hb.id = ub.badge_id
+        WHERE ub.user_id = v_learner
+          AND (hb.id = v_badge.id OR (hb.tier_group = v_badge.tier_group AND hb.tier >= v_badge.tier)));
+    v_evaluated := v_evaluated + 1;
+
+    v_earned_at := public.badge_first_met_at(v_learner, v_badge.rule);
+    IF v_earned_at IS NULL AND public.badge_rule_met(v_learner, v_badge.rule) THEN
+      v_earned_at := now();
+    END IF;
+    CONTINUE WHEN v_earned_at IS NULL;
+
+    v_upgraded := public.upgrade_user_badge_tier(v_learner, v_badge, v_earned_at);
+    IF NOT v_upgraded THEN
+      INSERT INTO public.user_badges (user_id, badge_id, earned_at) VALUES (v_learner, v_badge.id, v_earned_at)
+      ON CONFLICT (user_id, badge_id) DO NOTHING;
+      CONTINUE WHEN NOT FOUND;
+    END IF;
+
+    IF v_upgraded THEN
+      v_upgrades := v_upgrades + 1;
+    ELSE
+      v_awarded := v_awarded + 1;
+    END IF;
+
+    IF p_grant_coins AND v_badge.coins_reward > 0 THEN
+      PERFORM public.post_coin_transaction(
+        v_learner, v_badge.coins_reward, 'badge', format('Earned badge: %s', v_badge.name), v_badge.id);
+      v_coins := v_coins + v_badge.coins_reward;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'evaluated', v_evaluated,
+    'awarded', v_awarded,
+    'upgraded', v_upgrades,
+    'coins_granted', v_coins,
+    'next_after', CASE WHEN v_batch = p_limit THEN v_last_learner END);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.backfill_badge(uuid, boolean, uuid, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.backfill_badge(uuid, boolean, uuid, integer) TO authenticated;
+
+COMMIT;